@@ -1,3 +1,7 @@
+-- SUPERSEDED: the live schema is built from supabase/migrations (apply in filename
+-- order, or run scripts/reset-local-db.sh). This file is kept as the original
+-- sketch and for the verification queries at the bottom.
+
 -- -- ============================================
 -- -- 1. EXTENSIONS
 -- -- ============================================
@@ -81,6 +85,21 @@
 -- CREATE POLICY "Users can view own sync history" ON sync_history 
 --     FOR SELECT USING (auth.uid() = user_id);
 
+-- -- ============================================
+-- -- 6. CERTIFICATES (Interim Valuations)
+-- -- ============================================
+-- -- Now created by supabase/migrations/20261019090050_certificates.sql
+
+-- -- ============================================
+-- -- 7. TOMBSTONES (Pull Sync Deletes)
+-- -- ============================================
+-- -- Now created by supabase/migrations/20261019090310_pull_sync.sql
+
+-- -- ============================================
+-- -- 8. REALTIME (Live Project Collaboration)
+-- -- ============================================
+-- -- Now set up by supabase/migrations/20261019090320_realtime.sql
+
 -- Check if all tables exist
 SELECT table_name 
 FROM information_schema.tables 
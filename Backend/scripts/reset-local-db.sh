@@ -0,0 +1,28 @@
+#!/usr/bin/env sh
+# Rebuilds a local database from Backend/supabase/migrations and loads the demo seed.
+#
+#   Supabase CLI (run from Backend/):   supabase db reset
+#   Plain Postgres:                     DATABASE_URL=postgres://postgres@localhost:5432/qsvault sh Backend/scripts/reset-local-db.sh
+#
+# On plain Postgres the auth and public schemas are DROPPED and rebuilt, with
+# supabase/local/auth_stub.sql standing in for Supabase Auth. Realtime and
+# Storage setup is skipped there.
+set -eu
+
+: "${DATABASE_URL:?Set DATABASE_URL to the database to rebuild}"
+
+SUPABASE_DIR="$(cd "$(dirname "$0")/../supabase" && pwd)"
+PSQL="psql $DATABASE_URL -v ON_ERROR_STOP=1 --quiet"
+
+echo "Resetting schemas..."
+$PSQL -c "DROP SCHEMA IF EXISTS public CASCADE; DROP SCHEMA IF EXISTS auth CASCADE; CREATE SCHEMA public;"
+$PSQL -f "$SUPABASE_DIR/local/auth_stub.sql"
+
+for migration in "$SUPABASE_DIR"/migrations/*.sql; do
+  echo "Applying $(basename "$migration")"
+  $PSQL -f "$migration"
+done
+
+echo "Seeding demo office..."
+$PSQL -f "$SUPABASE_DIR/seed.sql"
+echo "Done. Sign in as surveyor@qsvault.local / vault-demo-2026"
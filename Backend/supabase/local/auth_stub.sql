@@ -0,0 +1,75 @@
+-- ============================================
+-- AUTH STAND-IN (plain Postgres only)
+-- The parts of Supabase the migrations lean on: the auth schema and users
+-- table, auth.uid(), and the API roles. Never run this against Supabase.
+--
+-- To act as a user when testing policies:
+--   SET ROLE authenticated;
+--   SELECT set_config('request.jwt.claim.sub', '<user id>', false);
+-- ============================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+        CREATE ROLE anon NOLOGIN NOINHERIT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+        CREATE ROLE authenticated NOLOGIN NOINHERIT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+        CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+    END IF;
+END;
+$$;
+
+GRANT anon, authenticated, service_role TO CURRENT_USER;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+    instance_id UUID,
+    id UUID PRIMARY KEY,
+    aud VARCHAR(255),
+    role VARCHAR(255),
+    email VARCHAR(255) UNIQUE,
+    encrypted_password VARCHAR(255),
+    email_confirmed_at TIMESTAMP WITH TIME ZONE,
+    confirmation_token VARCHAR(255) DEFAULT '',
+    recovery_token VARCHAR(255) DEFAULT '',
+    email_change_token_new VARCHAR(255) DEFAULT '',
+    email_change VARCHAR(255) DEFAULT '',
+    raw_app_meta_data JSONB,
+    raw_user_meta_data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS auth.identities (
+    id UUID PRIMARY KEY,
+    provider_id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    identity_data JSONB NOT NULL,
+    provider TEXT NOT NULL,
+    last_sign_in_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (provider_id, provider)
+);
+
+-- Same lookup as Supabase: the JWT subject PostgREST puts in the request settings
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS UUID
+LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(
+        NULLIF(current_setting('request.jwt.claim.sub', TRUE), ''),
+        (NULLIF(current_setting('request.jwt.claims', TRUE), '')::JSONB ->> 'sub')
+    )::UUID;
+$$;
+
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION auth.uid() TO anon, authenticated, service_role;
+
+-- Supabase grants table access to the API roles and leaves the rest to RLS
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
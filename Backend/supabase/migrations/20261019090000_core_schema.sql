@@ -0,0 +1,127 @@
+-- ============================================
+-- CORE SCHEMA
+-- Mirrors the record types in frontend/src/lib/database/database.ts.
+-- Ids are generated on the device so records can be created offline.
+-- updated_at is written by the client and never touched by triggers: the sync
+-- engine compares it against the version each device last saw.
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- 1. PROFILES
+-- ============================================
+CREATE TABLE public.profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    username VARCHAR(100) UNIQUE,
+    full_name VARCHAR(255),
+    avatar_url TEXT,
+    role VARCHAR(20) NOT NULL DEFAULT 'user'
+        CHECK (role IN ('user', 'editor', 'admin', 'super-admin')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================
+-- 2. PROJECTS
+-- ============================================
+CREATE TABLE public.projects (
+    id UUID PRIMARY KEY,
+    -- References profiles so PostgREST can embed the owner's username
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    location VARCHAR(255),
+    client_name VARCHAR(255),
+    contract_sum DECIMAL(15, 2) DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'completed', 'archived')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX projects_user_id_idx ON public.projects (user_id);
+
+-- ============================================
+-- 3. BILL ITEMS (BoQ)
+-- ============================================
+CREATE TABLE public.bill_items (
+    id UUID PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    item_code VARCHAR(50), -- e.g. "A", page letters skip I and O
+    section VARCHAR(255), -- SMM work section the item is billed under
+    description TEXT NOT NULL,
+    unit VARCHAR(10) NOT NULL CHECK (unit IN ('m3', 'm2', 'm', 'nr', 'kg', 't')),
+    rate DECIMAL(15, 2) DEFAULT 0,
+    quantity DECIMAL(15, 4) DEFAULT 0,
+    sort_order DOUBLE PRECISION NOT NULL DEFAULT 0,
+    amount DECIMAL(15, 2) GENERATED ALWAYS AS (quantity * rate) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX bill_items_project_id_idx ON public.bill_items (project_id, sort_order);
+
+-- ============================================
+-- 4. DRAWINGS (PDF lives in the "drawings" Storage bucket)
+-- ============================================
+CREATE TABLE public.drawings (
+    id UUID PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    sheet_name VARCHAR(255) NOT NULL,
+    revision VARCHAR(50),
+    file_name VARCHAR(255),
+    file_size BIGINT DEFAULT 0,
+    page_count INTEGER DEFAULT 1,
+    page_scales JSONB DEFAULT '{}'::JSONB, -- Calibrated pixels-per-metre per sheet
+    storage_path TEXT,
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX drawings_project_id_idx ON public.drawings (project_id);
+
+-- ============================================
+-- 5. MEASUREMENTS (Digital Takeoff)
+-- ============================================
+CREATE TABLE public.measurements (
+    id UUID PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    bill_item_id UUID REFERENCES public.bill_items(id) ON DELETE SET NULL,
+    label VARCHAR(255),
+    type VARCHAR(10) NOT NULL CHECK (type IN ('length', 'area', 'count')),
+    value DECIMAL(15, 4) NOT NULL,
+    unit VARCHAR(10) NOT NULL,
+    "sectionCode" VARCHAR(100), -- SMM work section, camelCase to match the client record
+    points JSONB, -- Drawing-space coordinates for the overlay
+    -- No foreign key: the sample blueprint and unsaved uploads get ids that never reach the drawings table
+    drawing_id UUID,
+    page INTEGER NOT NULL DEFAULT 1,
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX measurements_project_id_idx ON public.measurements (project_id);
+CREATE INDEX measurements_bill_item_id_idx ON public.measurements (bill_item_id);
+CREATE INDEX measurements_drawing_page_idx ON public.measurements (drawing_id, page);
+CREATE INDEX measurements_timestamp_idx ON public.measurements (timestamp DESC);
+
+-- ============================================
+-- 6. SYNC HISTORY (Backend side reconciliation log)
+-- ============================================
+CREATE TABLE public.sync_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    table_name VARCHAR(100),
+    record_id UUID,
+    status VARCHAR(20) DEFAULT 'success',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX sync_history_user_id_idx ON public.sync_history (user_id, created_at DESC);
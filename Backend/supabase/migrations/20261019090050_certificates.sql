@@ -0,0 +1,30 @@
+-- ============================================
+-- CERTIFICATES (Interim Valuations)
+-- One row per issued IPC. sequence numbers a project's certificates 1, 2, 3...
+-- and cert_number is its printed form (IPC/001). Row level security is set up
+-- with the other project records in the next migration.
+-- ============================================
+
+CREATE TABLE public.certificates (
+    id UUID PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    cert_number VARCHAR(20) NOT NULL,
+    valuation_date DATE NOT NULL,
+    contractor VARCHAR(255),
+    work_executed DECIMAL(15, 2) DEFAULT 0,
+    materials_on_site DECIMAL(15, 2) DEFAULT 0,
+    gross_valuation DECIMAL(15, 2) DEFAULT 0,
+    retention_percent DECIMAL(5, 2) DEFAULT 10,
+    retention_amount DECIMAL(15, 2) DEFAULT 0,
+    previous_certified DECIMAL(15, 2) DEFAULT 0,
+    amount_due DECIMAL(15, 2) DEFAULT 0,
+    vat_amount DECIMAL(15, 2) DEFAULT 0,
+    total_due DECIMAL(15, 2) DEFAULT 0,
+    is_paid BOOLEAN NOT NULL DEFAULT FALSE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (project_id, sequence)
+);
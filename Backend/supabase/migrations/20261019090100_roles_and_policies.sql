@@ -0,0 +1,146 @@
+-- ============================================
+-- ROLES & ROW LEVEL SECURITY
+-- Roles rank user < editor < admin < super-admin (see UserRole in the client).
+--   user         manages their own projects and everything under them
+--   editor       also reads every project in the office for QA
+--   admin        also deletes projects and changes roles below super-admin
+--   super-admin  may change anything
+-- ============================================
+
+-- ============================================
+-- 1. ROLE HELPERS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.role_rank(role_name TEXT) RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE role_name
+        WHEN 'user' THEN 1
+        WHEN 'editor' THEN 2
+        WHEN 'admin' THEN 3
+        WHEN 'super-admin' THEN 4
+        ELSE 0
+    END;
+$$;
+
+-- SECURITY DEFINER so policies on profiles can ask without recursing into themselves
+CREATE OR REPLACE FUNCTION public.current_user_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT role FROM public.profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(minimum TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT COALESCE(public.role_rank(public.current_user_role()) >= public.role_rank(minimum), FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION public.owns_project(target UUID) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (SELECT 1 FROM public.projects WHERE id = target AND user_id = auth.uid());
+$$;
+
+-- ============================================
+-- 2. ROLE CHANGES
+-- ============================================
+-- Policies cannot see which columns an UPDATE touches, so role changes are checked here.
+-- Requests without a signed-in user (service key, migrations, seeds) are trusted.
+CREATE OR REPLACE FUNCTION public.guard_role_change() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NEW.role IS NOT DISTINCT FROM OLD.role OR auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+    IF NOT public.has_role('admin') THEN
+        RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+    END IF;
+    IF NOT public.has_role('super-admin') AND 'super-admin' IN (OLD.role, NEW.role) THEN
+        RAISE EXCEPTION 'Only a super-admin can grant or revoke super-admin' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_role BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_role_change();
+
+-- ============================================
+-- 3. PROFILES
+-- ============================================
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Profiles readable by owner and editors" ON public.profiles
+    FOR SELECT USING (id = auth.uid() OR public.has_role('editor'));
+
+-- Devices upsert their own profile; a new one always starts as a plain user
+CREATE POLICY "Users can create own profile" ON public.profiles
+    FOR INSERT WITH CHECK (id = auth.uid() AND role = 'user');
+
+CREATE POLICY "Users can update own profile" ON public.profiles
+    FOR UPDATE USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Admins can update profiles" ON public.profiles
+    FOR UPDATE USING (public.has_role('admin') AND (role <> 'super-admin' OR public.has_role('super-admin')))
+    WITH CHECK (public.has_role('admin'));
+
+CREATE POLICY "Super-admins can delete profiles" ON public.profiles
+    FOR DELETE USING (public.has_role('super-admin'));
+
+-- ============================================
+-- 4. PROJECTS
+-- ============================================
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Projects readable by owner and editors" ON public.projects
+    FOR SELECT USING (user_id = auth.uid() OR public.has_role('editor'));
+
+CREATE POLICY "Users can create own projects" ON public.projects
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Owners and super-admins can update projects" ON public.projects
+    FOR UPDATE USING (user_id = auth.uid() OR public.has_role('super-admin'))
+    WITH CHECK (user_id = auth.uid() OR public.has_role('super-admin'));
+
+-- Children go with the project through ON DELETE CASCADE
+CREATE POLICY "Owners and admins can delete projects" ON public.projects
+    FOR DELETE USING (user_id = auth.uid() OR public.has_role('admin'));
+
+-- ============================================
+-- 5. PROJECT RECORDS (bill items, measurements, drawings, certificates)
+-- ============================================
+ALTER TABLE public.bill_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.measurements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drawings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bill items readable by owner and editors" ON public.bill_items
+    FOR SELECT USING (public.owns_project(project_id) OR public.has_role('editor'));
+CREATE POLICY "Bill items writable by owner" ON public.bill_items
+    FOR ALL USING (public.owns_project(project_id) OR public.has_role('super-admin'))
+    WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+CREATE POLICY "Measurements readable by owner and editors" ON public.measurements
+    FOR SELECT USING (public.owns_project(project_id) OR public.has_role('editor'));
+CREATE POLICY "Measurements writable by owner" ON public.measurements
+    FOR ALL USING (public.owns_project(project_id) OR public.has_role('super-admin'))
+    WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+CREATE POLICY "Drawings readable by owner and editors" ON public.drawings
+    FOR SELECT USING (public.owns_project(project_id) OR public.has_role('editor'));
+CREATE POLICY "Drawings writable by owner" ON public.drawings
+    FOR ALL USING (public.owns_project(project_id) OR public.has_role('super-admin'))
+    WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+CREATE POLICY "Certificates readable by owner and editors" ON public.certificates
+    FOR SELECT USING (public.owns_project(project_id) OR public.has_role('editor'));
+CREATE POLICY "Certificates writable by owner" ON public.certificates
+    FOR ALL USING (public.owns_project(project_id) OR public.has_role('super-admin'))
+    WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+-- ============================================
+-- 6. SYNC HISTORY
+-- ============================================
+ALTER TABLE public.sync_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sync history readable by owner and admins" ON public.sync_history
+    FOR SELECT USING (user_id = auth.uid() OR public.has_role('admin'));
+
+CREATE POLICY "Users can log own sync history" ON public.sync_history
+    FOR INSERT WITH CHECK (user_id = auth.uid());
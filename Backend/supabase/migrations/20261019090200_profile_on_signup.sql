@@ -0,0 +1,39 @@
+-- ============================================
+-- PROFILE ON SIGNUP
+-- Every new auth user gets a profile straight away, so role checks and the
+-- projects → profiles join never meet a missing row.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    requested TEXT := NULLIF(TRIM(COALESCE(NEW.raw_user_meta_data ->> 'username', split_part(NEW.email, '@', 1))), '');
+    chosen TEXT := requested;
+BEGIN
+    -- Usernames are unique; a taken one gets part of the user id appended
+    IF chosen IS NOT NULL AND EXISTS (SELECT 1 FROM public.profiles WHERE username = chosen) THEN
+        chosen := requested || '-' || LEFT(NEW.id::TEXT, 8);
+    END IF;
+
+    INSERT INTO public.profiles (id, username, full_name, avatar_url, updated_at)
+    VALUES (
+        NEW.id,
+        chosen,
+        NEW.raw_user_meta_data ->> 'full_name',
+        NEW.raw_user_meta_data ->> 'avatar_url',
+        NOW()
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Users who signed up before this migration
+INSERT INTO public.profiles (id, username, full_name, updated_at)
+SELECT u.id, NULL, u.raw_user_meta_data ->> 'full_name', NOW()
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,49 @@
+-- ============================================
+-- DRAWING STORAGE
+-- Uploaded drawing PDFs live in a private Storage bucket.
+-- ============================================
+
+-- PDFs are stored as "<project_id>/<drawing_id>.pdf"; the folder names the project
+CREATE OR REPLACE FUNCTION public.can_read_drawing_object(object_name TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.has_role('editor') OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id::TEXT = split_part(object_name, '/', 1) AND user_id = auth.uid()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_write_drawing_object(object_name TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.has_role('super-admin') OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id::TEXT = split_part(object_name, '/', 1) AND user_id = auth.uid()
+    );
+$$;
+
+-- Skipped on plain Postgres, which has no storage schema
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.schemata WHERE schema_name = 'storage') THEN
+        INSERT INTO storage.buckets (id, name, public)
+        VALUES ('drawings', 'drawings', FALSE)
+        ON CONFLICT (id) DO NOTHING;
+
+        EXECUTE $policy$
+            CREATE POLICY "Drawing files readable by project owner and editors" ON storage.objects
+                FOR SELECT USING (bucket_id = 'drawings' AND public.can_read_drawing_object(name))
+        $policy$;
+        EXECUTE $policy$
+            CREATE POLICY "Drawing files uploadable by project owner" ON storage.objects
+                FOR INSERT WITH CHECK (bucket_id = 'drawings' AND public.can_write_drawing_object(name))
+        $policy$;
+        EXECUTE $policy$
+            CREATE POLICY "Drawing files replaceable by project owner" ON storage.objects
+                FOR UPDATE USING (bucket_id = 'drawings' AND public.can_write_drawing_object(name))
+        $policy$;
+        EXECUTE $policy$
+            CREATE POLICY "Drawing files removable by project owner" ON storage.objects
+                FOR DELETE USING (bucket_id = 'drawings' AND public.can_write_drawing_object(name))
+        $policy$;
+    END IF;
+END;
+$$;
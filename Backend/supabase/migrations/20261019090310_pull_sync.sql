@@ -0,0 +1,52 @@
+-- ============================================
+-- PULL SYNC
+-- Pull sync reads each table in (updated_at, id) order and learns about deletes
+-- from tombstones.
+-- ============================================
+
+-- ============================================
+-- 1. PULL INDEXES
+-- ============================================
+CREATE INDEX projects_updated_at_idx ON public.projects (updated_at, id);
+CREATE INDEX bill_items_updated_at_idx ON public.bill_items (updated_at, id);
+CREATE INDEX measurements_updated_at_idx ON public.measurements (updated_at, id);
+CREATE INDEX certificates_updated_at_idx ON public.certificates (updated_at, id);
+
+-- ============================================
+-- 2. TOMBSTONES
+-- ============================================
+CREATE TABLE public.tombstones (
+    id BIGSERIAL PRIMARY KEY,
+    table_name VARCHAR(100) NOT NULL,
+    record_id UUID NOT NULL,
+    project_id UUID,
+    user_id UUID DEFAULT auth.uid(),
+    deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX tombstones_deleted_at_idx ON public.tombstones (deleted_at, id);
+CREATE INDEX tombstones_project_id_idx ON public.tombstones (project_id);
+
+CREATE OR REPLACE FUNCTION public.record_tombstone() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.tombstones (table_name, record_id, project_id)
+    VALUES (
+        TG_TABLE_NAME,
+        OLD.id,
+        CASE WHEN TG_TABLE_NAME = 'projects' THEN OLD.id ELSE (to_jsonb(OLD) ->> 'project_id')::UUID END
+    );
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER projects_tombstone AFTER DELETE ON public.projects FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+CREATE TRIGGER bill_items_tombstone AFTER DELETE ON public.bill_items FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+CREATE TRIGGER measurements_tombstone AFTER DELETE ON public.measurements FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+CREATE TRIGGER certificates_tombstone AFTER DELETE ON public.certificates FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+
+ALTER TABLE public.tombstones ENABLE ROW LEVEL SECURITY;
+
+-- The project row is gone by the time its tombstone is read, so the deleter is matched too
+CREATE POLICY "Tombstones readable by project owner and editors" ON public.tombstones
+    FOR SELECT USING (user_id = auth.uid() OR public.owns_project(project_id) OR public.has_role('editor'));
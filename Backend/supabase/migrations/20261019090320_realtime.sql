@@ -0,0 +1,15 @@
+-- ============================================
+-- REALTIME
+-- Open projects stream measurement and bill item changes to everyone viewing
+-- them. Deletes cannot be filtered by project, so the client checks each one
+-- against the records it holds.
+-- ============================================
+
+-- Skipped on plain Postgres, which has no supabase_realtime publication
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.measurements, public.bill_items;
+    END IF;
+END;
+$$;
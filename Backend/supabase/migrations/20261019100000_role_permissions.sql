@@ -0,0 +1,43 @@
+-- ============================================
+-- ROLE PERMISSIONS
+-- Server side of PERMISSIONS in frontend/src/features/auth/permissions.ts:
+--   certificate  issue / edit: editor on own project, super-admin on any
+--   measurement  delete: owner, or admin on any project
+-- ============================================
+
+-- ============================================
+-- 1. CERTIFICATES (professional sign-off)
+-- ============================================
+DROP POLICY "Certificates writable by owner" ON public.certificates;
+
+CREATE POLICY "Certificates issued by editors" ON public.certificates
+    FOR INSERT WITH CHECK (
+        (public.owns_project(project_id) AND public.has_role('editor')) OR public.has_role('super-admin')
+    );
+
+CREATE POLICY "Certificates updated by editors" ON public.certificates
+    FOR UPDATE USING (
+        (public.owns_project(project_id) AND public.has_role('editor')) OR public.has_role('super-admin')
+    )
+    WITH CHECK (
+        (public.owns_project(project_id) AND public.has_role('editor')) OR public.has_role('super-admin')
+    );
+
+-- An issued certificate is a contract record; only a super-admin may withdraw one
+CREATE POLICY "Certificates deleted by super-admins" ON public.certificates
+    FOR DELETE USING (public.has_role('super-admin'));
+
+-- ============================================
+-- 2. MEASUREMENTS (admins may purge during QA)
+-- ============================================
+DROP POLICY "Measurements writable by owner" ON public.measurements;
+
+CREATE POLICY "Measurements created by owner" ON public.measurements
+    FOR INSERT WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+CREATE POLICY "Measurements updated by owner" ON public.measurements
+    FOR UPDATE USING (public.owns_project(project_id) OR public.has_role('super-admin'))
+    WITH CHECK (public.owns_project(project_id) OR public.has_role('super-admin'));
+
+CREATE POLICY "Measurements deleted by owner and admins" ON public.measurements
+    FOR DELETE USING (public.owns_project(project_id) OR public.has_role('admin'));
@@ -0,0 +1,291 @@
+-- ============================================
+-- PROJECT TEAMS
+-- Projects are shared through membership. Per-project roles rank
+-- viewer < reviewer < qs < owner (ProjectRole in the client):
+--   viewer    reads the project
+--   reviewer  reads the project (signs off checks outside the app)
+--   qs        measures, prices and, as an office editor, certifies
+--   owner     the creator; manages the team
+-- Office-wide roles from the roles migration still apply on top.
+-- ============================================
+
+-- ============================================
+-- 1. MEMBERS & INVITATIONS
+-- ============================================
+CREATE TABLE public.project_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'qs', 'reviewer', 'viewer')),
+    invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX project_members_user_id_idx ON public.project_members (user_id);
+CREATE INDEX project_members_updated_at_idx ON public.project_members (updated_at, id);
+
+-- Addressed by email or username; the invitee may not have an account yet
+CREATE TABLE public.project_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    email VARCHAR(255),
+    username VARCHAR(100),
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('qs', 'reviewer', 'viewer')),
+    invited_by UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    CHECK (email IS NOT NULL OR username IS NOT NULL)
+);
+
+-- One open invitation per person per project
+CREATE UNIQUE INDEX project_invitations_pending_idx ON public.project_invitations
+    (project_id, LOWER(COALESCE(email, username))) WHERE status = 'pending';
+
+-- ============================================
+-- 2. OWNER MEMBERSHIP
+-- ============================================
+CREATE OR REPLACE FUNCTION public.add_project_owner() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.project_members (project_id, user_id, role, created_at, updated_at)
+    VALUES (NEW.id, NEW.user_id, 'owner', NOW(), NOW())
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER projects_add_owner AFTER INSERT ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.add_project_owner();
+
+-- Projects created before teams existed
+INSERT INTO public.project_members (project_id, user_id, role, created_at, updated_at)
+SELECT id, user_id, 'owner', created_at, NOW() FROM public.projects
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+-- ============================================
+-- 3. PROJECT ROLE HELPERS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.project_role_rank(role_name TEXT) RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE role_name
+        WHEN 'viewer' THEN 1
+        WHEN 'reviewer' THEN 2
+        WHEN 'qs' THEN 3
+        WHEN 'owner' THEN 4
+        ELSE 0
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.project_role(target UUID) RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM public.projects WHERE id = target AND user_id = auth.uid()) THEN 'owner'
+        ELSE (SELECT role FROM public.project_members WHERE project_id = target AND user_id = auth.uid())
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_project_role(target UUID, minimum TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT COALESCE(public.project_role_rank(public.project_role(target)) >= public.project_role_rank(minimum), FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_email() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT email FROM auth.users WHERE id = auth.uid();
+$$;
+
+-- ============================================
+-- 4. ACCESS THROUGH MEMBERSHIP
+-- ============================================
+DROP POLICY "Projects readable by owner and editors" ON public.projects;
+CREATE POLICY "Projects readable by team and editors" ON public.projects
+    FOR SELECT USING (user_id = auth.uid() OR public.has_project_role(id, 'viewer') OR public.has_role('editor'));
+
+DROP POLICY "Bill items readable by owner and editors" ON public.bill_items;
+DROP POLICY "Bill items writable by owner" ON public.bill_items;
+CREATE POLICY "Bill items readable by team and editors" ON public.bill_items
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+CREATE POLICY "Bill items writable by surveyors" ON public.bill_items
+    FOR ALL USING (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'))
+    WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+
+DROP POLICY "Measurements readable by owner and editors" ON public.measurements;
+DROP POLICY "Measurements created by owner" ON public.measurements;
+DROP POLICY "Measurements updated by owner" ON public.measurements;
+DROP POLICY "Measurements deleted by owner and admins" ON public.measurements;
+CREATE POLICY "Measurements readable by team and editors" ON public.measurements
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+CREATE POLICY "Measurements created by surveyors" ON public.measurements
+    FOR INSERT WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+CREATE POLICY "Measurements updated by surveyors" ON public.measurements
+    FOR UPDATE USING (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'))
+    WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+CREATE POLICY "Measurements deleted by surveyors and admins" ON public.measurements
+    FOR DELETE USING (public.has_project_role(project_id, 'qs') OR public.has_role('admin'));
+
+DROP POLICY "Drawings readable by owner and editors" ON public.drawings;
+DROP POLICY "Drawings writable by owner" ON public.drawings;
+CREATE POLICY "Drawings readable by team and editors" ON public.drawings
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+CREATE POLICY "Drawings writable by surveyors" ON public.drawings
+    FOR ALL USING (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'))
+    WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+
+DROP POLICY "Certificates readable by owner and editors" ON public.certificates;
+DROP POLICY "Certificates issued by editors" ON public.certificates;
+DROP POLICY "Certificates updated by editors" ON public.certificates;
+CREATE POLICY "Certificates readable by team and editors" ON public.certificates
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+CREATE POLICY "Certificates issued by surveying editors" ON public.certificates
+    FOR INSERT WITH CHECK (
+        (public.has_project_role(project_id, 'qs') AND public.has_role('editor')) OR public.has_role('super-admin')
+    );
+CREATE POLICY "Certificates updated by surveying editors" ON public.certificates
+    FOR UPDATE USING (
+        (public.has_project_role(project_id, 'qs') AND public.has_role('editor')) OR public.has_role('super-admin')
+    )
+    WITH CHECK (
+        (public.has_project_role(project_id, 'qs') AND public.has_role('editor')) OR public.has_role('super-admin')
+    );
+
+-- Drawing files follow the drawings table
+CREATE OR REPLACE FUNCTION public.can_read_drawing_object(object_name TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.has_role('editor') OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id::TEXT = split_part(object_name, '/', 1) AND public.has_project_role(id, 'viewer')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_write_drawing_object(object_name TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.has_role('super-admin') OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id::TEXT = split_part(object_name, '/', 1) AND public.has_project_role(id, 'qs')
+    );
+$$;
+
+-- ============================================
+-- 5. TEAM POLICIES
+-- ============================================
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members readable by team and editors" ON public.project_members
+    FOR SELECT USING (user_id = auth.uid() OR public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+
+-- Members join through respond_to_invitation; the owner's place comes from the trigger
+CREATE POLICY "Owners can change member roles" ON public.project_members
+    FOR UPDATE USING (public.has_project_role(project_id, 'owner') AND role <> 'owner')
+    WITH CHECK (public.has_project_role(project_id, 'owner') AND role <> 'owner');
+
+CREATE POLICY "Owners remove members and members leave" ON public.project_members
+    FOR DELETE USING (
+        role <> 'owner' AND (user_id = auth.uid() OR public.has_project_role(project_id, 'owner') OR public.has_role('admin'))
+    );
+
+CREATE POLICY "Invitations readable by project owner and sender" ON public.project_invitations
+    FOR SELECT USING (invited_by = auth.uid() OR public.has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can invite" ON public.project_invitations
+    FOR INSERT WITH CHECK (
+        public.has_project_role(project_id, 'owner') AND invited_by = auth.uid() AND status = 'pending'
+    );
+
+CREATE POLICY "Owners can revoke invitations" ON public.project_invitations
+    FOR UPDATE USING (public.has_project_role(project_id, 'owner'))
+    WITH CHECK (public.has_project_role(project_id, 'owner') AND status IN ('pending', 'revoked'));
+
+-- ============================================
+-- 6. ANSWERING INVITATIONS
+-- ============================================
+-- Invitees cannot read the project until they join, so these run as definer
+CREATE OR REPLACE FUNCTION public.my_invitations()
+RETURNS TABLE (
+    id UUID,
+    project_id UUID,
+    project_name VARCHAR,
+    role VARCHAR,
+    invited_by_name VARCHAR,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT i.id, i.project_id, p.name, i.role, inviter.username, i.created_at
+    FROM public.project_invitations i
+    JOIN public.projects p ON p.id = i.project_id
+    LEFT JOIN public.profiles inviter ON inviter.id = i.invited_by
+    WHERE i.status = 'pending'
+      AND (
+          LOWER(i.email) = LOWER(public.current_user_email())
+          OR LOWER(i.username) = LOWER((SELECT username FROM public.profiles WHERE profiles.id = auth.uid()))
+      )
+    ORDER BY i.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_invitation(invitation UUID, accept BOOLEAN) RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    invite public.project_invitations;
+BEGIN
+    SELECT * INTO invite FROM public.project_invitations
+    WHERE project_invitations.id = invitation AND status = 'pending'
+      AND (
+          LOWER(email) = LOWER(public.current_user_email())
+          OR LOWER(username) = LOWER((SELECT p.username FROM public.profiles p WHERE p.id = auth.uid()))
+      )
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE public.project_invitations
+    SET status = CASE WHEN accept THEN 'accepted' ELSE 'declined' END, responded_at = NOW()
+    WHERE project_invitations.id = invitation;
+
+    IF accept THEN
+        INSERT INTO public.project_members (project_id, user_id, role, invited_by, created_at, updated_at)
+        VALUES (invite.project_id, auth.uid(), invite.role, invite.invited_by, NOW(), NOW())
+        ON CONFLICT (project_id, user_id) DO UPDATE
+            SET role = EXCLUDED.role, updated_at = NOW()
+            WHERE project_members.role <> 'owner';
+    END IF;
+
+    RETURN invite.project_id;
+END;
+$$;
+
+-- ============================================
+-- 7. SYNC
+-- ============================================
+-- A removed member must still learn they left, though the project is hidden from them now
+ALTER TABLE public.tombstones ADD COLUMN member_id UUID;
+
+CREATE OR REPLACE FUNCTION public.record_tombstone() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.tombstones (table_name, record_id, project_id, member_id)
+    VALUES (
+        TG_TABLE_NAME,
+        OLD.id,
+        CASE WHEN TG_TABLE_NAME = 'projects' THEN OLD.id ELSE (to_jsonb(OLD) ->> 'project_id')::UUID END,
+        CASE WHEN TG_TABLE_NAME = 'project_members' THEN (to_jsonb(OLD) ->> 'user_id')::UUID END
+    );
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER project_members_tombstone AFTER DELETE ON public.project_members
+    FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+
+DROP POLICY "Tombstones readable by project owner and editors" ON public.tombstones;
+CREATE POLICY "Tombstones readable by team and editors" ON public.tombstones
+    FOR SELECT USING (
+        user_id = auth.uid() OR member_id = auth.uid()
+        OR public.has_project_role(project_id, 'viewer') OR public.has_role('editor')
+    );
@@ -0,0 +1,110 @@
+-- ============================================
+-- AUDIT LOG
+-- Append-only record of privileged and destructive actions. Role changes,
+-- project deletions and certificate issuance are written by triggers, so the
+-- actor is whoever the database saw; sync dead-letter discards happen on a
+-- device and arrive through the sync queue.
+-- ============================================
+
+-- No foreign keys: entries outlive the profiles and projects they describe
+CREATE TABLE public.audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID DEFAULT auth.uid(),
+    actor_name VARCHAR(100),
+    action VARCHAR(40) NOT NULL
+        CHECK (action IN ('role_change', 'project_delete', 'certificate_issue', 'dead_letter_discard')),
+    target_type VARCHAR(40) NOT NULL,
+    target_id UUID,
+    target_label TEXT,
+    project_id UUID,
+    details JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_id, created_at DESC);
+CREATE INDEX audit_log_action_idx ON public.audit_log (action, created_at DESC);
+
+-- ============================================
+-- 1. APPEND-ONLY
+-- ============================================
+-- The server stamps the time and the actor's name; a device cannot backdate an entry
+CREATE OR REPLACE FUNCTION public.stamp_audit_entry() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    NEW.created_at := NOW();
+    NEW.actor_name := (SELECT username FROM public.profiles WHERE id = NEW.actor_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_audit_change() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+    RAISE EXCEPTION 'The audit log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER audit_log_stamp BEFORE INSERT ON public.audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_audit_entry();
+CREATE TRIGGER audit_log_no_update BEFORE UPDATE OR DELETE ON public.audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.reject_audit_change();
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON public.audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION public.reject_audit_change();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Audit log readable by admins" ON public.audit_log
+    FOR SELECT USING (public.has_role('admin'));
+
+-- Everything else is written by the triggers below, which run as definer
+CREATE POLICY "Users log own dead-letter discards" ON public.audit_log
+    FOR INSERT WITH CHECK (actor_id = auth.uid() AND action = 'dead_letter_discard');
+
+-- ============================================
+-- 2. RECORDED ACTIONS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.audit_role_change() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+        INSERT INTO public.audit_log (actor_id, action, target_type, target_id, target_label, details)
+        VALUES (auth.uid(), 'role_change', 'profiles', NEW.id, NEW.username,
+                jsonb_build_object('from', OLD.role, 'to', NEW.role));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_project_delete() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.audit_log (actor_id, action, target_type, target_id, target_label, project_id, details)
+    VALUES (auth.uid(), 'project_delete', 'projects', OLD.id, OLD.name, OLD.id,
+            jsonb_build_object('owner_id', OLD.user_id, 'location', OLD.location, 'contract_sum', OLD.contract_sum));
+    RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_certificate_issue() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.audit_log (actor_id, action, target_type, target_id, target_label, project_id, details)
+    VALUES (auth.uid(), 'certificate_issue', 'certificates', NEW.id, NEW.cert_number, NEW.project_id,
+            jsonb_build_object(
+                'project_name', (SELECT name FROM public.projects WHERE id = NEW.project_id),
+                'valuation_date', NEW.valuation_date,
+                'total_due', NEW.total_due
+            ));
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_audit_role AFTER UPDATE OF role ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.audit_role_change();
+CREATE TRIGGER projects_audit_delete AFTER DELETE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.audit_project_delete();
+CREATE TRIGGER certificates_audit_issue AFTER INSERT ON public.certificates
+    FOR EACH ROW EXECUTE FUNCTION public.audit_certificate_issue();
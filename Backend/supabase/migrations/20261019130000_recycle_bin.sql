@@ -0,0 +1,131 @@
+-- ============================================
+-- RECYCLE BIN
+-- Deleting a project or a measurement now only stamps deleted_at. The row
+-- keeps syncing like any other change, so devices hide it, and restoring is
+-- clearing the stamp: a binned project's bill, takeoff, drawings and
+-- certificates are never touched. Rows are purged for good once they have
+-- been in the bin longer than the office retention window.
+-- ============================================
+
+ALTER TABLE public.projects ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.measurements ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX projects_deleted_at_idx ON public.projects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX measurements_deleted_at_idx ON public.measurements (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ============================================
+-- 1. OFFICE SETTINGS
+-- ============================================
+CREATE TABLE public.app_settings (
+    key VARCHAR(100) PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.app_settings (key, value) VALUES ('recycle_bin_retention_days', '30'::JSONB);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings readable by signed-in users" ON public.app_settings
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Settings changed by admins" ON public.app_settings
+    FOR UPDATE USING (public.has_role('admin')) WITH CHECK (public.has_role('admin'));
+
+CREATE OR REPLACE FUNCTION public.recycle_bin_retention() RETURNS INTERVAL
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT make_interval(days => COALESCE(
+        (SELECT (value #>> '{}')::INTEGER FROM public.app_settings WHERE key = 'recycle_bin_retention_days'),
+        30
+    ));
+$$;
+
+-- ============================================
+-- 2. BINNING FROM THE ADMIN CONSOLE
+-- ============================================
+-- Owners bin and restore through the sync queue. Admins may delete projects but
+-- not edit them, so they go through this instead of a row update.
+CREATE OR REPLACE FUNCTION public.set_project_binned(target UUID, binned BOOLEAN) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NOT (public.owns_project(target) OR public.has_role('admin')) THEN
+        RAISE EXCEPTION 'Not allowed to delete this project' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.projects
+    SET deleted_at = CASE WHEN binned THEN NOW() ELSE NULL END, updated_at = NOW()
+    WHERE id = target;
+END;
+$$;
+
+-- ============================================
+-- 3. PURGE
+-- ============================================
+-- Hard deletes cascade to the project's records and leave tombstones, so
+-- devices drop them on their next pull
+CREATE OR REPLACE FUNCTION public.purge_recycle_bin() RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    cutoff TIMESTAMP WITH TIME ZONE := NOW() - public.recycle_bin_retention();
+    purged_projects INTEGER;
+    purged_measurements INTEGER;
+BEGIN
+    -- Scheduled runs have no user; anyone else calling must be an admin
+    IF auth.uid() IS NOT NULL AND NOT public.has_role('admin') THEN
+        RAISE EXCEPTION 'Only admins can purge the recycle bin' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM public.projects WHERE deleted_at < cutoff;
+    GET DIAGNOSTICS purged_projects = ROW_COUNT;
+
+    DELETE FROM public.measurements WHERE deleted_at < cutoff;
+    GET DIAGNOSTICS purged_measurements = ROW_COUNT;
+
+    RETURN purged_projects + purged_measurements;
+END;
+$$;
+
+-- Skipped where pg_cron is not installed; admins can still purge from the console
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('purge-recycle-bin', '15 3 * * *', 'SELECT public.purge_recycle_bin()');
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- 4. AUDIT
+-- ============================================
+-- Binning is the deletion people make; the hard delete is now the purge
+ALTER TABLE public.audit_log DROP CONSTRAINT audit_log_action_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_action_check CHECK (action IN (
+    'role_change', 'project_delete', 'project_restore', 'project_purge', 'certificate_issue', 'dead_letter_discard'
+));
+
+CREATE OR REPLACE FUNCTION public.audit_project_delete() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.audit_log (actor_id, action, target_type, target_id, target_label, project_id, details)
+    VALUES (auth.uid(), 'project_purge', 'projects', OLD.id, OLD.name, OLD.id,
+            jsonb_build_object('owner_id', OLD.user_id, 'location', OLD.location, 'binned_at', OLD.deleted_at));
+    RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_project_bin() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF (NEW.deleted_at IS NULL) <> (OLD.deleted_at IS NULL) THEN
+        INSERT INTO public.audit_log (actor_id, action, target_type, target_id, target_label, project_id, details)
+        VALUES (auth.uid(), CASE WHEN NEW.deleted_at IS NULL THEN 'project_restore' ELSE 'project_delete' END,
+                'projects', NEW.id, NEW.name, NEW.id,
+                jsonb_build_object('owner_id', NEW.user_id, 'location', NEW.location, 'contract_sum', NEW.contract_sum));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER projects_audit_bin AFTER UPDATE OF deleted_at ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.audit_project_bin();
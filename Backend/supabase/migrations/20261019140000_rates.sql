@@ -0,0 +1,59 @@
+-- ============================================
+-- RATES
+-- The office price book (owner_id NULL) is kept by editors and read by
+-- everyone. Surveyors keep personal rates alongside it; a personal rate that
+-- points at an office rate overrides it for that surveyor only.
+-- ============================================
+
+CREATE TABLE public.rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(30) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('material', 'labour', 'plant')),
+    unit VARCHAR(20) NOT NULL,
+    rate DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+    region VARCHAR(100),
+    effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    overrides_rate_id UUID REFERENCES public.rates(id) ON DELETE SET NULL,
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE,
+    -- Only personal rates override, and never another personal rate
+    CHECK (overrides_rate_id IS NULL OR owner_id IS NOT NULL)
+);
+
+CREATE INDEX rates_owner_idx ON public.rates (owner_id);
+CREATE INDEX rates_code_idx ON public.rates (code);
+CREATE INDEX rates_updated_at_idx ON public.rates (updated_at, id);
+
+-- One override per surveyor per office rate
+CREATE UNIQUE INDEX rates_override_idx ON public.rates (owner_id, overrides_rate_id) WHERE overrides_rate_id IS NOT NULL;
+
+-- ============================================
+-- 1. POLICIES
+-- ============================================
+ALTER TABLE public.rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rates readable from the office book and own" ON public.rates
+    FOR SELECT USING (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Rates written by their owner or office editors" ON public.rates
+    FOR ALL USING (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role('editor')))
+    WITH CHECK (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role('editor')));
+
+-- ============================================
+-- 2. SYNC
+-- ============================================
+CREATE TRIGGER rates_tombstone AFTER DELETE ON public.rates
+    FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+
+-- Rates belong to no project, so their tombstones are matched by table
+DROP POLICY "Tombstones readable by team and editors" ON public.tombstones;
+CREATE POLICY "Tombstones readable by team and editors" ON public.tombstones
+    FOR SELECT USING (
+        user_id = auth.uid() OR member_id = auth.uid() OR table_name = 'rates'
+        OR public.has_project_role(project_id, 'viewer') OR public.has_role('editor')
+    );
@@ -0,0 +1,40 @@
+-- ============================================
+-- RATE ANALYSES
+-- A bill item's rate built up from price book rates: quantities of material,
+-- labour and plant per unit of work, wastage, and overheads & profit. The
+-- lines keep the price each rate had when last applied, so an analysis still
+-- reads correctly for team members who cannot see the rates it was built from.
+-- ============================================
+
+CREATE TABLE public.rate_analyses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    bill_item_id UUID NOT NULL UNIQUE REFERENCES public.bill_items(id) ON DELETE CASCADE,
+    output_quantity DECIMAL(15, 3) NOT NULL DEFAULT 1 CHECK (output_quantity > 0),
+    overheads_percent DECIMAL(6, 2) NOT NULL DEFAULT 0 CHECK (overheads_percent >= 0),
+    lines JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(lines) = 'array'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX rate_analyses_project_idx ON public.rate_analyses (project_id);
+CREATE INDEX rate_analyses_updated_at_idx ON public.rate_analyses (updated_at, id);
+
+-- ============================================
+-- 1. POLICIES (the same standing as the bill itself)
+-- ============================================
+ALTER TABLE public.rate_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rate analyses readable by team and editors" ON public.rate_analyses
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+
+CREATE POLICY "Rate analyses writable by surveyors" ON public.rate_analyses
+    FOR ALL USING (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'))
+    WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+
+-- ============================================
+-- 2. SYNC
+-- ============================================
+CREATE TRIGGER rate_analyses_tombstone AFTER DELETE ON public.rate_analyses
+    FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
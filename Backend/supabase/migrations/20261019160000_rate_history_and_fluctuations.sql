@@ -0,0 +1,78 @@
+-- ============================================
+-- RATE HISTORY & FLUCTUATIONS
+-- Every price a rate has had, one per date it applied from, so prices can be
+-- indexed between a contract's base date and any valuation date. Interim
+-- certificates carry the fluctuations valued that way.
+-- ============================================
+
+CREATE TABLE public.rate_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rate_id UUID NOT NULL REFERENCES public.rates(id) ON DELETE CASCADE,
+    rate DECIMAL(15, 2) NOT NULL CHECK (rate >= 0),
+    effective_date DATE NOT NULL,
+    recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- A second change for the same date corrects the first
+    UNIQUE (rate_id, effective_date)
+);
+
+CREATE INDEX rate_history_updated_at_idx ON public.rate_history (updated_at, id);
+
+-- ============================================
+-- 1. RECORDING (written only by the trigger on rates)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_rate_history() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.rate = OLD.rate AND NEW.effective_date = OLD.effective_date THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.rate_history (rate_id, rate, effective_date, recorded_by)
+    VALUES (NEW.id, NEW.rate, NEW.effective_date, auth.uid())
+    ON CONFLICT (rate_id, effective_date) DO UPDATE
+        SET rate = EXCLUDED.rate, recorded_by = EXCLUDED.recorded_by, updated_at = NOW();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rates_history AFTER INSERT OR UPDATE OF rate, effective_date ON public.rates
+    FOR EACH ROW EXECUTE FUNCTION public.record_rate_history();
+
+-- Rates priced before history was kept start from their current figure
+INSERT INTO public.rate_history (rate_id, rate, effective_date, recorded_by)
+SELECT id, rate, effective_date, created_by FROM public.rates
+ON CONFLICT (rate_id, effective_date) DO NOTHING;
+
+-- ============================================
+-- 2. POLICIES (readable wherever the rate is; never written directly)
+-- ============================================
+ALTER TABLE public.rate_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rate history readable with its rate" ON public.rate_history
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM public.rates r
+        WHERE r.id = rate_id AND (r.owner_id IS NULL OR r.owner_id = auth.uid())
+    ));
+
+CREATE TRIGGER rate_history_tombstone AFTER DELETE ON public.rate_history
+    FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
+
+DROP POLICY "Tombstones readable by team and editors" ON public.tombstones;
+CREATE POLICY "Tombstones readable by team and editors" ON public.tombstones
+    FOR SELECT USING (
+        user_id = auth.uid() OR member_id = auth.uid() OR table_name IN ('rates', 'rate_history')
+        OR public.has_project_role(project_id, 'viewer') OR public.has_role('editor')
+    );
+
+-- ============================================
+-- 3. FLUCTUATIONS ON CERTIFICATES
+-- fluctuations is the total to date, like the rest of the valuation, so the
+-- previous-certified deduction takes out what earlier certificates paid.
+-- ============================================
+ALTER TABLE public.certificates
+    ADD COLUMN fluctuations DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN fluctuation_base_date DATE,
+    ADD COLUMN price_index DECIMAL(10, 4),
+    ADD COLUMN non_adjustable_percent DECIMAL(5, 2);
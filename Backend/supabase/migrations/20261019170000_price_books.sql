@@ -0,0 +1,44 @@
+-- ============================================
+-- PRICE BOOKS
+-- Numbered snapshots of the rates a project was priced from. Locking one
+-- holds the project's rate build-ups to the prices it was tendered on while
+-- the live price book moves on; unlocking lets them follow it again.
+-- ============================================
+
+CREATE TABLE public.price_books (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    label TEXT NOT NULL,
+    rates JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(rates) = 'array'),
+    is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    synced_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Versions are numbered on the device, so two offline snapshots may share one
+CREATE INDEX price_books_project_idx ON public.price_books (project_id, version);
+CREATE INDEX price_books_updated_at_idx ON public.price_books (updated_at, id);
+
+-- A project is priced from one book at a time
+CREATE UNIQUE INDEX price_books_one_locked_idx ON public.price_books (project_id) WHERE is_locked;
+
+-- ============================================
+-- 1. POLICIES (the same standing as the bill itself)
+-- ============================================
+ALTER TABLE public.price_books ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Price books readable by team and editors" ON public.price_books
+    FOR SELECT USING (public.has_project_role(project_id, 'viewer') OR public.has_role('editor'));
+
+CREATE POLICY "Price books writable by surveyors" ON public.price_books
+    FOR ALL USING (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'))
+    WITH CHECK (public.has_project_role(project_id, 'qs') OR public.has_role('super-admin'));
+
+-- ============================================
+-- 2. SYNC
+-- ============================================
+CREATE TRIGGER price_books_tombstone AFTER DELETE ON public.price_books
+    FOR EACH ROW EXECUTE FUNCTION public.record_tombstone();
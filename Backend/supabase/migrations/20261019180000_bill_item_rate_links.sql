@@ -0,0 +1,14 @@
+-- ============================================
+-- BILL ITEM RATE LINKS
+-- The price book rate a bill item's rate was picked from. The code is copied
+-- with it so the link still reads for team members who cannot see that rate,
+-- and after the rate itself is deleted.
+-- ============================================
+
+-- No foreign key: a locked price book snapshot can still price an item from a
+-- rate deleted since, and the link should record that rather than be refused
+ALTER TABLE public.bill_items
+    ADD COLUMN rate_id UUID,
+    ADD COLUMN rate_code TEXT;
+
+CREATE INDEX bill_items_rate_idx ON public.bill_items (rate_id) WHERE rate_id IS NOT NULL;
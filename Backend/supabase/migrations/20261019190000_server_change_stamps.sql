@@ -0,0 +1,69 @@
+-- ============================================
+-- SERVER CHANGE STAMPS
+-- Pull sync used to read rows in (updated_at, id) order, but updated_at is the
+-- device's edit time. A tablet pushing hours of offline work lands rows behind
+-- the cursor every other device already holds, and they were never pulled.
+-- server_updated_at is stamped by the database on every write instead, so rows
+-- come down in the order the server received them. The stamp is the time of
+-- the write rather than of the transaction's start, but it still precedes the
+-- commit, so devices re-read a short window behind their cursor.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.stamp_server_change() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+    NEW.server_updated_at := clock_timestamp();
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 1. STAMP COLUMNS
+-- ============================================
+-- Existing rows all take the migration time, so every device pulls them once more
+ALTER TABLE public.projects ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.project_members ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.bill_items ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.rate_analyses ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.price_books ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.measurements ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.certificates ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.rates ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.rate_history ADD COLUMN server_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- ============================================
+-- 2. STAMP TRIGGERS
+-- ============================================
+-- Whatever a client sends for the column is overwritten
+CREATE TRIGGER projects_server_stamp BEFORE INSERT OR UPDATE ON public.projects FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER project_members_server_stamp BEFORE INSERT OR UPDATE ON public.project_members FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER bill_items_server_stamp BEFORE INSERT OR UPDATE ON public.bill_items FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER rate_analyses_server_stamp BEFORE INSERT OR UPDATE ON public.rate_analyses FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER price_books_server_stamp BEFORE INSERT OR UPDATE ON public.price_books FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER measurements_server_stamp BEFORE INSERT OR UPDATE ON public.measurements FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER certificates_server_stamp BEFORE INSERT OR UPDATE ON public.certificates FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER rates_server_stamp BEFORE INSERT OR UPDATE ON public.rates FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+CREATE TRIGGER rate_history_server_stamp BEFORE INSERT OR UPDATE ON public.rate_history FOR EACH ROW EXECUTE FUNCTION public.stamp_server_change();
+
+-- ============================================
+-- 3. PULL INDEXES
+-- ============================================
+DROP INDEX public.projects_updated_at_idx;
+DROP INDEX public.project_members_updated_at_idx;
+DROP INDEX public.bill_items_updated_at_idx;
+DROP INDEX public.rate_analyses_updated_at_idx;
+DROP INDEX public.price_books_updated_at_idx;
+DROP INDEX public.measurements_updated_at_idx;
+DROP INDEX public.certificates_updated_at_idx;
+DROP INDEX public.rates_updated_at_idx;
+DROP INDEX public.rate_history_updated_at_idx;
+
+CREATE INDEX projects_server_updated_at_idx ON public.projects (server_updated_at, id);
+CREATE INDEX project_members_server_updated_at_idx ON public.project_members (server_updated_at, id);
+CREATE INDEX bill_items_server_updated_at_idx ON public.bill_items (server_updated_at, id);
+CREATE INDEX rate_analyses_server_updated_at_idx ON public.rate_analyses (server_updated_at, id);
+CREATE INDEX price_books_server_updated_at_idx ON public.price_books (server_updated_at, id);
+CREATE INDEX measurements_server_updated_at_idx ON public.measurements (server_updated_at, id);
+CREATE INDEX certificates_server_updated_at_idx ON public.certificates (server_updated_at, id);
+CREATE INDEX rates_server_updated_at_idx ON public.rates (server_updated_at, id);
+CREATE INDEX rate_history_server_updated_at_idx ON public.rate_history (server_updated_at, id);
@@ -0,0 +1,58 @@
+-- ============================================
+-- CERTIFICATE NUMBERING
+-- Devices number a new certificate after the last one they hold, so two
+-- surveyors issuing offline can both produce the same IPC number. The second
+-- to reach the cloud is renumbered after the last one issued instead of being
+-- refused by UNIQUE (project_id, sequence); renumbered_from keeps the number
+-- it was issued under so the app can warn about it. Its deduction for previous
+-- certificates was worked out without the one it clashed with, so the amount
+-- due is recomputed against every certificate now before it.
+-- ============================================
+
+ALTER TABLE public.certificates ADD COLUMN renumbered_from INTEGER;
+
+CREATE OR REPLACE FUNCTION public.number_certificate() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    issued public.certificates%ROWTYPE;
+    vat_rate NUMERIC;
+BEGIN
+    -- One certificate at a time per project, so two clashing pushes cannot take the same next number
+    PERFORM pg_advisory_xact_lock(hashtext('certificates:' || NEW.project_id::TEXT));
+
+    -- Pushes are upserts: a later change from a device that has not yet heard of a renumbering keeps the server's number and figures
+    SELECT * INTO issued FROM public.certificates WHERE id = NEW.id;
+    IF FOUND THEN
+        NEW.sequence := issued.sequence;
+        NEW.cert_number := issued.cert_number;
+        NEW.renumbered_from := issued.renumbered_from;
+        NEW.previous_certified := issued.previous_certified;
+        NEW.amount_due := issued.amount_due;
+        NEW.vat_amount := issued.vat_amount;
+        NEW.total_due := issued.total_due;
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.certificates WHERE project_id = NEW.project_id AND sequence = NEW.sequence) THEN
+        NEW.renumbered_from := NEW.sequence;
+        SELECT MAX(sequence) + 1 INTO NEW.sequence FROM public.certificates WHERE project_id = NEW.project_id;
+        NEW.cert_number := 'IPC/' || lpad(NEW.sequence::TEXT, 3, '0');
+
+        -- VAT stays at the rate the device charged; 16% where nothing was due to charge it on
+        vat_rate := CASE WHEN NEW.amount_due <> 0 THEN ROUND(NEW.vat_amount / NEW.amount_due, 4) ELSE 0.16 END;
+        SELECT COALESCE(SUM(amount_due), 0) INTO NEW.previous_certified
+        FROM public.certificates WHERE project_id = NEW.project_id;
+        NEW.amount_due := NEW.gross_valuation - NEW.retention_amount - NEW.previous_certified;
+        NEW.vat_amount := ROUND(NEW.amount_due * vat_rate, 2);
+        NEW.total_due := NEW.amount_due + NEW.vat_amount;
+        -- updated_at is left as the device wrote it, so its later edits are not taken for conflicts;
+        -- the new server_updated_at is what brings the corrected row back down
+    ELSE
+        NEW.renumbered_from := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER certificates_number BEFORE INSERT ON public.certificates
+    FOR EACH ROW EXECUTE FUNCTION public.number_certificate();
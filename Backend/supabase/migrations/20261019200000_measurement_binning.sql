@@ -0,0 +1,31 @@
+-- ============================================
+-- MEASUREMENT BINNING
+-- Binning a measurement is an update, which only surveyors on the project may
+-- make, but admins may delete measurements too. Like projects from the admin
+-- console, binning goes through this function, which allows whoever may delete
+-- the row. It returns the new updated_at so the device can record the version.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.set_measurement_binned(target UUID, binned BOOLEAN) RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    owner_project UUID;
+    stamped TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT project_id INTO owner_project FROM public.measurements WHERE id = target;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Measurement not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (public.has_project_role(owner_project, 'qs') OR public.has_role('admin')) THEN
+        RAISE EXCEPTION 'Not allowed to delete this measurement' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.measurements
+    SET deleted_at = CASE WHEN binned THEN NOW() ELSE NULL END, updated_at = NOW()
+    WHERE id = target
+    RETURNING updated_at INTO stamped;
+
+    RETURN stamped;
+END;
+$$;
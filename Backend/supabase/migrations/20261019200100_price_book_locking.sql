@@ -0,0 +1,25 @@
+-- ============================================
+-- PRICE BOOK LOCKING
+-- A project is priced from one locked book at a time, but two devices can
+-- each lock a different one offline. Rather than refuse the second lock on
+-- price_books_one_locked_idx, the lock that reaches the cloud last wins and
+-- releases the others, which come back down unlocked on the next pull.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.release_other_price_book_locks() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NEW.is_locked THEN
+        -- One lock at a time per project, so two pushes cannot both find the other still unlocked
+        PERFORM pg_advisory_xact_lock(hashtext('price_books:' || NEW.project_id::TEXT));
+
+        UPDATE public.price_books
+        SET is_locked = FALSE, updated_at = NOW()
+        WHERE project_id = NEW.project_id AND id <> NEW.id AND is_locked;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER price_books_one_lock BEFORE INSERT OR UPDATE OF is_locked ON public.price_books
+    FOR EACH ROW EXECUTE FUNCTION public.release_other_price_book_locks();
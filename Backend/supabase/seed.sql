@@ -0,0 +1,156 @@
+-- ============================================
+-- LOCAL SEED
+-- Demo office for a fresh database. Runs after the migrations (the Supabase
+-- CLI picks this file up on `supabase db reset`). Every account signs in with
+-- the password "vault-demo-2026".
+--   surveyor@qsvault.local  user    owns the demo project
+--   editor@qsvault.local    editor
+--   admin@qsvault.local     admin
+-- ============================================
+
+-- ============================================
+-- 1. ACCOUNTS (profiles follow from the signup trigger)
+-- ============================================
+INSERT INTO auth.users (
+    instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+    confirmation_token, recovery_token, email_change_token_new, email_change,
+    raw_app_meta_data, raw_user_meta_data, created_at, updated_at
+)
+SELECT
+    '00000000-0000-0000-0000-000000000000', u.id, 'authenticated', 'authenticated', u.email,
+    crypt('vault-demo-2026', gen_salt('bf')), NOW(),
+    '', '', '', '',
+    '{"provider": "email", "providers": ["email"]}'::JSONB,
+    jsonb_build_object('full_name', u.full_name, 'username', u.username),
+    NOW(), NOW()
+FROM (VALUES
+    ('a0000000-0000-4000-8000-000000000001'::UUID, 'surveyor@qsvault.local', 'Demo Surveyor', 'surveyor'),
+    ('a0000000-0000-4000-8000-000000000002'::UUID, 'editor@qsvault.local', 'Demo Editor', 'editor'),
+    ('a0000000-0000-4000-8000-000000000003'::UUID, 'admin@qsvault.local', 'Demo Admin', 'admin')
+) AS u (id, email, full_name, username)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.identities (id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT u.id, u.id::TEXT, u.id, jsonb_build_object('sub', u.id::TEXT, 'email', u.email), 'email', NOW(), NOW(), NOW()
+FROM auth.users u
+WHERE u.email LIKE '%@qsvault.local'
+ON CONFLICT (provider_id, provider) DO NOTHING;
+
+UPDATE public.profiles SET role = 'editor' WHERE id = 'a0000000-0000-4000-8000-000000000002';
+UPDATE public.profiles SET role = 'admin' WHERE id = 'a0000000-0000-4000-8000-000000000003';
+
+-- ============================================
+-- 2. DEMO PROJECT
+-- ============================================
+INSERT INTO public.projects (id, user_id, name, location, client_name, contract_sum, status, created_at, updated_at)
+VALUES (
+    'b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001',
+    'Riverside Villas Phase 1', 'Kiambu Road, Nairobi', 'Riverside Developments Ltd',
+    12500000.00, 'active', NOW(), NOW()
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.bill_items (id, project_id, item_code, section, description, unit, rate, quantity, sort_order, created_at, updated_at)
+VALUES
+    ('c0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'A', 'Excavation & Earthwork',
+        'Excavate oversite to remove vegetable soil average 150mm deep', 'm2', 120.00, 420.0000, 1, NOW(), NOW()),
+    ('c0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001', 'B', 'Excavation & Earthwork',
+        'Excavate trench for strip foundation not exceeding 1.50m deep', 'm3', 650.00, 96.5000, 2, NOW(), NOW()),
+    ('c0000000-0000-4000-8000-000000000003', 'b0000000-0000-4000-8000-000000000001', 'C', 'Concrete Work',
+        'Mass concrete class 15 in strip foundations', 'm3', 14500.00, 38.2000, 3, NOW(), NOW()),
+    ('c0000000-0000-4000-8000-000000000004', 'b0000000-0000-4000-8000-000000000001', 'D', 'Concrete Work',
+        'Reinforced concrete class 25 in ground floor slab 150mm thick', 'm2', 2850.00, 410.0000, 4, NOW(), NOW()),
+    ('c0000000-0000-4000-8000-000000000005', 'b0000000-0000-4000-8000-000000000001', 'E', 'Walling & Partitions',
+        '200mm natural stone walling in cement sand mortar (1:4)', 'm2', 1650.00, 512.0000, 5, NOW(), NOW()),
+    ('c0000000-0000-4000-8000-000000000006', 'b0000000-0000-4000-8000-000000000001', 'F', 'Doors & Windows',
+        'Supply and fix 900 x 2100mm flush door complete with frame and ironmongery', 'nr', 18500.00, 14.0000, 6, NOW(), NOW())
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.measurements (id, project_id, bill_item_id, label, type, value, unit, "sectionCode", points, page, timestamp, created_at, updated_at)
+VALUES
+    ('d0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000004',
+        'Concrete Work Item 1', 'area', 410.0000, 'm2', 'Concrete Work',
+        '[{"x": 120, "y": 140}, {"x": 620, "y": 140}, {"x": 620, "y": 560}, {"x": 120, "y": 560}]'::JSONB, 1, NOW(), NOW(), NOW()),
+    ('d0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000005',
+        'Walling & Partitions Item 2', 'length', 256.0000, 'm', 'Walling & Partitions',
+        '[{"x": 120, "y": 140}, {"x": 620, "y": 140}]'::JSONB, 1, NOW(), NOW(), NOW())
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 3. FIRST VALUATION (16% VAT, 10% retention)
+-- ============================================
+INSERT INTO public.certificates (
+    id, project_id, sequence, cert_number, valuation_date, contractor,
+    work_executed, materials_on_site, gross_valuation, retention_percent, retention_amount,
+    previous_certified, amount_due, vat_amount, total_due, is_paid, paid_at, created_at, updated_at
+)
+VALUES (
+    'e0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 1, 'IPC/001', CURRENT_DATE, 'Demo Builders Ltd',
+    1500000.00, 250000.00, 1750000.00, 10, 175000.00,
+    0, 1575000.00, 252000.00, 1827000.00, FALSE, NULL, NOW(), NOW()
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 4. OFFICE PRICE BOOK (Nairobi averages) AND ONE PERSONAL OVERRIDE
+-- ============================================
+INSERT INTO public.rates (id, code, name, category, unit, rate, region, effective_date, owner_id, overrides_rate_id, created_by)
+VALUES
+    ('f0000000-0000-4000-8000-000000000001', 'MAT-001', 'Portland Cement (50kg)', 'material', 'Bag', 850.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000002', 'LAB-020', 'Skilled Mason (Daily)', 'labour', 'Day', 2500.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000003', 'PLT-005', 'Concrete Mixer (Diesel)', 'plant', 'Day', 4500.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000004', 'MAT-012', 'River Sand', 'material', 't', 3200.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000005', 'LAB-021', 'General Labourer', 'labour', 'Day', 1200.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000006', 'MAT-088', 'T12 Reinforcement Bar', 'material', 'kg', 145.00, 'Nairobi', CURRENT_DATE, NULL, NULL, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000101', 'MAT-012', 'River Sand (Athi River supplier)', 'material', 't', 2950.00, 'Nairobi', CURRENT_DATE, 'a0000000-0000-4000-8000-000000000001', 'f0000000-0000-4000-8000-000000000004', 'a0000000-0000-4000-8000-000000000001')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 5. RATE BUILD-UP: mass concrete class 15 priced from the office book (15% OH&P)
+-- ============================================
+INSERT INTO public.rate_analyses (id, project_id, bill_item_id, output_quantity, overheads_percent, lines)
+VALUES (
+    'f1000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000003',
+    1, 15, '[
+        {"rate_id": "f0000000-0000-4000-8000-000000000001", "code": "MAT-001", "name": "Portland Cement (50kg)", "category": "material", "unit": "Bag", "unit_rate": 850, "quantity": 6, "wastage_percent": 5},
+        {"rate_id": "f0000000-0000-4000-8000-000000000004", "code": "MAT-012", "name": "River Sand", "category": "material", "unit": "t", "unit_rate": 3200, "quantity": 0.7, "wastage_percent": 10},
+        {"rate_id": "f0000000-0000-4000-8000-000000000003", "code": "PLT-005", "name": "Concrete Mixer (Diesel)", "category": "plant", "unit": "Day", "unit_rate": 4500, "quantity": 0.1, "wastage_percent": 0},
+        {"rate_id": "f0000000-0000-4000-8000-000000000002", "code": "LAB-020", "name": "Skilled Mason (Daily)", "category": "labour", "unit": "Day", "unit_rate": 2500, "quantity": 0.5, "wastage_percent": 0},
+        {"rate_id": "f0000000-0000-4000-8000-000000000005", "code": "LAB-021", "name": "General Labourer", "category": "labour", "unit": "Day", "unit_rate": 1200, "quantity": 1.5, "wastage_percent": 0}
+    ]'::JSONB
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- The item's rate is the build-up's composite rate
+UPDATE public.bill_items SET rate = 13016.85 WHERE id = 'c0000000-0000-4000-8000-000000000003';
+
+-- ============================================
+-- 6. PRICE HISTORY: cement and sand over the last nine months, for the chart and fluctuations
+-- ============================================
+INSERT INTO public.rate_history (rate_id, rate, effective_date, recorded_by)
+VALUES
+    ('f0000000-0000-4000-8000-000000000001', 780.00, CURRENT_DATE - 270, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000001', 800.00, CURRENT_DATE - 180, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000001', 830.00, CURRENT_DATE - 90, 'a0000000-0000-4000-8000-000000000002'),
+    ('f0000000-0000-4000-8000-000000000004', 3000.00, CURRENT_DATE - 180, 'a0000000-0000-4000-8000-000000000002')
+ON CONFLICT (rate_id, effective_date) DO NOTHING;
+
+-- The first valuation was indexed from the project's tender date
+UPDATE public.certificates
+SET fluctuation_base_date = CURRENT_DATE - 270, price_index = 1, non_adjustable_percent = 10
+WHERE id = 'e0000000-0000-4000-8000-000000000001';
+
+-- ============================================
+-- 7. PRICE BOOK SNAPSHOT: the office book as tendered, kept unlocked so the bill follows live rates
+-- ============================================
+INSERT INTO public.price_books (id, project_id, version, label, rates, is_locked, created_by)
+SELECT
+    'f2000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 1, 'Tender',
+    jsonb_agg(jsonb_build_object(
+        'rate_id', id, 'code', code, 'name', name, 'category', category, 'unit', unit,
+        'rate', rate, 'region', region, 'effective_date', effective_date
+    ) ORDER BY code),
+    FALSE, 'a0000000-0000-4000-8000-000000000001'
+FROM public.rates
+WHERE owner_id IS NULL
+ON CONFLICT (id) DO NOTHING;
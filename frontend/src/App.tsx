@@ -1,5 +1,5 @@
 import  { useState, useEffect } from "react";
-import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate } from "react-router-dom";
+import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useParams } from "react-router-dom";
 import { Loader2 } from "lucide-react";
 import { QueryClientProvider } from "@tanstack/react-query";
 
@@ -18,6 +18,15 @@ import AdminDashboardPage from "./components/pages/AdminDashboardPage";
 // Layout
 import AppShell from "./components/layout/AppShell";
 
+/**
+ * Remounts the technical workspace whenever the project in the URL changes,
+ * so no drawing, calibration or measurement state leaks between projects.
+ */
+const ProjectWorkspaceRoute = ({ onBack }: { onBack: () => void }) => {
+  const { id } = useParams<{ id: string }>();
+  return <ProjectTakeoffPage key={id} onBack={onBack} />;
+};
+
 /**
  * RootComponent manages the top-level routing logic.
  * It separates "Office Management" (with sidebar) from "Technical Takeoff" (fullscreen).
@@ -73,9 +82,7 @@ const RootComponent = () => {
         
         {/* 2. TECHNICAL WORKSPACE (NO SIDEBAR - FULLSCREEN) */}
         <Route path="/projects/:id" element={
-          <ProjectTakeoffPage 
-            projectId="current-active-project" 
-            projectName="Technical Workspace" 
+          <ProjectWorkspaceRoute 
             onBack={() => {
               // Forced navigation handshake to ensure we exit the technical engine cleanly
               navigate('/dashboard');
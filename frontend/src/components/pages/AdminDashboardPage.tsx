@@ -44,6 +44,8 @@ let SunlightModeToggle: any = () => null;
 let BoQGenerator: any = () => null;
 let CertificateGenerator: any = () => null;
 let WhatsAppExport: any = () => null;
+let AuditLogPanel: any = () => null;
+let AdminRecycleBin: any = () => null;
 
 const resolveModules = async () => {
   try {
@@ -62,6 +64,8 @@ const resolveModules = async () => {
     BoQGenerator = (await import("../../features/boq/components/BoQGenerator")).default;
     CertificateGenerator = (await import("../../features/reports/components/CertificateGenerator")).default;
     WhatsAppExport = (await import("../../features/reports/components/WhatsAppExport")).default;
+    AuditLogPanel = (await import("../../features/audit/components/AuditLogPanel")).default;
+    AdminRecycleBin = (await import("../../features/projects/components/AdminRecycleBin")).default;
   } catch (err) {
     // Shims active in preview
   }
@@ -91,7 +95,7 @@ const AdminDashboardPage: React.FC = () => {
   const navigate = useNavigate();
 
   // Admin Sub-Views (Registry vs Inventory)
-  const [adminTab, setAdminTab] = useState<'users' | 'inventory'>('users');
+  const [adminTab, setAdminTab] = useState<'users' | 'inventory' | 'audit' | 'bin'>('users');
 
   // Data States
   const [profiles, setProfiles] = useState<any[]>([]);
@@ -157,7 +161,7 @@ const AdminDashboardPage: React.FC = () => {
   };
 
   const handleDeleteProject = async (projectId: string) => {
-    if (!window.confirm("CRITICAL: Permanently revoke this project from the cloud database? This cannot be undone.")) return;
+    if (!window.confirm("Move this project to the office recycle bin? It can be restored from there until it is purged.")) return;
     try {
       await adminService.deleteProject(projectId);
       setAllProjects(prev => prev.filter(p => p.id !== projectId));
@@ -235,112 +239,132 @@ const AdminDashboardPage: React.FC = () => {
               >
                 Global Inventory
               </button>
+              <button 
+                onClick={() => { setAdminTab('audit'); setSearchQuery(''); }}
+                className={`px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all
+                  ${adminTab === 'audit' ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-zinc-500 hover:text-white'}`}
+              >
+                Audit Trail
+              </button>
+              <button 
+                onClick={() => { setAdminTab('bin'); setSearchQuery(''); }}
+                className={`px-8 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all
+                  ${adminTab === 'bin' ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-zinc-500 hover:text-white'}`}
+              >
+                Recycle Bin
+              </button>
               <button onClick={loadAdminData} className="ml-auto p-3 text-zinc-500 hover:text-amber-500 transition-colors">
                 <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
               </button>
             </div>
 
             {/* MASTER REGISTRY / INVENTORY TABLE */}
-            <div className={`rounded-[3.5rem] border backdrop-blur-3xl overflow-hidden transition-all duration-500
-              ${theme === 'dark' ? 'bg-zinc-900/30 border-zinc-800 shadow-black' : 'bg-white border-zinc-200 shadow-xl'}`}>
+            {adminTab === 'audit' ? (
+              <AuditLogPanel theme={theme} isOnline={isOnline} profiles={profiles} />
+            ) : adminTab === 'bin' ? (
+              <AdminRecycleBin theme={theme} isOnline={isOnline} onChanged={loadAdminData} />
+            ) : (
+              <div className={`rounded-[3.5rem] border backdrop-blur-3xl overflow-hidden transition-all duration-500
+                ${theme === 'dark' ? 'bg-zinc-900/30 border-zinc-800 shadow-black' : 'bg-white border-zinc-200 shadow-xl'}`}>
               
-              <div className="p-8 sm:p-12 border-b border-zinc-800/30 flex flex-col md:flex-row justify-between items-start md:items-center gap-6 bg-white/2">
-                <div className="text-left">
-                  <h3 className="text-2xl font-black uppercase italic tracking-tighter leading-none">
-                    {adminTab === 'users' ? 'Surveyor Registry' : 'Project Inventory'}
-                  </h3>
-                  <p className="text-[10px] font-black uppercase text-zinc-500 mt-2 leading-none text-left">
-                    {adminTab === 'users' ? 'Manage platform identities and access clearance' : 'Audit and monitor takeoff projects across all user nodes'}
-                  </p>
-                </div>
-                <div className="relative w-full md:w-96 group text-left">
-                  <Search className="absolute left-6 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={18} />
-                  <input 
-                    type="text" placeholder="Search registry..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} 
-                    className={`w-full pl-16 pr-8 py-5 rounded-2xl border outline-none font-bold text-xs transition-all
-                      ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-zinc-50 border-zinc-200'}`} 
-                  />
+                <div className="p-8 sm:p-12 border-b border-zinc-800/30 flex flex-col md:flex-row justify-between items-start md:items-center gap-6 bg-white/2">
+                  <div className="text-left">
+                    <h3 className="text-2xl font-black uppercase italic tracking-tighter leading-none">
+                      {adminTab === 'users' ? 'Surveyor Registry' : 'Project Inventory'}
+                    </h3>
+                    <p className="text-[10px] font-black uppercase text-zinc-500 mt-2 leading-none text-left">
+                      {adminTab === 'users' ? 'Manage platform identities and access clearance' : 'Audit and monitor takeoff projects across all user nodes'}
+                    </p>
+                  </div>
+                  <div className="relative w-full md:w-96 group text-left">
+                    <Search className="absolute left-6 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={18} />
+                    <input 
+                      type="text" placeholder="Search registry..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} 
+                      className={`w-full pl-16 pr-8 py-5 rounded-2xl border outline-none font-bold text-xs transition-all
+                        ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-zinc-50 border-zinc-200'}`} 
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <div className="overflow-x-auto custom-scrollbar">
-                <table className="w-full text-left border-collapse">
-                  <thead>
-                    <tr className={`${theme === 'dark' ? 'bg-zinc-900/50 border-zinc-800' : 'bg-zinc-100 border-zinc-200'} border-b`}>
-                      <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-left">Identification</th>
-                      <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-left">Clearance / Stats</th>
-                      <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-right">Actions</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-zinc-800/40">
-                    {adminTab === 'users' ? (
-                      profiles.filter(p => (p.username || '').toLowerCase().includes(searchQuery.toLowerCase())).map((p) => (
-                        <tr key={p.id} className="group hover:bg-amber-500/5 transition-colors">
-                          <td className="p-10 text-left">
-                            <div className="flex items-center gap-4">
-                              <div className="w-12 h-12 rounded-2xl bg-amber-500/10 border border-amber-500/20 flex items-center justify-center font-black text-amber-500 uppercase italic">
-                                {p.username?.[0] || 'U'}
+                <div className="overflow-x-auto custom-scrollbar">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className={`${theme === 'dark' ? 'bg-zinc-900/50 border-zinc-800' : 'bg-zinc-100 border-zinc-200'} border-b`}>
+                        <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-left">Identification</th>
+                        <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-left">Clearance / Stats</th>
+                        <th className="p-10 text-[10px] font-black uppercase text-zinc-500 italic text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-800/40">
+                      {adminTab === 'users' ? (
+                        profiles.filter(p => (p.username || '').toLowerCase().includes(searchQuery.toLowerCase())).map((p) => (
+                          <tr key={p.id} className="group hover:bg-amber-500/5 transition-colors">
+                            <td className="p-10 text-left">
+                              <div className="flex items-center gap-4">
+                                <div className="w-12 h-12 rounded-2xl bg-amber-500/10 border border-amber-500/20 flex items-center justify-center font-black text-amber-500 uppercase italic">
+                                  {p.username?.[0] || 'U'}
+                                </div>
+                                <div className="text-left">
+                                  <p className="font-black text-lg uppercase group-hover:text-amber-500 transition-colors leading-none">{p.username}</p>
+                                  <p className="text-[9px] font-mono text-zinc-500 uppercase mt-2">REF: {p.id.slice(0,12)}</p>
+                                </div>
                               </div>
-                              <div className="text-left">
-                                <p className="font-black text-lg uppercase group-hover:text-amber-500 transition-colors leading-none">{p.username}</p>
-                                <p className="text-[9px] font-mono text-zinc-500 uppercase mt-2">REF: {p.id.slice(0,12)}</p>
+                            </td>
+                            <td className="p-10 text-left">
+                               <div className="flex items-center gap-6">
+                                  <select 
+                                    value={p.role} disabled={updatingId === p.id} onChange={(e) => handleRoleChange(p.id, e.target.value)}
+                                    className="bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2 text-[10px] font-black uppercase text-zinc-300 outline-none focus:border-amber-500 transition-all cursor-pointer shadow-inner"
+                                  >
+                                    <option value="user">Standard User</option>
+                                    <option value="editor">Editor</option>
+                                    <option value="admin">System Admin</option>
+                                    <option value="super-admin">Super Admin</option>
+                                  </select>
+                                  <div className="h-4 w-px bg-zinc-800" />
+                                  <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{p.project_count || 0} Workspaces</span>
+                               </div>
+                            </td>
+                            <td className="p-10 text-right">
+                               <button 
+                                 onClick={() => inspectUserWorkspaces(p.username)}
+                                 className="p-4 bg-zinc-950 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-amber-500 hover:text-black transition-all shadow-xl"
+                                 title="Inspect User Dashboard"
+                               >
+                                 <ExternalLink size={18}/>
+                               </button>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        allProjects.filter(proj => proj.name?.toLowerCase().includes(searchQuery.toLowerCase()) || proj.username?.toLowerCase().includes(searchQuery.toLowerCase())).map(proj => (
+                          <tr key={proj.id} className="group hover:bg-rose-500/5 transition-colors">
+                            <td className="p-10 text-left">
+                              <div className="flex flex-col text-left">
+                                <span className={`font-black text-xl uppercase tracking-tighter transition-colors group-hover:text-white ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-900'}`}>{proj.name}</span>
+                                <span className="text-[9px] font-mono text-zinc-600 mt-1 uppercase leading-none">LOC: {proj.location || 'SITE_NODE'}</span>
                               </div>
-                            </div>
-                          </td>
-                          <td className="p-10 text-left">
-                             <div className="flex items-center gap-6">
-                                <select 
-                                  value={p.role} disabled={updatingId === p.id} onChange={(e) => handleRoleChange(p.id, e.target.value)}
-                                  className="bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2 text-[10px] font-black uppercase text-zinc-300 outline-none focus:border-amber-500 transition-all cursor-pointer shadow-inner"
-                                >
-                                  <option value="user">Standard User</option>
-                                  <option value="editor">Editor</option>
-                                  <option value="admin">System Admin</option>
-                                  <option value="super-admin">Super Admin</option>
-                                </select>
-                                <div className="h-4 w-px bg-zinc-800" />
-                                <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{p.project_count || 0} Workspaces</span>
-                             </div>
-                          </td>
-                          <td className="p-10 text-right">
-                             <button 
-                               onClick={() => inspectUserWorkspaces(p.username)}
-                               className="p-4 bg-zinc-950 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-amber-500 hover:text-black transition-all shadow-xl"
-                               title="Inspect User Dashboard"
-                             >
-                               <ExternalLink size={18}/>
-                             </button>
-                          </td>
-                        </tr>
-                      ))
-                    ) : (
-                      allProjects.filter(proj => proj.name?.toLowerCase().includes(searchQuery.toLowerCase()) || proj.username?.toLowerCase().includes(searchQuery.toLowerCase())).map(proj => (
-                        <tr key={proj.id} className="group hover:bg-rose-500/5 transition-colors">
-                          <td className="p-10 text-left">
-                            <div className="flex flex-col text-left">
-                              <span className={`font-black text-xl uppercase tracking-tighter transition-colors group-hover:text-white ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-900'}`}>{proj.name}</span>
-                              <span className="text-[9px] font-mono text-zinc-600 mt-1 uppercase leading-none">LOC: {proj.location || 'SITE_NODE'}</span>
-                            </div>
-                          </td>
-                          <td className="p-10 text-left">
-                            <div className="flex items-center gap-2">
-                              <div className="w-6 h-6 rounded-lg bg-zinc-800 flex items-center justify-center font-black text-[10px] text-amber-500">{(proj.username?.[0] || 'U').toUpperCase()}</div>
-                              <span className="font-bold text-xs uppercase tracking-tight text-zinc-500">Officer: {proj.username}</span>
-                            </div>
-                          </td>
-                          <td className="p-10 text-right">
-                            <div className="flex gap-3 justify-end">
-                              <button onClick={() => navigate(`/projects/${proj.id}`)} className="p-4 bg-zinc-950 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-amber-500 hover:text-black transition-all shadow-xl"><ExternalLink size={16}/></button>
-                              <button onClick={() => handleDeleteProject(proj.id)} className="p-4 bg-rose-500/10 border border-rose-500/20 text-rose-500 rounded-2xl hover:bg-rose-500 hover:text-white transition-all shadow-xl"><Trash2 size={16}/></button>
-                            </div>
-                          </td>
-                        </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
+                            </td>
+                            <td className="p-10 text-left">
+                              <div className="flex items-center gap-2">
+                                <div className="w-6 h-6 rounded-lg bg-zinc-800 flex items-center justify-center font-black text-[10px] text-amber-500">{(proj.username?.[0] || 'U').toUpperCase()}</div>
+                                <span className="font-bold text-xs uppercase tracking-tight text-zinc-500">Officer: {proj.username}</span>
+                              </div>
+                            </td>
+                            <td className="p-10 text-right">
+                              <div className="flex gap-3 justify-end">
+                                <button onClick={() => navigate(`/projects/${proj.id}`)} className="p-4 bg-zinc-950 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-amber-500 hover:text-black transition-all shadow-xl"><ExternalLink size={16}/></button>
+                                <button onClick={() => handleDeleteProject(proj.id)} className="p-4 bg-rose-500/10 border border-rose-500/20 text-rose-500 rounded-2xl hover:bg-rose-500 hover:text-white transition-all shadow-xl"><Trash2 size={16}/></button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-            </div>
+            )}
           </div>
         )}
 
@@ -14,6 +14,10 @@ import {
   Share2,
   FileSearch
 } from 'lucide-react';
+import { VAULT_PULLED_EVENT } from '../../lib/database/pullSync';
+import { listAccessibleProjects } from '../../features/projects/projectTeam';
+import { binMeasurement, binProject, getRetentionDays, purgeExpiredLocally } from '../../features/projects/recycleBin';
+import { isBinned, type Measurement } from '../../lib/database/database';
 
 /* ======================================================
     OFFICE MODULE RESOLUTION (PRODUCTION HANDSHAKE)
@@ -30,7 +34,6 @@ let useAuth: any = () => ({
 });
 
 let db: any = null;
-let syncEngine: any = null;
 
 // Registry of modular office components
 let StatGrid: any = () => null;
@@ -44,6 +47,7 @@ let GeometricRegistry: any = () => null;
 let BoQGenerator: any = () => null;
 let CertificateGenerator: any = () => null;
 let WhatsAppExport: any = () => null;
+let RecycleBin: any = () => null;
 
 const resolveModules = async () => {
   try {
@@ -52,7 +56,6 @@ const resolveModules = async () => {
 
     const dbMod = await import("../../lib/database/database");
     if (dbMod.db) db = dbMod.db;
-    if (dbMod.syncEngine) syncEngine = dbMod.syncEngine;
 
     // Feature Component Resolution
     StatGrid = (await import("../../features/projects/components/StatGrid")).default;
@@ -66,6 +69,7 @@ const resolveModules = async () => {
     BoQGenerator = (await import("../../features/boq/components/BoQGenerator")).default;
     CertificateGenerator = (await import("../../features/reports/components/CertificateGenerator")).default;
     WhatsAppExport = (await import("../../features/reports/components/WhatsAppExport")).default;
+    RecycleBin = (await import("../../features/projects/components/RecycleBin")).default;
   } catch (e) {
     // Shims active for previewer stability
   }
@@ -82,6 +86,7 @@ const DashboardPage: React.FC = () => {
   const [projects, setProjects] = useState<any[]>([]);
   const [recentMeasurements, setRecentMeasurements] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [binVersion, setBinVersion] = useState(0);
 
   /** * OFFICE DATA REFRESH
    * Pulls real-time project inventory and recent site measurements from the device memory.
@@ -94,8 +99,8 @@ const DashboardPage: React.FC = () => {
     try {
       setIsLoading(true);
       const [userProjects, recentEntries] = await Promise.all([
-        db.projects.where('user_id').equals(user.id).reverse().toArray(),
-        db.measurements.limit(15).reverse().toArray()
+        listAccessibleProjects(user.id),
+        db.measurements.filter((m: Measurement) => !isBinned(m)).limit(15).reverse().toArray()
       ]);
       
       setProjects(userProjects);
@@ -111,22 +116,31 @@ const DashboardPage: React.FC = () => {
     refreshOfficeRecords();
   }, [refreshOfficeRecords, activeView]);
 
+  // Records pulled from other devices appear without a reload
+  useEffect(() => {
+    const onPulled = () => { refreshOfficeRecords(); };
+    window.addEventListener(VAULT_PULLED_EVENT, onPulled);
+    return () => window.removeEventListener(VAULT_PULLED_EVENT, onPulled);
+  }, [refreshOfficeRecords]);
+
+  // Records binned longer than the office retention window are cleared from the device
+  useEffect(() => {
+    getRetentionDays()
+      .then(purgeExpiredLocally)
+      .then(purged => { if (purged > 0) refreshOfficeRecords(); })
+      .catch(err => console.error("Recycle Bin Error: Purge skipped.", err));
+  }, [refreshOfficeRecords]);
+
   /** * PROJECT DELETION HANDSHAKE
-   * Permanently clears a project and all associated measured data.
+   * Moves a project to the recycle bin; its bill, takeoff and certificates stay with it.
    */
   const handleDeleteProject = async (projectId: string) => {
-    if (!db) return;
-    if (!window.confirm("CRITICAL: Purge this project and all associated measurements from local storage? This action is permanent.")) return;
+    if (!window.confirm("Move this project to the recycle bin? It can be restored with all its measurements until the bin is purged.")) return;
     
     try {
-      await db.projects.delete(projectId);
-      await db.measurements.where('project_id').equals(projectId).delete();
-      await db.bill_items.where('project_id').equals(projectId).delete();
-
-      if (syncEngine?.queueChange) {
-        await syncEngine.queueChange('projects', projectId, 'DELETE', { id: projectId });
-      }
+      await binProject(projectId);
       await refreshOfficeRecords();
+      setBinVersion(v => v + 1);
     } catch (err) {
       console.error("Project Deletion Failed:", err);
     }
@@ -134,10 +148,10 @@ const DashboardPage: React.FC = () => {
 
   /** * MEASUREMENT AUDIT PURGE */
   const handleDeleteMeasurement = async (id: string) => {
-    if (!db) return;
     try {
-      await db.measurements.delete(id);
+      await binMeasurement(id);
       setRecentMeasurements(prev => prev.filter(m => m.id !== id));
+      setBinVersion(v => v + 1);
     } catch (err) {
       console.error("Audit Purge Failed:", err);
     }
@@ -202,6 +216,8 @@ const DashboardPage: React.FC = () => {
                       onDeleteProject={handleDeleteProject}
                     />
                   </div>
+
+                  <RecycleBin version={binVersion} onRestored={refreshOfficeRecords} />
                 </div>
 
                 {/* Dashboard Sidebar: Live Audit Feed */}
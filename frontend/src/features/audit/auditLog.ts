@@ -0,0 +1,90 @@
+import {
+  db,
+  supabase,
+  syncEngine,
+  type AuditAction,
+  type AuditEntry,
+  type SyncQueueItem
+} from "../../lib/database/database";
+import { downloadBlob } from "../../lib/download";
+import { toCsv } from "../../lib/spreadsheet/csv";
+import { SYNC_TABLE_LABELS, recordLabel } from "../sync/labels";
+
+/** --- AUDIT LOG --- **/
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  role_change: 'Role Change',
+  project_delete: 'Project Binned',
+  project_restore: 'Project Restored',
+  project_purge: 'Project Purged',
+  certificate_issue: 'Certificate Issued',
+  dead_letter_discard: 'Sync Change Discarded'
+};
+
+/**
+ * One-line account of what an entry changed, for the table and the export.
+ */
+export const describeAuditEntry = (entry: AuditEntry): string => {
+  const details = entry.details || {};
+  switch (entry.action) {
+    case 'role_change':
+      return `${details.from ?? '?'} → ${details.to ?? '?'}`;
+    case 'project_delete':
+    case 'project_restore':
+    case 'project_purge':
+      return details.location ? `Site: ${details.location}` : '';
+    case 'certificate_issue':
+      return [details.project_name, details.total_due !== undefined ? `Total due ${details.total_due}` : null]
+        .filter(Boolean).join(' • ');
+    case 'dead_letter_discard':
+      return [details.operation, details.last_error].filter(Boolean).join(' • ');
+  }
+};
+
+/**
+ * Logs a dead letter the surveyor threw away. The entry travels through the
+ * sync queue like any other change, so a discard made offline is still recorded.
+ */
+export const recordDeadLetterDiscard = async (item: SyncQueueItem) => {
+  const { data } = await supabase.auth.getSession();
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    actor_id: data.session?.user.id ?? null,
+    action: 'dead_letter_discard',
+    target_type: item.table,
+    target_id: item.record_id,
+    target_label: `${SYNC_TABLE_LABELS[item.table]}: ${recordLabel(item.payload, item.record_id)}`,
+    project_id: typeof item.payload.project_id === 'string' ? item.payload.project_id : null,
+    details: {
+      operation: item.operation,
+      attempts: item.attempts ?? 0,
+      last_error: item.last_error ?? null,
+      payload: item.payload
+    },
+    created_at: new Date().toISOString()
+  };
+
+  await db.audit_log.add(entry);
+  await syncEngine.queueChange('audit_log', entry.id, 'INSERT', { ...entry });
+};
+
+/**
+ * Downloads the entries currently on screen as CSV.
+ */
+export const exportAuditCsv = (entries: AuditEntry[]) => {
+  const rows = [
+    ['Time', 'Actor', 'Action', 'Target Type', 'Target', 'Target ID', 'Project ID', 'Details'],
+    ...entries.map(entry => [
+      entry.created_at,
+      entry.actor_name ?? entry.actor_id ?? 'System',
+      AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+      entry.target_type,
+      entry.target_label,
+      entry.target_id,
+      entry.project_id,
+      describeAuditEntry(entry)
+    ])
+  ];
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `QSVault_Audit_${new Date().toISOString().slice(0, 10)}.csv`);
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ScrollText,
+  Search,
+  Download,
+  Loader2,
+  RefreshCw,
+  WifiOff
+} from 'lucide-react';
+import { adminService, type AuditAction, type AuditEntry, type AuditFilter } from '../../../lib/database/database';
+import { AUDIT_ACTION_LABELS, describeAuditEntry, exportAuditCsv } from '../auditLog';
+
+/** --- TYPES --- **/
+
+interface AuditLogPanelProps {
+  theme: string;
+  isOnline: boolean;
+  profiles: { id: string; username: string }[];
+}
+
+const AUDIT_LIMIT = 500;
+
+const ACTION_TONES: Record<AuditAction, string> = {
+  role_change: 'text-blue-500 bg-blue-500/10 border-blue-500/20',
+  project_delete: 'text-rose-500 bg-rose-500/10 border-rose-500/20',
+  project_restore: 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20',
+  project_purge: 'text-rose-500 bg-rose-500/10 border-rose-500/20',
+  certificate_issue: 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20',
+  dead_letter_discard: 'text-amber-500 bg-amber-500/10 border-amber-500/20'
+};
+
+/** --- MAIN COMPONENT: OFFICE AUDIT TRAIL --- **/
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ theme, isOnline, profiles }) => {
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [targetDraft, setTargetDraft] = useState('');
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{ key: string; entries: AuditEntry[]; error: string | null } | null>(null);
+
+  // Each filter/refresh combination is one request; a stale response is ignored
+  const requestKey = `${JSON.stringify(filter)}#${version}`;
+  const isLoading = isOnline && result?.key !== requestKey;
+  const entries = result?.entries ?? [];
+
+  useEffect(() => {
+    if (!isOnline) return;
+    let active = true;
+    adminService.getAuditLog(filter, AUDIT_LIMIT)
+      .then(found => { if (active) setResult({ key: requestKey, entries: found, error: null }); })
+      .catch(err => {
+        console.error("Audit Error: Log unreachable.", err);
+        if (active) setResult({ key: requestKey, entries: [], error: 'Could not load the audit log' });
+      });
+    return () => { active = false; };
+  }, [filter, requestKey, isOnline]);
+
+  const updateFilter = (patch: Partial<AuditFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const handleTargetSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter({ target: targetDraft.trim() || undefined });
+  };
+
+  const fieldClass = `px-4 py-3 rounded-xl border outline-none text-[10px] font-black uppercase transition-all focus:border-amber-500
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-300' : 'bg-zinc-50 border-zinc-200 text-zinc-700'}`;
+
+  return (
+    <div className={`rounded-[3.5rem] border backdrop-blur-3xl overflow-hidden transition-all duration-500
+      ${theme === 'dark' ? 'bg-zinc-900/30 border-zinc-800 shadow-black' : 'bg-white border-zinc-200 shadow-xl'}`}>
+
+      {/* Header & filters */}
+      <div className="p-8 sm:p-12 border-b border-zinc-800/30 space-y-8 bg-white/2">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+          <div className="text-left">
+            <h3 className="text-2xl font-black uppercase italic tracking-tighter leading-none">Audit Trail</h3>
+            <p className="text-[10px] font-black uppercase text-zinc-500 mt-2 leading-none text-left">
+              Role changes, deletions, certificates and discarded sync changes • Append-only
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setVersion(v => v + 1)}
+              disabled={!isOnline}
+              className="p-4 text-zinc-500 hover:text-amber-500 disabled:opacity-30 transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+            <button
+              onClick={() => exportAuditCsv(entries)}
+              disabled={entries.length === 0}
+              className="flex items-center gap-2 px-6 py-3 rounded-xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+            >
+              <Download size={14} /> Export CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <select
+            value={filter.actorId ?? ''}
+            onChange={(e) => updateFilter({ actorId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">All Actors</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.username}</option>)}
+          </select>
+          <select
+            value={filter.action ?? ''}
+            onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+            className={fieldClass}
+          >
+            <option value="">All Actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => (
+              <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+          <form onSubmit={handleTargetSearch} className="relative group">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={14} />
+            <input
+              type="text" placeholder="Target..." value={targetDraft}
+              onChange={(e) => setTargetDraft(e.target.value)}
+              onBlur={() => updateFilter({ target: targetDraft.trim() || undefined })}
+              className={`${fieldClass} w-full pl-10 normal-case`}
+            />
+          </form>
+          <input
+            type="date" value={filter.from ?? ''} max={filter.to}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={fieldClass} title="From"
+          />
+          <input
+            type="date" value={filter.to ?? ''} min={filter.from}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={fieldClass} title="To"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      {!isOnline ? (
+        <div className="flex items-center justify-center gap-3 p-16 text-zinc-500">
+          <WifiOff size={16} />
+          <p className="text-[10px] font-black uppercase tracking-widest">The audit log is read from the office cloud</p>
+        </div>
+      ) : isLoading && entries.length === 0 ? (
+        <div className="flex justify-center p-16 opacity-30"><Loader2 className="animate-spin" /></div>
+      ) : result?.error ? (
+        <p className="p-16 text-center text-[10px] font-black uppercase tracking-widest text-rose-500">{result.error}</p>
+      ) : entries.length === 0 ? (
+        <div className="flex flex-col items-center gap-4 p-16 opacity-30">
+          <ScrollText size={32} />
+          <p className="text-[10px] font-black uppercase tracking-widest italic">No entries match these filters</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className={`${theme === 'dark' ? 'bg-zinc-900/50 border-zinc-800' : 'bg-zinc-100 border-zinc-200'} border-b`}>
+                <th className="p-6 pl-12 text-[10px] font-black uppercase text-zinc-500 italic">Time</th>
+                <th className="p-6 text-[10px] font-black uppercase text-zinc-500 italic">Actor</th>
+                <th className="p-6 text-[10px] font-black uppercase text-zinc-500 italic">Action</th>
+                <th className="p-6 text-[10px] font-black uppercase text-zinc-500 italic">Target</th>
+                <th className="p-6 pr-12 text-[10px] font-black uppercase text-zinc-500 italic">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/40">
+              {entries.map(entry => (
+                <tr key={entry.id} className="hover:bg-amber-500/5 transition-colors">
+                  <td className="p-6 pl-12 text-[10px] font-mono text-zinc-500 whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </td>
+                  <td className="p-6 text-xs font-black uppercase tracking-tight">
+                    {entry.actor_name ?? (entry.actor_id ? entry.actor_id.slice(0, 8) : 'System')}
+                  </td>
+                  <td className="p-6">
+                    <span className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest whitespace-nowrap ${ACTION_TONES[entry.action]}`}>
+                      {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                    </span>
+                  </td>
+                  <td className="p-6">
+                    <p className="text-xs font-bold truncate max-w-64">{entry.target_label || entry.target_id?.slice(0, 8) || '—'}</p>
+                    <p className="text-[8px] font-mono text-zinc-600 uppercase mt-1">{entry.target_type}</p>
+                  </td>
+                  <td className="p-6 pr-12 text-[10px] font-bold text-zinc-500 max-w-80 truncate">
+                    {describeAuditEntry(entry) || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length >= AUDIT_LIMIT && (
+            <p className="p-6 text-center text-[9px] font-black uppercase tracking-widest text-zinc-500">
+              Showing the latest {AUDIT_LIMIT} entries • Narrow the filters to see older ones
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -204,6 +204,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       await supabase.auth.signOut();
       // The onAuthStateChange listener above will trigger and set user to null,
       // which causes the App.tsx router to automatically show the login page.
+
+      // Whoever signs in next pulls their own records from the beginning
+      const { resetPullCursors } = await import("../../lib/database/pullSync");
+      await resetPullCursors();
     }
   };
 
@@ -0,0 +1,30 @@
+import React from 'react';
+import { usePermissions } from '../../../hooks/usePermissions';
+import type { PermissionAction, PermissionResource } from '../permissions';
+
+/** --- TYPES --- **/
+
+interface PermissionGuardProps {
+  action: PermissionAction;
+  resource: PermissionResource;
+  // Project the record belongs to; its owner decides "own" versus "anybody's"
+  projectId?: string;
+  // Owner of the record itself, when known
+  ownerId?: string | null;
+  // Shown instead of the children when the action is not allowed
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/** --- MAIN COMPONENT: PERMISSION GUARD --- **/
+
+/**
+ * Renders its children only when the signed-in user may perform the action.
+ * The backend policies still have the final say.
+ */
+const PermissionGuard: React.FC<PermissionGuardProps> = ({ action, resource, projectId, ownerId, fallback = null, children }) => {
+  const { can } = usePermissions(projectId);
+  return <>{can(action, resource, ownerId) ? children : fallback}</>;
+};
+
+export default PermissionGuard;
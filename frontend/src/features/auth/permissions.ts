@@ -0,0 +1,88 @@
+import type { ProjectRole, UserRole } from "../../lib/database/database";
+
+/** --- ROLE PERMISSIONS --- **/
+
+export type PermissionResource = 'project' | 'bill' | 'measurement' | 'certificate' | 'rate';
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'certify' | 'share';
+
+/**
+ * A team member at `member` or above needs the office role `own`; anyone else
+ * needs `any`. null means nobody on that path.
+ */
+interface PermissionRule {
+  member: ProjectRole | null;
+  own: UserRole | null;
+  any: UserRole | null;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  'user': 1,
+  'editor': 2,
+  'admin': 3,
+  'super-admin': 4
+};
+
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  reviewer: 2,
+  qs: 3,
+  owner: 4
+};
+
+/**
+ * Who may do what. The RLS policies in Backend/supabase/migrations enforce the
+ * same table; this copy only decides what the screens offer.
+ */
+export const PERMISSIONS: Record<PermissionResource, Partial<Record<PermissionAction, PermissionRule>>> = {
+  project: {
+    view: { member: 'viewer', own: 'user', any: 'editor' },
+    create: { member: 'owner', own: 'user', any: null },
+    edit: { member: 'owner', own: 'user', any: 'super-admin' },
+    delete: { member: 'owner', own: 'user', any: 'admin' },
+    share: { member: 'owner', own: 'user', any: 'admin' }
+  },
+  bill: {
+    view: { member: 'viewer', own: 'user', any: 'editor' },
+    edit: { member: 'qs', own: 'user', any: 'super-admin' }
+  },
+  measurement: {
+    view: { member: 'viewer', own: 'user', any: 'editor' },
+    create: { member: 'qs', own: 'user', any: 'super-admin' },
+    edit: { member: 'qs', own: 'user', any: 'super-admin' },
+    delete: { member: 'qs', own: 'user', any: 'admin' }
+  },
+  // Issuing an IPC is a professional sign-off, so it needs an editor even on one's own project
+  certificate: {
+    view: { member: 'viewer', own: 'user', any: 'editor' },
+    certify: { member: 'qs', own: 'editor', any: 'super-admin' },
+    edit: { member: 'qs', own: 'editor', any: 'super-admin' }
+  },
+  // Rates belong to no project: "owner" marks a surveyor's personal overrides, "any" the office book
+  rate: {
+    view: { member: 'viewer', own: 'user', any: 'user' },
+    edit: { member: 'owner', own: 'user', any: 'editor' }
+  }
+};
+
+export const hasRole = (role: UserRole | null | undefined, minimum: UserRole) =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+export const hasProjectRole = (projectRole: ProjectRole | null | undefined, minimum: ProjectRole) =>
+  !!projectRole && PROJECT_ROLE_RANK[projectRole] >= PROJECT_ROLE_RANK[minimum];
+
+/**
+ * Whether a user may perform an action on a resource, given their office role
+ * and their role on the project (null when not on its team). Team members fall
+ * back to the "any" rule, so a role that may act everywhere may act on its own.
+ */
+export const isAllowed = (
+  role: UserRole | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource,
+  projectRole: ProjectRole | null = 'owner'
+) => {
+  const rule = PERMISSIONS[resource][action];
+  if (!rule) return false;
+  if (rule.member && rule.own && hasProjectRole(projectRole, rule.member) && hasRole(role, rule.own)) return true;
+  return !!rule.any && hasRole(role, rule.any);
+};
@@ -0,0 +1,123 @@
+import { db, isBinned } from "../../lib/database/database";
+import { downloadBlob, safeFileName } from "../../lib/download";
+import { writeWorkbook, type Cell, type Worksheet } from "../../lib/spreadsheet/xlsx";
+import { layoutBill, type SequencedItem } from "./billItems";
+import { rollUpQuantity } from "./quantities";
+
+export const VAT_RATE = 0.16; // Standard Kenya VAT rate
+
+export interface ExportBillItem extends SequencedItem {
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+}
+
+const BILL_SHEET = 'Bill of Quantities';
+
+const text = (value: string, style: Cell['style'] = 'text'): Cell => ({ value, style });
+const money = (value: number, formula?: string, style: Cell['style'] = 'money'): Cell => ({ value, formula, style });
+
+/**
+ * Lays the bill out in the standard Kenyan format: one numbered bill per work section,
+ * each page totalled "to collection", a collection at the end of every bill and a
+ * grand summary carrying VAT. Amounts and totals are formulas with cached values.
+ */
+export const buildBillWorkbook = (projectName: string, items: ExportBillItem[]): Worksheet[] => {
+  const sections = layoutBill(items, item => item.quantity * item.rate);
+  const rows: (Cell | null)[][] = [
+    [null, text(projectName.toUpperCase(), 'heading')],
+    [null, text('BILL OF QUANTITIES', 'bold')],
+    [],
+    [text('ITEM', 'bold'), text('DESCRIPTION', 'bold'), text('UNIT', 'bold'), text('QTY', 'bold'), text('RATE', 'bold'), text('AMOUNT (KSHS)', 'bold')],
+    []
+  ];
+  const summaryRefs: { bill: number; name: string; row: number; total: number }[] = [];
+
+  sections.forEach((section, s) => {
+    const billNo = s + 1;
+    rows.push([text(`BILL NO. ${billNo}`, 'bold'), text(section.name.toUpperCase(), 'bold')], []);
+
+    const pageTotalRows: { page: number; row: number; total: number }[] = [];
+    for (const page of section.pages) {
+      const first = rows.length + 1;
+      for (const { item, code } of page.items) {
+        const r = rows.length + 1;
+        rows.push([
+          text(code),
+          text(item.description),
+          text(item.unit),
+          money(item.quantity),
+          money(item.rate),
+          money(item.quantity * item.rate, `D${r}*E${r}`)
+        ]);
+      }
+      const last = rows.length;
+      rows.push([
+        null,
+        text(`Carried to Collection - Page ${page.number}`, 'bold'),
+        null, null, null,
+        money(page.total, `SUM(F${first}:F${last})`, 'boldMoney')
+      ], []);
+      pageTotalRows.push({ page: page.number, row: rows.length - 1, total: page.total });
+    }
+
+    rows.push([null, text(`COLLECTION - BILL NO. ${billNo}`, 'bold')]);
+    const collectionStart = rows.length + 1;
+    for (const p of pageTotalRows) {
+      rows.push([null, text(`Page ${p.page}`), null, null, null, money(p.total, `F${p.row}`)]);
+    }
+    const collectionEnd = rows.length;
+    rows.push([
+      null,
+      text(`TOTAL BILL NO. ${billNo} CARRIED TO SUMMARY`, 'bold'),
+      null, null, null,
+      money(section.subtotal, `SUM(F${collectionStart}:F${collectionEnd})`, 'boldMoney')
+    ], []);
+    summaryRefs.push({ bill: billNo, name: section.name, row: rows.length - 1, total: section.subtotal });
+  });
+
+  const net = summaryRefs.reduce((acc, r) => acc + r.total, 0);
+  const summary: (Cell | null)[][] = [
+    [null, text(projectName.toUpperCase(), 'heading')],
+    [null, text('GRAND SUMMARY', 'bold')],
+    [],
+    [text('BILL NO.', 'bold'), text('DESCRIPTION', 'bold'), text('AMOUNT (KSHS)', 'bold')]
+  ];
+  const firstBill = summary.length + 1;
+  for (const ref of summaryRefs) {
+    summary.push([text(String(ref.bill)), text(ref.name.toUpperCase()), money(ref.total, `'${BILL_SHEET}'!F${ref.row}`)]);
+  }
+  const lastBill = summary.length;
+  summary.push([]);
+  const netRow = summary.length + 1;
+  summary.push([null, text('SUB-TOTAL', 'bold'), money(net, `SUM(C${firstBill}:C${lastBill})`, 'boldMoney')]);
+  summary.push([null, text(`ADD VAT @ ${VAT_RATE * 100}%`), money(net * VAT_RATE, `C${netRow}*${VAT_RATE}`)]);
+  summary.push([null, text('GRAND TOTAL CARRIED TO FORM OF TENDER', 'bold'), money(net * (1 + VAT_RATE), `C${netRow}+C${netRow + 1}`, 'boldMoney')]);
+
+  return [
+    { name: BILL_SHEET, columnWidths: [8, 60, 8, 12, 14, 18], rows },
+    { name: 'Summary', columnWidths: [10, 60, 20], rows: summary }
+  ];
+};
+
+export const exportBillWorkbook = (projectName: string, items: ExportBillItem[]) => {
+  const blob = writeWorkbook(buildBillWorkbook(projectName, items));
+  downloadBlob(blob, `${safeFileName(projectName)}_BoQ.xlsx`);
+};
+
+/**
+ * Exports a project's bill straight from the device vault, with measured
+ * quantities rolled up from the takeoff.
+ */
+export const exportProjectBill = async (projectId: string, projectName: string) => {
+  const [items, measurements] = await Promise.all([
+    db.bill_items.where('project_id').equals(projectId).toArray(),
+    db.measurements.where('project_id').equals(projectId).filter(m => !isBinned(m)).toArray()
+  ]);
+
+  exportBillWorkbook(projectName, items.map(item => {
+    const linked = measurements.filter(m => m.bill_item_id === item.id);
+    return { ...item, quantity: linked.length > 0 ? rollUpQuantity(linked) : item.quantity };
+  }));
+};
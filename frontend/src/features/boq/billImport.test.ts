@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '../../lib/spreadsheet/csv';
+import { detectColumns, mapHeader, normaliseUnit, validateBill, type ColumnMapping } from './billImport';
+
+// A consultant's bill as it usually arrives: title block, headings, sections and page totals
+const CONSULTANT_BILL = parseCsv([
+  'PROPOSED MATERNITY WING,,,,,',
+  'BILL NO. 2 - SUBSTRUCTURE,,,,,',
+  ',,,,,',
+  'Item,Description,Unit,Qty,Rate,Amount (Kshs)',
+  ',EXCAVATION AND EARTHWORKS,,,,',
+  'A,"Excavate oversite, average 150mm deep",m²,"1,250",85,"106,250"',
+  'B,Excavate trenches not exceeding 1.5m deep,cu.m,48.5,650,"31,525"',
+  'C,Hardcore filling,m3,,1200,',
+  ',,,,,',
+  ',CONCRETE WORK,,,,',
+  'D,Allow for testing cubes,Item,,15000,15000',
+  'E,Y12 reinforcement bars,kg,860,155,"150,000"',
+  'F,Precast kerbs,bags,12,400,4800',
+  'G,Mass concrete blinding,m3,twelve,9800,',
+  'H,,m,4,100,400',
+  ',Carried to Collection,,,,"307,775"'
+].join('\n'));
+
+const detected = detectColumns(CONSULTANT_BILL);
+
+describe('header detection', () => {
+  it('finds the heading row below the title block', () => {
+    expect(detected.headerRow).toBe(3);
+  });
+
+  it('maps the usual BoQ headings', () => {
+    expect(detected.mapping).toEqual({ item_code: 0, description: 1, unit: 2, quantity: 3, rate: 4, amount: 5 });
+  });
+
+  it('maps each column once, whatever order the headings come in', () => {
+    expect(mapHeader(['Ref', 'Particulars of work', 'Quantity', 'Units', 'Total', 'Unit rate'])).toEqual({
+      item_code: 0, description: 1, unit: 3, quantity: 2, rate: 5, amount: 4
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    expect(mapHeader(['Description', 'Remarks'])).toEqual({
+      item_code: null, description: 0, unit: null, quantity: null, rate: null, amount: null
+    });
+  });
+
+  it('falls back to the first row when no heading names a description', () => {
+    expect(detectColumns([['a', 'b'], ['1', '2']]).headerRow).toBe(0);
+  });
+});
+
+describe('unit spellings', () => {
+  it('recognises the spellings consultants use', () => {
+    expect(normaliseUnit('M²')).toEqual({ unit: 'm2', lumpSum: false });
+    expect(normaliseUnit(' cu.m ')).toEqual({ unit: 'm3', lumpSum: false });
+    expect(normaliseUnit('Nos')).toEqual({ unit: 'nr', lumpSum: false });
+    expect(normaliseUnit('tonnes')).toEqual({ unit: 't', lumpSum: false });
+  });
+
+  it('takes lump sums as a single number', () => {
+    expect(normaliseUnit('Sum')).toEqual({ unit: 'nr', lumpSum: true });
+    expect(normaliseUnit('L.S')).toEqual({ unit: 'nr', lumpSum: true });
+  });
+
+  it('rejects units the bill cannot hold', () => {
+    expect(normaliseUnit('bags')).toEqual({ unit: null, lumpSum: false });
+  });
+});
+
+describe('bill validation', () => {
+  const report = validateBill(CONSULTANT_BILL, detected.headerRow, detected.mapping);
+
+  it('imports the priced rows under their sections', () => {
+    expect(report.rows).toEqual([
+      { line: 6, section: 'EXCAVATION AND EARTHWORKS', description: 'Excavate oversite, average 150mm deep', unit: 'm2', quantity: 1250, rate: 85 },
+      { line: 7, section: 'EXCAVATION AND EARTHWORKS', description: 'Excavate trenches not exceeding 1.5m deep', unit: 'm3', quantity: 48.5, rate: 650 },
+      { line: 8, section: 'EXCAVATION AND EARTHWORKS', description: 'Hardcore filling', unit: 'm3', quantity: 0, rate: 1200 },
+      { line: 11, section: 'CONCRETE WORK', description: 'Allow for testing cubes', unit: 'nr', quantity: 1, rate: 15000 },
+      { line: 12, section: 'CONCRETE WORK', description: 'Y12 reinforcement bars', unit: 'kg', quantity: 860, rate: 155 }
+    ]);
+    expect(report.sections).toEqual(['EXCAVATION AND EARTHWORKS', 'CONCRETE WORK']);
+  });
+
+  it('skips page totals and collections', () => {
+    expect(report.skipped).toBe(1);
+  });
+
+  it('reports each problem against its line in the file', () => {
+    expect(report.issues).toEqual([
+      { line: 8, severity: 'warning', message: 'Quantity missing, imported as 0' },
+      { line: 11, severity: 'warning', message: 'Lump sum "Item" imported as 1 nr' },
+      { line: 12, severity: 'warning', message: `Amount ${(150000).toLocaleString()} does not equal qty × rate (${(133300).toLocaleString()})` },
+      { line: 13, severity: 'error', message: 'Unit "bags" is not a bill unit (m3, m2, m, nr, kg, t)' },
+      { line: 14, severity: 'error', message: 'Quantity "twelve" is not a number' },
+      { line: 15, severity: 'error', message: 'Description is empty' }
+    ]);
+  });
+
+  it('refuses to import until the required columns are mapped', () => {
+    const mapping: ColumnMapping = { ...detected.mapping, unit: null, quantity: null };
+    expect(validateBill(CONSULTANT_BILL, detected.headerRow, mapping)).toEqual({
+      rows: [],
+      issues: [{ line: 4, severity: 'error', message: 'Map a column for: Unit, Quantity' }],
+      sections: [],
+      skipped: 0
+    });
+  });
+
+  it('reads amounts written with currency and spaces', () => {
+    const grid = [['Description', 'Unit', 'Qty', 'Rate'], ['Walling', 'm2', ' 1 200 ', 'KSHS 1,450.50']];
+    expect(validateBill(grid, 0, mapHeader(grid[0])).rows[0]).toMatchObject({ quantity: 1200, rate: 1450.5 });
+  });
+});
@@ -0,0 +1,194 @@
+import type { BillUnit } from "../../lib/database/database";
+import { parseCsv } from "../../lib/spreadsheet/csv";
+import { readWorkbook } from "../../lib/spreadsheet/xlsx";
+
+/** --- 1. FILE READING --- **/
+
+/**
+ * Reads a consultant's bill as a grid of cells. XLSX is unpacked on the device;
+ * anything else is treated as CSV text.
+ */
+export const readBillFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) return readWorkbook(await file.arrayBuffer());
+  return parseCsv(await file.text());
+};
+
+/** --- 2. COLUMN MAPPING --- **/
+
+export type ImportField = 'item_code' | 'description' | 'unit' | 'quantity' | 'rate' | 'amount';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'item_code', label: 'Item', required: false },
+  { field: 'description', label: 'Description', required: true },
+  { field: 'unit', label: 'Unit', required: true },
+  { field: 'quantity', label: 'Quantity', required: true },
+  { field: 'rate', label: 'Rate', required: false },
+  { field: 'amount', label: 'Amount', required: false }
+];
+
+const HEADER_PATTERNS: Record<ImportField, RegExp> = {
+  item_code: /^(item|ref|code|no\.?)$/i,
+  description: /desc|particular|work/i,
+  unit: /^units?$/i,
+  quantity: /^(qty|quantity|quant)/i,
+  rate: /rate/i,
+  amount: /amount|total|kshs|kes/i
+};
+
+/**
+ * Finds the header row (the first row naming a description column within the
+ * first 30 rows) and maps its columns by their usual BoQ headings.
+ */
+export const detectColumns = (grid: string[][]): { headerRow: number; mapping: ColumnMapping } => {
+  const headerRow = Math.max(0, grid.slice(0, 30).findIndex(row => row.some(c => HEADER_PATTERNS.description.test(c.trim()))));
+  return { headerRow, mapping: mapHeader(grid[headerRow] ?? []) };
+};
+
+export const mapHeader = (header: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { item_code: null, description: null, unit: null, quantity: null, rate: null, amount: null };
+  for (const { field } of IMPORT_FIELDS) {
+    const index = header.findIndex((cell, i) =>
+      HEADER_PATTERNS[field].test(cell.trim()) && !Object.values(mapping).includes(i));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+};
+
+/** --- 3. VALIDATION --- **/
+
+const UNIT_ALIASES: Record<string, BillUnit> = {
+  'm3': 'm3', 'm³': 'm3', 'cum': 'm3', 'cu.m': 'm3', 'cu m': 'm3',
+  'm2': 'm2', 'm²': 'm2', 'sm': 'm2', 'sqm': 'm2', 'sq.m': 'm2', 'sq m': 'm2',
+  'm': 'm', 'lm': 'm', 'rm': 'm', 'l.m': 'm',
+  'nr': 'nr', 'no': 'nr', 'no.': 'nr', 'nos': 'nr', 'pcs': 'nr',
+  'kg': 'kg', 'kgs': 'kg',
+  't': 't', 'tn': 't', 'tonne': 't', 'tonnes': 't'
+};
+
+// Lump sum items are billed as a single number
+const LUMP_SUM_UNITS = ['item', 'sum', 'ls', 'l.s', 'l/s'];
+
+const TOTAL_ROW = /carried to|brought forward|collection|sub-?total|^total|summary/i;
+
+export const normaliseUnit = (raw: string): { unit: BillUnit | null; lumpSum: boolean } => {
+  const key = raw.trim().toLowerCase();
+  if (UNIT_ALIASES[key]) return { unit: UNIT_ALIASES[key], lumpSum: false };
+  if (LUMP_SUM_UNITS.includes(key)) return { unit: 'nr', lumpSum: true };
+  return { unit: null, lumpSum: false };
+};
+
+const parseNumber = (raw: string): number | null => {
+  const cleaned = raw.replace(/[,\s]|kshs|kes/gi, '');
+  if (cleaned === '' || cleaned === '-') return 0;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+export interface ImportRow {
+  line: number; // 1-based row in the source file
+  section: string | null;
+  description: string;
+  unit: BillUnit;
+  quantity: number;
+  rate: number;
+}
+
+export interface ImportIssue {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportReport {
+  rows: ImportRow[];
+  issues: ImportIssue[];
+  sections: string[];
+  skipped: number;
+}
+
+/**
+ * Turns the mapped grid into bill rows. Rows carrying only a description open a
+ * new section; page totals and collections are skipped. Rows with errors are
+ * reported and left out of `rows`.
+ */
+export const validateBill = (grid: string[][], headerRow: number, mapping: ColumnMapping): ImportReport => {
+  const report: ImportReport = { rows: [], issues: [], sections: [], skipped: 0 };
+  const missing = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+  if (missing.length > 0) {
+    report.issues.push({
+      line: headerRow + 1,
+      severity: 'error',
+      message: `Map a column for: ${missing.map(f => f.label).join(', ')}`
+    });
+    return report;
+  }
+
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  let section: string | null = null;
+  grid.slice(headerRow + 1).forEach((row, offset) => {
+    const line = headerRow + offset + 2;
+    const description = cell(row, 'description');
+    const rawUnit = cell(row, 'unit');
+    const rawQty = cell(row, 'quantity');
+    const rawRate = cell(row, 'rate');
+
+    if (row.every(c => !c.trim())) return;
+
+    if (!rawUnit && !rawQty && !rawRate) {
+      if (!description || TOTAL_ROW.test(description)) {
+        report.skipped++;
+        return;
+      }
+      section = description;
+      if (!report.sections.includes(section)) report.sections.push(section);
+      return;
+    }
+
+    if (!description) {
+      report.issues.push({ line, severity: 'error', message: 'Description is empty' });
+      return;
+    }
+
+    const { unit, lumpSum } = normaliseUnit(rawUnit);
+    if (!unit) {
+      report.issues.push({ line, severity: 'error', message: `Unit "${rawUnit}" is not a bill unit (m3, m2, m, nr, kg, t)` });
+      return;
+    }
+    if (lumpSum) {
+      report.issues.push({ line, severity: 'warning', message: `Lump sum "${rawUnit}" imported as 1 nr` });
+    }
+
+    const quantity = lumpSum && !rawQty ? 1 : parseNumber(rawQty);
+    const rate = parseNumber(rawRate);
+    if (quantity === null) {
+      report.issues.push({ line, severity: 'error', message: `Quantity "${rawQty}" is not a number` });
+      return;
+    }
+    if (rate === null) {
+      report.issues.push({ line, severity: 'error', message: `Rate "${rawRate}" is not a number` });
+      return;
+    }
+    if (!rawQty && !lumpSum) {
+      report.issues.push({ line, severity: 'warning', message: 'Quantity missing, imported as 0' });
+    }
+
+    const amount = parseNumber(cell(row, 'amount'));
+    if (amount && rate && Math.abs(amount - quantity * rate) > 1) {
+      report.issues.push({
+        line,
+        severity: 'warning',
+        message: `Amount ${amount.toLocaleString()} does not equal qty × rate (${(quantity * rate).toLocaleString()})`
+      });
+    }
+
+    report.rows.push({ line, section, description, unit, quantity, rate });
+  });
+
+  return report;
+};
@@ -0,0 +1,219 @@
+import { db, syncEngine, type BillItem, type BillUnit } from "../../lib/database/database";
+
+/** --- 1. BILL LAYOUT --- **/
+
+// I and O are skipped so item codes are never misread as 1 and 0
+export const ITEM_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'.split('');
+
+// A bill page runs out when its letters do; the next page restarts at A
+export const ITEMS_PER_PAGE = ITEM_LETTERS.length;
+
+export const UNSECTIONED = 'General Items';
+
+export interface SequencedItem {
+  id: string;
+  section: string | null;
+  sort_order: number;
+}
+
+export interface BillPage<T> {
+  number: number;
+  section: string;
+  items: { item: T; code: string }[];
+  total: number;
+}
+
+export interface BillSection<T> {
+  name: string;
+  pages: BillPage<T>[];
+  subtotal: number;
+}
+
+/**
+ * Lays a bill out the way it is printed: items grouped under their work section,
+ * each section starting on a fresh page, lettered A, B, C... within each page.
+ * Sections appear in the order of their first item.
+ */
+export const layoutBill = <T extends SequencedItem>(items: T[], amountOf: (item: T) => number): BillSection<T>[] => {
+  const sections = new Map<string, T[]>();
+  for (const item of [...items].sort((a, b) => a.sort_order - b.sort_order)) {
+    const name = item.section || UNSECTIONED;
+    sections.set(name, [...(sections.get(name) ?? []), item]);
+  }
+
+  let pageNumber = 0;
+  return [...sections.entries()].map(([name, sectionItems]) => {
+    const pages: BillPage<T>[] = [];
+    for (let i = 0; i < sectionItems.length; i += ITEMS_PER_PAGE) {
+      const pageItems = sectionItems.slice(i, i + ITEMS_PER_PAGE);
+      pages.push({
+        number: ++pageNumber,
+        section: name,
+        items: pageItems.map((item, idx) => ({ item, code: ITEM_LETTERS[idx] })),
+        total: pageItems.reduce((acc, item) => acc + amountOf(item), 0)
+      });
+    }
+    return { name, pages, subtotal: pages.reduce((acc, p) => acc + p.total, 0) };
+  });
+};
+
+/** --- 2. PERSISTENCE (every change is queued for the cloud) --- **/
+
+const saveBillItem = async (item: BillItem) => {
+  await db.bill_items.put(item);
+  await syncEngine.queueChange('bill_items', item.id, 'UPDATE', { ...item });
+};
+
+const projectBillItems = (projectId: string): Promise<BillItem[]> =>
+  db.bill_items.where('project_id').equals(projectId).toArray();
+
+/**
+ * Rewrites sort order and item codes from the printed layout so positions stay
+ * contiguous. Only items whose position or code moved are queued.
+ */
+export const resequenceBill = async (projectId: string): Promise<void> => {
+  const items = await projectBillItems(projectId);
+  const ordered = layoutBill(items, () => 0).flatMap(s => s.pages.flatMap(p => p.items));
+  const updated_at = new Date().toISOString();
+
+  for (const [index, { item, code }] of ordered.entries()) {
+    if (item.sort_order === index && item.item_code === code) continue;
+    await saveBillItem({ ...item, sort_order: index, item_code: code, updated_at });
+  }
+};
+
+export type BillItemPatch = Partial<Pick<BillItem, 'description' | 'unit' | 'quantity' | 'rate' | 'rate_id' | 'rate_code' | 'section'>>;
+
+export const updateBillItem = async (id: string, patch: BillItemPatch): Promise<BillItem | null> => {
+  const item = await db.bill_items.get(id);
+  if (!item) return null;
+
+  // A rate typed over or built up no longer comes from the picked price book rate
+  const unlink = patch.rate !== undefined && patch.rate_id === undefined && patch.rate !== item.rate
+    ? { rate_id: null, rate_code: null }
+    : {};
+  const updated: BillItem = { ...item, ...patch, ...unlink, updated_at: new Date().toISOString() };
+  await saveBillItem(updated);
+  if (patch.section !== undefined && patch.section !== item.section) {
+    await resequenceBill(item.project_id);
+  }
+  return updated;
+};
+
+/**
+ * Adds an item at the end of its section (or opens the section at the end of the bill).
+ */
+export const addBillItem = async (
+  projectId: string,
+  section: string | null,
+  fields: { description: string; unit: BillUnit; quantity?: number; rate?: number }
+): Promise<BillItem> => {
+  const existing = await projectBillItems(projectId);
+  const sectionName = section || UNSECTIONED;
+  const inSection = existing.filter(b => (b.section || UNSECTIONED) === sectionName);
+  const anchor = inSection.length > 0 ? inSection : existing;
+  const sort_order = anchor.reduce((max, b) => Math.max(max, b.sort_order), -1) + 0.5;
+
+  const timestamp = new Date().toISOString();
+  const item: BillItem = {
+    id: crypto.randomUUID(),
+    project_id: projectId,
+    item_code: null,
+    section,
+    description: fields.description,
+    unit: fields.unit,
+    rate: fields.rate ?? 0,
+    rate_id: null,
+    rate_code: null,
+    quantity: fields.quantity ?? 0,
+    sort_order,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+
+  await db.bill_items.add(item);
+  await syncEngine.queueChange('bill_items', item.id, 'INSERT', { ...item });
+  await resequenceBill(projectId);
+  return (await db.bill_items.get(item.id)) ?? item;
+};
+
+/**
+ * Swaps an item with its neighbour in the same section.
+ */
+export const moveBillItem = async (id: string, direction: 'up' | 'down'): Promise<void> => {
+  const item = await db.bill_items.get(id);
+  if (!item) return;
+
+  const siblings = (await projectBillItems(item.project_id))
+    .filter(b => (b.section || UNSECTIONED) === (item.section || UNSECTIONED))
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const index = siblings.findIndex(b => b.id === id);
+  const neighbour = siblings[direction === 'up' ? index - 1 : index + 1];
+  if (!neighbour) return;
+
+  const updated_at = new Date().toISOString();
+  await saveBillItem({ ...item, sort_order: neighbour.sort_order, updated_at });
+  await saveBillItem({ ...neighbour, sort_order: item.sort_order, updated_at });
+  await resequenceBill(item.project_id);
+};
+
+/**
+ * Removes an item from the bill, with its rate build-up. Its measurements stay
+ * in the takeoff, unlinked.
+ */
+export const deleteBillItem = async (id: string): Promise<void> => {
+  const item = await db.bill_items.get(id);
+  if (!item) return;
+
+  const updated_at = new Date().toISOString();
+  const linked = await db.measurements.where('bill_item_id').equals(id).toArray();
+  for (const m of linked) {
+    await db.measurements.update(m.id, { bill_item_id: null, updated_at });
+    await syncEngine.queueChange('measurements', m.id, 'UPDATE', { ...m, bill_item_id: null, updated_at });
+  }
+
+  const analysis = await db.rate_analyses.where('bill_item_id').equals(id).first();
+  if (analysis) {
+    await db.rate_analyses.delete(analysis.id);
+    await syncEngine.queueChange('rate_analyses', analysis.id, 'DELETE', { id: analysis.id });
+  }
+
+  await db.bill_items.delete(id);
+  await syncEngine.queueChange('bill_items', id, 'DELETE', { id });
+  await resequenceBill(item.project_id);
+};
+
+/**
+ * Appends imported rows after the existing bill, keeping their order and sections.
+ */
+export const importBillItems = async (
+  projectId: string,
+  rows: { section: string | null; description: string; unit: BillUnit; quantity: number; rate: number }[]
+): Promise<number> => {
+  const existing = await projectBillItems(projectId);
+  const start = existing.reduce((max, b) => Math.max(max, b.sort_order), -1) + 1;
+  const timestamp = new Date().toISOString();
+
+  const items: BillItem[] = rows.map((row, i) => ({
+    id: crypto.randomUUID(),
+    project_id: projectId,
+    item_code: null,
+    section: row.section,
+    description: row.description,
+    unit: row.unit,
+    rate: row.rate,
+    rate_id: null,
+    rate_code: null,
+    quantity: row.quantity,
+    sort_order: start + i,
+    created_at: timestamp,
+    updated_at: timestamp
+  }));
+
+  await db.bill_items.bulkAdd(items);
+  for (const item of items) {
+    await syncEngine.queueChange('bill_items', item.id, 'INSERT', { ...item });
+  }
+  await resequenceBill(projectId);
+  return items.length;
+};
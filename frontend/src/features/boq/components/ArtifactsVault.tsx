@@ -13,6 +13,7 @@ import {
   Lock,
   Database
 } from 'lucide-react';
+import { exportProjectBill } from '../billExport';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
@@ -137,7 +138,7 @@ const ArtifactsVault: React.FC = () => {
       }
       try {
         // Fetch real projects to generate a "Document List"
-        const activeProjects = await db.projects.where('user_id').equals(user.id).toArray();
+        const activeProjects = await db.projects.where('user_id').equals(user.id).filter((p: any) => !p.deleted_at).toArray();
         
         const documentList: ReportItem[] = activeProjects.map((p: any) => ({
           id: p.id,
@@ -160,9 +161,17 @@ const ArtifactsVault: React.FC = () => {
     syncWithOfficeData();
   }, [user]);
 
-  const handleDownload = (id: string) => {
+  const handleDownload = async (id: string) => {
+    const report = reports.find(r => r.id === id);
+    if (!report) return;
     setIsProcessing(id);
-    setTimeout(() => setIsProcessing(null), 1500);
+    try {
+      await exportProjectBill(id, report.projectName);
+    } catch (err) {
+      console.error("Export failed:", err);
+    } finally {
+      setIsProcessing(null);
+    }
   };
 
   return (
@@ -0,0 +1,260 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Upload,
+  X,
+  AlertTriangle,
+  CheckCircle2,
+  Info,
+  Loader2
+} from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  detectColumns,
+  mapHeader,
+  readBillFile,
+  validateBill,
+  type ColumnMapping
+} from '../billImport';
+import { importBillItems } from '../billItems';
+
+/* ======================================================
+    MODULE RESOLUTION HANDLER (SANDBOX COMPATIBILITY)
+   ====================================================== */
+
+let useAuth: any = () => ({
+  theme: 'dark',
+});
+
+const resolveModules = async () => {
+  try {
+    const authMod = await import("../../../features/auth/AuthContext");
+    if (authMod.useAuth) useAuth = authMod.useAuth;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    // Sandbox fallback
+  }
+};
+
+resolveModules();
+
+/** --- TYPES --- **/
+
+interface BillImportDialogProps {
+  projectId: string;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+/** --- MAIN COMPONENT: CONSULTANT BILL IMPORT --- **/
+
+const BillImportDialog: React.FC<BillImportDialogProps> = ({ projectId, onClose, onImported }) => {
+  const { theme } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [grid, setGrid] = useState<string[][]>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [status, setStatus] = useState<'idle' | 'reading' | 'importing'>('idle');
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const report = useMemo(
+    () => (mapping && grid.length > 0 ? validateBill(grid, headerRow, mapping) : null),
+    [grid, headerRow, mapping]
+  );
+
+  const headerCells = grid[headerRow] ?? [];
+  const columnCount = Math.max(0, ...grid.slice(0, 50).map(r => r.length));
+  const errors = report?.issues.filter(i => i.severity === 'error') ?? [];
+  const warnings = report?.issues.filter(i => i.severity === 'warning') ?? [];
+
+  const handleFile = async (file: File) => {
+    setStatus('reading');
+    setReadError(null);
+    try {
+      const rows = await readBillFile(file);
+      const detected = detectColumns(rows);
+      setGrid(rows);
+      setHeaderRow(detected.headerRow);
+      setMapping(detected.mapping);
+      setFileName(file.name);
+    } catch (err) {
+      console.error("Import Error: Bill file unreadable.", err);
+      setReadError(err instanceof Error ? err.message : 'File could not be read');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const changeHeaderRow = (row: number) => {
+    setHeaderRow(row);
+    setMapping(mapHeader(grid[row] ?? []));
+  };
+
+  const handleImport = async () => {
+    if (!report || report.rows.length === 0) return;
+    setStatus('importing');
+    try {
+      const count = await importBillItems(projectId, report.rows);
+      onImported(count);
+    } catch (err) {
+      console.error("Import Error: Bill items were not saved.", err);
+      setReadError('Import failed. No changes were queued for sync.');
+      setStatus('idle');
+    }
+  };
+
+  const selectClass = `w-full p-3 rounded-xl border text-[10px] font-black uppercase outline-none focus:border-amber-500
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Import Bill<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              Consultant XLSX or CSV • Rows are appended to this project's bill
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+          {/* 1. File */}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`w-full p-8 rounded-3xl border-2 border-dashed flex items-center justify-center gap-4 transition-all
+              ${theme === 'dark' ? 'border-zinc-800 hover:border-amber-500/40 text-zinc-400' : 'border-zinc-200 hover:border-amber-500/40 text-zinc-600'}`}
+          >
+            {status === 'reading' ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+            <span className="text-[10px] font-black uppercase tracking-widest">
+              {fileName ?? 'Choose .xlsx or .csv file'}
+            </span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+
+          {readError && (
+            <div className="flex items-center gap-3 text-rose-500">
+              <AlertTriangle size={14} />
+              <span className="text-[10px] font-black uppercase tracking-widest">{readError}</span>
+            </div>
+          )}
+
+          {/* 2. Column Mapping */}
+          {mapping && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-500">Column Mapping</p>
+                <label className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                  Header Row
+                  <input
+                    type="number"
+                    min={1}
+                    max={grid.length}
+                    value={headerRow + 1}
+                    onChange={(e) => changeHeaderRow(Math.max(0, Number(e.target.value) - 1))}
+                    className={`w-16 p-2 rounded-lg border text-center outline-none focus:border-amber-500
+                      ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <label key={field} className="space-y-2">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                      {label}{required && <span className="text-amber-500"> *</span>}
+                    </span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      <option value="">Not in file</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>
+                          Col {i + 1}{headerCells[i] ? ` • ${headerCells[i]}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 3. Validation Report */}
+          {report && (
+            <div className="space-y-4">
+              <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-500">Validation Report</p>
+              <div className="grid grid-cols-4 gap-3">
+                {[
+                  { label: 'Items', value: report.rows.length, color: 'text-emerald-500' },
+                  { label: 'Sections', value: report.sections.length, color: 'text-zinc-400' },
+                  { label: 'Errors', value: errors.length, color: 'text-rose-500' },
+                  { label: 'Warnings', value: warnings.length, color: 'text-amber-500' }
+                ].map(stat => (
+                  <div key={stat.label} className={`p-4 rounded-2xl border ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+                    <p className={`text-2xl font-black italic tracking-tighter ${stat.color}`}>{stat.value}</p>
+                    <p className="text-[8px] font-black uppercase tracking-widest text-zinc-500">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+              {report.skipped > 0 && (
+                <p className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+                  <Info size={12} /> {report.skipped} total/collection rows skipped
+                </p>
+              )}
+              <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-2">
+                {report.issues.map((issue, i) => (
+                  <div key={i} className="flex items-start gap-3">
+                    {issue.severity === 'error'
+                      ? <AlertTriangle size={12} className="text-rose-500 mt-0.5 shrink-0" />
+                      : <Info size={12} className="text-amber-500 mt-0.5 shrink-0" />}
+                    <span className="text-[10px] font-bold text-zinc-400">
+                      <span className="font-mono text-zinc-600">Row {issue.line}</span> {issue.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-8 border-t border-zinc-800/40 flex justify-between items-center gap-6">
+          <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+            {errors.length > 0 ? 'Rows with errors are left out of the import.' : 'Item codes are re-lettered to fit the bill.'}
+          </p>
+          <button
+            onClick={handleImport}
+            disabled={!report || report.rows.length === 0 || status !== 'idle'}
+            className="flex items-center gap-3 px-8 py-4 bg-amber-500 text-black rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+          >
+            {status === 'importing' ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+            Import {report?.rows.length ?? 0} Items
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BillImportDialog;
@@ -8,8 +8,41 @@ import {
   Receipt,
   Calculator,
   Loader2,
-  Database
+  Database,
+  ChevronDown,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  FolderPlus,
+  FileUp,
+  Layers,
+  BookLock,
+  BookOpen,
+  RefreshCw,
+  Download
 } from 'lucide-react';
+import { isBinned, type BillUnit } from '../../../lib/database/database';
+import { rollUpQuantity } from '../quantities';
+import { exportBillWorkbook } from '../billExport';
+import BillImportDialog from './BillImportDialog';
+import RateAnalysisDialog from '../../rates/components/RateAnalysisDialog';
+import PriceBookDialog from '../../rates/components/PriceBookDialog';
+import RatePickerDialog from '../../rates/components/RatePickerDialog';
+import { exportRateLinks, projectRateLinks, refreshLinkedRates, type RateLink } from '../../rates/rateLinks';
+import { repriceProject } from '../../rates/rateAnalysis';
+import { VAULT_PULLED_EVENT } from '../../../lib/database/pullSync';
+import PermissionGuard from '../../auth/components/PermissionGuard';
+import { usePermissions } from '../../../hooks/usePermissions';
+import {
+  addBillItem,
+  deleteBillItem,
+  layoutBill,
+  moveBillItem,
+  updateBillItem,
+  type BillItemPatch
+} from '../billItems';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
@@ -17,6 +50,7 @@ import {
 
 // Default shims for the preview environment
 let useAuth: any = () => ({
+  user: { id: 'dev-surveyor-001' },
   theme: 'dark',
 });
 
@@ -39,6 +73,14 @@ resolveModules();
 
 /** --- TYPES --- **/
 
+interface MeasurementLine {
+  id: string;
+  label: string;
+  page?: number;
+  value: number;
+  unit: string;
+}
+
 interface BoQItem {
   id: string;
   code: string;
@@ -46,8 +88,19 @@ interface BoQItem {
   unit: string;
   qty: number;
   rate: number;
+  section: string | null;
+  sort_order: number;
+  // Takeoff measurements rolled into this item's quantity
+  breakdown?: MeasurementLine[];
+  // The rate is built up from the price book and follows it
+  analysed?: boolean;
+  // The price book rate the rate was picked from, flagged when that rate changes
+  rateId?: string | null;
+  rateCode?: string | null;
 }
 
+const BILL_UNITS: BillUnit[] = ['m3', 'm2', 'm', 'nr', 'kg', 't'];
+
 interface BoQGeneratorProps {
   projectId: string;
   projectName: string;
@@ -55,52 +108,206 @@ interface BoQGeneratorProps {
   initialItems?: BoQItem[]; 
 }
 
+/**
+ * Bill items for a project with measured quantities rolled up from the takeoff.
+ * Measured items always reflect the live takeoff, not a stale stored figure;
+ * measurements in the recycle bin no longer count.
+ */
+const fetchBill = async (projectId: string): Promise<BoQItem[]> => {
+  const storedItems = await db.bill_items
+    .where('project_id')
+    .equals(projectId)
+    .toArray();
+
+  const storedMeasurements = await db.measurements
+    .where('project_id')
+    .equals(projectId)
+    .toArray();
+
+  const analysed = new Set((await db.rate_analyses
+    .where('project_id')
+    .equals(projectId)
+    .toArray()).map((a: any) => a.bill_item_id));
+
+  const linkedByItem = new Map<string, any[]>();
+  for (const m of storedMeasurements) {
+    if (!m.bill_item_id || isBinned(m)) continue;
+    linkedByItem.set(m.bill_item_id, [...(linkedByItem.get(m.bill_item_id) ?? []), m]);
+  }
+
+  // Map database schema to UI presentation format
+  return storedItems.map((item: any) => {
+    const linked = linkedByItem.get(item.id) ?? [];
+    return {
+      id: item.id,
+      code: item.item_code || 'UNCODED',
+      description: item.description,
+      unit: item.unit,
+      qty: linked.length > 0 ? rollUpQuantity(linked) : item.quantity,
+      rate: item.rate,
+      section: item.section ?? null,
+      sort_order: item.sort_order ?? 0,
+      analysed: analysed.has(item.id),
+      rateId: item.rate_id ?? null,
+      rateCode: item.rate_code ?? null,
+      breakdown: linked.map((m: any) => ({
+        id: m.id,
+        label: m.label || m.id.slice(0, 8).toUpperCase(),
+        page: m.page,
+        value: m.value,
+        unit: m.unit
+      }))
+    };
+  });
+};
+
+/** --- SUB-COMPONENT: INLINE CELL EDITOR --- **/
+
+// Holds a draft while typing and commits on blur or Enter
+const EditableCell: React.FC<{
+  value: string | number;
+  type?: 'text' | 'number';
+  placeholder?: string;
+  className: string;
+  readOnly?: boolean;
+  onCommit: (value: string) => void;
+}> = ({ value, type = 'text', placeholder, className, readOnly = false, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  const commit = () => {
+    if (draft !== String(value)) onCommit(draft);
+  };
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      placeholder={placeholder}
+      readOnly={readOnly}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className={`w-full bg-transparent border border-transparent rounded-lg px-2 py-1 outline-none ${readOnly ? '' : 'hover:border-zinc-700 focus:border-amber-500'} ${className}`}
+    />
+  );
+};
+
 /** --- MAIN COMPONENT: BILL OF QUANTITIES GENERATOR --- **/
 
 const BoQGenerator: React.FC<BoQGeneratorProps> = ({ projectId, projectName, initialItems = [] }) => {
-  const { theme } = useAuth();
+  const { user, theme } = useAuth();
+  const { can } = usePermissions(projectId);
+  const canEdit = can('edit', 'bill');
   const [items, setItems] = useState<BoQItem[]>(initialItems);
   const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newSection, setNewSection] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [analysing, setAnalysing] = useState<{ item: BoQItem; code: string } | null>(null);
+  const [showPriceBooks, setShowPriceBooks] = useState(false);
+  const [picking, setPicking] = useState<{ item: BoQItem; code: string } | null>(null);
+  const [rateLinks, setRateLinks] = useState<Map<string, RateLink>>(new Map());
 
   /** * LIVE DATA SYNC
    * Fetches real bill items from the local database for this specific project.
+   * Built-up rates are brought in line with the price book first.
    */
   useEffect(() => {
-    const loadBillData = async () => {
-      if (!db || !projectId) {
-        setIsLoading(false);
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        // Query Dexie for items belonging to this project
-        const storedItems = await db.bill_items
-          .where('project_id')
-          .equals(projectId)
-          .toArray();
-
-        // Map database schema to UI presentation format
-        const mappedItems: BoQItem[] = storedItems.map((item: any) => ({
-          id: item.id,
-          code: item.item_code || 'UNCODED',
-          description: item.description,
-          unit: item.unit,
-          qty: item.quantity,
-          rate: item.rate
-        }));
-
-        setItems(mappedItems);
-      } catch (err) {
-        console.error("Valuation Error: Could not reach office database.", err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    const pending = db && projectId
+      ? repriceProject(projectId)
+          .catch(err => console.error("Valuation Error: Build-ups not re-priced.", err))
+          .then(() => fetchBill(projectId))
+          .then(setItems)
+      : Promise.resolve();
+    pending
+      .catch(err => console.error("Valuation Error: Could not reach office database.", err))
+      .finally(() => setIsLoading(false));
+  }, [projectId]);
 
-    loadBillData();
+  // Bill changes from other devices (live or pulled) are re-read from the vault
+  useEffect(() => {
+    const onCloudChange = (event: Event) => {
+      const tables = (event as CustomEvent<string[]>).detail || [];
+      if (!db || !projectId || !tables.some(t => ['bill_items', 'measurements', 'rate_analyses', 'rates', 'price_books'].includes(t))) return;
+      // Rates edited, or a price book locked, elsewhere re-price this project's build-ups
+      (tables.some(t => t === 'rates' || t === 'price_books') ? repriceProject(projectId) : Promise.resolve(0))
+        .then(() => fetchBill(projectId))
+        .then(setItems)
+        .catch(err => console.error("Valuation Error: Could not reach office database.", err));
+    };
+    window.addEventListener(VAULT_PULLED_EVENT, onCloudChange);
+    return () => window.removeEventListener(VAULT_PULLED_EVENT, onCloudChange);
   }, [projectId]);
 
+  // Items priced from the price book are checked against it whenever the bill is re-read
+  useEffect(() => {
+    if (!db || !projectId || !user?.id) return;
+    let active = true;
+    projectRateLinks(projectId, user.id)
+      .then(found => { if (active) setRateLinks(found); })
+      .catch(err => console.error("Valuation Error: Rate links not checked.", err));
+    return () => { active = false; };
+  }, [projectId, user?.id, items]);
+
+  /** * BILL EDITING
+   * Edits apply on screen immediately; the device vault and sync queue follow.
+   */
+  const reload = async () => setItems(await fetchBill(projectId));
+
+  const runBillChange = async (change: () => Promise<unknown>) => {
+    if (!db || !canEdit) return;
+    try {
+      await change();
+    } catch (err) {
+      console.error("Valuation Error: Bill change was not saved.", err);
+    } finally {
+      await reload();
+    }
+  };
+
+  const commitField = (item: BoQItem, patch: BillItemPatch) => {
+    if (!canEdit) return;
+    // A measured quantity is derived from the takeoff; a typed figure would be rolled over on reload
+    if (patch.quantity !== undefined && item.breakdown && item.breakdown.length > 0) return;
+    setItems(prev => prev.map(i => i.id === item.id ? {
+      ...i,
+      ...(patch.description !== undefined && { description: patch.description }),
+      ...(patch.unit !== undefined && { unit: patch.unit }),
+      ...(patch.quantity !== undefined && { qty: patch.quantity }),
+      ...(patch.rate !== undefined && { rate: patch.rate, rateId: null, rateCode: null })
+    } : i));
+    if (!db) return;
+    updateBillItem(item.id, patch).catch(err => {
+      console.error("Valuation Error: Bill change was not saved.", err);
+      reload();
+    });
+  };
+
+  const openSection = () => {
+    const name = newSection.trim();
+    if (!name) return;
+    setNewSection('');
+    runBillChange(() => addBillItem(projectId, name, { description: '', unit: 'nr' }));
+  };
+
+  const sections = useMemo(() => layoutBill(items, item => item.qty * item.rate), [items]);
+
+  const linkList = [...rateLinks.values()];
+  const changedLinks = linkList.filter(l => l.status === 'changed');
+  const missingLinks = linkList.filter(l => l.status === 'missing').length;
+
+  const handleExport = () => {
+    exportBillWorkbook(projectName, items.map(item => ({
+      id: item.id,
+      section: item.section,
+      sort_order: item.sort_order,
+      description: item.description,
+      unit: item.unit,
+      quantity: item.qty,
+      rate: item.rate
+    })));
+  };
+
   // Financial Computation Logic (Standard SMM-KE Calculations)
   const totals = useMemo(() => {
     const net = items.reduce((acc, curr) => acc + (curr.qty * curr.rate), 0);
@@ -128,12 +335,61 @@ const BoQGenerator: React.FC<BoQGeneratorProps> = ({ projectId, projectName, ini
             ${theme === 'dark' ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}>
             <Printer size={16} /> Print Draft
           </button>
-          <button className="flex items-center gap-3 px-10 py-5 bg-amber-500 text-black rounded-3xl font-black uppercase text-[10px] tracking-widest shadow-2xl shadow-amber-500/20 hover:bg-amber-400 active:scale-95 transition-all">
+          <PermissionGuard action="edit" resource="bill" projectId={projectId}>
+            <button
+              onClick={() => setIsImporting(true)}
+              disabled={!db || !projectId}
+              className={`flex items-center gap-3 px-8 py-5 rounded-3xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30
+              ${theme === 'dark' ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}>
+              <FileUp size={16} /> Import Bill
+            </button>
+          </PermissionGuard>
+          <button
+            onClick={() => setShowPriceBooks(true)}
+            disabled={!db || !projectId || !user}
+            className={`flex items-center gap-3 px-8 py-5 rounded-3xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30
+            ${theme === 'dark' ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}>
+            <BookLock size={16} /> Price Books
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={items.length === 0}
+            className="flex items-center gap-3 px-10 py-5 bg-amber-500 text-black rounded-3xl font-black uppercase text-[10px] tracking-widest shadow-2xl shadow-amber-500/20 hover:bg-amber-400 active:scale-95 disabled:opacity-30 transition-all">
             <FileSpreadsheet size={16} /> Export to Excel
           </button>
         </div>
       </header>
 
+      {/* Price book links: which items are priced from which rate, and which have moved */}
+      {linkList.length > 0 && (
+        <div className={`flex flex-wrap items-center justify-between gap-4 px-8 py-4 rounded-3xl border shrink-0
+          ${changedLinks.length > 0 ? 'border-amber-500/30 bg-amber-500/5' : theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
+          <p className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            <BookOpen size={14} className="text-amber-500" />
+            {linkList.length} items priced from the price book
+            {changedLinks.length > 0 && <span className="text-amber-500">• {changedLinks.length} rates changed since</span>}
+            {missingLinks > 0 && <span className="text-rose-500">• {missingLinks} no longer in the price book</span>}
+          </p>
+          <div className="flex gap-2">
+            {canEdit && changedLinks.length > 0 && (
+              <button
+                onClick={() => runBillChange(() => refreshLinkedRates(changedLinks))}
+                className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 transition-all"
+              >
+                <RefreshCw size={12} /> Update {changedLinks.length}
+              </button>
+            )}
+            <button
+              onClick={() => exportRateLinks(projectName, items, rateLinks)}
+              className={`flex items-center gap-2 px-5 py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest transition-all
+                ${theme === 'dark' ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}
+            >
+              <Download size={12} /> Report
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 2. Professional BoQ Ledger Table */}
       <div className={`flex-1 rounded-[3.5rem] border backdrop-blur-3xl overflow-hidden flex flex-col transition-all duration-500
         ${theme === 'dark' ? 'bg-zinc-900/20 border-zinc-800 shadow-2xl shadow-black' : 'bg-white border-zinc-200 shadow-xl'}`}>
@@ -154,58 +410,271 @@ const BoQGenerator: React.FC<BoQGeneratorProps> = ({ projectId, projectName, ini
                   <th className="p-10 text-right">Quantity</th>
                   <th className="p-10 text-right">Rate</th>
                   <th className="p-10 text-right">Amount (KES)</th>
+                  <th className="p-6" />
                 </tr>
               </thead>
               <tbody className={`divide-y ${theme === 'dark' ? 'divide-zinc-800/40' : 'divide-zinc-200'}`}>
-                {items.length > 0 ? items.map((item) => (
-                  <tr key={item.id} className="group hover:bg-amber-500/5 transition-colors">
-                    <td className="p-10">
-                      <span className="text-zinc-500 font-mono text-xs italic font-black uppercase tracking-tighter">
-                        {item.code}
-                      </span>
-                    </td>
-                    <td className="p-10 max-w-xl">
-                      <p className={`text-sm font-bold uppercase tracking-tight leading-relaxed group-hover:text-amber-500 transition-colors
-                        ${theme === 'dark' ? 'text-zinc-300' : 'text-zinc-700'}`}>
-                        {item.description}
-                      </p>
-                    </td>
-                    <td className="p-8 text-center">
-                      <span className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border
-                        ${theme === 'dark' ? 'bg-zinc-800 text-zinc-500 border-zinc-700' : 'bg-zinc-50 text-zinc-400 border-zinc-200'}`}>
-                        {item.unit}
-                      </span>
+                {sections.length > 0 ? sections.map((section) => (
+                  <React.Fragment key={section.name}>
+                  {/* Section Heading */}
+                  <tr className={theme === 'dark' ? 'bg-zinc-900/60' : 'bg-zinc-100'}>
+                    <td colSpan={7} className="px-10 py-6">
+                      <div className="flex justify-between items-center">
+                        <p className={`text-sm font-black uppercase italic tracking-[0.2em] ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                          {section.name}
+                        </p>
+                        {canEdit && (
+                          <button
+                            onClick={() => runBillChange(() => addBillItem(projectId, section.name, { description: '', unit: 'nr' }))}
+                            className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-amber-500 transition-colors"
+                          >
+                            <Plus size={12} /> Add Item
+                          </button>
+                        )}
+                      </div>
                     </td>
-                    <td className="p-10 text-right">
-                      <p className={`text-xl font-black tracking-tighter leading-none ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
-                        {item.qty.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                      </p>
-                    </td>
-                    <td className="p-10 text-right text-zinc-500 italic font-medium text-xs">
-                      {item.rate.toLocaleString()}
+                  </tr>
+
+                  {section.pages.map((page) => (
+                    <React.Fragment key={page.number}>
+                    {page.items.map(({ item, code }, index) => {
+                      const entryCount = item.breakdown?.length ?? 0;
+                      const isMeasured = entryCount > 0;
+                      const link = rateLinks.get(item.id);
+                      return (
+                      <React.Fragment key={item.id}>
+                      <tr className="group hover:bg-amber-500/5 transition-colors">
+                        <td className="p-10">
+                          <div className="flex items-center gap-3">
+                            {isMeasured ? (
+                              <button
+                                onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                                className="text-zinc-500 hover:text-amber-500 transition-colors"
+                                title="Show Measured Build-up"
+                              >
+                                {expandedId === item.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                              </button>
+                            ) : <span className="w-3.5" />}
+                            <span className="text-zinc-500 font-mono text-xs italic font-black uppercase tracking-tighter">
+                              {code}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="p-10 max-w-xl">
+                          <EditableCell
+                            key={item.description}
+                            value={item.description}
+                            placeholder="Describe the work..."
+                            readOnly={!canEdit}
+                            onCommit={(description) => commitField(item, { description })}
+                            className={`text-sm font-bold uppercase tracking-tight leading-relaxed
+                              ${theme === 'dark' ? 'text-zinc-300' : 'text-zinc-700'}`}
+                          />
+                        </td>
+                        <td className="p-8 text-center">
+                          <select
+                            value={item.unit}
+                            disabled={isMeasured || !canEdit}
+                            title={isMeasured ? 'Unit is fixed by the linked measurements' : undefined}
+                            onChange={(e) => commitField(item, { unit: e.target.value as BillUnit })}
+                            className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border outline-none disabled:opacity-60
+                              ${theme === 'dark' ? 'bg-zinc-800 text-zinc-500 border-zinc-700' : 'bg-zinc-50 text-zinc-400 border-zinc-200'}`}
+                          >
+                            {BILL_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                          </select>
+                        </td>
+                        <td className="p-10 text-right">
+                          {isMeasured ? (
+                            <div title="Rolled up from the linked measurements">
+                              <p className={`text-xl font-black tracking-tighter leading-none ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                                {item.qty.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                              </p>
+                              <p className="mt-1 text-[8px] font-black uppercase tracking-widest text-right text-zinc-600">
+                                Measured • {entryCount} {entryCount === 1 ? 'entry' : 'entries'}
+                              </p>
+                            </div>
+                          ) : (
+                            <EditableCell
+                              key={item.qty}
+                              type="number"
+                              value={item.qty}
+                              readOnly={!canEdit}
+                              onCommit={(v) => commitField(item, { quantity: Number(v) || 0 })}
+                              className={`text-right text-xl font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}
+                            />
+                          )}
+                        </td>
+                        <td className="p-10 text-right">
+                          <div className="flex items-center gap-2">
+                            {(canEdit || item.analysed) && (
+                              <button
+                                onClick={() => setAnalysing({ item, code })}
+                                disabled={!user}
+                                className={`shrink-0 transition-colors disabled:opacity-30 ${item.analysed ? 'text-amber-500' : 'text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}
+                                title={item.analysed ? 'Rate Built Up from Price Book' : 'Build Up Rate'}
+                              >
+                                <Layers size={12} />
+                              </button>
+                            )}
+                            {canEdit && !item.analysed && (
+                              <button
+                                onClick={() => setPicking({ item, code })}
+                                disabled={!user}
+                                className={`shrink-0 transition-colors disabled:opacity-30 ${item.rateCode ? 'text-amber-500' : 'text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}
+                                title={item.rateCode ? `Priced from ${item.rateCode} • Pick Another Rate` : 'Pick Rate from Price Book'}
+                              >
+                                <BookOpen size={12} />
+                              </button>
+                            )}
+                            <EditableCell
+                              key={item.rate}
+                              type="number"
+                              value={item.rate}
+                              readOnly={!canEdit || item.analysed}
+                              onCommit={(v) => commitField(item, { rate: Number(v) || 0 })}
+                              className="text-right text-zinc-500 italic font-medium text-xs"
+                            />
+                          </div>
+                          {link && (
+                            <p className={`mt-1 text-[8px] font-black uppercase tracking-widest text-right
+                              ${link.status === 'changed' ? 'text-amber-500' : link.status === 'missing' ? 'text-rose-500' : 'text-zinc-600'}`}>
+                              {link.code}
+                              {link.status === 'changed' && link.libraryRate !== null && ` • Now ${link.libraryRate.toLocaleString()}`}
+                              {link.status === 'missing' && ' • Not in price book'}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-10 text-right">
+                          <p className="text-2xl font-black text-amber-500 tracking-tighter leading-none italic">
+                            {(item.qty * item.rate).toLocaleString()}
+                          </p>
+                        </td>
+                        <td className="p-6">
+                          {canEdit && (
+                          <div className="flex flex-col items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                              onClick={() => runBillChange(() => moveBillItem(item.id, 'up'))}
+                              disabled={page.number === section.pages[0].number && index === 0}
+                              className="p-1 text-zinc-500 hover:text-amber-500 disabled:opacity-20"
+                              title="Move Up"
+                            >
+                              <ArrowUp size={12} />
+                            </button>
+                            <button
+                              onClick={() => runBillChange(() => moveBillItem(item.id, 'down'))}
+                              disabled={page === section.pages[section.pages.length - 1] && index === page.items.length - 1}
+                              className="p-1 text-zinc-500 hover:text-amber-500 disabled:opacity-20"
+                              title="Move Down"
+                            >
+                              <ArrowDown size={12} />
+                            </button>
+                            <button
+                              onClick={() => runBillChange(() => deleteBillItem(item.id))}
+                              className="p-1 text-zinc-600 hover:text-rose-500"
+                              title="Remove Item"
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedId === item.id && item.breakdown?.map((line) => (
+                        <tr key={line.id} className={theme === 'dark' ? 'bg-zinc-950/40' : 'bg-zinc-50'}>
+                          <td className="px-10 py-4" />
+                          <td className="px-10 py-4 text-[10px] font-black uppercase tracking-widest text-zinc-500" colSpan={2}>
+                            {line.label}{line.page ? ` • Sheet ${line.page}` : ''}
+                          </td>
+                          <td className={`px-10 py-4 text-right text-xs font-black tracking-tighter ${line.value < 0 ? 'text-rose-500' : 'text-zinc-400'}`}>
+                            {line.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {line.unit}
+                          </td>
+                          <td colSpan={3} />
+                        </tr>
+                      ))}
+                      </React.Fragment>
+                      );
+                    })}
+                    {/* Page Footer */}
+                    <tr>
+                      <td colSpan={5} className="px-10 py-4 text-right text-[9px] font-black uppercase tracking-[0.3em] text-zinc-500 italic">
+                        Page {page.number} • Carried to Collection
+                      </td>
+                      <td className="px-10 py-4 text-right text-sm font-black italic tracking-tighter text-zinc-400">
+                        {page.total.toLocaleString()}
+                      </td>
+                      <td />
+                    </tr>
+                    </React.Fragment>
+                  ))}
+
+                  {/* Section Subtotal */}
+                  <tr className={theme === 'dark' ? 'bg-zinc-950/60' : 'bg-zinc-50'}>
+                    <td colSpan={5} className="px-10 py-6 text-right text-[10px] font-black uppercase tracking-[0.3em] text-amber-500 italic">
+                      {section.name} Subtotal
                     </td>
-                    <td className="p-10 text-right">
-                      <p className="text-2xl font-black text-amber-500 tracking-tighter leading-none italic">
-                        {(item.qty * item.rate).toLocaleString()}
-                      </p>
+                    <td className={`px-10 py-6 text-right text-xl font-black italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                      {section.subtotal.toLocaleString()}
                     </td>
+                    <td />
                   </tr>
+                  </React.Fragment>
                 )) : (
                   <tr>
-                    <td colSpan={6} className="p-32 text-center opacity-20">
+                    <td colSpan={7} className="p-32 text-center opacity-20">
                         <Calculator size={64} className="mx-auto mb-4" />
                         <p className="font-black uppercase text-sm tracking-widest italic">No Measured Items Found</p>
                     </td>
                   </tr>
                 )}
+
+                {/* Open a new work section */}
+                {canEdit && (
+                <tr>
+                  <td colSpan={7} className="px-10 py-6">
+                    <div className="flex gap-3 max-w-md">
+                      <input
+                        value={newSection}
+                        onChange={(e) => setNewSection(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') openSection(); }}
+                        placeholder="New work section, e.g. Concrete Work"
+                        className={`flex-1 p-3 rounded-xl border text-[10px] font-bold uppercase outline-none focus:border-amber-500
+                          ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`}
+                      />
+                      <button
+                        onClick={openSection}
+                        disabled={!newSection.trim()}
+                        className="flex items-center gap-2 px-5 rounded-xl bg-zinc-800 text-zinc-300 text-[9px] font-black uppercase tracking-widest hover:text-amber-500 disabled:opacity-30 transition-all"
+                      >
+                        <FolderPlus size={12} /> Open Section
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                )}
               </tbody>
             </table>
           </div>
         )}
 
         {/* 3. Financial Summary Footer */}
-        <div className={`p-10 sm:p-14 border-t flex flex-col md:flex-row justify-end items-center gap-12
+        <div className={`p-10 sm:p-14 border-t flex flex-col md:flex-row justify-between items-start gap-12
           ${theme === 'dark' ? 'bg-zinc-950/60 border-zinc-800' : 'bg-zinc-50 border-zinc-200 shadow-inner'}`}>
+
+          {/* Collection: every page total carried forward */}
+          <div className="w-full md:max-w-md space-y-3 text-left">
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-500 italic mb-4">Collection</p>
+            {sections.flatMap(section => section.pages).map(page => (
+              <div key={page.number} className="flex justify-between items-center text-zinc-500">
+                <span className="text-[9px] font-black uppercase tracking-widest">
+                  Page {page.number} • {page.section}
+                </span>
+                <span className="text-xs font-black italic tracking-tighter">{page.total.toLocaleString()}</span>
+              </div>
+            ))}
+            {sections.length === 0 && (
+              <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-600">No pages to collect</p>
+            )}
+          </div>
           
           <div className="w-full md:w-96 space-y-6">
             <div className="flex justify-between items-center opacity-40">
@@ -238,6 +707,58 @@ const BoQGenerator: React.FC<BoQGeneratorProps> = ({ projectId, projectName, ini
         </div>
       </div>
 
+      {isImporting && (
+        <BillImportDialog
+          projectId={projectId}
+          onClose={() => setIsImporting(false)}
+          onImported={() => {
+            setIsImporting(false);
+            reload();
+          }}
+        />
+      )}
+
+      {analysing && user && (
+        <RateAnalysisDialog
+          projectId={projectId}
+          billItem={{ id: analysing.item.id, code: analysing.code, description: analysing.item.description, unit: analysing.item.unit }}
+          userId={user.id}
+          theme={theme}
+          readOnly={!canEdit}
+          onClose={() => setAnalysing(null)}
+          onChanged={() => {
+            setAnalysing(null);
+            reload();
+          }}
+        />
+      )}
+
+      {picking && user && (
+        <RatePickerDialog
+          projectId={projectId}
+          billItem={{ id: picking.item.id, code: picking.code, description: picking.item.description, unit: picking.item.unit, rateId: picking.item.rateId ?? null }}
+          userId={user.id}
+          theme={theme}
+          onClose={() => setPicking(null)}
+          onApplied={() => {
+            setPicking(null);
+            reload();
+          }}
+        />
+      )}
+
+      {showPriceBooks && user && (
+        <PriceBookDialog
+          projectId={projectId}
+          projectName={projectName}
+          userId={user.id}
+          theme={theme}
+          readOnly={!canEdit}
+          onClose={() => setShowPriceBooks(false)}
+          onChanged={reload}
+        />
+      )}
+
       {/* 4. Document Verification Footer */}
       <footer className="flex flex-col sm:flex-row justify-between items-center opacity-30 gap-6">
         <div className="flex items-center gap-3">
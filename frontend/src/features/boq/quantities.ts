@@ -0,0 +1,100 @@
+import { db, isBinned, syncEngine, type BillItem, type BillUnit, type Measurement } from "../../lib/database/database";
+import { addBillItem } from "./billItems";
+
+/** --- 1. UNIT MAPPING --- **/
+
+// Takeoff records display units; the bill uses the plain SMM unit codes
+const MEASURED_TO_BILL_UNIT: Record<string, BillUnit> = {
+  'm³': 'm3',
+  'm3': 'm3',
+  'm²': 'm2',
+  'm2': 'm2',
+  'm': 'm',
+  'nr': 'nr',
+  'kg': 'kg',
+  't': 't',
+};
+
+export const toBillUnit = (measuredUnit: string): BillUnit | null =>
+  MEASURED_TO_BILL_UNIT[measuredUnit] ?? null;
+
+export const isUnitCompatible = (measuredUnit: string, billUnit: BillUnit): boolean =>
+  toBillUnit(measuredUnit) === billUnit;
+
+/** --- 2. QUANTITY ROLL-UP --- **/
+
+/**
+ * Signed sum of linked measurements. Deductions are stored as negative values,
+ * so voids and openings reduce the billed quantity automatically.
+ */
+export const rollUpQuantity = (measurements: Pick<Measurement, 'value'>[]): number =>
+  measurements.reduce((acc, m) => acc + m.value, 0);
+
+/**
+ * Recomputes a bill item's quantity from its linked measurements and queues the change.
+ * Only called when an item's links change, so an item whose last measurement
+ * is unlinked, binned or deleted drops back to zero.
+ */
+export const recalculateBillItem = async (billItemId: string): Promise<number | null> => {
+  const item = await db.bill_items.get(billItemId);
+  if (!item) return null;
+
+  const linked = await db.measurements.where('bill_item_id').equals(billItemId).filter(m => !isBinned(m)).toArray();
+  const quantity = rollUpQuantity(linked);
+  if (quantity === item.quantity) return quantity;
+
+  const updated_at = new Date().toISOString();
+  await db.bill_items.update(billItemId, { quantity, updated_at });
+  await syncEngine.queueChange('bill_items', billItemId, 'UPDATE', { ...item, quantity, updated_at });
+  return quantity;
+};
+
+/** --- 3. MEASUREMENT LINKING --- **/
+
+export interface LinkResult {
+  linked: string[];
+  /** Measurements whose unit cannot be billed under the chosen item */
+  rejected: string[];
+}
+
+/**
+ * Assigns measurements to a bill item (or unlinks them with `null`) and
+ * re-rolls every bill item whose quantity is affected.
+ */
+export const assignMeasurements = async (measurementIds: string[], billItemId: string | null): Promise<LinkResult> => {
+  const target = billItemId ? await db.bill_items.get(billItemId) : null;
+  if (billItemId && !target) throw new Error(`Bill item ${billItemId} not found`);
+
+  const measurements = (await db.measurements.bulkGet(measurementIds)).filter((m): m is Measurement => !!m);
+  const affected = new Set<string>();
+  const result: LinkResult = { linked: [], rejected: [] };
+  const updated_at = new Date().toISOString();
+
+  for (const m of measurements) {
+    if (target && !isUnitCompatible(m.unit, target.unit)) {
+      result.rejected.push(m.id);
+      continue;
+    }
+    if (m.bill_item_id) affected.add(m.bill_item_id);
+
+    await db.measurements.update(m.id, { bill_item_id: billItemId, updated_at });
+    await syncEngine.queueChange('measurements', m.id, 'UPDATE', { ...m, bill_item_id: billItemId, updated_at });
+    result.linked.push(m.id);
+  }
+
+  if (billItemId && result.linked.length > 0) affected.add(billItemId);
+  for (const id of affected) {
+    await recalculateBillItem(id);
+  }
+  return result;
+};
+
+/**
+ * Opens a new bill item under an SMM work section, ready to receive measurements.
+ */
+export const createBillItemFromSection = (
+  projectId: string,
+  section: string,
+  unit: BillUnit,
+  description: string
+): Promise<BillItem> => addBillItem(projectId, section, { description, unit });
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Trash2,
+  RotateCcw,
+  Loader2,
+  Timer,
+  Eraser,
+  WifiOff
+} from 'lucide-react';
+import { adminService } from '../../../lib/database/database';
+import { MAX_RETENTION_DAYS, daysUntilPurge, getRetentionDays, setRetentionDays } from '../recycleBin';
+
+/** --- TYPES --- **/
+
+interface AdminRecycleBinProps {
+  theme: string;
+  isOnline: boolean;
+  // Called after a restore or purge so the console's counts catch up
+  onChanged: () => void;
+}
+
+interface BinnedProject {
+  id: string;
+  name: string;
+  location: string | null;
+  username: string;
+  deleted_at: string;
+}
+
+/** --- MAIN COMPONENT: OFFICE RECYCLE BIN --- **/
+
+const AdminRecycleBin: React.FC<AdminRecycleBinProps> = ({ theme, isOnline, onChanged }) => {
+  const [projects, setProjects] = useState<BinnedProject[] | null>(null);
+  const [retention, setRetention] = useState<number | null>(null);
+  const [retentionDraft, setRetentionDraft] = useState('');
+  const [version, setVersion] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    let active = true;
+    Promise.all([adminService.getAllProjects(true), getRetentionDays()])
+      .then(([binned, days]) => {
+        if (!active) return;
+        setProjects(binned);
+        setRetention(days);
+        setRetentionDraft(String(days));
+      })
+      .catch(err => console.error("Recycle Bin Error: Office bin unreachable.", err));
+    return () => { active = false; };
+  }, [isOnline, version]);
+
+  const run = async (id: string, action: () => Promise<string | null>) => {
+    setBusyId(id);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      setVersion(v => v + 1);
+      onChanged();
+    } catch (err) {
+      console.error("Recycle Bin Error: Change not saved.", err);
+      setNotice(err instanceof Error ? err.message : 'Change not saved');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetentionSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('retention', async () => {
+      await setRetentionDays(Number(retentionDraft));
+      return `Binned records are now kept for ${retentionDraft} days`;
+    });
+  };
+
+  const handlePurgeExpired = () => {
+    if (!window.confirm("Purge everything that has outlived the retention window? This cannot be undone.")) return;
+    run('expired', async () => {
+      const purged = await adminService.purgeExpired();
+      return `${purged} record${purged === 1 ? '' : 's'} purged`;
+    });
+  };
+
+  const handlePurge = (project: BinnedProject) => {
+    if (!window.confirm(`Purge ${project.name} and everything recorded under it? This cannot be undone.`)) return;
+    run(project.id, async () => {
+      await adminService.purgeProject(project.id);
+      return null;
+    });
+  };
+
+  if (!isOnline) {
+    return (
+      <div className="flex items-center justify-center gap-3 p-16 rounded-[3.5rem] border border-dashed border-zinc-800 text-zinc-500">
+        <WifiOff size={16} />
+        <p className="text-[10px] font-black uppercase tracking-widest">The office recycle bin is read from the cloud</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-[3.5rem] border backdrop-blur-3xl overflow-hidden transition-all duration-500
+      ${theme === 'dark' ? 'bg-zinc-900/30 border-zinc-800 shadow-black' : 'bg-white border-zinc-200 shadow-xl'}`}>
+
+      {/* Header & retention */}
+      <div className="p-8 sm:p-12 border-b border-zinc-800/30 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-6 bg-white/2">
+        <div className="text-left">
+          <h3 className="text-2xl font-black uppercase italic tracking-tighter leading-none">Recycle Bin</h3>
+          <p className="text-[10px] font-black uppercase text-zinc-500 mt-2 leading-none text-left">
+            Deleted projects across the office • Restored with all their records
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 w-full lg:w-auto">
+          <form onSubmit={handleRetentionSave} className="flex items-center gap-2">
+            <Timer size={16} className="text-zinc-500" />
+            <input
+              type="number" min={1} max={MAX_RETENTION_DAYS} value={retentionDraft}
+              onChange={(e) => setRetentionDraft(e.target.value)}
+              className={`w-20 px-3 py-3 rounded-xl border outline-none text-xs font-black text-center focus:border-amber-500
+                ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-zinc-50 border-zinc-200'}`}
+            />
+            <button
+              type="submit"
+              disabled={busyId !== null || retentionDraft === String(retention)}
+              className="px-4 py-3 rounded-xl border border-zinc-700 text-zinc-400 text-[9px] font-black uppercase tracking-widest hover:text-amber-500 disabled:opacity-30 transition-all"
+            >
+              Keep Days
+            </button>
+          </form>
+          <button
+            onClick={handlePurgeExpired}
+            disabled={busyId !== null}
+            className="flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-500 text-[9px] font-black uppercase tracking-widest hover:bg-rose-500 hover:text-white disabled:opacity-30 transition-all"
+          >
+            {busyId === 'expired' ? <Loader2 size={12} className="animate-spin" /> : <Eraser size={12} />} Purge Expired
+          </button>
+        </div>
+      </div>
+
+      {notice && (
+        <p className="px-12 pt-6 text-[10px] font-black uppercase tracking-widest text-amber-500">{notice}</p>
+      )}
+
+      {/* Binned projects */}
+      {!projects ? (
+        <div className="flex justify-center p-16 opacity-30"><Loader2 className="animate-spin" /></div>
+      ) : projects.length === 0 ? (
+        <div className="flex flex-col items-center gap-4 p-16 opacity-30">
+          <Trash2 size={32} />
+          <p className="text-[10px] font-black uppercase tracking-widest italic">The recycle bin is empty</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800/40">
+          {projects.map(project => {
+            const left = retention === null ? null : daysUntilPurge(project.deleted_at, retention);
+            return (
+              <div key={project.id} className="flex flex-col md:flex-row md:items-center justify-between gap-6 p-8 sm:px-12 hover:bg-rose-500/5 transition-colors">
+                <div className="text-left">
+                  <p className={`font-black text-xl uppercase tracking-tighter ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-900'}`}>{project.name}</p>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-2">
+                    Officer: {project.username} • Binned {new Date(project.deleted_at).toLocaleDateString()}
+                    {left !== null && ` • ${left === 0 ? 'Due for purge' : `Purged in ${left} day${left === 1 ? '' : 's'}`}`}
+                  </p>
+                </div>
+                <div className="flex gap-3 shrink-0">
+                  <button
+                    disabled={busyId !== null}
+                    onClick={() => run(project.id, async () => {
+                      await adminService.restoreProject(project.id);
+                      return `${project.name} restored`;
+                    })}
+                    className="flex items-center gap-2 px-5 py-3 rounded-2xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+                  >
+                    {busyId === project.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} Restore
+                  </button>
+                  <button
+                    disabled={busyId !== null}
+                    onClick={() => handlePurge(project)}
+                    className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-500 rounded-2xl hover:bg-rose-500 hover:text-white disabled:opacity-30 transition-all"
+                    title="Purge Now"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminRecycleBin;
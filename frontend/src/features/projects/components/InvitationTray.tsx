@@ -0,0 +1,102 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useEffect, useState } from 'react';
+import { Mail, Check, X, Loader2 } from 'lucide-react';
+import type { ProjectInvitation } from '../../../lib/database/database';
+import { PROJECT_ROLE_LABELS, listMyInvitations, respondToInvitation } from '../projectTeam';
+
+/* ======================================================
+    MODULE RESOLUTION HANDLER (SANDBOX COMPATIBILITY)
+   ====================================================== */
+
+let useAuth: any = () => ({
+  theme: 'dark',
+  isOnline: true
+});
+
+const resolveModules = async () => {
+  try {
+    const authMod = await import("../../../features/auth/AuthContext");
+    if (authMod.useAuth) useAuth = authMod.useAuth;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    // Sandbox fallback
+  }
+};
+
+resolveModules();
+
+/** --- MAIN COMPONENT: PENDING INVITATIONS --- **/
+
+/**
+ * Projects colleagues have invited the surveyor to. Hidden when there are none
+ * or the device is offline.
+ */
+const InvitationTray: React.FC = () => {
+  const { theme, isOnline } = useAuth();
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    let active = true;
+    listMyInvitations()
+      .then(found => { if (active) setInvitations(found); })
+      .catch(err => console.error("Team Error: Invitations unreachable.", err));
+    return () => { active = false; };
+  }, [isOnline]);
+
+  // Accepted projects reach the portfolio through the pull announcement
+  const respond = async (invitation: ProjectInvitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    try {
+      await respondToInvitation(invitation, accept);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    } catch (err) {
+      console.error("Team Error: Invitation response not saved.", err);
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (!isOnline || invitations.length === 0) return null;
+
+  return (
+    <div className="p-6 sm:px-12 border-b border-amber-500/20 bg-amber-500/5 space-y-3">
+      <div className="flex items-center gap-2 text-amber-500">
+        <Mail size={14} />
+        <p className="text-[10px] font-black uppercase tracking-widest">Project Invitations</p>
+      </div>
+      {invitations.map(invitation => (
+        <div key={invitation.id} className={`flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 rounded-2xl border
+          ${theme === 'dark' ? 'bg-zinc-950/60 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+          <div className="text-left">
+            <p className={`text-sm font-black uppercase tracking-tight ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-900'}`}>
+              {invitation.project_name}
+            </p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              {PROJECT_ROLE_LABELS[invitation.role]}{invitation.invited_by_name ? ` • From @${invitation.invited_by_name}` : ''}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              disabled={respondingId !== null}
+              onClick={() => respond(invitation, true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+            >
+              {respondingId === invitation.id ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} Join
+            </button>
+            <button
+              disabled={respondingId !== null}
+              onClick={() => respond(invitation, false)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl border border-zinc-700 text-zinc-400 text-[9px] font-black uppercase tracking-widest hover:text-rose-500 disabled:opacity-30 transition-all"
+            >
+              <X size={12} /> Decline
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InvitationTray;
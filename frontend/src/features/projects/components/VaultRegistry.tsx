@@ -11,8 +11,14 @@ import {
   CheckCircle2,
   AlertCircle,
   Briefcase,
-  Trash2
+  Trash2,
+  Users
 } from 'lucide-react';
+import PermissionGuard from '../../auth/components/PermissionGuard';
+import ProjectTeamDialog from './ProjectTeamDialog';
+import InvitationTray from './InvitationTray';
+import { PROJECT_ROLE_LABELS } from '../projectTeam';
+import type { ProjectRole } from '../../../lib/database/database';
 
 /* ======================================================
     OFFICE MODULE RESOLUTION
@@ -51,6 +57,7 @@ interface Project {
   location: string;
   created_at: string;
   status: 'active' | 'completed' | 'archived';
+  member_role?: ProjectRole; // Set on projects listed for a team member
 }
 
 interface VaultRegistryProps {
@@ -69,6 +76,7 @@ const VaultRegistry: React.FC<VaultRegistryProps> = ({ projects, setProjects, na
   const [isCreating, setIsCreating] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [teamProject, setTeamProject] = useState<Project | null>(null);
   
   // New Project Data
   const [newProject, setNewProject] = useState({ 
@@ -144,15 +152,20 @@ const VaultRegistry: React.FC<VaultRegistryProps> = ({ projects, setProjects, na
                   : 'bg-zinc-50 border-zinc-200 text-zinc-900 focus:border-amber-500/40'}`} 
             />
           </div>
-          <button 
-            onClick={() => setIsCreating(true)} 
-            className="flex items-center justify-center gap-3 px-8 py-4 bg-amber-500 text-black rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-xl hover:bg-amber-400 active:scale-95 transition-all shadow-amber-500/10"
-          >
-            <Plus size={16} className="stroke-[3px]" /> New Project
-          </button>
+          <PermissionGuard action="create" resource="project">
+            <button 
+              onClick={() => setIsCreating(true)} 
+              className="flex items-center justify-center gap-3 px-8 py-4 bg-amber-500 text-black rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-xl hover:bg-amber-400 active:scale-95 transition-all shadow-amber-500/10"
+            >
+              <Plus size={16} className="stroke-[3px]" /> New Project
+            </button>
+          </PermissionGuard>
         </div>
       </div>
 
+      {/* Invitations from colleagues */}
+      <InvitationTray />
+
       {/* 2. NEW PROJECT FORM */}
       {isCreating && (
         <form 
@@ -230,6 +243,11 @@ const VaultRegistry: React.FC<VaultRegistryProps> = ({ projects, setProjects, na
                     <span className="text-[9px] font-mono text-zinc-600 mt-2 tracking-widest hidden sm:block leading-none">
                       REF: {p.id.slice(0,12).toUpperCase()}
                     </span>
+                    {p.member_role && p.member_role !== 'owner' && (
+                      <span className="self-start mt-3 px-2 py-1 rounded-lg bg-amber-500/10 text-amber-500 text-[8px] font-black uppercase tracking-widest leading-none">
+                        Shared • {PROJECT_ROLE_LABELS[p.member_role]}
+                      </span>
+                    )}
                   </div>
                 </td>
                 <td className="p-8 sm:p-10 hidden sm:table-cell text-left">
@@ -248,14 +266,24 @@ const VaultRegistry: React.FC<VaultRegistryProps> = ({ projects, setProjects, na
                     >
                       <ExternalLink size={20}/>
                     </button>
-                    {/* DELETE BUTTON (IMPLEMENTED) */}
+                    {/* TEAM BUTTON */}
                     <button 
-                      onClick={() => onDeleteProject(p.id)} 
-                      title="Delete Project Node"
-                      className="p-4 bg-zinc-900/60 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-rose-500 hover:text-white hover:border-rose-500 transition-all active:scale-90 shadow-xl shadow-black/40"
+                      onClick={() => setTeamProject(p)} 
+                      title="Project Team"
+                      className="p-4 bg-zinc-900/60 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-zinc-700 hover:text-white hover:border-zinc-700 transition-all active:scale-90 shadow-xl shadow-black/40"
                     >
-                      <Trash2 size={20}/>
+                      <Users size={20}/>
                     </button>
+                    {/* DELETE BUTTON (OWNER OR ADMIN) */}
+                    <PermissionGuard action="delete" resource="project" ownerId={p.user_id}>
+                      <button 
+                        onClick={() => onDeleteProject(p.id)} 
+                        title="Delete Project Node"
+                        className="p-4 bg-zinc-900/60 border border-zinc-800 text-zinc-500 rounded-2xl hover:bg-rose-500 hover:text-white hover:border-rose-500 transition-all active:scale-90 shadow-xl shadow-black/40"
+                      >
+                        <Trash2 size={20}/>
+                      </button>
+                    </PermissionGuard>
                   </div>
                 </td>
               </tr>
@@ -288,6 +316,17 @@ const VaultRegistry: React.FC<VaultRegistryProps> = ({ projects, setProjects, na
           DATA_SOURCE: LOCAL_OFFICE_RECORD_V1
         </p>
       </div>
+
+      {teamProject && (
+        <ProjectTeamDialog
+          project={teamProject}
+          onClose={() => setTeamProject(null)}
+          onLeft={() => {
+            setProjects(prev => prev.filter(p => p.id !== teamProject.id));
+            setTeamProject(null);
+          }}
+        />
+      )}
     </div>
   );
 };
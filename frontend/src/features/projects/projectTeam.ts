@@ -0,0 +1,167 @@
+import {
+  db,
+  isBinned,
+  supabase,
+  type Project,
+  type ProjectInvitation,
+  type ProjectMember,
+  type ProjectRole
+} from "../../lib/database/database";
+import { announceCloudChanges, pullProject } from "../../lib/database/pullSync";
+
+/** --- PROJECT TEAMS --- **/
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  qs: 'Quantity Surveyor',
+  reviewer: 'Reviewer',
+  viewer: 'Viewer'
+};
+
+// The owner is whoever created the project; nobody is invited into that place
+export const INVITABLE_ROLES: ProjectRole[] = ['qs', 'reviewer', 'viewer'];
+
+export interface TeamMember extends ProjectMember {
+  username: string | null;
+  full_name: string | null;
+}
+
+export interface SentInvitation {
+  id: string;
+  project_id: string;
+  email: string | null;
+  username: string | null;
+  role: ProjectRole;
+  created_at: string;
+}
+
+type MemberRow = ProjectMember & { profiles: { username: string | null; full_name: string | null } | null };
+
+/**
+ * The signed-in surveyor's standing on a project, read from the device vault:
+ * 'owner' for their own projects, their team role on shared ones, else null.
+ */
+export const projectRoleFor = async (projectId: string, userId: string): Promise<ProjectRole | null> => {
+  const project = await db.projects.get(projectId);
+  if (project?.user_id === userId) return 'owner';
+  const membership = await db.project_members.where('[project_id+user_id]').equals([projectId, userId]).first();
+  return membership?.role ?? null;
+};
+
+/**
+ * Projects the surveyor owns plus those shared with them, newest first, each
+ * tagged with the surveyor's role on it. Binned projects are left out, or with
+ * `binned` are the only ones listed.
+ */
+export const listAccessibleProjects = async (userId: string, binned = false): Promise<Project[]> => {
+  const [owned, memberships] = await Promise.all([
+    db.projects.where('user_id').equals(userId).toArray(),
+    db.project_members.where('user_id').equals(userId).toArray()
+  ]);
+
+  const sharedRoles = new Map(memberships.filter(m => m.role !== 'owner').map(m => [m.project_id, m.role]));
+  const shared = (await db.projects.bulkGet([...sharedRoles.keys()]))
+    .filter((p): p is Project => !!p && p.user_id !== userId);
+
+  return [
+    ...owned.map(p => ({ ...p, member_role: 'owner' as ProjectRole })),
+    ...shared.map(p => ({ ...p, member_role: sharedRoles.get(p.id) }))
+  ]
+    .filter(p => isBinned(p) === binned)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+/** --- TEAM MANAGEMENT (needs a connection) --- **/
+
+export const listTeam = async (projectId: string): Promise<TeamMember[]> => {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*, profiles:user_id (username, full_name)')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as MemberRow[]).map(({ profiles, ...member }) => ({
+    ...member,
+    username: profiles?.username ?? null,
+    full_name: profiles?.full_name ?? null
+  }));
+};
+
+export const listSentInvitations = async (projectId: string): Promise<SentInvitation[]> => {
+  const { data, error } = await supabase
+    .from('project_invitations')
+    .select('id, project_id, email, username, role, created_at')
+    .eq('project_id', projectId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SentInvitation[];
+};
+
+/**
+ * Invites a colleague by email address or username. They join once they accept.
+ */
+export const inviteToProject = async (projectId: string, invitedBy: string, identifier: string, role: ProjectRole) => {
+  const invitee = identifier.trim();
+  if (!invitee) throw new Error('Enter an email address or username');
+  if (!INVITABLE_ROLES.includes(role)) throw new Error(`Cannot invite a ${PROJECT_ROLE_LABELS[role]}`);
+
+  const byEmail = invitee.includes('@');
+  const { error } = await supabase.from('project_invitations').insert({
+    project_id: projectId,
+    email: byEmail ? invitee.toLowerCase() : null,
+    username: byEmail ? null : invitee,
+    role,
+    invited_by: invitedBy
+  });
+
+  if (error?.code === '23505') throw new Error(`${invitee} already has a pending invitation`);
+  if (error) throw error;
+};
+
+export const revokeInvitation = async (invitationId: string) => {
+  const { error } = await supabase
+    .from('project_invitations')
+    .update({ status: 'revoked', responded_at: new Date().toISOString() })
+    .eq('id', invitationId);
+  if (error) throw error;
+};
+
+export const changeMemberRole = async (member: ProjectMember, role: ProjectRole) => {
+  const updated_at = new Date().toISOString();
+  const { error } = await supabase
+    .from('project_members')
+    .update({ role, updated_at })
+    .eq('id', member.id);
+  if (error) throw error;
+  await db.project_members.update(member.id, { role, updated_at, server_version: updated_at });
+};
+
+/**
+ * Takes someone off the team, or lets a member leave. Their devices drop the
+ * project on their next pull.
+ */
+export const removeMember = async (member: ProjectMember) => {
+  const { error } = await supabase.from('project_members').delete().eq('id', member.id);
+  if (error) throw error;
+  await db.project_members.delete(member.id);
+};
+
+/** --- INVITATIONS TO ME --- **/
+
+export const listMyInvitations = async (): Promise<ProjectInvitation[]> => {
+  const { data, error } = await supabase.rpc('my_invitations');
+  if (error) throw error;
+  return (data || []) as ProjectInvitation[];
+};
+
+/**
+ * Accepting joins the team and brings the whole project down to this device.
+ */
+export const respondToInvitation = async (invitation: ProjectInvitation, accept: boolean) => {
+  const { error } = await supabase.rpc('respond_to_invitation', { invitation: invitation.id, accept });
+  if (error) throw error;
+  if (accept) announceCloudChanges(await pullProject(invitation.project_id));
+};
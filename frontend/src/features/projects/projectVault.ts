@@ -0,0 +1,31 @@
+import { db, isBinned, supabase, type Project } from "../../lib/database/database";
+
+/** --- PROJECT VAULT (Device first, cloud fallback) --- **/
+
+/**
+ * Resolves a project by id. The device vault is authoritative for offline work;
+ * projects opened on a new device are fetched from the cloud and cached locally.
+ * Returns null when the project exists in neither place or sits in the recycle bin.
+ */
+export const loadProject = async (projectId: string): Promise<Project | null> => {
+  if (!projectId) return null;
+
+  const local = await db.projects.get(projectId);
+  if (local) return isBinned(local) ? null : local;
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const project = data as Project;
+  if (isBinned(project)) return null;
+  await db.projects.put({ ...project, synced_at: new Date().toISOString(), server_version: project.updated_at });
+  return project;
+};
@@ -0,0 +1,180 @@
+import {
+  db,
+  isBinned,
+  isCloudConfigured,
+  supabase,
+  syncEngine,
+  type Measurement,
+  type Project,
+  type ProjectRole
+} from "../../lib/database/database";
+import { removeProjectLocally } from "../../lib/database/pullSync";
+import { recalculateBillItem } from "../boq/quantities";
+import { listAccessibleProjects } from "./projectTeam";
+
+/** --- 1. RETENTION --- **/
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const MAX_RETENTION_DAYS = 365;
+const RETENTION_SETTING = 'recycle_bin_retention_days';
+const RETENTION_CACHE_KEY = 'qs_recycle_retention_days';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const cachedRetentionDays = () => {
+  const days = Number(localStorage.getItem(RETENTION_CACHE_KEY));
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+/**
+ * How long binned records are kept, as set by the office. The last value seen
+ * is remembered so the device purges on the same window while offline.
+ */
+export const getRetentionDays = async (): Promise<number> => {
+  if (!isCloudConfigured || !navigator.onLine) return cachedRetentionDays();
+
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', RETENTION_SETTING)
+    .maybeSingle();
+
+  const days = Number(data?.value);
+  if (error || !(days > 0)) return cachedRetentionDays();
+  localStorage.setItem(RETENTION_CACHE_KEY, String(days));
+  return days;
+};
+
+export const setRetentionDays = async (days: number) => {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+    throw new Error(`Retention must be between 1 and ${MAX_RETENTION_DAYS} days`);
+  }
+  const { error } = await supabase
+    .from('app_settings')
+    .update({ value: days, updated_at: new Date().toISOString() })
+    .eq('key', RETENTION_SETTING);
+  if (error) throw error;
+  localStorage.setItem(RETENTION_CACHE_KEY, String(days));
+};
+
+export const daysUntilPurge = (deletedAt: string, retentionDays: number, now = Date.now()) =>
+  Math.max(0, Math.ceil((Date.parse(deletedAt) + retentionDays * DAY_MS - now) / DAY_MS));
+
+/** --- 2. BIN & RESTORE --- **/
+
+/**
+ * Binning and restoring only stamp the project itself. Its bill, takeoff,
+ * drawings and certificates are never touched, so they come back with it.
+ */
+const stampProject = async (projectId: string, deleted_at: string | null) => {
+  const project = await db.projects.get(projectId);
+  if (!project) return;
+
+  const updated: Project = { ...project, deleted_at, updated_at: new Date().toISOString() };
+  await db.projects.put(updated);
+  await syncEngine.queueChange('projects', projectId, 'UPDATE', { ...updated });
+};
+
+export const binProject = (projectId: string) => stampProject(projectId, new Date().toISOString());
+
+export const restoreProject = (projectId: string) => stampProject(projectId, null);
+
+/**
+ * A binned measurement stops counting towards its bill item straight away.
+ * Admins may bin measurements they cannot edit, so once the cloud holds the
+ * row it is stamped there; offline, or while the device still has changes of
+ * its own to push for it, the stamp is queued like any other edit.
+ */
+const stampMeasurement = async (id: string, deleted_at: string | null) => {
+  const measurement = await db.measurements.get(id);
+  if (!measurement) return;
+
+  const pending = await db.sync_queue.where('record_id').equals(id).filter(item => item.table === 'measurements').count();
+  if (isCloudConfigured && navigator.onLine && pending === 0) {
+    const { data: stamped, error } = await supabase.rpc('set_measurement_binned', { target: id, binned: deleted_at !== null });
+    if (error) throw error;
+    await db.measurements.put({ ...measurement, deleted_at, updated_at: stamped, server_version: stamped });
+  } else {
+    const updated: Measurement = { ...measurement, deleted_at, updated_at: new Date().toISOString() };
+    await db.measurements.put(updated);
+    await syncEngine.queueChange('measurements', id, 'UPDATE', { ...updated });
+  }
+  if (measurement.bill_item_id) await recalculateBillItem(measurement.bill_item_id);
+};
+
+export const binMeasurement = (id: string) => stampMeasurement(id, new Date().toISOString());
+
+export const restoreMeasurement = (id: string) => stampMeasurement(id, null);
+
+/** --- 3. BIN CONTENTS --- **/
+
+export interface BinnedMeasurement extends Measurement {
+  project_name: string;
+  project_role: ProjectRole | null;
+}
+
+export interface RecycleBinContents {
+  projects: Project[];
+  measurements: BinnedMeasurement[];
+}
+
+/**
+ * What the surveyor can see in the bin: binned projects they have access to,
+ * and binned measurements from live ones. Measurements inside a binned project
+ * are not listed; they return with the project.
+ */
+export const listRecycleBin = async (userId: string): Promise<RecycleBinContents> => {
+  const [binnedProjects, liveProjects] = await Promise.all([
+    listAccessibleProjects(userId, true),
+    listAccessibleProjects(userId)
+  ]);
+
+  const projects = new Map(liveProjects.map(p => [p.id, p]));
+  const measurements = await db.measurements
+    .where('project_id').anyOf([...projects.keys()])
+    .filter(isBinned)
+    .toArray();
+
+  return {
+    projects: binnedProjects,
+    measurements: measurements
+      .map(m => ({
+        ...m,
+        project_name: projects.get(m.project_id)?.name ?? '',
+        project_role: projects.get(m.project_id)?.member_role ?? null
+      }))
+      .sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? ''))
+  };
+};
+
+/** --- 4. PURGE --- **/
+
+/**
+ * Deletes a binned project for good, here and in the cloud.
+ */
+export const purgeProject = async (projectId: string) => {
+  await removeProjectLocally(projectId);
+  await syncEngine.queueChange('projects', projectId, 'DELETE', { id: projectId });
+};
+
+export const purgeMeasurement = async (id: string) => {
+  await db.measurements.delete(id);
+  await syncEngine.queueChange('measurements', id, 'DELETE', { id });
+};
+
+/**
+ * Clears records binned longer than the retention window from the device.
+ * Nothing is queued: the cloud runs its own purge on the same window.
+ */
+export const purgeExpiredLocally = async (retentionDays: number): Promise<number> => {
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expired = (record: { deleted_at?: string | null }) =>
+    Boolean(record.deleted_at) && Date.parse(record.deleted_at!) < cutoff;
+
+  const projectIds = await db.projects.filter(expired).primaryKeys();
+  for (const projectId of projectIds) await removeProjectLocally(projectId);
+
+  const measurementIds = await db.measurements.filter(expired).primaryKeys();
+  await db.measurements.bulkDelete(measurementIds);
+
+  return projectIds.length + measurementIds.length;
+};
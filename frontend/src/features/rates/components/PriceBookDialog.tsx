@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Camera, Lock, LockOpen, Download, Trash2, BookLock } from 'lucide-react';
+import type { PriceBook } from '../../../lib/database/database';
+import { deletePriceBook, listPriceBooks, setPriceBookLocked, snapshotPriceBook } from '../priceBooks';
+import { exportRates } from '../rateTransfer';
+
+/** --- TYPES --- **/
+
+interface PriceBookDialogProps {
+  projectId: string;
+  projectName: string;
+  userId: string;
+  theme: string;
+  readOnly: boolean;
+  onClose: () => void;
+  // Called after a lock changed, so the bill re-reads its re-priced rates
+  onChanged: () => void;
+}
+
+/** --- MAIN COMPONENT: PROJECT PRICE BOOKS --- **/
+
+/**
+ * Snapshots of the price book kept for one project. Locking the snapshot the
+ * project was tendered on keeps its built-up rates on those prices.
+ */
+const PriceBookDialog: React.FC<PriceBookDialogProps> = ({ projectId, projectName, userId, theme, readOnly, onClose, onChanged }) => {
+  const [books, setBooks] = useState<PriceBook[] | null>(null);
+  const [label, setLabel] = useState('Tender');
+  const [reloadTick, setReloadTick] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    listPriceBooks(projectId)
+      .then(found => { if (active) setBooks(found); })
+      .catch(err => console.error("Rates Error: Price books unreadable.", err));
+    return () => { active = false; };
+  }, [projectId, reloadTick]);
+
+  const run = async (action: () => Promise<unknown>, repriced = false) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setReloadTick(t => t + 1);
+      if (repriced) onChanged();
+    } catch (err) {
+      console.error("Rates Error: Price book not saved.", err);
+      setError(err instanceof Error ? err.message : 'Price book not saved');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = (book: PriceBook) => {
+    const prompt = book.is_locked
+      ? `Delete ${book.label} v${book.version}? The bill goes back to live rates.`
+      : `Delete ${book.label} v${book.version}?`;
+    if (window.confirm(prompt)) run(() => deletePriceBook(book.id), book.is_locked);
+  };
+
+  const handleExport = (book: PriceBook) =>
+    exportRates(book.rates, `${projectName} ${book.label} v${book.version}`, 'csv');
+
+  const iconButton = `p-3 rounded-xl transition-all disabled:opacity-30
+    ${theme === 'dark' ? 'bg-zinc-800 text-zinc-500' : 'bg-zinc-100 text-zinc-400'}`;
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Price Books<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              {projectName} • Lock a snapshot to price the bill as tendered
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+          {/* 1. New Snapshot */}
+          {!readOnly && (
+            <div className="flex gap-3">
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Tender, Variation 2..."
+                className={`flex-1 p-4 rounded-2xl border text-xs font-bold outline-none focus:border-amber-500
+                  ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`}
+              />
+              <button
+                onClick={() => run(() => snapshotPriceBook(projectId, label, userId))}
+                disabled={busy || !label.trim()}
+                className="flex items-center gap-2 px-6 rounded-2xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+              >
+                {busy ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} />} Snapshot Rates
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">{error}</p>}
+
+          {/* 2. Versions */}
+          {!books ? (
+            <div className="flex justify-center p-10 opacity-30"><Loader2 className="animate-spin" /></div>
+          ) : books.length === 0 ? (
+            <div className="flex flex-col items-center gap-3 py-10 opacity-40">
+              <BookLock size={28} />
+              <p className="text-[10px] font-black uppercase tracking-widest italic">No snapshots • The bill is priced from live rates</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {books.map(book => (
+                <div
+                  key={book.id}
+                  className={`p-5 rounded-2xl border flex items-center justify-between gap-4
+                    ${book.is_locked ? 'border-amber-500/40 bg-amber-500/5' : theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}
+                >
+                  <div>
+                    <p className="text-xs font-black uppercase tracking-tight">
+                      v{book.version} • {book.label}
+                      {book.is_locked && <span className="ml-2 text-[8px] tracking-widest text-amber-500">Locked</span>}
+                    </p>
+                    <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-500 mt-1">
+                      {book.rates.length} rates • Taken {new Date(book.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleExport(book)} title="Export CSV" className={`${iconButton} hover:text-amber-500`}>
+                      <Download size={14} />
+                    </button>
+                    {!readOnly && (
+                      <>
+                        <button
+                          onClick={() => run(() => setPriceBookLocked(book.id, !book.is_locked), true)}
+                          disabled={busy}
+                          title={book.is_locked ? 'Unlock • Price from live rates' : 'Lock the bill to these rates'}
+                          className={`${iconButton} hover:text-amber-500`}
+                        >
+                          {book.is_locked ? <LockOpen size={14} /> : <Lock size={14} />}
+                        </button>
+                        <button onClick={() => handleDelete(book)} disabled={busy} title="Delete Snapshot" className={`${iconButton} hover:text-rose-500`}>
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBookDialog;
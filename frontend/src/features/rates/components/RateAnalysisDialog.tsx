@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader2, Save, Plus, Trash2, Unlink, AlertTriangle } from 'lucide-react';
+import type { Rate, RateAnalysisLine, RateCategory } from '../../../lib/database/database';
+import { RATE_CATEGORY_LABELS, officeRateId } from '../rateBook';
+import { lockedPriceBook, projectRates } from '../priceBooks';
+import {
+  buildUpRate,
+  detachAnalysis,
+  getAnalysis,
+  lineCost,
+  lineFromRate,
+  saveAnalysis
+} from '../rateAnalysis';
+
+/** --- TYPES --- **/
+
+interface RateAnalysisDialogProps {
+  projectId: string;
+  billItem: { id: string; code: string; description: string; unit: string };
+  userId: string;
+  theme: string;
+  readOnly: boolean;
+  onClose: () => void;
+  // Called after the analysis was saved or detached, so the bill re-reads its rates
+  onChanged: () => void;
+}
+
+interface Draft {
+  exists: boolean;
+  output: string;
+  overheads: string;
+  lines: RateAnalysisLine[];
+}
+
+const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** --- MAIN COMPONENT: RATE BUILD-UP --- **/
+
+/**
+ * Builds a bill item's rate from price book materials, labour and plant. The
+ * composite rate replaces the item's rate when saved.
+ */
+const RateAnalysisDialog: React.FC<RateAnalysisDialogProps> = ({ projectId, billItem, userId, theme, readOnly, onClose, onChanged }) => {
+  const [book, setBook] = useState<Rate[]>([]);
+  const [lockedTo, setLockedTo] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    Promise.all([getAnalysis(billItem.id), projectRates(projectId, userId), lockedPriceBook(projectId)])
+      .then(([analysis, rates, locked]) => {
+        if (!active) return;
+        setBook(rates);
+        setLockedTo(locked ? `${locked.label} v${locked.version}` : null);
+        setDraft({
+          exists: !!analysis,
+          output: String(analysis?.output_quantity ?? 1),
+          overheads: String(analysis?.overheads_percent ?? 15),
+          lines: analysis?.lines ?? []
+        });
+      })
+      .catch(err => console.error("Rates Error: Build-up unreadable.", err));
+    return () => { active = false; };
+  }, [projectId, billItem.id, userId]);
+
+  // Lines name an override by the office rate it replaces
+  const bookById = useMemo(() => new Map(book.flatMap(r => [[r.id, r], [officeRateId(r), r]])), [book]);
+  const buildUp = draft && buildUpRate({
+    lines: draft.lines,
+    output_quantity: Number(draft.output) || 0,
+    overheads_percent: Number(draft.overheads) || 0
+  });
+
+  const updateLine = (index: number, patch: Partial<RateAnalysisLine>) =>
+    setDraft(prev => prev && { ...prev, lines: prev.lines.map((l, i) => i === index ? { ...l, ...patch } : l) });
+
+  const addLine = (rateId: string) => {
+    const rate = bookById.get(rateId);
+    if (rate) setDraft(prev => prev && { ...prev, lines: [...prev.lines, lineFromRate(rate)] });
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+    } catch (err) {
+      console.error("Rates Error: Build-up not saved.", err);
+      setError(err instanceof Error ? err.message : 'Build-up not saved');
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => draft && run(() => saveAnalysis(billItem.id, {
+    output_quantity: draft.output.trim() === '' ? NaN : Number(draft.output),
+    overheads_percent: draft.overheads.trim() === '' ? NaN : Number(draft.overheads),
+    lines: draft.lines
+  }));
+
+  const handleDetach = () => {
+    if (!window.confirm('Detach the build-up? The item keeps its current rate.')) return;
+    run(() => detachAnalysis(billItem.id));
+  };
+
+  const fieldClass = `p-2 rounded-lg border text-xs font-bold outline-none focus:border-amber-500 disabled:opacity-60
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`;
+  const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-4xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Rate Build-up<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1 max-w-xl truncate">
+              Item {billItem.code} • {billItem.description || 'Undescribed item'} • Per {billItem.unit}
+            </p>
+            {lockedTo && (
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500 mt-1">
+                Priced from locked price book: {lockedTo}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!draft || !buildUp ? (
+          <div className="flex justify-center p-16 opacity-30"><Loader2 className="animate-spin" /></div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+            <label className="flex items-center gap-3">
+              <span className={labelClass}>Resources below produce</span>
+              <input
+                type="number" min={0} step="any" value={draft.output} disabled={readOnly}
+                onChange={(e) => setDraft({ ...draft, output: e.target.value })}
+                className={`${fieldClass} w-24 text-right`}
+              />
+              <span className={labelClass}>{billItem.unit}</span>
+            </label>
+
+            {/* Resource lines */}
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="text-[9px] font-black uppercase tracking-widest text-zinc-500 border-b border-zinc-800/40">
+                  <th className="py-3 pr-3">Resource</th>
+                  <th className="py-3 px-3 text-right">Rate</th>
+                  <th className="py-3 px-3 text-right">Quantity</th>
+                  <th className="py-3 px-3 text-right">Wastage %</th>
+                  <th className="py-3 px-3 text-right">Cost</th>
+                  <th className="py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/40">
+                {draft.lines.map((line, index) => {
+                  const current = line.rate_id ? bookById.get(line.rate_id) : undefined;
+                  const isStale = !!current && current.rate !== line.unit_rate;
+                  return (
+                    <tr key={`${line.rate_id ?? line.code}-${index}`}>
+                      <td className="py-3 pr-3">
+                        <p className="text-xs font-black uppercase tracking-tight">{line.name}</p>
+                        <p className="text-[8px] font-mono text-zinc-500 uppercase mt-1">
+                          {line.code} • {RATE_CATEGORY_LABELS[line.category]}
+                          {!current && line.rate_id && (line.rate_deleted
+                            ? <span className="text-rose-500"> • Rate deleted, last price kept</span>
+                            : lockedTo ? ' • Not in the locked price book' : ' • Not in your price book')}
+                        </p>
+                      </td>
+                      <td className="py-3 px-3 text-right text-xs font-bold text-zinc-400 whitespace-nowrap">
+                        {money(line.unit_rate)} / {line.unit}
+                        {isStale && (
+                          <button
+                            onClick={() => updateLine(index, { unit_rate: current.rate })}
+                            disabled={readOnly}
+                            className="flex items-center gap-1 ml-auto mt-1 text-[8px] font-black uppercase tracking-widest text-amber-500 disabled:opacity-60"
+                            title="Use the price book figure"
+                          >
+                            <AlertTriangle size={10} /> Now {money(current.rate)}
+                          </button>
+                        )}
+                      </td>
+                      <td className="py-3 px-3 text-right">
+                        <input
+                          type="number" min={0} step="any" value={line.quantity} disabled={readOnly}
+                          onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                          className={`${fieldClass} w-24 text-right`}
+                        />
+                      </td>
+                      <td className="py-3 px-3 text-right">
+                        <input
+                          type="number" min={0} step="any" value={line.wastage_percent} disabled={readOnly}
+                          onChange={(e) => updateLine(index, { wastage_percent: Number(e.target.value) })}
+                          className={`${fieldClass} w-20 text-right`}
+                        />
+                      </td>
+                      <td className="py-3 px-3 text-right text-xs font-black">{money(lineCost(line))}</td>
+                      <td className="py-3 text-right">
+                        {!readOnly && (
+                          <button
+                            onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                            className="p-1 text-zinc-600 hover:text-rose-500 transition-colors"
+                            title="Remove Line"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {draft.lines.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-[10px] font-black uppercase tracking-widest text-zinc-600 italic">
+                      No resources yet • Add materials, labour and plant from the price book
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            {!readOnly && (
+              <div className="flex items-center gap-3">
+                <Plus size={14} className="text-zinc-500" />
+                <select value="" onChange={(e) => addLine(e.target.value)} className={`${fieldClass} flex-1`}>
+                  <option value="">Add a resource from the price book...</option>
+                  {(Object.keys(RATE_CATEGORY_LABELS) as RateCategory[]).map(category => (
+                    <optgroup key={category} label={RATE_CATEGORY_LABELS[category]}>
+                      {book.filter(r => r.category === category).map(r => (
+                        <option key={r.id} value={r.id}>{r.code} • {r.name} • KES {money(r.rate)} / {r.unit}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className={`grid grid-cols-2 md:grid-cols-4 gap-4 p-6 rounded-2xl border ${theme === 'dark' ? 'border-zinc-800 bg-zinc-950/40' : 'border-zinc-200 bg-zinc-50'}`}>
+              {(Object.keys(RATE_CATEGORY_LABELS) as RateCategory[]).map(category => (
+                <div key={category}>
+                  <p className={labelClass}>{RATE_CATEGORY_LABELS[category]}</p>
+                  <p className="text-sm font-black mt-1">{money(buildUp.byCategory[category])}</p>
+                </div>
+              ))}
+              <div>
+                <p className={labelClass}>Direct Cost / {billItem.unit}</p>
+                <p className="text-sm font-black mt-1">{money(buildUp.perUnit)}</p>
+              </div>
+              <label>
+                <span className={labelClass}>OH&P %</span>
+                <input
+                  type="number" min={0} step="any" value={draft.overheads} disabled={readOnly}
+                  onChange={(e) => setDraft({ ...draft, overheads: e.target.value })}
+                  className={`${fieldClass} w-full mt-1`}
+                />
+              </label>
+              <div>
+                <p className={labelClass}>OH&P / {billItem.unit}</p>
+                <p className="text-sm font-black mt-1">{money(buildUp.overheads)}</p>
+              </div>
+              <div>
+                <p className="text-[9px] font-black uppercase tracking-widest text-amber-500">Rate / {billItem.unit}</p>
+                <p className="text-xl font-black italic tracking-tighter text-amber-500 mt-1">KES {money(buildUp.composite)}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        {!readOnly && draft && (
+          <div className="p-8 border-t border-zinc-800/40 flex items-center justify-between gap-4">
+            <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">{error}</p>
+            <div className="flex gap-3">
+              {draft.exists && (
+                <button
+                  onClick={handleDetach}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-5 py-3 rounded-xl border border-zinc-700 text-zinc-400 text-[10px] font-black uppercase tracking-widest hover:text-rose-500 disabled:opacity-30 transition-all"
+                >
+                  <Unlink size={14} /> Detach
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-6 py-3 rounded-xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Apply Rate
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RateAnalysisDialog;
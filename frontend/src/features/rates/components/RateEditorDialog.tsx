@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { X, Loader2, Save } from 'lucide-react';
+import type { Rate, RateCategory } from '../../../lib/database/database';
+import {
+  RATE_CATEGORY_LABELS,
+  createRate,
+  overrideRate,
+  updateRate,
+  validateRate,
+  type RateInput
+} from '../rateBook';
+
+/** --- TYPES --- **/
+
+export type RateEditorMode =
+  | { kind: 'new' }
+  | { kind: 'edit'; rate: Rate }
+  | { kind: 'override'; office: Rate };
+
+interface RateEditorDialogProps {
+  mode: RateEditorMode;
+  userId: string;
+  theme: string;
+  // Editors may add to the office book; everyone else only keeps their own rates
+  canEditOffice: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const initialInput = (mode: RateEditorMode): RateInput => {
+  const source = mode.kind === 'edit' ? mode.rate : mode.kind === 'override' ? mode.office : null;
+  return {
+    code: source?.code ?? '',
+    name: source?.name ?? '',
+    category: source?.category ?? 'material',
+    unit: source?.unit ?? '',
+    rate: source?.rate ?? 0,
+    region: source?.region ?? '',
+    // An override is a new price, so it applies from today
+    effective_date: mode.kind === 'edit' ? mode.rate.effective_date : today(),
+    notes: mode.kind === 'edit' ? mode.rate.notes : null
+  };
+};
+
+/** --- MAIN COMPONENT: RATE EDITOR --- **/
+
+const RateEditorDialog: React.FC<RateEditorDialogProps> = ({ mode, userId, theme, canEditOffice, onClose, onSaved }) => {
+  const [input, setInput] = useState<RateInput>(() => initialInput(mode));
+  const [rateText, setRateText] = useState(() => String(initialInput(mode).rate || ''));
+  const [toOffice, setToOffice] = useState(canEditOffice && mode.kind === 'new');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<RateInput>) => setInput(prev => ({ ...prev, ...patch }));
+
+  const title = mode.kind === 'new' ? 'New Rate' : mode.kind === 'override' ? 'Override Office Rate' : 'Edit Rate';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const candidate = { ...input, rate: rateText.trim() === '' ? NaN : Number(rateText) };
+    const problem = validateRate(candidate);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (mode.kind === 'edit') await updateRate(mode.rate.id, candidate);
+      else if (mode.kind === 'override') await overrideRate(mode.office, candidate, userId);
+      else await createRate(candidate, toOffice ? null : userId, userId);
+      onSaved();
+    } catch (err) {
+      console.error("Rates Error: Rate not saved.", err);
+      setError(err instanceof Error ? err.message : 'Rate not saved');
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass = `w-full p-3 rounded-xl border text-xs font-bold outline-none focus:border-amber-500
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`;
+  const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <form
+        onSubmit={handleSubmit}
+        className={`w-full max-w-xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+          ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}
+      >
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              {title}<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              {mode.kind === 'override'
+                ? `Your price replaces office ${mode.office.code} in your book only`
+                : mode.kind === 'edit' && !mode.rate.owner_id
+                  ? 'Office price book • Seen by everyone'
+                  : 'Rates are kept on this device and synced to the office cloud'}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 grid grid-cols-2 gap-5">
+          <label className="space-y-2">
+            <span className={labelClass}>Code</span>
+            <input value={input.code} onChange={(e) => update({ code: e.target.value })} placeholder="MAT-001" className={fieldClass} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Category</span>
+            <select value={input.category} onChange={(e) => update({ category: e.target.value as RateCategory })} className={fieldClass}>
+              {(Object.keys(RATE_CATEGORY_LABELS) as RateCategory[]).map(c => (
+                <option key={c} value={c}>{RATE_CATEGORY_LABELS[c]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-2 col-span-2">
+            <span className={labelClass}>Description</span>
+            <input value={input.name} onChange={(e) => update({ name: e.target.value })} placeholder="Portland Cement (50kg)" className={fieldClass} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Unit</span>
+            <input value={input.unit} onChange={(e) => update({ unit: e.target.value })} placeholder="Bag, Day, m3..." className={fieldClass} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Rate (KES)</span>
+            <input type="number" min={0} step="0.01" value={rateText} onChange={(e) => setRateText(e.target.value)} className={fieldClass} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Region</span>
+            <input value={input.region ?? ''} onChange={(e) => update({ region: e.target.value })} placeholder="Nairobi" className={fieldClass} />
+          </label>
+          <label className="space-y-2">
+            <span className={labelClass}>Effective From</span>
+            <input type="date" value={input.effective_date} onChange={(e) => update({ effective_date: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="space-y-2 col-span-2">
+            <span className={labelClass}>Notes</span>
+            <textarea
+              value={input.notes ?? ''} rows={2}
+              onChange={(e) => update({ notes: e.target.value })}
+              placeholder="Supplier, quote reference..."
+              className={`${fieldClass} resize-none`}
+            />
+          </label>
+
+          {mode.kind === 'new' && canEditOffice && (
+            <div className="col-span-2 flex gap-2">
+              {[{ office: true, label: 'Office Price Book' }, { office: false, label: 'My Rates' }].map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setToOffice(option.office)}
+                  className={`flex-1 py-3 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all
+                    ${toOffice === option.office ? 'bg-amber-500 text-black border-amber-500' : 'border-zinc-700 text-zinc-500 hover:text-amber-500'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-8 border-t border-zinc-800/40 flex items-center justify-between gap-4">
+          <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">{error}</p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+          >
+            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Rate
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RateEditorDialog;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader2, History } from 'lucide-react';
+import type { Rate } from '../../../lib/database/database';
+import { loadPriceSeries, type PricePoint } from '../priceIndex';
+
+/** --- TYPES --- **/
+
+interface RateHistoryDialogProps {
+  rate: Rate;
+  theme: string;
+  onClose: () => void;
+}
+
+const CHART = { width: 640, height: 220, padX: 56, padY: 24 };
+
+const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** --- SUB-COMPONENT: STEP CHART --- **/
+
+// A price holds until the next one applies, so the series is drawn as steps up to today
+const PriceChart: React.FC<{ series: PricePoint[]; theme: string }> = ({ series, theme }) => {
+  const chart = useMemo(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    const time = (date: string) => Date.parse(`${date}T00:00:00Z`);
+    const start = time(series[0].date);
+    const end = Math.max(time(today), time(series[series.length - 1].date), start + 86_400_000);
+    const prices = series.map(p => p.rate);
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    const span = high - low || Math.max(high * 0.1, 1);
+    const floor = low - span * 0.1;
+    const ceiling = high + span * 0.1;
+
+    const x = (date: string) => CHART.padX + (time(date) - start) / (end - start) * (CHART.width - CHART.padX * 2);
+    const y = (price: number) => CHART.height - CHART.padY - (price - floor) / (ceiling - floor) * (CHART.height - CHART.padY * 2);
+
+    const path = series.flatMap((point, i) => {
+      const next = series[i + 1];
+      const stepEnd = next ? x(next.date) : CHART.width - CHART.padX;
+      return [`${i === 0 ? 'M' : 'L'}${x(point.date)},${y(point.rate)}`, `L${stepEnd},${y(point.rate)}`];
+    }).join(' ');
+
+    return { path, x, y, low, high };
+  }, [series]);
+
+  const axis = theme === 'dark' ? '#3f3f46' : '#d4d4d8';
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+      <line x1={CHART.padX} y1={CHART.height - CHART.padY} x2={CHART.width - CHART.padX} y2={CHART.height - CHART.padY} stroke={axis} />
+      {[chart.low, chart.high].map(price => (
+        <g key={price}>
+          <line x1={CHART.padX} y1={chart.y(price)} x2={CHART.width - CHART.padX} y2={chart.y(price)} stroke={axis} strokeDasharray="3 4" />
+          <text x={CHART.padX - 8} y={chart.y(price) + 3} textAnchor="end" fontSize="9" fill="#71717a" fontWeight="700">
+            {price.toLocaleString()}
+          </text>
+        </g>
+      ))}
+      <path d={chart.path} fill="none" stroke="#f59e0b" strokeWidth={2.5} strokeLinejoin="round" />
+      {series.map(point => (
+        <g key={point.date}>
+          <circle cx={chart.x(point.date)} cy={chart.y(point.rate)} r={4} fill="#f59e0b" />
+          <text x={chart.x(point.date)} y={CHART.height - 8} textAnchor="middle" fontSize="8" fill="#71717a" fontWeight="700">
+            {new Date(`${point.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/** --- MAIN COMPONENT: RATE PRICE HISTORY --- **/
+
+const RateHistoryDialog: React.FC<RateHistoryDialogProps> = ({ rate, theme, onClose }) => {
+  const [series, setSeries] = useState<PricePoint[] | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadPriceSeries(rate)
+      .then(found => { if (active) setSeries(found); })
+      .catch(err => console.error("Rates Error: Price history unreadable.", err));
+    return () => { active = false; };
+  }, [rate]);
+
+  const first = series?.[0];
+  const latest = series?.[series.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Price History<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              {rate.code} • {rate.name} • KES per {rate.unit}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!series ? (
+          <div className="flex justify-center p-16 opacity-30"><Loader2 className="animate-spin" /></div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+            {series.length > 1 ? (
+              <PriceChart series={series} theme={theme} />
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-10 opacity-40">
+                <History size={28} />
+                <p className="text-[10px] font-black uppercase tracking-widest italic">One price so far • Changes will chart here</p>
+              </div>
+            )}
+
+            {first && latest && series.length > 1 && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                {first.rate > 0 ? `${((latest.rate / first.rate - 1) * 100).toFixed(1)}%` : '—'} since {new Date(first.date).toLocaleDateString()}
+              </p>
+            )}
+
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="text-[9px] font-black uppercase tracking-widest text-zinc-500 border-b border-zinc-800/40">
+                  <th className="py-3">Applies From</th>
+                  <th className="py-3 text-right">Price (KES)</th>
+                  <th className="py-3 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/40">
+                {[...series].reverse().map((point, i, newestFirst) => {
+                  const before = newestFirst[i + 1];
+                  const delta = before && before.rate > 0 ? (point.rate / before.rate - 1) * 100 : null;
+                  return (
+                    <tr key={point.date} className="text-xs font-bold">
+                      <td className="py-3">{new Date(point.date).toLocaleDateString()}</td>
+                      <td className="py-3 text-right">{money(point.rate)}</td>
+                      <td className={`py-3 text-right ${delta === null ? 'text-zinc-600' : delta > 0 ? 'text-rose-500' : 'text-emerald-500'}`}>
+                        {delta === null ? '—' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}%`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RateHistoryDialog;
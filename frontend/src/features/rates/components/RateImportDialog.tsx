@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Upload,
+  X,
+  AlertTriangle,
+  CheckCircle2,
+  Info,
+  Loader2
+} from 'lucide-react';
+import type { Rate } from '../../../lib/database/database';
+import { listRates } from '../rateBook';
+import {
+  RATE_IMPORT_FIELDS,
+  applyRateImport,
+  diffRateImport,
+  mapRateHeader,
+  readRateFile,
+  validateRateImport,
+  type RateChangeKind,
+  type RateColumnMapping
+} from '../rateTransfer';
+
+/** --- TYPES --- **/
+
+interface RateImportDialogProps {
+  userId: string;
+  theme: string;
+  // Editors may import into the office book; everyone else only into their own rates
+  canEditOffice: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const CHANGE_BADGES: Record<RateChangeKind, { label: string; tone: string }> = {
+  add: { label: 'New', tone: 'text-emerald-500 border-emerald-500/30' },
+  override: { label: 'Override', tone: 'text-amber-500 border-amber-500/30' },
+  update: { label: 'Update', tone: 'text-blue-500 border-blue-500/30' },
+  unchanged: { label: 'Same', tone: 'text-zinc-500 border-zinc-700' }
+};
+
+/** --- MAIN COMPONENT: PRICE BOOK IMPORT --- **/
+
+const RateImportDialog: React.FC<RateImportDialogProps> = ({ userId, theme, canEditOffice, onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [grid, setGrid] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<RateColumnMapping | null>(null);
+  const [toOffice, setToOffice] = useState(canEditOffice);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [existing, setExisting] = useState<Rate[] | null>(null);
+  const [status, setStatus] = useState<'idle' | 'reading' | 'importing'>('idle');
+  const [readError, setReadError] = useState<string | null>(null);
+
+  // Codes already in the books decide what the import adds and what it updates
+  useEffect(() => {
+    let active = true;
+    listRates(userId)
+      .then(found => { if (active) setExisting(found); })
+      .catch(err => console.error("Rates Error: Could not read the price book.", err));
+    return () => { active = false; };
+  }, [userId]);
+
+  const report = useMemo(
+    () => (mapping && grid.length > 0 ? validateRateImport(grid, mapping) : null),
+    [grid, mapping]
+  );
+
+  const changes = useMemo(() => {
+    if (!report || !existing) return [];
+    const office = existing.filter(r => !r.owner_id);
+    return toOffice
+      ? diffRateImport(report.rows, office)
+      : diffRateImport(report.rows, existing.filter(r => r.owner_id === userId), office);
+  }, [report, existing, toOffice, userId]);
+
+  const headerCells = grid[0] ?? [];
+  const columnCount = Math.max(0, ...grid.slice(0, 50).map(r => r.length));
+  const errors = report?.issues.filter(i => i.severity === 'error') ?? [];
+  const count = (kind: RateChangeKind) => changes.filter(c => c.kind === kind).length;
+  const toApply = count('add') + count('override') + (updateExisting ? count('update') : 0);
+
+  const handleFile = async (file: File) => {
+    setStatus('reading');
+    setReadError(null);
+    try {
+      const rows = await readRateFile(file);
+      setGrid(rows);
+      setMapping(mapRateHeader(rows[0] ?? []));
+      setFileName(file.name);
+    } catch (err) {
+      console.error("Import Error: Price book file unreadable.", err);
+      setReadError(err instanceof Error ? err.message : 'File could not be read');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handleImport = async () => {
+    if (toApply === 0) return;
+    setStatus('importing');
+    try {
+      const applied = await applyRateImport(changes, toOffice ? null : userId, userId, updateExisting);
+      onImported(applied);
+    } catch (err) {
+      console.error("Import Error: Rates were not saved.", err);
+      setReadError(err instanceof Error ? err.message : 'Import stopped part way. Saved rates stay queued for sync.');
+      setStatus('idle');
+    }
+  };
+
+  const selectClass = `w-full p-3 rounded-xl border text-[10px] font-black uppercase outline-none focus:border-amber-500
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-4xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Import Rates<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1">
+              CSV or JSON price book • Matched to existing rates by code
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-8">
+          {/* 1. File & Target Book */}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`w-full p-8 rounded-3xl border-2 border-dashed flex items-center justify-center gap-4 transition-all
+              ${theme === 'dark' ? 'border-zinc-800 hover:border-amber-500/40 text-zinc-400' : 'border-zinc-200 hover:border-amber-500/40 text-zinc-600'}`}
+          >
+            {status === 'reading' ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+            <span className="text-[10px] font-black uppercase tracking-widest">
+              {fileName ?? 'Choose .csv or .json file'}
+            </span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+
+          {canEditOffice && (
+            <div className="flex gap-2">
+              {[{ office: true, label: 'Into Office Price Book' }, { office: false, label: 'Into My Rates' }].map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setToOffice(option.office)}
+                  className={`flex-1 py-3 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all
+                    ${toOffice === option.office ? 'bg-amber-500 text-black border-amber-500' : 'border-zinc-700 text-zinc-500 hover:text-amber-500'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {readError && (
+            <div className="flex items-center gap-3 text-rose-500">
+              <AlertTriangle size={14} />
+              <span className="text-[10px] font-black uppercase tracking-widest">{readError}</span>
+            </div>
+          )}
+
+          {/* 2. Column Mapping */}
+          {mapping && (
+            <div className="space-y-4">
+              <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-500">Column Mapping</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {RATE_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <label key={field} className="space-y-2">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                      {label}{required && <span className="text-amber-500"> *</span>}
+                    </span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      <option value="">Not in file</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>
+                          Col {i + 1}{headerCells[i] ? ` • ${headerCells[i]}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 3. Dry Run */}
+          {report && (
+            <div className="space-y-4">
+              <p className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-500">Dry Run</p>
+              <div className="grid grid-cols-5 gap-3">
+                {[
+                  { label: 'New', value: count('add') + count('override'), color: 'text-emerald-500' },
+                  { label: 'Changed', value: count('update'), color: 'text-blue-500' },
+                  { label: 'Unchanged', value: count('unchanged'), color: 'text-zinc-400' },
+                  { label: 'Errors', value: errors.length, color: 'text-rose-500' },
+                  { label: 'Warnings', value: report.issues.length - errors.length, color: 'text-amber-500' }
+                ].map(stat => (
+                  <div key={stat.label} className={`p-4 rounded-2xl border ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+                    <p className={`text-2xl font-black italic tracking-tighter ${stat.color}`}>{stat.value}</p>
+                    <p className="text-[8px] font-black uppercase tracking-widest text-zinc-500">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {count('update') > 0 && (
+                <label className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                  <input
+                    type="checkbox"
+                    checked={updateExisting}
+                    onChange={(e) => setUpdateExisting(e.target.checked)}
+                    className="accent-amber-500"
+                  />
+                  Update rates whose code already exists • Otherwise they are skipped
+                </label>
+              )}
+
+              {changes.some(c => c.kind !== 'unchanged') && (
+                <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="text-[9px] font-black uppercase tracking-widest text-zinc-500 border-b border-zinc-800/40">
+                        <th className="py-2">Code</th>
+                        <th className="py-2">Description</th>
+                        <th className="py-2 text-right">Now</th>
+                        <th className="py-2 text-right">Imported</th>
+                        <th className="py-2 text-right">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-800/40">
+                      {changes.filter(c => c.kind !== 'unchanged').map(change => (
+                        <tr key={change.row.line} className={`text-xs font-bold ${change.kind === 'update' && !updateExisting ? 'opacity-40' : ''}`}>
+                          <td className="py-2 font-mono">{change.row.input.code}</td>
+                          <td className="py-2 max-w-xs truncate">
+                            {change.row.input.name}
+                            {change.changed.length > 0 && change.changed.some(f => f !== 'rate') && (
+                              <span className="block text-[9px] font-black uppercase tracking-widest text-zinc-500">
+                                Also: {change.changed.filter(f => f !== 'rate').join(', ').replace(/_/g, ' ')}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right text-zinc-500">{change.existing ? change.existing.rate.toLocaleString() : '—'}</td>
+                          <td className="py-2 text-right">{change.row.input.rate.toLocaleString()}</td>
+                          <td className="py-2 text-right">
+                            <span className={`px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest ${CHANGE_BADGES[change.kind].tone}`}>
+                              {CHANGE_BADGES[change.kind].label}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-2">
+                {report.issues.map((issue, i) => (
+                  <div key={i} className="flex items-start gap-3">
+                    {issue.severity === 'error'
+                      ? <AlertTriangle size={12} className="text-rose-500 mt-0.5 shrink-0" />
+                      : <Info size={12} className="text-amber-500 mt-0.5 shrink-0" />}
+                    <span className="text-[10px] font-bold text-zinc-400">
+                      <span className="font-mono text-zinc-600">Row {issue.line}</span> {issue.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-8 border-t border-zinc-800/40 flex justify-between items-center gap-6">
+          <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+            {errors.length > 0 ? 'Rows with errors are left out of the import.' : 'Nothing is saved until you apply the import.'}
+          </p>
+          <button
+            onClick={handleImport}
+            disabled={toApply === 0 || status !== 'idle'}
+            className="flex items-center gap-3 px-8 py-4 bg-amber-500 text-black rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all"
+          >
+            {status === 'importing' ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+            Apply {toApply} Rates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateImportDialog;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader2, Search, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { Rate } from '../../../lib/database/database';
+import { RATE_CATEGORY_LABELS, officeRateId } from '../rateBook';
+import { lockedPriceBook, projectRates } from '../priceBooks';
+import { applyLibraryRate, unitsMatch } from '../rateLinks';
+
+/** --- TYPES --- **/
+
+interface RatePickerDialogProps {
+  projectId: string;
+  billItem: { id: string; code: string; description: string; unit: string; rateId: string | null };
+  userId: string;
+  theme: string;
+  onClose: () => void;
+  // Called after a rate was applied, so the bill re-reads the item
+  onApplied: () => void;
+}
+
+const money = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** --- MAIN COMPONENT: PRICE BOOK RATE PICKER --- **/
+
+/**
+ * Prices a bill item straight from the price book. Rates in the item's unit
+ * are listed first; others can still be applied once the mismatch is confirmed.
+ */
+const RatePickerDialog: React.FC<RatePickerDialogProps> = ({ projectId, billItem, userId, theme, onClose, onApplied }) => {
+  const [rates, setRates] = useState<Rate[] | null>(null);
+  const [lockedTo, setLockedTo] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    Promise.all([projectRates(projectId, userId), lockedPriceBook(projectId)])
+      .then(([found, locked]) => {
+        if (!active) return;
+        setRates(found);
+        setLockedTo(locked ? `${locked.label} v${locked.version}` : null);
+      })
+      .catch(err => console.error("Rates Error: Could not read the price book.", err));
+    return () => { active = false; };
+  }, [projectId, userId]);
+
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (rates ?? [])
+      .filter(r => !term || r.name.toLowerCase().includes(term) || r.code.toLowerCase().includes(term))
+      .map(rate => ({ rate, fits: unitsMatch(billItem.unit, rate.unit) }))
+      .sort((a, b) => Number(b.fits) - Number(a.fits) || a.rate.code.localeCompare(b.rate.code));
+  }, [rates, search, billItem.unit]);
+
+  const handleApply = async (rate: Rate, fits: boolean) => {
+    if (!fits && !window.confirm(`${rate.code} is priced per ${rate.unit}, but the item is billed per ${billItem.unit}. Apply it anyway?`)) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await applyLibraryRate(billItem.id, rate);
+      onApplied();
+    } catch (err) {
+      console.error("Rates Error: Rate not applied.", err);
+      setError(err instanceof Error ? err.message : 'Rate not applied');
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-100 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-[2.5rem] border overflow-hidden text-left
+        ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+
+        {/* Header */}
+        <div className="p-8 flex justify-between items-start border-b border-zinc-800/40">
+          <div>
+            <h3 className={`text-2xl font-black uppercase italic tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+              Pick Rate<span className="text-amber-500">.</span>
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mt-1 max-w-xl truncate">
+              Item {billItem.code} • {billItem.description || 'Undescribed item'} • Per {billItem.unit}
+            </p>
+            {lockedTo && (
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-500 mt-1">
+                Priced from locked price book: {lockedTo}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-8 pb-0">
+          <div className="relative group">
+            <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-zinc-600 group-focus-within:text-amber-500 transition-colors" size={16} />
+            <input
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or code..."
+              className={`w-full pl-12 pr-6 py-4 rounded-2xl border outline-none text-xs font-bold transition-all focus:border-amber-500
+                ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-zinc-50 border-zinc-200 text-zinc-900'}`}
+            />
+          </div>
+          {error && <p className="mt-4 text-[10px] font-black uppercase tracking-widest text-rose-500">{error}</p>}
+        </div>
+
+        {!rates ? (
+          <div className="flex justify-center p-16 opacity-30"><Loader2 className="animate-spin" /></div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-2">
+            {matches.length === 0 && (
+              <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-zinc-600 italic">
+                No matching rates in the price book
+              </p>
+            )}
+            {matches.map(({ rate, fits }) => {
+              const isCurrent = officeRateId(rate) === billItem.rateId;
+              return (
+                <button
+                  key={rate.id}
+                  onClick={() => handleApply(rate, fits)}
+                  disabled={isApplying}
+                  className={`w-full p-4 rounded-2xl border flex items-center justify-between gap-4 text-left transition-all disabled:opacity-40
+                    ${isCurrent ? 'border-amber-500/40 bg-amber-500/5' : theme === 'dark' ? 'border-zinc-800 hover:border-amber-500/40' : 'border-zinc-200 hover:border-amber-500/40'}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-xs font-black uppercase tracking-tight truncate">{rate.name}</p>
+                    <p className="text-[8px] font-mono text-zinc-500 uppercase mt-1">
+                      {rate.code} • {RATE_CATEGORY_LABELS[rate.category]}{rate.region && ` • ${rate.region}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4 shrink-0">
+                    {fits ? (
+                      isCurrent && <CheckCircle2 size={14} className="text-amber-500" />
+                    ) : (
+                      <span className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-rose-500" title="Unit differs from the bill item">
+                        <AlertTriangle size={10} /> Per {rate.unit}
+                      </span>
+                    )}
+                    <span className={`text-sm font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                      {money(rate.rate)}
+                      <span className="text-[9px] font-bold text-zinc-500"> / {rate.unit}</span>
+                    </span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RatePickerDialog;
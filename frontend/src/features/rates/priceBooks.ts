@@ -0,0 +1,123 @@
+import { db, syncEngine, type PriceBook, type PriceBookRate, type Rate } from "../../lib/database/database";
+import { listRates, officeRateId, resolvePriceBook } from "./rateBook";
+import { repriceProject } from "./rateAnalysis";
+
+/** --- 1. READING --- **/
+
+/**
+ * A project's price book snapshots, newest version first.
+ */
+export const listPriceBooks = async (projectId: string): Promise<PriceBook[]> =>
+  (await db.price_books.where('project_id').equals(projectId).toArray())
+    .sort((a, b) => b.version - a.version || b.created_at.localeCompare(a.created_at));
+
+/**
+ * The snapshot the project is priced from, if it is locked to one. Should two
+ * devices lock different books offline, the cloud keeps whichever lock reaches
+ * it last and releases the other; until that comes down, the newest version wins.
+ */
+export const lockedPriceBook = async (projectId: string): Promise<PriceBook | null> =>
+  (await listPriceBooks(projectId)).find(b => b.is_locked) ?? null;
+
+/**
+ * A snapshot's rates in the live rates' shape, keeping the ids they were
+ * copied from so build-up lines still match them.
+ */
+export const snapshotRates = (book: PriceBook): Rate[] => book.rates.map(r => ({
+  id: r.rate_id,
+  code: r.code,
+  name: r.name,
+  category: r.category,
+  unit: r.unit,
+  rate: r.rate,
+  region: r.region,
+  effective_date: r.effective_date,
+  notes: `${book.label} (v${book.version})`,
+  owner_id: null,
+  overrides_rate_id: null,
+  created_by: book.created_by,
+  created_at: book.created_at,
+  updated_at: book.updated_at
+}));
+
+/**
+ * The rates a project is priced from: its locked snapshot, or else the
+ * surveyor's live price book.
+ */
+export const projectRates = async (projectId: string, userId: string): Promise<Rate[]> => {
+  const locked = await lockedPriceBook(projectId);
+  return locked ? snapshotRates(locked) : resolvePriceBook(await listRates(userId), userId);
+};
+
+/** --- 2. SNAPSHOTS (every change is queued for the cloud) --- **/
+
+/**
+ * Copies the surveyor's price book as it stands, office rates with their own
+ * overrides in place, into the next version for the project. Overrides are
+ * filed under the office rate they replace, which is how bill items and
+ * build-ups refer to them.
+ */
+export const snapshotPriceBook = async (projectId: string, label: string, userId: string): Promise<PriceBook> => {
+  if (!label.trim()) throw new Error('Name the price book, e.g. "Tender"');
+
+  const [existing, rates] = await Promise.all([listPriceBooks(projectId), listRates(userId)]);
+  const timestamp = new Date().toISOString();
+  const book: PriceBook = {
+    id: crypto.randomUUID(),
+    project_id: projectId,
+    version: (existing[0]?.version ?? 0) + 1,
+    label: label.trim(),
+    rates: resolvePriceBook(rates, userId).map((r): PriceBookRate => ({
+      rate_id: officeRateId(r),
+      code: r.code,
+      name: r.name,
+      category: r.category,
+      unit: r.unit,
+      rate: r.rate,
+      region: r.region,
+      effective_date: r.effective_date
+    })),
+    is_locked: false,
+    created_by: userId,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+  await db.price_books.add(book);
+  await syncEngine.queueChange('price_books', book.id, 'INSERT', { ...book });
+  return book;
+};
+
+const writeLock = async (book: PriceBook, isLocked: boolean) => {
+  const updated: PriceBook = { ...book, is_locked: isLocked, updated_at: new Date().toISOString() };
+  await db.price_books.put(updated);
+  await syncEngine.queueChange('price_books', book.id, 'UPDATE', { ...updated });
+};
+
+/**
+ * Locks the project to a snapshot, or unlocks it, then re-prices its build-ups
+ * from whichever book now applies. Any other lock is released first, so the
+ * cloud never holds two at once.
+ */
+export const setPriceBookLocked = async (id: string, isLocked: boolean): Promise<void> => {
+  const book = await db.price_books.get(id);
+  if (!book) throw new Error('Price book not found');
+
+  if (isLocked) {
+    for (const other of await listPriceBooks(book.project_id)) {
+      if (other.is_locked && other.id !== id) await writeLock(other, false);
+    }
+  }
+  if (book.is_locked !== isLocked) await writeLock(book, isLocked);
+  await repriceProject(book.project_id);
+};
+
+/**
+ * Removes a snapshot. Deleting the locked one returns the project to live rates.
+ */
+export const deletePriceBook = async (id: string): Promise<void> => {
+  const book = await db.price_books.get(id);
+  if (!book) return;
+  await db.price_books.delete(id);
+  await syncEngine.queueChange('price_books', id, 'DELETE', { id });
+  if (book.is_locked) await repriceProject(book.project_id);
+};
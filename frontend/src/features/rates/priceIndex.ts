@@ -0,0 +1,105 @@
+import { db, type Rate, type RateHistoryEntry } from "../../lib/database/database";
+
+/** --- 1. PRICE HISTORY --- **/
+
+export interface PricePoint {
+  date: string; // YYYY-MM-DD the price applied from
+  rate: number;
+}
+
+/**
+ * A rate's prices in date order. The rate's own figure is included, so a change
+ * made on this device shows before the cloud has recorded it.
+ */
+export const toPriceSeries = (rate: Pick<Rate, 'rate' | 'effective_date'>, history: Pick<RateHistoryEntry, 'rate' | 'effective_date'>[]): PricePoint[] => {
+  const byDate = new Map(history.map(h => [h.effective_date, h.rate]));
+  byDate.set(rate.effective_date, rate.rate);
+  return [...byDate.entries()]
+    .map(([date, price]) => ({ date, rate: price }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const loadPriceSeries = async (rate: Rate): Promise<PricePoint[]> =>
+  toPriceSeries(rate, await db.rate_history.where('rate_id').equals(rate.id).toArray());
+
+/**
+ * The price in force on a date: the latest one applying from that day or
+ * before. Dates before the first recorded price take that first price.
+ */
+export const priceOn = (series: PricePoint[], date: string): number | null => {
+  if (series.length === 0) return null;
+  let price = series[0].rate;
+  for (const point of series) {
+    if (point.date > date) break;
+    price = point.rate;
+  }
+  return price;
+};
+
+/** --- 2. PRICE INDEX FOR A PROJECT --- **/
+
+export interface IndexedResource {
+  rateId: string;
+  code: string;
+  name: string;
+  unit: string;
+  quantity: number; // Used across the whole bill, wastage included
+  basePrice: number;
+  currentPrice: number;
+}
+
+export interface PriceIndex {
+  resources: IndexedResource[];
+  baseCost: number;
+  currentCost: number;
+  index: number; // currentCost / baseCost; 1 when nothing can be indexed
+}
+
+/**
+ * Indexes a project's prices between two dates. The basket is every price book
+ * resource in the bill's rate build-ups, in the quantities the bill uses, so
+ * the index moves with the materials, labour and plant the work actually needs.
+ * Resources whose rate is not on this device cannot be indexed and are left out.
+ */
+export const buildPriceIndex = async (projectId: string, baseDate: string, valuationDate: string): Promise<PriceIndex> => {
+  const [analyses, billItems] = await Promise.all([
+    db.rate_analyses.where('project_id').equals(projectId).toArray(),
+    db.bill_items.where('project_id').equals(projectId).toArray()
+  ]);
+  const billQuantity = new Map(billItems.map(b => [b.id, b.quantity]));
+
+  const quantities = new Map<string, number>();
+  for (const analysis of analyses) {
+    const itemQuantity = billQuantity.get(analysis.bill_item_id) ?? 0;
+    if (itemQuantity === 0 || !(analysis.output_quantity > 0)) continue;
+    for (const line of analysis.lines) {
+      if (!line.rate_id) continue;
+      const used = line.quantity * (1 + line.wastage_percent / 100) / analysis.output_quantity * itemQuantity;
+      quantities.set(line.rate_id, (quantities.get(line.rate_id) ?? 0) + used);
+    }
+  }
+
+  const rates = (await db.rates.bulkGet([...quantities.keys()])).filter((r): r is Rate => !!r);
+  const resources: IndexedResource[] = [];
+  for (const rate of rates) {
+    const series = await loadPriceSeries(rate);
+    resources.push({
+      rateId: rate.id,
+      code: rate.code,
+      name: rate.name,
+      unit: rate.unit,
+      quantity: quantities.get(rate.id) ?? 0,
+      basePrice: priceOn(series, baseDate) ?? rate.rate,
+      currentPrice: priceOn(series, valuationDate) ?? rate.rate
+    });
+  }
+
+  const baseCost = resources.reduce((acc, r) => acc + r.quantity * r.basePrice, 0);
+  const currentCost = resources.reduce((acc, r) => acc + r.quantity * r.currentPrice, 0);
+  return {
+    resources: resources.sort((a, b) => a.code.localeCompare(b.code)),
+    baseCost,
+    currentCost,
+    index: baseCost > 0 ? currentCost / baseCost : 1
+  };
+};
@@ -0,0 +1,220 @@
+import {
+  db,
+  supabase,
+  syncEngine,
+  type Rate,
+  type RateAnalysis,
+  type RateAnalysisLine,
+  type RateCategory
+} from "../../lib/database/database";
+import { updateBillItem } from "../boq/billItems";
+import { hasProjectRole } from "../auth/permissions";
+import { projectRoleFor } from "../projects/projectTeam";
+import { projectRates } from "./priceBooks";
+import { officeRateId } from "./rateBook";
+
+/** --- 1. COMPOSITE RATE --- **/
+
+export interface RateBuildUp {
+  byCategory: Record<RateCategory, number>;
+  direct: number; // Cost of the lines for `output_quantity` units
+  perUnit: number; // Direct cost of one unit
+  overheads: number; // OH&P on one unit
+  composite: number; // The bill rate, rounded to cents
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const lineCost = (line: Pick<RateAnalysisLine, 'unit_rate' | 'quantity' | 'wastage_percent'>): number =>
+  line.unit_rate * line.quantity * (1 + line.wastage_percent / 100);
+
+/**
+ * Prices an analysis: the lines give the direct cost of `output_quantity`
+ * units, which is brought back to one unit before overheads & profit go on.
+ */
+export const buildUpRate = (analysis: Pick<RateAnalysis, 'lines' | 'output_quantity' | 'overheads_percent'>): RateBuildUp => {
+  const byCategory: Record<RateCategory, number> = { material: 0, labour: 0, plant: 0 };
+  for (const line of analysis.lines) byCategory[line.category] += lineCost(line);
+
+  const direct = byCategory.material + byCategory.labour + byCategory.plant;
+  const perUnit = analysis.output_quantity > 0 ? direct / analysis.output_quantity : 0;
+  const overheads = perUnit * analysis.overheads_percent / 100;
+  return { byCategory, direct, perUnit, overheads, composite: roundCents(perUnit + overheads) };
+};
+
+/**
+ * A line priced from a price book rate. A line priced from an override keeps
+ * the office rate's id, so the build-up re-prices for whoever opens it.
+ */
+export const lineFromRate = (rate: Rate, quantity = 1, wastagePercent = 0): RateAnalysisLine => ({
+  rate_id: officeRateId(rate),
+  code: rate.code,
+  name: rate.name,
+  category: rate.category,
+  unit: rate.unit,
+  unit_rate: rate.rate,
+  quantity,
+  wastage_percent: wastagePercent
+});
+
+export type RateAnalysisDraft = Pick<RateAnalysis, 'output_quantity' | 'overheads_percent' | 'lines'>;
+
+/**
+ * Reasons an analysis cannot be saved, if any.
+ */
+export const validateAnalysis = (draft: RateAnalysisDraft): string | null => {
+  if (!(draft.output_quantity > 0)) return 'The analysis must produce more than zero units';
+  if (!Number.isFinite(draft.overheads_percent) || draft.overheads_percent < 0) return 'Enter overheads & profit of zero or more';
+  if (draft.lines.length === 0) return 'Add at least one material, labour or plant line';
+  for (const line of draft.lines) {
+    if (!Number.isFinite(line.quantity) || line.quantity < 0) return `Enter a quantity of zero or more for ${line.code}`;
+    if (!Number.isFinite(line.wastage_percent) || line.wastage_percent < 0) return `Enter wastage of zero or more for ${line.code}`;
+  }
+  return null;
+};
+
+/** --- 2. ATTACHING TO BILL ITEMS (every change is queued for the cloud) --- **/
+
+export const getAnalysis = (billItemId: string): Promise<RateAnalysis | undefined> =>
+  db.rate_analyses.where('bill_item_id').equals(billItemId).first();
+
+export const listProjectAnalyses = (projectId: string): Promise<RateAnalysis[]> =>
+  db.rate_analyses.where('project_id').equals(projectId).toArray();
+
+/**
+ * Stores the analysis and carries its composite rate to the bill item.
+ */
+const writeAnalysis = async (analysis: RateAnalysis, operation: 'INSERT' | 'UPDATE') => {
+  await db.rate_analyses.put(analysis);
+  await syncEngine.queueChange('rate_analyses', analysis.id, operation, { ...analysis });
+
+  const item = await db.bill_items.get(analysis.bill_item_id);
+  const { composite } = buildUpRate(analysis);
+  if (item && item.rate !== composite) await updateBillItem(item.id, { rate: composite });
+};
+
+/**
+ * Attaches a build-up to a bill item, or replaces the one it has.
+ */
+export const saveAnalysis = async (billItemId: string, draft: RateAnalysisDraft): Promise<RateAnalysis> => {
+  const problem = validateAnalysis(draft);
+  if (problem) throw new Error(problem);
+
+  const item = await db.bill_items.get(billItemId);
+  if (!item) throw new Error('Bill item not found');
+
+  const timestamp = new Date().toISOString();
+  const existing = await getAnalysis(billItemId);
+  const analysis: RateAnalysis = existing
+    ? { ...existing, ...draft, updated_at: timestamp }
+    : {
+        id: crypto.randomUUID(),
+        project_id: item.project_id,
+        bill_item_id: billItemId,
+        ...draft,
+        created_at: timestamp,
+        updated_at: timestamp
+      };
+
+  await writeAnalysis(analysis, existing ? 'UPDATE' : 'INSERT');
+  return analysis;
+};
+
+/**
+ * Takes the build-up off a bill item. The item keeps its last rate, which can
+ * then be typed over.
+ */
+export const detachAnalysis = async (billItemId: string): Promise<void> => {
+  const analysis = await getAnalysis(billItemId);
+  if (!analysis) return;
+  await db.rate_analyses.delete(analysis.id);
+  await syncEngine.queueChange('rate_analyses', analysis.id, 'DELETE', { id: analysis.id });
+};
+
+/** --- 3. RE-PRICING --- **/
+
+/**
+ * The analysis with every line brought up to date with its rate, or null when
+ * nothing changed. Lines whose rate this device cannot see keep their price;
+ * those whose rate was just deleted are flagged.
+ */
+const refreshLines = (analysis: RateAnalysis, ratesById: Map<string, Rate>, deletedId: string | null): RateAnalysis | null => {
+  let changed = false;
+  const lines = analysis.lines.map(line => {
+    const rate = line.rate_id ? ratesById.get(line.rate_id) : undefined;
+    if (!rate) {
+      if (!line.rate_id || line.rate_id !== deletedId || line.rate_deleted) return line;
+      changed = true;
+      return { ...line, rate_deleted: true };
+    }
+    const fresh = lineFromRate(rate, line.quantity, line.wastage_percent);
+    if (fresh.unit_rate === line.unit_rate && fresh.code === line.code && fresh.name === line.name
+      && fresh.unit === line.unit && fresh.category === line.category && !line.rate_deleted) return line;
+    changed = true;
+    return fresh;
+  });
+  return changed ? { ...analysis, lines, updated_at: new Date().toISOString() } : null;
+};
+
+/**
+ * Whether the signed-in surveyor may price the project's bill; items on
+ * projects they only view are left for the team to re-price.
+ */
+const canPriceProject = async (projectId: string, userId: string, cache: Map<string, boolean>) => {
+  if (!cache.has(projectId)) {
+    cache.set(projectId, hasProjectRole(await projectRoleFor(projectId, userId), 'qs'));
+  }
+  return cache.get(projectId)!;
+};
+
+/**
+ * The rates a project's lines are priced from, keyed as lines refer to them:
+ * its locked snapshot, or the surveyor's price book with their overrides in
+ * place of the office rates. Lines saved before they were keyed by office
+ * rate can still name an override, so its own id is kept too.
+ */
+const projectPrices = async (projectId: string, userId: string, cache: Map<string, Map<string, Rate>>) => {
+  if (!cache.has(projectId)) {
+    const prices = new Map<string, Rate>();
+    for (const rate of await projectRates(projectId, userId)) {
+      prices.set(rate.id, rate);
+      prices.set(officeRateId(rate), rate);
+    }
+    cache.set(projectId, prices);
+  }
+  return cache.get(projectId)!;
+};
+
+const reprice = async (analyses: RateAnalysis[], deletedId: string | null = null): Promise<number> => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) return 0;
+
+  const prices = new Map<string, Map<string, Rate>>();
+  const allowed = new Map<string, boolean>();
+  let repriced = 0;
+  for (const analysis of analyses) {
+    const refreshed = refreshLines(analysis, await projectPrices(analysis.project_id, userId, prices), deletedId);
+    if (!refreshed || !await canPriceProject(analysis.project_id, userId, allowed)) continue;
+    await writeAnalysis(refreshed, 'UPDATE');
+    repriced++;
+  }
+  return repriced;
+};
+
+/**
+ * Re-prices every bill item on the device built up from the given rate, or
+ * flags its lines when the rate was deleted and nothing stands in for it.
+ * Returns how many items changed.
+ */
+export const repriceAnalysesUsing = async (rateId: string, deleted = false): Promise<number> => {
+  const analyses = await db.rate_analyses.filter(a => a.lines.some(l => l.rate_id === rateId)).toArray();
+  return reprice(analyses, deleted ? rateId : null);
+};
+
+/**
+ * Brings a project's build-ups up to date with the price book, or with its
+ * locked snapshot, e.g. after rates changed on another device.
+ */
+export const repriceProject = async (projectId: string): Promise<number> =>
+  reprice(await listProjectAnalyses(projectId));
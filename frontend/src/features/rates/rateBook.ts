@@ -0,0 +1,157 @@
+import { db, syncEngine, type Rate, type RateCategory } from "../../lib/database/database";
+import { repriceAnalysesUsing } from "./rateAnalysis";
+
+/** --- 1. PRICE BOOK --- **/
+
+export const RATE_CATEGORY_LABELS: Record<RateCategory, string> = {
+  material: 'Material',
+  labour: 'Labour',
+  plant: 'Plant'
+};
+
+export type RateSource = 'office' | 'personal' | 'override';
+
+/**
+ * A rate as one surveyor sees it: their override stands in for the office
+ * rate it replaces, which is kept alongside for comparison.
+ */
+export interface PricedRate extends Rate {
+  source: RateSource;
+  office?: Rate;
+}
+
+export const rateSource = (rate: Pick<Rate, 'owner_id' | 'overrides_rate_id'>): RateSource =>
+  !rate.owner_id ? 'office' : rate.overrides_rate_id ? 'override' : 'personal';
+
+/**
+ * The id a rate is referred to by from shared records: an override answers to
+ * the office rate it replaces, so each team member resolves it to their own figure.
+ */
+export const officeRateId = (rate: Pick<Rate, 'id' | 'overrides_rate_id'>): string =>
+  rate.overrides_rate_id ?? rate.id;
+
+/**
+ * Every rate the surveyor can see, from the device vault: the office book and
+ * their own rates.
+ */
+export const listRates = async (userId: string): Promise<Rate[]> => {
+  const [office, own] = await Promise.all([
+    db.rates.filter(r => !r.owner_id).toArray(),
+    db.rates.where('owner_id').equals(userId).toArray()
+  ]);
+  return [...office, ...own];
+};
+
+/**
+ * The surveyor's working price book: office rates, with any they override
+ * replaced by their own figure, followed by their personal rates. Sorted by code.
+ */
+export const resolvePriceBook = (rates: Rate[], userId: string): PricedRate[] => {
+  const overrides = new Map(
+    rates.filter(r => r.owner_id === userId && r.overrides_rate_id).map(r => [r.overrides_rate_id!, r])
+  );
+  const officeIds = new Set(rates.filter(r => !r.owner_id).map(r => r.id));
+
+  const priced: PricedRate[] = [];
+  for (const rate of rates) {
+    if (!rate.owner_id) {
+      const override = overrides.get(rate.id);
+      priced.push(override ? { ...override, source: 'override', office: rate } : { ...rate, source: 'office' });
+    } else if (rate.owner_id === userId && (!rate.overrides_rate_id || !officeIds.has(rate.overrides_rate_id))) {
+      // An override whose office rate is gone stands on its own
+      priced.push({ ...rate, source: 'personal' });
+    }
+  }
+  return priced.sort((a, b) => a.code.localeCompare(b.code) || a.name.localeCompare(b.name));
+};
+
+/** --- 2. EDITING (every change is queued for the cloud) --- **/
+
+export type RateInput = Pick<Rate, 'code' | 'name' | 'category' | 'unit' | 'rate' | 'region' | 'effective_date' | 'notes'>;
+
+/**
+ * Reasons a rate cannot be saved, if any. Codes and names are what the picker
+ * searches by, so neither may be blank.
+ */
+export const validateRate = (input: RateInput): string | null => {
+  if (!input.code.trim()) return 'Enter a rate code';
+  if (!input.name.trim()) return 'Enter a description';
+  if (!input.unit.trim()) return 'Enter a unit';
+  if (!Number.isFinite(input.rate) || input.rate < 0) return 'Enter a rate of zero or more';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effective_date)) return 'Enter the date the rate applies from';
+  return null;
+};
+
+const cleanInput = (input: RateInput): RateInput => ({
+  code: input.code.trim().toUpperCase(),
+  name: input.name.trim(),
+  category: input.category,
+  unit: input.unit.trim(),
+  rate: Math.round(input.rate * 100) / 100,
+  region: input.region?.trim() || null,
+  effective_date: input.effective_date,
+  notes: input.notes?.trim() || null
+});
+
+/**
+ * Adds a rate to the office book (`ownerId` null) or to a surveyor's own rates.
+ */
+export const createRate = async (input: RateInput, ownerId: string | null, createdBy: string, overridesRateId: string | null = null): Promise<Rate> => {
+  const problem = validateRate(input);
+  if (problem) throw new Error(problem);
+
+  const timestamp = new Date().toISOString();
+  const rate: Rate = {
+    id: crypto.randomUUID(),
+    ...cleanInput(input),
+    owner_id: ownerId,
+    overrides_rate_id: ownerId ? overridesRateId : null,
+    created_by: createdBy,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+  await db.rates.add(rate);
+  await syncEngine.queueChange('rates', rate.id, 'INSERT', { ...rate });
+  return rate;
+};
+
+/**
+ * A personal copy of an office rate that replaces it in the surveyor's price
+ * book. Editing an existing override updates it instead of adding another.
+ */
+export const overrideRate = async (office: Rate, input: RateInput, userId: string): Promise<Rate> => {
+  const existing = await db.rates.where('owner_id').equals(userId).filter(r => r.overrides_rate_id === office.id).first();
+  if (existing) return updateRate(existing.id, input);
+  const override = await createRate(input, userId, userId, office.id);
+  await repriceAnalysesUsing(office.id);
+  return override;
+};
+
+/**
+ * Saves a change to a rate and re-prices the bill items built up from it.
+ */
+export const updateRate = async (id: string, input: RateInput): Promise<Rate> => {
+  const problem = validateRate(input);
+  if (problem) throw new Error(problem);
+
+  const rate = await db.rates.get(id);
+  if (!rate) throw new Error('Rate not found');
+
+  const updated: Rate = { ...rate, ...cleanInput(input), updated_at: new Date().toISOString() };
+  await db.rates.put(updated);
+  await syncEngine.queueChange('rates', id, 'UPDATE', { ...updated });
+  await repriceAnalysesUsing(officeRateId(updated));
+  return updated;
+};
+
+/**
+ * Removes a rate. Dropping an override puts the office rate back in its place
+ * and re-prices from it; build-ups left with no rate at all keep its last
+ * price, flagged as deleted.
+ */
+export const deleteRate = async (id: string): Promise<void> => {
+  const rate = await db.rates.get(id);
+  await db.rates.delete(id);
+  await syncEngine.queueChange('rates', id, 'DELETE', { id });
+  if (rate) await repriceAnalysesUsing(officeRateId(rate), true);
+};
@@ -0,0 +1,124 @@
+import { db, type BillItem, type BillUnit, type Rate } from "../../lib/database/database";
+import { toCsv } from "../../lib/spreadsheet/csv";
+import { downloadBlob, safeFileName } from "../../lib/download";
+import { updateBillItem } from "../boq/billItems";
+import { projectRates } from "./priceBooks";
+import { officeRateId } from "./rateBook";
+
+/** --- 1. UNIT CHECK --- **/
+
+// Price book units are typed freely; these are the spellings met for each bill unit
+const UNIT_ALIASES: Record<BillUnit, string[]> = {
+  m3: ['m3', 'm³', 'cum', 'cm', 'cubicmetre', 'cubicmeter'],
+  m2: ['m2', 'm²', 'sqm', 'sm', 'squaremetre', 'squaremeter'],
+  m: ['m', 'lm', 'rm', 'metre', 'meter', 'linearmetre', 'runningmetre'],
+  nr: ['nr', 'no', 'item', 'each', 'ea', 'pc', 'pcs', 'piece', 'unit'],
+  kg: ['kg', 'kgs', 'kilogram', 'kilograms'],
+  t: ['t', 'tonne', 'tonnes', 'ton', 'tons', 'mt']
+};
+
+/**
+ * Whether a price book rate is priced in the bill item's unit. A rate per bag
+ * or per day is a resource for a build-up, not a bill rate.
+ */
+export const unitsMatch = (billUnit: string, rateUnit: string): boolean => {
+  const normalised = rateUnit.toLowerCase().replace(/[\s.]/g, '');
+  const aliases = UNIT_ALIASES[billUnit as BillUnit];
+  return aliases ? aliases.includes(normalised) : normalised === billUnit.toLowerCase();
+};
+
+/** --- 2. APPLYING A RATE --- **/
+
+/**
+ * Prices a bill item from a price book rate and remembers which one, so the
+ * item can be flagged when that rate changes. An override is remembered as the
+ * office rate it replaces, which every team member can see. Built-up items take
+ * their rate from the build-up instead.
+ */
+export const applyLibraryRate = async (billItemId: string, rate: Rate): Promise<BillItem | null> => {
+  if (await db.rate_analyses.where('bill_item_id').equals(billItemId).count() > 0) {
+    throw new Error('This item is built up from resources; detach the build-up first');
+  }
+  return updateBillItem(billItemId, { rate: rate.rate, rate_id: officeRateId(rate), rate_code: rate.code });
+};
+
+/** --- 3. LINK REPORT --- **/
+
+export type RateLinkStatus = 'current' | 'changed' | 'missing';
+
+export interface RateLink {
+  billItemId: string;
+  rateId: string | null;
+  code: string;
+  itemRate: number;
+  libraryRate: number | null; // null when the rate is deleted or not visible here
+  status: RateLinkStatus;
+}
+
+/**
+ * Every bill item priced from the price book, checked against the rates the
+ * project is priced from: its locked snapshot, or the live book with the
+ * surveyor's own overrides in place.
+ */
+export const projectRateLinks = async (projectId: string, userId: string): Promise<Map<string, RateLink>> => {
+  const [items, rates] = await Promise.all([
+    db.bill_items.where('project_id').equals(projectId).toArray(),
+    projectRates(projectId, userId)
+  ]);
+  const ratesById = new Map(rates.map(r => [officeRateId(r), r]));
+
+  const links = new Map<string, RateLink>();
+  for (const item of items) {
+    if (!item.rate_code) continue;
+    const rate = item.rate_id ? ratesById.get(item.rate_id) : undefined;
+    links.set(item.id, {
+      billItemId: item.id,
+      rateId: item.rate_id,
+      code: item.rate_code,
+      itemRate: item.rate,
+      libraryRate: rate?.rate ?? null,
+      status: !rate ? 'missing' : rate.rate !== item.rate ? 'changed' : 'current'
+    });
+  }
+  return links;
+};
+
+/**
+ * Brings flagged items up to their price book rate. Returns how many changed.
+ */
+export const refreshLinkedRates = async (links: RateLink[]): Promise<number> => {
+  let refreshed = 0;
+  for (const link of links) {
+    if (link.status !== 'changed' || link.libraryRate === null) continue;
+    await updateBillItem(link.billItemId, { rate: link.libraryRate, rate_id: link.rateId, rate_code: link.code });
+    refreshed++;
+  }
+  return refreshed;
+};
+
+const STATUS_LABELS: Record<RateLinkStatus, string> = {
+  current: 'Current',
+  changed: 'Price book changed',
+  missing: 'Not in price book'
+};
+
+/**
+ * Downloads which bill items are priced from which price book rate, as CSV.
+ */
+export const exportRateLinks = (
+  projectName: string,
+  items: { id: string; code: string; description: string; unit: string }[],
+  links: Map<string, RateLink>
+) => {
+  const rows = [
+    ['Item', 'Description', 'Unit', 'Bill Rate', 'Rate Code', 'Price Book Rate', 'Status'],
+    ...items.flatMap(item => {
+      const link = links.get(item.id);
+      return link
+        ? [[item.code, item.description, item.unit, link.itemRate, link.code, link.libraryRate, STATUS_LABELS[link.status]]]
+        : [];
+    })
+  ];
+  const stamp = new Date().toISOString().slice(0, 10);
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `QSVault_${safeFileName(projectName)}_Rate_Links_${stamp}.csv`);
+};
@@ -0,0 +1,274 @@
+import type { Rate, RateCategory } from "../../lib/database/database";
+import { parseCsv, toCsv } from "../../lib/spreadsheet/csv";
+import { downloadBlob, safeFileName } from "../../lib/download";
+import { RATE_CATEGORY_LABELS, createRate, overrideRate, rateSource, updateRate, validateRate, type RateInput } from "./rateBook";
+
+/** --- 1. FILE READING --- **/
+
+/**
+ * Reads a price book as a grid of cells with a header row. JSON files may hold
+ * an array of rate objects or `{ rates: [...] }` as exported here; their keys
+ * become the header. Anything else is treated as CSV text.
+ */
+export const readRateFile = async (file: File): Promise<string[][]> => {
+  const text = await file.text();
+  if (!/\.json$/i.test(file.name)) return parseCsv(text);
+
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rates?: unknown })?.rates;
+  if (!Array.isArray(list)) throw new Error('The JSON file holds no list of rates');
+
+  const records = list.filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+  const header = [...new Set(records.flatMap(r => Object.keys(r)))];
+  return [header, ...records.map(r => header.map(key => r[key] === null || r[key] === undefined ? '' : String(r[key])))];
+};
+
+/** --- 2. COLUMN MAPPING --- **/
+
+export type RateImportField = 'code' | 'name' | 'category' | 'unit' | 'rate' | 'region' | 'effective_date' | 'notes';
+
+export type RateColumnMapping = Record<RateImportField, number | null>;
+
+export const RATE_IMPORT_FIELDS: { field: RateImportField; label: string; required: boolean }[] = [
+  { field: 'code', label: 'Code', required: true },
+  { field: 'name', label: 'Description', required: true },
+  { field: 'category', label: 'Category', required: true },
+  { field: 'unit', label: 'Unit', required: true },
+  { field: 'rate', label: 'Rate', required: true },
+  { field: 'region', label: 'Region', required: false },
+  { field: 'effective_date', label: 'Effective From', required: false },
+  { field: 'notes', label: 'Notes', required: false }
+];
+
+const HEADER_PATTERNS: Record<RateImportField, RegExp> = {
+  code: /^(code|ref|item|smm)/i,
+  name: /^(name|desc|resource|item name)/i,
+  category: /^(category|type|class)/i,
+  unit: /^units?$/i,
+  rate: /^(rate|price|cost|kshs|kes)/i,
+  region: /^(region|location|area|town)/i,
+  effective_date: /effective|date|from/i,
+  notes: /^(notes?|remarks?|comments?|supplier)/i
+};
+
+export const mapRateHeader = (header: string[]): RateColumnMapping => {
+  const mapping = Object.fromEntries(RATE_IMPORT_FIELDS.map(f => [f.field, null])) as RateColumnMapping;
+  for (const { field } of RATE_IMPORT_FIELDS) {
+    const index = header.findIndex((cell, i) =>
+      HEADER_PATTERNS[field].test(cell.trim()) && !Object.values(mapping).includes(i));
+    mapping[field] = index >= 0 ? index : null;
+  }
+  return mapping;
+};
+
+/** --- 3. VALIDATION --- **/
+
+const CATEGORY_ALIASES: Record<string, RateCategory> = {
+  material: 'material', materials: 'material', mat: 'material',
+  labour: 'labour', labor: 'labour', lab: 'labour', workforce: 'labour',
+  plant: 'plant', equipment: 'plant', plt: 'plant'
+};
+
+const parseRate = (raw: string): number | null => {
+  const cleaned = raw.replace(/[,\s]|kshs|kes/gi, '');
+  if (cleaned === '') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+// ISO dates pass through; day-first dates (31/01/2026) are the local habit
+const parseDate = (raw: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) return raw.slice(0, 10);
+  const dayFirst = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (!dayFirst) return null;
+  const [, day, month, year] = dayFirst;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+export interface RateImportRow {
+  line: number; // 1-based row in the source file
+  input: RateInput;
+}
+
+export interface RateImportIssue {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface RateImportReport {
+  rows: RateImportRow[];
+  issues: RateImportIssue[];
+}
+
+/**
+ * Turns the mapped grid into rates. A code met twice in one file is reported
+ * and only its first row kept. Rows with errors are left out of `rows`.
+ */
+export const validateRateImport = (grid: string[][], mapping: RateColumnMapping, today = new Date().toISOString().slice(0, 10)): RateImportReport => {
+  const report: RateImportReport = { rows: [], issues: [] };
+  const missing = RATE_IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+  if (missing.length > 0) {
+    report.issues.push({ line: 1, severity: 'error', message: `Map a column for: ${missing.map(f => f.label).join(', ')}` });
+    return report;
+  }
+
+  const cell = (row: string[], field: RateImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  const firstLine = new Map<string, number>();
+  grid.slice(1).forEach((row, offset) => {
+    const line = offset + 2;
+    if (row.every(c => !c.trim())) return;
+
+    const code = cell(row, 'code').toUpperCase();
+    const rawCategory = cell(row, 'category');
+    const category = CATEGORY_ALIASES[rawCategory.toLowerCase()];
+    const rawRate = cell(row, 'rate');
+    const rate = parseRate(rawRate);
+    const rawDate = cell(row, 'effective_date');
+    const effectiveDate = rawDate ? parseDate(rawDate) : today;
+
+    if (!category) {
+      report.issues.push({ line, severity: 'error', message: `Category "${rawCategory}" is not material, labour or plant` });
+      return;
+    }
+    if (rate === null) {
+      report.issues.push({ line, severity: 'error', message: `Rate "${rawRate}" is not a number` });
+      return;
+    }
+    if (!effectiveDate) {
+      report.issues.push({ line, severity: 'error', message: `Date "${rawDate}" is not a date (YYYY-MM-DD or DD/MM/YYYY)` });
+      return;
+    }
+
+    const input: RateInput = {
+      code,
+      name: cell(row, 'name'),
+      category,
+      unit: cell(row, 'unit'),
+      rate: Math.round(rate * 100) / 100,
+      region: cell(row, 'region') || null,
+      effective_date: effectiveDate,
+      notes: cell(row, 'notes') || null
+    };
+    const problem = validateRate(input);
+    if (problem) {
+      report.issues.push({ line, severity: 'error', message: problem });
+      return;
+    }
+
+    const earlier = firstLine.get(code);
+    if (earlier !== undefined) {
+      report.issues.push({ line, severity: 'warning', message: `Code ${code} already appears on row ${earlier}; this row is ignored` });
+      return;
+    }
+    firstLine.set(code, line);
+    if (!rawDate) {
+      report.issues.push({ line, severity: 'warning', message: 'No effective date, imported as applying from today' });
+    }
+    report.rows.push({ line, input });
+  });
+
+  return report;
+};
+
+/** --- 4. DRY RUN --- **/
+
+export type RateChangeKind = 'add' | 'override' | 'update' | 'unchanged';
+
+export interface RateChange {
+  kind: RateChangeKind;
+  row: RateImportRow;
+  existing?: Rate;
+  changed: (keyof RateInput)[];
+}
+
+const COMPARED_FIELDS: (keyof RateInput)[] = ['name', 'category', 'unit', 'rate', 'region', 'effective_date', 'notes'];
+
+const changedFields = (existing: Rate, input: RateInput) =>
+  COMPARED_FIELDS.filter(field => (existing[field] ?? null) !== (input[field] ?? null));
+
+/**
+ * What importing would do to a book, matched by code: new codes are added,
+ * known codes updated where any field differs. Importing into a surveyor's own
+ * rates, a code the office book already holds becomes an override of it
+ * rather than a second rate under the same code. Nothing is written.
+ */
+export const diffRateImport = (rows: RateImportRow[], book: Rate[], office: Rate[] = []): RateChange[] => {
+  const byCode = new Map(book.map(r => [r.code.toUpperCase(), r]));
+  const officeByCode = new Map(office.map(r => [r.code.toUpperCase(), r]));
+  return rows.map(row => {
+    const existing = byCode.get(row.input.code);
+    if (existing) {
+      const changed = changedFields(existing, row.input);
+      return { kind: changed.length > 0 ? 'update' : 'unchanged', row, existing, changed };
+    }
+    const shadowed = officeByCode.get(row.input.code);
+    if (shadowed) return { kind: 'override', row, existing: shadowed, changed: changedFields(shadowed, row.input) };
+    return { kind: 'add', row, changed: [] };
+  });
+};
+
+/**
+ * Applies a dry run to the office book (`ownerId` null) or a surveyor's own
+ * rates. Updates go through the price book, so built-up bill rates follow.
+ */
+export const applyRateImport = async (changes: RateChange[], ownerId: string | null, userId: string, updateExisting: boolean): Promise<number> => {
+  let applied = 0;
+  for (const change of changes) {
+    if (change.kind === 'add') {
+      await createRate(change.row.input, ownerId, userId);
+      applied++;
+    } else if (change.kind === 'override' && change.existing) {
+      await overrideRate(change.existing, change.row.input, userId);
+      applied++;
+    } else if (change.kind === 'update' && updateExisting && change.existing) {
+      await updateRate(change.existing.id, change.row.input);
+      applied++;
+    }
+  }
+  return applied;
+};
+
+/** --- 5. EXPORT --- **/
+
+// Live rates or a project's price book snapshot, which keeps no notes or owner
+type ExportableRate = Pick<Rate, 'code' | 'name' | 'category' | 'unit' | 'rate' | 'region' | 'effective_date'>
+  & Partial<Pick<Rate, 'notes' | 'owner_id' | 'overrides_rate_id'>>;
+
+const exportRecord = (rate: ExportableRate) => ({
+  code: rate.code,
+  name: rate.name,
+  category: rate.category,
+  unit: rate.unit,
+  rate: rate.rate,
+  region: rate.region,
+  effective_date: rate.effective_date,
+  notes: rate.notes ?? null
+});
+
+/**
+ * Downloads rates in the shape the importer reads back, as CSV or JSON.
+ */
+export const exportRates = (rates: ExportableRate[], title: string, format: 'csv' | 'json') => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const fileName = `QSVault_${safeFileName(title)}_${stamp}.${format}`;
+
+  if (format === 'json') {
+    const body = JSON.stringify({ title, exported_at: new Date().toISOString(), rates: rates.map(exportRecord) }, null, 2);
+    downloadBlob(new Blob([body], { type: 'application/json' }), fileName);
+    return;
+  }
+
+  const rows = [
+    ['Code', 'Name', 'Category', 'Unit', 'Rate', 'Region', 'Effective Date', 'Notes', 'Book'],
+    ...rates.map(r => [
+      r.code, r.name, RATE_CATEGORY_LABELS[r.category], r.unit, r.rate, r.region, r.effective_date, r.notes ?? null,
+      r.owner_id === undefined ? '' : rateSource({ owner_id: r.owner_id, overrides_rate_id: r.overrides_rate_id ?? null })
+    ])
+  ];
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+};
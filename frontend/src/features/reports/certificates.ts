@@ -0,0 +1,188 @@
+import { db, syncEngine, type Certificate } from "../../lib/database/database";
+import { VAT_RATE } from "../boq/billExport";
+
+/** --- 1. VALUATION MATHS --- **/
+
+export interface ValuationInput {
+  workExecuted: number;
+  materialsOnSite: number;
+  fluctuations: number; // To date, like the work executed
+  retentionPercent: number;
+  previousCertified: number;
+}
+
+export interface ValuationFigures {
+  grossValuation: number;
+  retentionAmount: number;
+  netValuation: number;
+  currentAmountDue: number;
+  vatAmount: number;
+  totalDue: number;
+}
+
+/**
+ * Standard interim valuation: gross less retention gives the net valuation to date;
+ * what was certified before is deducted to leave the amount due on this certificate.
+ */
+export const calculateValuation = (input: ValuationInput): ValuationFigures => {
+  const grossValuation = input.workExecuted + input.materialsOnSite + input.fluctuations;
+  const retentionAmount = grossValuation * (input.retentionPercent / 100);
+  const netValuation = grossValuation - retentionAmount;
+  const currentAmountDue = netValuation - input.previousCertified;
+  const vatAmount = currentAmountDue * VAT_RATE;
+  return {
+    grossValuation,
+    retentionAmount,
+    netValuation,
+    currentAmountDue,
+    vatAmount,
+    totalDue: currentAmountDue + vatAmount
+  };
+};
+
+// Share of the work valued at tender prices whatever the index does (fixed costs, profit)
+export const DEFAULT_NON_ADJUSTABLE_PERCENT = 10;
+
+/**
+ * Escalation on the work valued since the last certificate: its adjustable
+ * share moves with the price index between the base and valuation dates.
+ */
+export const calculateFluctuations = (periodWork: number, priceIndex: number, nonAdjustablePercent: number): number =>
+  Math.round(periodWork * (1 - nonAdjustablePercent / 100) * (priceIndex - 1) * 100) / 100;
+
+/** --- 2. CERTIFICATE HISTORY --- **/
+
+export const formatCertNumber = (sequence: number) => `IPC/${String(sequence).padStart(3, '0')}`;
+
+export const listCertificates = async (projectId: string): Promise<Certificate[]> =>
+  db.certificates.where('project_id').equals(projectId).sortBy('sequence');
+
+/**
+ * Net amount certified so far (before VAT). Each certificate's amount due is the
+ * increase over the one before, so the running sum equals the latest net valuation.
+ */
+export const cumulativeCertified = (certificates: Pick<Certificate, 'amount_due'>[]): number =>
+  certificates.reduce((acc, c) => acc + c.amount_due, 0);
+
+export interface CertificateDraft {
+  sequence: number;
+  certNumber: string;
+  previousCertified: number;
+  previousWorkExecuted: number;
+  previousFluctuations: number;
+  // Carried from the last certificate, or the project's start for the first
+  baseDate: string;
+  nonAdjustablePercent: number;
+  workExecuted: number;
+  contractSum: number;
+  employer: string | null;
+}
+
+/**
+ * Figures for the next certificate: numbered after the last one issued, with
+ * previous certificates taken from the project's history and work executed
+ * valued from the current bill.
+ */
+export const loadCertificateDraft = async (projectId: string): Promise<CertificateDraft> => {
+  const [project, billItems, history] = await Promise.all([
+    db.projects.get(projectId),
+    db.bill_items.where('project_id').equals(projectId).toArray(),
+    listCertificates(projectId)
+  ]);
+
+  const last = history[history.length - 1];
+  const sequence = (last?.sequence ?? 0) + 1;
+  return {
+    sequence,
+    certNumber: formatCertNumber(sequence),
+    previousCertified: cumulativeCertified(history),
+    previousWorkExecuted: last?.work_executed ?? 0,
+    previousFluctuations: last?.fluctuations ?? 0,
+    baseDate: last?.fluctuation_base_date ?? (project?.created_at ?? new Date().toISOString()).slice(0, 10),
+    nonAdjustablePercent: last?.non_adjustable_percent ?? DEFAULT_NON_ADJUSTABLE_PERCENT,
+    workExecuted: billItems.reduce((acc, item) => acc + item.quantity * item.rate, 0),
+    contractSum: project?.contract_sum ?? 0,
+    employer: project?.client_name ?? null
+  };
+};
+
+export interface IssueCertificateInput {
+  valuationDate: string;
+  contractor: string;
+  workExecuted: number;
+  materialsOnSite: number;
+  retentionPercent: number;
+  // Fluctuations on this certificate's work; added to those certified before
+  escalation: number;
+  fluctuationBaseDate: string | null;
+  priceIndex: number | null;
+  nonAdjustablePercent: number | null;
+}
+
+/**
+ * Records a certificate against the project. Numbering and the previous-certified
+ * deduction are re-read from the history at the moment of issue, so a stale draft
+ * can never produce a duplicate number. A teammate issuing offline at the same
+ * time still can: the cloud then renumbers whichever arrives second, recomputes
+ * its amount due against the certificates now before it and sets
+ * `renumbered_from`, which the ledger flags.
+ */
+export const issueCertificate = async (projectId: string, input: IssueCertificateInput): Promise<Certificate> => {
+  const certificate = await db.transaction('rw', db.certificates, async () => {
+    const history = await listCertificates(projectId);
+    const last = history[history.length - 1];
+    const sequence = (last?.sequence ?? 0) + 1;
+    const previousCertified = cumulativeCertified(history);
+    const fluctuations = (last?.fluctuations ?? 0) + input.escalation;
+    const figures = calculateValuation({ ...input, fluctuations, previousCertified });
+    const timestamp = new Date().toISOString();
+
+    const record: Certificate = {
+      id: crypto.randomUUID(),
+      project_id: projectId,
+      sequence,
+      cert_number: formatCertNumber(sequence),
+      valuation_date: input.valuationDate,
+      contractor: input.contractor,
+      work_executed: input.workExecuted,
+      materials_on_site: input.materialsOnSite,
+      gross_valuation: figures.grossValuation,
+      retention_percent: input.retentionPercent,
+      retention_amount: figures.retentionAmount,
+      previous_certified: previousCertified,
+      amount_due: figures.currentAmountDue,
+      vat_amount: figures.vatAmount,
+      total_due: figures.totalDue,
+      fluctuations,
+      fluctuation_base_date: input.fluctuationBaseDate,
+      price_index: input.priceIndex,
+      non_adjustable_percent: input.nonAdjustablePercent,
+      renumbered_from: null,
+      is_paid: false,
+      paid_at: null,
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    await db.certificates.add(record);
+    return record;
+  });
+
+  await syncEngine.queueChange('certificates', certificate.id, 'INSERT', { ...certificate });
+  return certificate;
+};
+
+export const setCertificatePaid = async (id: string, paid: boolean): Promise<Certificate | null> => {
+  const certificate = await db.certificates.get(id);
+  if (!certificate) return null;
+
+  const timestamp = new Date().toISOString();
+  const updated: Certificate = {
+    ...certificate,
+    is_paid: paid,
+    paid_at: paid ? timestamp : null,
+    updated_at: timestamp
+  };
+  await db.certificates.put(updated);
+  await syncEngine.queueChange('certificates', id, 'UPDATE', { ...updated });
+  return updated;
+};
@@ -12,8 +12,22 @@ import {
   FileText,
   AlertCircle,
   Signature,
-  Loader2
+  Loader2,
+  Stamp,
+  Lock
 } from 'lucide-react';
+import { downloadIpcPdf, printIpcPdf, type IpcDocumentData } from '../ipcDocument';
+import {
+  DEFAULT_NON_ADJUSTABLE_PERCENT,
+  calculateFluctuations,
+  calculateValuation,
+  issueCertificate,
+  loadCertificateDraft
+} from '../certificates';
+import { buildPriceIndex, type PriceIndex } from '../../rates/priceIndex';
+import FluctuationsPanel from './FluctuationsPanel';
+import PermissionGuard from '../../auth/components/PermissionGuard';
+import { usePermissions } from '../../../hooks/usePermissions';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
@@ -41,6 +55,7 @@ resolveModules();
 interface IPCData {
   certNumber: string;
   valuationDate: string;
+  employer: string;
   contractor: string;
   contractSum: number;
   workExecuted: number;
@@ -49,19 +64,33 @@ interface IPCData {
   retentionPercent: number;
 }
 
+// Fluctuation particulars, carried forward from the last certificate
+interface FluctuationData {
+  baseDate: string;
+  nonAdjustablePercent: number;
+  previousWorkExecuted: number;
+  previousFluctuations: number;
+}
+
 interface CertificateGeneratorProps {
   projectId: string;
   projectName: string;
+  // Called after a certificate is recorded so history views can refresh
+  onIssued?: () => void;
 }
 
 /** --- MAIN COMPONENT: PAYMENT CERTIFICATE ENGINE --- **/
 
-const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId, projectName }) => {
+const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId, projectName, onIssued }) => {
   const { theme } = useAuth();
+  const { can } = usePermissions(projectId);
   const [loading, setLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [draftVersion, setDraftVersion] = useState(0);
   const [data, setData] = useState<IPCData>({
     certNumber: "IPC/001",
     valuationDate: new Date().toLocaleDateString(),
+    employer: "Employer",
     contractor: "Main Contractor Ltd",
     contractSum: 0,
     workExecuted: 0,
@@ -69,6 +98,14 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
     previousCertified: 0,
     retentionPercent: 10
   });
+  const [fluctuation, setFluctuation] = useState<FluctuationData>({
+    baseDate: new Date().toISOString().slice(0, 10),
+    nonAdjustablePercent: DEFAULT_NON_ADJUSTABLE_PERCENT,
+    previousWorkExecuted: 0,
+    previousFluctuations: 0
+  });
+  const [priceIndex, setPriceIndex] = useState<PriceIndex | null>(null);
+  const valuationISO = new Date().toISOString().slice(0, 10);
 
   /** * LIVE DATA HARVESTING
    * Pulls actual financial figures from the local office database
@@ -82,20 +119,23 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
 
       try {
         setLoading(true);
-        // 1. Fetch Project Details (Contract Sum)
-        const project = await db.projects.get(projectId);
-        
-        // 2. Fetch Total Work Executed (Sum of Bill Items)
-        const billItems = await db.bill_items.where('project_id').equals(projectId).toArray();
-        const totalExecuted = billItems.reduce((acc: number, item: any) => acc + (item.quantity * item.rate), 0);
+        // Next number, previous certificates and work executed come from the project history
+        const draft = await loadCertificateDraft(projectId);
 
         setData(prev => ({
           ...prev,
-          projectName: project?.name || projectName,
-          contractSum: project?.contract_sum || 0,
-          workExecuted: totalExecuted,
-          contractor: project?.client_name || "Assigned Contractor"
+          certNumber: draft.certNumber,
+          contractSum: draft.contractSum,
+          workExecuted: draft.workExecuted,
+          previousCertified: draft.previousCertified,
+          employer: draft.employer || prev.employer
         }));
+        setFluctuation({
+          baseDate: draft.baseDate,
+          nonAdjustablePercent: draft.nonAdjustablePercent,
+          previousWorkExecuted: draft.previousWorkExecuted,
+          previousFluctuations: draft.previousFluctuations
+        });
       } catch (err) {
         console.error("Certification Error: Database link broken.", err);
       } finally {
@@ -104,25 +144,77 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
     };
 
     fetchFinancialData();
-  }, [projectId, projectName]);
+  }, [projectId, projectName, draftVersion]);
+
+  /** * PRICE INDEX
+   * Re-indexes the bill's price book resources whenever the base date moves.
+   */
+  useEffect(() => {
+    if (!db || !projectId) return;
+    let active = true;
+    buildPriceIndex(projectId, fluctuation.baseDate, valuationISO)
+      .then(found => { if (active) setPriceIndex(found); })
+      .catch(err => console.error("Certification Error: Price index unavailable.", err));
+    return () => { active = false; };
+  }, [projectId, fluctuation.baseDate, valuationISO, draftVersion]);
+
+  const periodWork = data.workExecuted - fluctuation.previousWorkExecuted;
+  const escalation = priceIndex ? calculateFluctuations(periodWork, priceIndex.index, fluctuation.nonAdjustablePercent) : 0;
+  const fluctuations = fluctuation.previousFluctuations + escalation;
 
   // Standard QS Certification Math (SMM-KE Compliant)
-  const financials = useMemo(() => {
-    const grossValuation = data.workExecuted + data.materialsOnSite;
-    const retentionAmount = grossValuation * (data.retentionPercent / 100);
-    const netValuation = grossValuation - retentionAmount;
-    const currentAmountDue = netValuation - data.previousCertified;
-    const vatAmount = currentAmountDue * 0.16;
-    
-    return {
-      grossValuation,
-      retentionAmount,
-      netValuation,
-      currentAmountDue,
-      vatAmount,
-      totalDue: currentAmountDue + vatAmount
-    };
-  }, [data]);
+  const financials = useMemo(() => calculateValuation({ ...data, fluctuations }), [data, fluctuations]);
+
+  /** * CERTIFICATE ISSUE
+   * Records this valuation in the project history; the next draft picks up from it.
+   */
+  const handleIssue = async () => {
+    if (!db || !projectId || !can('certify', 'certificate')) return;
+    setIsIssuing(true);
+    try {
+      const issued = await issueCertificate(projectId, {
+        valuationDate: new Date().toISOString().slice(0, 10),
+        contractor: data.contractor,
+        workExecuted: data.workExecuted,
+        materialsOnSite: data.materialsOnSite,
+        retentionPercent: data.retentionPercent,
+        escalation,
+        fluctuationBaseDate: priceIndex ? fluctuation.baseDate : null,
+        priceIndex: priceIndex?.index ?? null,
+        nonAdjustablePercent: priceIndex ? fluctuation.nonAdjustablePercent : null
+      });
+      downloadIpcPdf({
+        ...documentData,
+        certNumber: issued.cert_number,
+        previousCertified: issued.previous_certified,
+        fluctuations: issued.fluctuations,
+        ...calculateValuation({ ...data, fluctuations: issued.fluctuations, previousCertified: issued.previous_certified })
+      });
+      setDraftVersion(v => v + 1);
+      onIssued?.();
+    } catch (err) {
+      console.error("Certification Error: Certificate was not recorded.", err);
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  // Everything the printed certificate needs; generated on the device so it works offline
+  const documentData: IpcDocumentData = {
+    projectName,
+    employer: data.employer,
+    contractor: data.contractor,
+    certNumber: data.certNumber,
+    valuationDate: data.valuationDate,
+    contractSum: data.contractSum,
+    workExecuted: data.workExecuted,
+    materialsOnSite: data.materialsOnSite,
+    fluctuations,
+    priceIndex: priceIndex?.index ?? null,
+    retentionPercent: data.retentionPercent,
+    previousCertified: data.previousCertified,
+    ...financials
+  };
 
   if (loading) {
     return (
@@ -152,20 +244,44 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
         </div>
 
         <div className="flex gap-4">
-          <button className={`flex items-center gap-3 px-8 py-5 rounded-3xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95
+          <button 
+            onClick={() => printIpcPdf(documentData)}
+            className={`flex items-center gap-3 px-8 py-5 rounded-3xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95
             ${theme === 'dark' ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'}`}>
             <Printer size={16} /> Print Report
           </button>
-          <button className="flex items-center gap-3 px-10 py-5 bg-amber-500 text-black rounded-3xl font-black uppercase text-[10px] tracking-widest shadow-2xl shadow-amber-500/20 hover:bg-amber-400 active:scale-95 transition-all">
+          <button 
+            onClick={() => downloadIpcPdf(documentData)}
+            className="flex items-center gap-3 px-10 py-5 bg-amber-500 text-black rounded-3xl font-black uppercase text-[10px] tracking-widest shadow-2xl shadow-amber-500/20 hover:bg-amber-400 active:scale-95 transition-all">
             <Download size={16} /> Export PDF
           </button>
+          <PermissionGuard
+            action="certify"
+            resource="certificate"
+            projectId={projectId}
+            fallback={
+              <div
+                title="Issuing a certificate needs an editor or above"
+                className={`flex items-center gap-3 px-10 py-5 rounded-3xl border text-[10px] font-black uppercase tracking-widest
+                ${theme === 'dark' ? 'border-zinc-800 text-zinc-600' : 'border-zinc-200 text-zinc-400'}`}>
+                <Lock size={16} /> Sign-off Restricted
+              </div>
+            }>
+            <button 
+              onClick={handleIssue}
+              disabled={isIssuing || !projectId}
+              className="flex items-center gap-3 px-10 py-5 bg-emerald-500 text-black rounded-3xl font-black uppercase text-[10px] tracking-widest shadow-2xl shadow-emerald-500/20 hover:bg-emerald-400 active:scale-95 disabled:opacity-30 transition-all">
+              {isIssuing ? <Loader2 size={16} className="animate-spin" /> : <Stamp size={16} />} Issue {data.certNumber}
+            </button>
+          </PermissionGuard>
         </div>
       </header>
 
       {/* 2. Project & Contractor Details */}
-      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-6">
         {[
           { label: 'Project Name', value: projectName, icon: Building2 },
+          { label: 'Employer', value: data.employer, icon: Building2 },
           { label: 'Contractor', value: data.contractor, icon: UserCheck },
           { label: 'Valuation Date', value: data.valuationDate, icon: Clock },
           { label: 'Contract Sum', value: `KES ${data.contractSum.toLocaleString()}`, icon: FileText },
@@ -206,6 +322,14 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
                   KES {data.materialsOnSite.toLocaleString()}
                 </span>
               </div>
+              <div className="flex justify-between items-center text-left">
+                <span className="text-xs font-bold uppercase text-zinc-400">
+                  Price Fluctuations to Date{priceIndex ? ` (Index ${priceIndex.index.toFixed(4)})` : ''}
+                </span>
+                <span className={`text-lg font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+                  KES {fluctuations.toLocaleString()}
+                </span>
+              </div>
               <div className="flex justify-between items-center pt-4 border-t border-zinc-800/20 text-left">
                 <span className="text-xs font-black uppercase text-amber-500 italic">Sub-Total Gross Value</span>
                 <span className="text-2xl font-black tracking-tighter text-amber-500 italic">
@@ -215,10 +339,25 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
             </div>
           </div>
 
+          {/* Section: Price Fluctuations */}
+          <FluctuationsPanel
+            theme={theme}
+            baseDate={fluctuation.baseDate}
+            valuationDate={valuationISO}
+            nonAdjustablePercent={fluctuation.nonAdjustablePercent}
+            periodWork={periodWork}
+            previousFluctuations={fluctuation.previousFluctuations}
+            escalation={escalation}
+            priceIndex={priceIndex}
+            readOnly={!can('certify', 'certificate')}
+            onBaseDateChange={(baseDate) => setFluctuation(prev => ({ ...prev, baseDate }))}
+            onNonAdjustableChange={(nonAdjustablePercent) => setFluctuation(prev => ({ ...prev, nonAdjustablePercent }))}
+          />
+
           {/* Section: Deductions */}
           <div className="space-y-6">
             <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-zinc-600 italic text-left border-b border-zinc-800/40 pb-4">
-              02. Contractual Deductions
+              03. Contractual Deductions
             </h3>
             <div className="space-y-4">
               <div className="flex justify-between items-center text-left">
@@ -277,7 +416,7 @@ const CertificateGenerator: React.FC<CertificateGeneratorProps> = ({ projectId,
           <div className="flex-1 space-y-6">
             <div className="flex items-center gap-3 opacity-40">
               <UserCheck size={14} className="text-zinc-500" />
-              <p className="text-[9px] font-black uppercase tracking-widest leading-none">Authorized Client Representative</p>
+              <p className="text-[9px] font-black uppercase tracking-widest leading-none">Project Architect</p>
             </div>
             <div className="h-20 border-b border-dashed border-zinc-700 flex items-end pb-2">
               <p className="text-[10px] font-mono text-zinc-600 uppercase tracking-widest italic leading-none">AWAITING CLIENT REVIEW...</p>
@@ -0,0 +1,223 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BookOpenCheck,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  FileX,
+  AlertTriangle
+} from 'lucide-react';
+import { cumulativeCertified, formatCertNumber, listCertificates, setCertificatePaid } from '../certificates';
+import type { Certificate } from '../../../lib/database/database';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { VAULT_PULLED_EVENT } from '../../../lib/database/pullSync';
+
+/* ======================================================
+    OFFICE DATABASE INTEGRATION
+   ====================================================== */
+
+let useAuth: any = () => ({ theme: 'dark' });
+let db: any = null;
+
+const resolveModules = async () => {
+  try {
+    const authMod = await import("../../../features/auth/AuthContext");
+    if (authMod.useAuth) useAuth = authMod.useAuth;
+
+    const dbMod = await import("../../../lib/database/database");
+    if (dbMod.db) db = dbMod.db;
+  } catch (e) {
+    // Sandbox fallback active
+  }
+};
+
+resolveModules();
+
+const fetchCertificates = async (projectId: string): Promise<Certificate[]> => {
+  if (!db || !projectId) return [];
+  return listCertificates(projectId);
+};
+
+const kes = (value: number) =>
+  value.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** --- TYPES --- **/
+
+interface CertificateLedgerProps {
+  projectId: string;
+  contractSum: number;
+}
+
+/** --- MAIN COMPONENT: VALUATION LEDGER --- **/
+
+const CertificateLedger: React.FC<CertificateLedgerProps> = ({ projectId, contractSum }) => {
+  const { theme } = useAuth();
+  const { can } = usePermissions(projectId);
+  const canRecordPayment = can('edit', 'certificate');
+  const [certificates, setCertificates] = useState<Certificate[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCertificates(projectId)
+      .then(found => { if (!cancelled) setCertificates(found); })
+      .catch(err => {
+        console.error("Ledger Error: Certificate history unreachable.", err);
+        if (!cancelled) setCertificates([]);
+      });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  // A certificate the cloud renumbered comes back down with its new number
+  useEffect(() => {
+    const onCloudChange = (event: Event) => {
+      if (!((event as CustomEvent<string[]>).detail || []).includes('certificates')) return;
+      fetchCertificates(projectId)
+        .then(setCertificates)
+        .catch(err => console.error("Ledger Error: Certificate history unreachable.", err));
+    };
+    window.addEventListener(VAULT_PULLED_EVENT, onCloudChange);
+    return () => window.removeEventListener(VAULT_PULLED_EVENT, onCloudChange);
+  }, [projectId]);
+
+  const renumbered = useMemo(
+    () => (certificates || []).flatMap(c => c.renumbered_from != null ? [{ id: c.id, number: c.cert_number, issuedAs: c.renumbered_from }] : []),
+    [certificates]
+  );
+
+  const totals = useMemo(() => {
+    const issued = certificates || [];
+    const certified = cumulativeCertified(issued);
+    const paid = issued.filter(c => c.is_paid).reduce((acc, c) => acc + c.total_due, 0);
+    const invoiced = issued.reduce((acc, c) => acc + c.total_due, 0);
+    const latest = issued[issued.length - 1];
+    return {
+      certified,
+      paid,
+      outstanding: invoiced - paid,
+      retentionHeld: latest?.retention_amount ?? 0,
+      percentComplete: contractSum > 0 && latest ? (latest.gross_valuation / contractSum) * 100 : 0
+    };
+  }, [certificates, contractSum]);
+
+  /** * PAYMENT STATUS
+   * Marks a certificate as honoured by the Employer (or reverses it).
+   */
+  const togglePaid = async (certificate: Certificate) => {
+    try {
+      const updated = await setCertificatePaid(certificate.id, !certificate.is_paid);
+      if (updated) {
+        setCertificates(prev => (prev || []).map(c => c.id === updated.id ? updated : c));
+      }
+    } catch (err) {
+      console.error("Ledger Error: Payment status not saved.", err);
+    }
+  };
+
+  if (!certificates) {
+    return (
+      <div className="flex items-center justify-center p-20 opacity-20">
+        <Loader2 className="w-10 h-10 animate-spin" />
+      </div>
+    );
+  }
+
+  const summary = [
+    { label: 'Net Certified', value: `KES ${kes(totals.certified)}`, tone: 'text-white' },
+    { label: 'Paid (Inc. VAT)', value: `KES ${kes(totals.paid)}`, tone: 'text-emerald-500' },
+    { label: 'Outstanding', value: `KES ${kes(totals.outstanding)}`, tone: totals.outstanding > 0 ? 'text-amber-500' : 'text-zinc-500' },
+    { label: 'Retention Held', value: `KES ${kes(totals.retentionHeld)}`, tone: 'text-zinc-300' },
+    { label: 'Of Contract Sum', value: `${totals.percentComplete.toFixed(1)}%`, tone: 'text-zinc-300' }
+  ];
+
+  return (
+    <section className={`rounded-[3rem] border overflow-hidden text-left ${theme === 'dark' ? 'bg-zinc-900/40 border-zinc-800' : 'bg-white border-zinc-200 shadow-xl'}`}>
+      <header className="p-8 sm:p-10 border-b border-zinc-800/40 flex items-center gap-4">
+        <div className="p-3 rounded-2xl bg-emerald-500/10 text-emerald-500"><BookOpenCheck size={22} /></div>
+        <div>
+          <h3 className="text-xl font-black uppercase tracking-tighter">Valuation Ledger</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">{certificates.length} certificate(s) issued</p>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-px bg-zinc-800/40">
+        {summary.map(item => (
+          <div key={item.label} className={`p-6 ${theme === 'dark' ? 'bg-zinc-950' : 'bg-white'}`}>
+            <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500">{item.label}</p>
+            <p className={`text-sm font-black font-mono mt-2 ${item.tone}`}>{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {renumbered.length > 0 && (
+        <div className="px-8 sm:px-10 py-5 border-b border-zinc-800/40 bg-amber-500/5 flex items-start gap-3 text-amber-500">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <div className="space-y-1">
+            {renumbered.map(c => (
+              <p key={c.id} className="text-[10px] font-black uppercase tracking-widest">
+                {c.number} was issued offline as {formatCertNumber(c.issuedAs)}, a number already taken, and has been renumbered.
+                Its amount due has been recomputed against the certificates before it.
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {certificates.length === 0 ? (
+        <div className="p-16 flex flex-col items-center gap-3 opacity-30">
+          <FileX size={32} />
+          <p className="text-[10px] font-black uppercase tracking-widest">No certificates issued yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-zinc-500 border-b border-zinc-800/40">
+                <th className="p-4 text-left">Cert No.</th>
+                <th className="p-4 text-left">Date</th>
+                <th className="p-4 text-right">Work Executed</th>
+                <th className="p-4 text-right">Gross</th>
+                <th className="p-4 text-right">Retention</th>
+                <th className="p-4 text-right">Previous</th>
+                <th className="p-4 text-right">Amount Due</th>
+                <th className="p-4 text-right">VAT</th>
+                <th className="p-4 text-right">Total</th>
+                <th className="p-4 text-center">Paid</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {certificates.map(c => (
+                <tr key={c.id} className="border-b border-zinc-800/20 hover:bg-zinc-800/10">
+                  <td className="p-4 font-black text-amber-500">
+                    {c.cert_number}
+                    {c.renumbered_from != null && <AlertTriangle size={10} className="inline ml-1" aria-label="Renumbered" />}
+                  </td>
+                  <td className="p-4 text-zinc-400">{c.valuation_date}</td>
+                  <td className="p-4 text-right">{kes(c.work_executed)}</td>
+                  <td className="p-4 text-right">{kes(c.gross_valuation)}</td>
+                  <td className="p-4 text-right text-red-400">({kes(c.retention_amount)})</td>
+                  <td className="p-4 text-right text-zinc-500">({kes(c.previous_certified)})</td>
+                  <td className="p-4 text-right font-black">{kes(c.amount_due)}</td>
+                  <td className="p-4 text-right">{kes(c.vat_amount)}</td>
+                  <td className="p-4 text-right font-black">{kes(c.total_due)}</td>
+                  <td className="p-4 text-center">
+                    <button
+                      onClick={() => togglePaid(c)}
+                      disabled={!canRecordPayment}
+                      title={c.is_paid && c.paid_at ? `Paid ${new Date(c.paid_at).toLocaleDateString()}` : canRecordPayment ? 'Mark as paid' : 'Unpaid'}
+                      className={`inline-flex transition-colors disabled:cursor-default ${c.is_paid ? 'text-emerald-500' : 'text-zinc-600 enabled:hover:text-zinc-300'}`}>
+                      {c.is_paid ? <CheckCircle2 size={18} /> : <Circle size={18} />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CertificateLedger;
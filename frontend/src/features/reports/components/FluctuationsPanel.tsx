@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { TrendingUp, ChevronDown, ChevronRight } from 'lucide-react';
+import type { PriceIndex } from '../../rates/priceIndex';
+
+/** --- TYPES --- **/
+
+interface FluctuationsPanelProps {
+  theme: string;
+  baseDate: string;
+  valuationDate: string;
+  nonAdjustablePercent: number;
+  periodWork: number;
+  previousFluctuations: number;
+  escalation: number;
+  priceIndex: PriceIndex | null;
+  readOnly: boolean;
+  onBaseDateChange: (date: string) => void;
+  onNonAdjustableChange: (percent: number) => void;
+}
+
+const kes = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const change = (from: number, to: number) => from > 0 ? `${((to / from - 1) * 100).toFixed(1)}%` : '—';
+
+/** --- MAIN COMPONENT: PRICE FLUCTUATIONS --- **/
+
+/**
+ * The price-index calculator behind the certificate's fluctuations line: the
+ * bill's price book resources indexed from the contract base date to the
+ * valuation date, applied to the work valued since the last certificate.
+ */
+const FluctuationsPanel: React.FC<FluctuationsPanelProps> = ({
+  theme, baseDate, valuationDate, nonAdjustablePercent, periodWork, previousFluctuations,
+  escalation, priceIndex, readOnly, onBaseDateChange, onNonAdjustableChange
+}) => {
+  const [showBasket, setShowBasket] = useState(false);
+
+  const fieldClass = `px-4 py-3 rounded-xl border outline-none text-xs font-black transition-all focus:border-amber-500 disabled:opacity-60
+    ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-200' : 'bg-zinc-50 border-zinc-200 text-zinc-800'}`;
+  const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+
+  return (
+    <div className="space-y-6">
+      <h3 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.4em] text-zinc-600 italic text-left border-b border-zinc-800/40 pb-4">
+        <TrendingUp size={12} /> 02. Price Fluctuations
+      </h3>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 text-left">
+        <label className="space-y-2">
+          <span className={labelClass}>Base Date</span>
+          <input
+            type="date" value={baseDate} max={valuationDate} disabled={readOnly}
+            onChange={(e) => e.target.value && onBaseDateChange(e.target.value)}
+            className={`${fieldClass} w-full`}
+          />
+        </label>
+        <label className="space-y-2">
+          <span className={labelClass}>Non-adjustable %</span>
+          <input
+            type="number" min={0} max={100} step="any" value={nonAdjustablePercent} disabled={readOnly}
+            onChange={(e) => onNonAdjustableChange(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+            className={`${fieldClass} w-full`}
+          />
+        </label>
+        <div className="space-y-2">
+          <p className={labelClass}>Price Index</p>
+          <p className={`text-lg font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+            {priceIndex ? priceIndex.index.toFixed(4) : '…'}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <p className={labelClass}>Work This Period</p>
+          <p className={`text-lg font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+            KES {kes(periodWork)}
+          </p>
+        </div>
+      </div>
+
+      {priceIndex && priceIndex.resources.length > 0 ? (
+        <div className="text-left">
+          <button
+            onClick={() => setShowBasket(!showBasket)}
+            className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-amber-500 transition-colors"
+          >
+            {showBasket ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            Indexed resources ({priceIndex.resources.length})
+          </button>
+          {showBasket && (
+            <table className="w-full mt-4 text-left border-collapse">
+              <thead>
+                <tr className="text-[9px] font-black uppercase tracking-widest text-zinc-500 border-b border-zinc-800/40">
+                  <th className="py-2">Resource</th>
+                  <th className="py-2 text-right">Quantity</th>
+                  <th className="py-2 text-right">Base Price</th>
+                  <th className="py-2 text-right">Current Price</th>
+                  <th className="py-2 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800/40">
+                {priceIndex.resources.map(r => (
+                  <tr key={r.rateId} className="text-xs font-bold">
+                    <td className="py-2">{r.code} • {r.name}</td>
+                    <td className="py-2 text-right text-zinc-500">{r.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })} {r.unit}</td>
+                    <td className="py-2 text-right">{kes(r.basePrice)}</td>
+                    <td className="py-2 text-right">{kes(r.currentPrice)}</td>
+                    <td className={`py-2 text-right ${r.currentPrice > r.basePrice ? 'text-rose-500' : r.currentPrice < r.basePrice ? 'text-emerald-500' : 'text-zinc-500'}`}>
+                      {change(r.basePrice, r.currentPrice)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : priceIndex && (
+        <p className="text-[9px] font-black uppercase tracking-widest text-zinc-600 text-left">
+          No bill rates are built up from the price book • Fluctuations cannot be indexed
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center text-left">
+          <span className="text-xs font-bold uppercase text-zinc-400">Fluctuations on This Period's Work</span>
+          <span className={`text-lg font-black tracking-tighter ${escalation < 0 ? 'text-emerald-500' : theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+            KES {kes(escalation)}
+          </span>
+        </div>
+        <div className="flex justify-between items-center text-left">
+          <span className="text-xs font-bold uppercase text-zinc-400">Fluctuations Previously Certified</span>
+          <span className={`text-lg font-black tracking-tighter ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+            KES {kes(previousFluctuations)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FluctuationsPanel;
@@ -0,0 +1,146 @@
+import { createPdf, wrapText } from "../../lib/pdf/pdfDocument";
+import { downloadBlob, printBlob, safeFileName } from "../../lib/download";
+import { VAT_RATE } from "../boq/billExport";
+
+/** --- TYPES --- **/
+
+export interface IpcDocumentData {
+  projectName: string;
+  employer: string;
+  contractor: string;
+  certNumber: string;
+  valuationDate: string;
+  contractSum: number;
+  workExecuted: number;
+  materialsOnSite: number;
+  fluctuations: number;
+  priceIndex: number | null;
+  grossValuation: number;
+  retentionPercent: number;
+  retentionAmount: number;
+  netValuation: number;
+  previousCertified: number;
+  currentAmountDue: number;
+  vatAmount: number;
+  totalDue: number;
+}
+
+const kes = (value: number) =>
+  value.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** --- DOCUMENT LAYOUT --- **/
+
+/**
+ * Lays out an A4 Interim Payment Certificate: particulars, the valuation
+ * build-up down to the amount due, the certifying statement and signature
+ * blocks for the Quantity Surveyor and the Architect.
+ */
+export const buildIpcPdf = (ipc: IpcDocumentData): Blob => {
+  const pdf = createPdf().addPage();
+  const left = 56;
+  const right = pdf.size.width - 56;
+  const amountX = right - 8;
+  let top = 64;
+
+  // 1. Title block
+  pdf.text(pdf.size.width / 2, top, 'INTERIM PAYMENT CERTIFICATE', { size: 16, font: 'bold', align: 'center' });
+  top += 18;
+  pdf.text(pdf.size.width / 2, top, `Certificate No. ${ipc.certNumber}`, { size: 10, align: 'center', gray: 0.3 });
+  top += 20;
+  pdf.line(left, top, right, top, { width: 1.5 });
+  top += 24;
+
+  // 2. Particulars
+  const particulars: [string, string][] = [
+    ['Project', ipc.projectName],
+    ['Employer', ipc.employer],
+    ['Contractor', ipc.contractor],
+    ['Contract Sum', `KES ${kes(ipc.contractSum)}`],
+    ['Certificate No.', ipc.certNumber],
+    ['Valuation Date', ipc.valuationDate]
+  ];
+  for (const [label, value] of particulars) {
+    pdf.text(left, top, label.toUpperCase(), { size: 8, font: 'bold', gray: 0.4 });
+    const lines = wrapText(value || '-', right - left - 120, 10);
+    lines.forEach((line, i) => pdf.text(left + 120, top + i * 13, line, { size: 10 }));
+    top += Math.max(1, lines.length) * 13 + 6;
+  }
+  top += 12;
+
+  // 3. Valuation build-up
+  pdf.rect(left, top - 12, right - left, 20, { fill: 0.92 });
+  pdf.text(left + 8, top + 2, 'VALUATION', { size: 9, font: 'bold' });
+  pdf.text(amountX, top + 2, 'AMOUNT (KES)', { size: 9, font: 'bold', align: 'right' });
+  top += 30;
+
+  const row = (label: string, amount: string, options: { bold?: boolean; ruleAbove?: boolean } = {}) => {
+    if (options.ruleAbove) {
+      pdf.line(amountX - 130, top - 13, amountX, top - 13, { width: 0.5 });
+    }
+    const font = options.bold ? 'bold' : 'regular';
+    pdf.text(left + 8, top, label, { size: 10, font });
+    pdf.text(amountX, top, amount, { size: 10, font, align: 'right' });
+    top += 22;
+  };
+
+  row('Gross value of work executed', kes(ipc.workExecuted));
+  row('Add: Materials on site', kes(ipc.materialsOnSite));
+  if (ipc.fluctuations !== 0) {
+    const index = ipc.priceIndex !== null ? ` (price index ${ipc.priceIndex.toFixed(4)})` : '';
+    row(`Add: Price fluctuations to date${index}`, kes(ipc.fluctuations));
+  }
+  row('Gross Valuation', kes(ipc.grossValuation), { bold: true, ruleAbove: true });
+  row(`Less: Retention @ ${ipc.retentionPercent}%`, `(${kes(ipc.retentionAmount)})`);
+  row('Net Valuation', kes(ipc.netValuation), { bold: true, ruleAbove: true });
+  row('Less: Total of previous certificates', `(${kes(ipc.previousCertified)})`);
+  row('Amount due this certificate', kes(ipc.currentAmountDue), { bold: true, ruleAbove: true });
+  row(`Add: VAT @ ${VAT_RATE * 100}%`, kes(ipc.vatAmount));
+
+  top += 4;
+  pdf.rect(left, top - 16, right - left, 28, { stroke: 0, width: 1.5 });
+  pdf.text(left + 8, top + 2, 'TOTAL AMOUNT DUE (INCLUSIVE OF VAT)', { size: 11, font: 'bold' });
+  pdf.text(amountX, top + 2, `KES ${kes(ipc.totalDue)}`, { size: 11, font: 'bold', align: 'right' });
+  top += 44;
+
+  // 4. Certifying statement
+  const statement = `We hereby certify that, under the terms of the contract, the sum of KES ${kes(ipc.totalDue)} ` +
+    `(inclusive of VAT) is due from the Employer, ${ipc.employer || 'the Employer'}, to the Contractor, ` +
+    `${ipc.contractor || 'the Contractor'}, in respect of ${ipc.projectName}.`;
+  for (const line of wrapText(statement, right - left, 10)) {
+    pdf.text(left, top, line, { size: 10 });
+    top += 14;
+  }
+  top += 36;
+
+  // 5. Signature blocks
+  const blockWidth = (right - left - 40) / 2;
+  const signatories = ['QUANTITY SURVEYOR', 'ARCHITECT'];
+  signatories.forEach((title, i) => {
+    const x = left + i * (blockWidth + 40);
+    let blockTop = top;
+    pdf.text(x, blockTop, title, { size: 9, font: 'bold' });
+    blockTop += 40;
+    for (const field of ['Signature', 'Name', 'Date']) {
+      pdf.line(x, blockTop, x + blockWidth, blockTop, { width: 0.5, dash: 2 });
+      pdf.text(x, blockTop + 11, field, { size: 8, gray: 0.4 });
+      blockTop += 38;
+    }
+    pdf.rect(x, blockTop - 8, blockWidth, 56, { stroke: 0.6, width: 0.5 });
+    pdf.text(x + blockWidth / 2, blockTop + 24, 'Official Stamp', { size: 8, gray: 0.6, align: 'center' });
+  });
+
+  // 6. Footer
+  const footerTop = pdf.size.height - 36;
+  pdf.line(left, footerTop - 12, right, footerTop - 12, { width: 0.5, gray: 0.6 });
+  pdf.text(left, footerTop, `${ipc.projectName} • ${ipc.certNumber}`, { size: 7, gray: 0.5 });
+  pdf.text(right, footerTop, `Generated ${new Date().toLocaleString('en-KE')} • QS Vault`, { size: 7, gray: 0.5, align: 'right' });
+
+  return pdf.toBlob(`Interim Payment Certificate ${ipc.certNumber}`);
+};
+
+const ipcFileName = (ipc: IpcDocumentData) =>
+  `${safeFileName(ipc.projectName)}_${safeFileName(ipc.certNumber)}.pdf`;
+
+export const downloadIpcPdf = (ipc: IpcDocumentData) => downloadBlob(buildIpcPdf(ipc), ipcFileName(ipc));
+
+export const printIpcPdf = (ipc: IpcDocumentData) => printBlob(buildIpcPdf(ipc));
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Skull,
+  RotateCcw,
+  Trash2,
+  Pencil,
+  Loader2
+} from 'lucide-react';
+import type { SyncQueueItem } from '../../../lib/database/database';
+import { discardDeadLetter, retryDeadLetter } from '../deadLetters';
+import { SYNC_TABLE_LABELS, recordLabel } from '../labels';
+
+/** --- TYPES --- **/
+
+interface DeadLetterCardProps {
+  item: SyncQueueItem;
+  theme: string;
+  onSettled: () => void;
+}
+
+/** --- MAIN COMPONENT: DEAD-LETTER ENTRY --- **/
+
+const DeadLetterCard: React.FC<DeadLetterCardProps> = ({ item, theme, onSettled }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(() => JSON.stringify(item.payload, null, 2));
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const settle = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onSettled();
+    } catch (err) {
+      console.error("Office Sync Error: Dead letter not updated.", err);
+      setIsBusy(false);
+    }
+  };
+
+  const handleRetry = () => {
+    if (!isEditing) {
+      settle(() => retryDeadLetter(item));
+      return;
+    }
+    try {
+      const payload = JSON.parse(draft);
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) throw new Error('Payload must be an object');
+      setDraftError(null);
+      settle(() => retryDeadLetter(item, payload));
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this change? It will never reach the office cloud.')) return;
+    settle(() => discardDeadLetter(item));
+  };
+
+  return (
+    <div className={`p-5 rounded-3xl border space-y-4 text-left
+      ${theme === 'dark' ? 'bg-zinc-950/60 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 overflow-hidden">
+          <Skull size={16} className="text-zinc-500 shrink-0" />
+          <div className="overflow-hidden">
+            <p className="text-[11px] font-black uppercase tracking-widest truncate">
+              {item.operation} • {recordLabel(item.payload, item.record_id)}
+            </p>
+            <p className="text-[8px] font-black text-zinc-500 uppercase tracking-widest mt-1">
+              {SYNC_TABLE_LABELS[item.table]} • {item.attempts ?? 0} attempt{item.attempts === 1 ? '' : 's'} • Queued {new Date(item.created_at).toLocaleString()}
+            </p>
+          </div>
+        </div>
+        {isBusy && <Loader2 size={16} className="animate-spin text-zinc-500 shrink-0" />}
+      </div>
+
+      {item.last_error && (
+        <p className="text-[10px] font-mono text-rose-400 break-all">{item.last_error}</p>
+      )}
+
+      {isEditing && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            className={`w-full p-3 rounded-xl border text-[10px] font-mono outline-none focus:border-amber-500
+              ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-700'}`}
+          />
+          {draftError && <p className="text-[9px] font-black uppercase tracking-widest text-rose-500">{draftError}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {item.operation !== 'DELETE' && (
+          <button
+            disabled={isBusy}
+            onClick={() => setIsEditing(!isEditing)}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border border-zinc-700 text-zinc-400 text-[9px] font-black uppercase tracking-widest hover:text-white disabled:opacity-30">
+            <Pencil size={12} /> {isEditing ? 'Cancel Edit' : 'Edit'}
+          </button>
+        )}
+        <button
+          disabled={isBusy}
+          onClick={handleRetry}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30">
+          <RotateCcw size={12} /> Retry
+        </button>
+        <button
+          disabled={isBusy}
+          onClick={handleDiscard}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-500 text-[9px] font-black uppercase tracking-widest hover:bg-rose-500/20 disabled:opacity-30">
+          <Trash2 size={12} /> Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeadLetterCard;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+import type { ChannelStatus, PresenceMember } from '../projectChannel';
+
+/** --- TYPES --- **/
+
+interface LivePresenceProps {
+  status: ChannelStatus;
+  others: PresenceMember[];
+  theme: string;
+}
+
+const MAX_AVATARS = 4;
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]?.toUpperCase()).join('') || '?';
+
+const STATUS_LABELS: Record<ChannelStatus, string> = {
+  live: 'Live',
+  connecting: 'Connecting',
+  offline: 'Not Live'
+};
+
+/** --- MAIN COMPONENT: WHO ELSE IS HERE --- **/
+
+const LivePresence: React.FC<LivePresenceProps> = ({ status, others, theme }) => {
+  const shown = others.slice(0, MAX_AVATARS);
+  const hidden = others.length - shown.length;
+
+  return (
+    <div
+      className="flex items-center gap-3"
+      title={others.length > 0 ? `Also viewing: ${others.map(m => m.name).join(', ')}` : 'Nobody else is viewing this project'}>
+      {shown.length > 0 && (
+        <div className="flex -space-x-2">
+          {shown.map(member => (
+            <div
+              key={member.user_id}
+              className={`w-8 h-8 rounded-full border-2 flex items-center justify-center text-[9px] font-black bg-sky-500 text-black
+                ${theme === 'dark' ? 'border-[#09090b]' : 'border-white'}`}>
+              {initials(member.name)}
+            </div>
+          ))}
+          {hidden > 0 && (
+            <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center text-[9px] font-black
+              ${theme === 'dark' ? 'border-[#09090b] bg-zinc-800 text-zinc-300' : 'border-white bg-zinc-200 text-zinc-700'}`}>
+              +{hidden}
+            </div>
+          )}
+        </div>
+      )}
+      <div className={`flex items-center gap-2 text-[8px] font-black uppercase tracking-widest
+        ${status === 'live' ? 'text-sky-400' : 'text-zinc-600'}`}>
+        <Radio size={12} className={status === 'connecting' ? 'animate-pulse' : ''} />
+        {STATUS_LABELS[status]}
+      </div>
+    </div>
+  );
+};
+
+export default LivePresence;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import {
+  AlertTriangle,
+  Smartphone,
+  Cloud,
+  Trash2,
+  Loader2,
+  Check
+} from 'lucide-react';
+import type { SyncConflict } from '../../../lib/database/database';
+import {
+  conflictFields,
+  conflictLabel,
+  resolveConflict,
+  resolveDeletion,
+  type FieldChoice
+} from '../conflicts';
+import { SYNC_TABLE_LABELS } from '../labels';
+
+/** --- TYPES --- **/
+
+interface SyncConflictCardProps {
+  conflict: SyncConflict;
+  theme: string;
+  onResolved: () => void;
+}
+
+const display = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/** --- MAIN COMPONENT: CONFLICT RESOLUTION --- **/
+
+const SyncConflictCard: React.FC<SyncConflictCardProps> = ({ conflict, theme, onResolved }) => {
+  const fields = conflictFields(conflict);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>(
+    () => Object.fromEntries(fields.map(f => [f.key, 'local' as FieldChoice]))
+  );
+  const [isResolving, setIsResolving] = useState(false);
+
+  const remoteEditedAt = conflict.remote.updated_at ? new Date(conflict.remote.updated_at as string).toLocaleString() : 'unknown';
+
+  const settle = async (action: () => Promise<void>) => {
+    setIsResolving(true);
+    try {
+      await action();
+      onResolved();
+    } catch (err) {
+      console.error("Office Sync Error: Conflict could not be resolved.", err);
+      setIsResolving(false);
+    }
+  };
+
+  const chooseAll = (choice: FieldChoice) =>
+    setChoices(Object.fromEntries(fields.map(f => [f.key, choice])));
+
+  const optionClass = (selected: boolean, tone: 'amber' | 'sky') => `p-3 rounded-xl border text-left text-[10px] font-mono break-all transition-all
+    ${selected
+      ? tone === 'amber' ? 'border-amber-500 bg-amber-500/10 text-amber-500' : 'border-sky-500 bg-sky-500/10 text-sky-400'
+      : theme === 'dark' ? 'border-zinc-800 text-zinc-500 hover:border-zinc-600' : 'border-zinc-200 text-zinc-500 hover:border-zinc-400'}`;
+
+  return (
+    <div className={`p-6 rounded-3xl border space-y-5 text-left animate-in fade-in duration-500
+      ${theme === 'dark' ? 'bg-zinc-950/60 border-rose-500/30' : 'bg-rose-50/40 border-rose-200'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 overflow-hidden">
+          <AlertTriangle size={18} className="text-rose-500 shrink-0" />
+          <div className="overflow-hidden">
+            <p className="text-[11px] font-black uppercase tracking-widest truncate">{conflictLabel(conflict)}</p>
+            <p className="text-[8px] font-black text-zinc-500 uppercase tracking-widest mt-1">
+              {SYNC_TABLE_LABELS[conflict.table]} • Server edited {remoteEditedAt}
+            </p>
+          </div>
+        </div>
+        {isResolving && <Loader2 size={16} className="animate-spin text-zinc-500 shrink-0" />}
+      </div>
+
+      {conflict.operation === 'DELETE' ? (
+        <div className="space-y-4">
+          <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">
+            Deleted on this device, but edited on the server since this device last synced.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              disabled={isResolving}
+              onClick={() => settle(() => resolveDeletion(conflict, 'local'))}
+              className="flex items-center justify-center gap-2 p-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-500 text-[9px] font-black uppercase tracking-widest hover:bg-rose-500/20 disabled:opacity-30">
+              <Trash2 size={12} /> Delete Everywhere
+            </button>
+            <button
+              disabled={isResolving}
+              onClick={() => settle(() => resolveDeletion(conflict, 'remote'))}
+              className="flex items-center justify-center gap-2 p-3 rounded-xl bg-sky-500/10 border border-sky-500/30 text-sky-400 text-[9px] font-black uppercase tracking-widest hover:bg-sky-500/20 disabled:opacity-30">
+              <Cloud size={12} /> Keep Server Copy
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] gap-3 items-center text-[8px] font-black uppercase tracking-widest text-zinc-500">
+            <span>Field</span>
+            <button onClick={() => chooseAll('local')} className="flex items-center gap-1 hover:text-amber-500">
+              <Smartphone size={10} /> This Device
+            </button>
+            <button onClick={() => chooseAll('remote')} className="flex items-center gap-1 hover:text-sky-400">
+              <Cloud size={10} /> Server
+            </button>
+          </div>
+          {fields.length === 0 && (
+            <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Both copies already agree.</p>
+          )}
+          {fields.map(field => (
+            <div key={field.key} className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] gap-3 items-stretch">
+              <span className="text-[9px] font-black uppercase tracking-wider text-zinc-400 self-center break-all">{field.key.replace(/_/g, ' ')}</span>
+              <button onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'local' }))} className={optionClass(choices[field.key] === 'local', 'amber')}>
+                {display(field.local)}
+              </button>
+              <button onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'remote' }))} className={optionClass(choices[field.key] === 'remote', 'sky')}>
+                {display(field.remote)}
+              </button>
+            </div>
+          ))}
+          <button
+            disabled={isResolving}
+            onClick={() => settle(() => resolveConflict(conflict, choices))}
+            className="w-full flex items-center justify-center gap-2 p-3 rounded-xl bg-amber-500 text-black text-[9px] font-black uppercase tracking-widest hover:bg-amber-400 disabled:opacity-30 transition-all">
+            <Check size={12} className="stroke-[3px]" /> Apply Resolution
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncConflictCard;
@@ -11,8 +11,15 @@ import {
   FileCode,
   Loader2,
   X,
-  Plus
+  Plus,
+  GitMerge,
+  Skull
 } from 'lucide-react';
+import type { SyncConflict, SyncQueueItem } from '../../../lib/database/database';
+import { listConflicts } from '../conflicts';
+import { countPendingChanges, listDeadLetters } from '../deadLetters';
+import SyncConflictCard from './SyncConflictCard';
+import DeadLetterCard from './DeadLetterCard';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
@@ -53,6 +60,8 @@ const SyncQueueMonitor: React.FC = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [localBuffer, setLocalBuffer] = useState<any[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [deadLetters, setDeadLetters] = useState<SyncQueueItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   /** * LIVE SYNC MONITORING
@@ -63,8 +72,11 @@ const SyncQueueMonitor: React.FC = () => {
     const checkQueue = async () => {
       try {
         if (db?.sync_queue?.count) {
-          const count = await db.sync_queue.count();
+          // Dead letters are listed on their own; they are not waiting on the network
+          const count = await countPendingChanges();
           setPendingCount(count + localBuffer.length);
+          setConflicts(await listConflicts());
+          setDeadLetters(await listDeadLetters());
         }
       } catch (err) {
         console.error("Office Sync Error:", err);
@@ -83,6 +95,8 @@ const SyncQueueMonitor: React.FC = () => {
       // Trigger the background sync engine defined in database.ts
       await syncEngine.processQueue();
       setLocalBuffer([]); // Clear simulated buffer on success
+      setConflicts(await listConflicts());
+      setDeadLetters(await listDeadLetters());
     } catch (err) {
       console.error("Manual sync failed:", err);
     } finally {
@@ -164,7 +178,51 @@ const SyncQueueMonitor: React.FC = () => {
         </div>
       </div>
 
-      {/* 2. Document & File Intake */}
+      {/* 2. Conflicts awaiting a decision */}
+      {conflicts.length > 0 && (
+        <div className="space-y-4 mb-10">
+          <div className="flex items-center gap-3 text-left">
+            <GitMerge size={16} className="text-rose-500" />
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-rose-500">
+              {conflicts.length} Conflict{conflicts.length === 1 ? '' : 's'} Held On This Device
+            </p>
+          </div>
+          <div className="space-y-4 max-h-[32rem] overflow-y-auto custom-scrollbar pr-2">
+            {conflicts.map(conflict => (
+              <SyncConflictCard
+                key={conflict.id}
+                conflict={conflict}
+                theme={theme}
+                onResolved={() => setConflicts(prev => prev.filter(c => c.id !== conflict.id))}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 3. Changes the cloud keeps rejecting */}
+      {deadLetters.length > 0 && (
+        <div className="space-y-4 mb-10">
+          <div className="flex items-center gap-3 text-left">
+            <Skull size={16} className="text-zinc-500" />
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-500">
+              {deadLetters.length} Failed Change{deadLetters.length === 1 ? '' : 's'} Set Aside
+            </p>
+          </div>
+          <div className="space-y-3 max-h-[28rem] overflow-y-auto custom-scrollbar pr-2">
+            {deadLetters.map(item => (
+              <DeadLetterCard
+                key={item.id}
+                item={item}
+                theme={theme}
+                onSettled={() => setDeadLetters(prev => prev.filter(d => d.id !== item.id))}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 4. Document & File Intake */}
       <div className="space-y-4">
         <div 
           onClick={() => fileInputRef.current?.click()}
@@ -214,7 +272,7 @@ const SyncQueueMonitor: React.FC = () => {
         )}
       </div>
 
-      {/* 3. System Status Footer */}
+      {/* 5. System Status Footer */}
       <div className={`mt-8 pt-8 border-t flex flex-wrap gap-6 items-center justify-between
         ${theme === 'dark' ? 'border-zinc-800/60' : 'border-zinc-100'}`}>
         <div className="flex items-center gap-3">
@@ -0,0 +1,87 @@
+import { db, syncEngine, type SyncConflict } from "../../lib/database/database";
+import { recordLabel } from "./labels";
+
+/** --- 1. FIELD COMPARISON --- **/
+
+export type FieldChoice = 'local' | 'remote';
+
+export interface ConflictField {
+  key: string;
+  local: unknown;
+  remote: unknown;
+}
+
+// Bookkeeping columns that never need a surveyor's decision
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at', 'synced_at', 'server_version', 'amount']);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields where the device and the server disagree. Columns the device never
+ * sent are not in dispute, so the server value simply stands for them.
+ */
+export const conflictFields = (conflict: SyncConflict): ConflictField[] =>
+  Object.keys(conflict.local)
+    .filter(key => !IGNORED_FIELDS.has(key) && !sameValue(conflict.local[key], conflict.remote[key]))
+    .map(key => ({ key, local: conflict.local[key], remote: conflict.remote[key] }));
+
+export const conflictLabel = (conflict: SyncConflict): string =>
+  recordLabel({ ...conflict.remote, ...conflict.local }, conflict.record_id);
+
+export const listConflicts = async (): Promise<SyncConflict[]> =>
+  db.sync_conflicts.orderBy('detected_at').toArray();
+
+/** --- 2. RESOLUTION --- **/
+
+/**
+ * Applies field-level choices to an edit conflict. The merged record is written
+ * to the device against the server version it now supersedes and queued as an
+ * ordinary update; if every field went to the server, nothing needs pushing.
+ */
+export const resolveConflict = async (conflict: SyncConflict, choices: Record<string, FieldChoice>) => {
+  const remoteVersion = conflict.remote.updated_at as string | undefined;
+  const keepsLocal = conflictFields(conflict).some(field => choices[field.key] !== 'remote');
+
+  const merged: Record<string, unknown> = { ...conflict.remote };
+  for (const [key, value] of Object.entries(conflict.local)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (choices[key] !== 'remote' || !(key in conflict.remote)) merged[key] = value;
+  }
+  merged.updated_at = keepsLocal ? new Date().toISOString() : remoteVersion;
+
+  const table = db.table(conflict.table);
+  const current = await table.get(conflict.record_id);
+  await table.put({
+    ...current,
+    ...merged,
+    server_version: remoteVersion ?? null,
+    ...(keepsLocal ? {} : { synced_at: new Date().toISOString() })
+  });
+
+  // Release the hold first, otherwise the queued update would fold straight back into it
+  await db.sync_conflicts.delete(conflict.id!);
+  if (keepsLocal) {
+    await syncEngine.queueChange(conflict.table, conflict.record_id, 'UPDATE', merged);
+  }
+};
+
+/**
+ * Settles a deletion made on this device against a record someone else has since
+ * edited: either the delete goes ahead, or the server copy is restored locally.
+ */
+export const resolveDeletion = async (conflict: SyncConflict, keep: FieldChoice) => {
+  const table = db.table(conflict.table);
+  await db.sync_conflicts.delete(conflict.id!);
+
+  if (keep === 'local') {
+    await table.delete(conflict.record_id);
+    await syncEngine.queueChange(conflict.table, conflict.record_id, 'DELETE', { id: conflict.record_id });
+    return;
+  }
+
+  await table.put({
+    ...conflict.remote,
+    synced_at: new Date().toISOString(),
+    server_version: (conflict.remote.updated_at as string | undefined) ?? null
+  });
+};
@@ -0,0 +1,38 @@
+import { db, syncEngine, type SyncQueueItem } from "../../lib/database/database";
+import { recordDeadLetterDiscard } from "../audit/auditLog";
+
+/** --- DEAD-LETTER QUEUE --- **/
+
+/**
+ * Queue items that failed permanently or ran out of attempts. They stay on the
+ * device, out of the way of the rest of the queue, until someone deals with them.
+ */
+export const listDeadLetters = async (): Promise<SyncQueueItem[]> =>
+  db.sync_queue.where('status').equals('dead').sortBy('id');
+
+export const countPendingChanges = async (): Promise<number> =>
+  db.sync_queue.where('status').equals('pending').count();
+
+/**
+ * Puts a dead letter back in line with a fresh attempt budget, optionally with
+ * a corrected payload, and pushes straight away.
+ */
+export const retryDeadLetter = async (item: SyncQueueItem, payload: Record<string, unknown> = item.payload) => {
+  await db.sync_queue.update(item.id!, {
+    payload,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: 0,
+    last_error: null
+  });
+  await syncEngine.processQueue();
+};
+
+/**
+ * Drops the change for good. The local record keeps its edit; it simply never
+ * reaches the cloud. The discard itself is written to the office audit log.
+ */
+export const discardDeadLetter = async (item: SyncQueueItem) => {
+  await recordDeadLetterDiscard(item);
+  await db.sync_queue.delete(item.id!);
+};
@@ -0,0 +1,24 @@
+import type { SyncTable } from "../../lib/database/database";
+
+export const SYNC_TABLE_LABELS: Record<SyncTable, string> = {
+  projects: 'Project',
+  bill_items: 'Bill Item',
+  measurements: 'Measurement',
+  profiles: 'Profile',
+  drawings: 'Drawing',
+  certificates: 'Certificate',
+  project_members: 'Team Member',
+  audit_log: 'Audit Entry',
+  rates: 'Rate',
+  rate_history: 'Rate Price',
+  rate_analyses: 'Rate Analysis',
+  price_books: 'Price Book'
+};
+
+/**
+ * Short human label for a synced record, e.g. a project name or bill description.
+ */
+export const recordLabel = (source: Record<string, unknown>, recordId: string): string => {
+  const label = source.name ?? source.description ?? source.label ?? source.sheet_name ?? source.cert_number ?? source.username;
+  return typeof label === 'string' && label ? label : recordId.slice(0, 8);
+};
@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** --- MOCK REALTIME CHANNEL --- **/
+
+type Listener = { type: string; filter: Record<string, string>; callback: (payload?: unknown) => void };
+
+// Just enough of RealtimeChannel for the transport: listeners are kept so tests can play events into them
+class MockChannel {
+  listeners: Listener[] = [];
+  statusCallback: ((status: string) => void) | null = null;
+  presence: Record<string, unknown[]> = {};
+  track = vi.fn(() => Promise.resolve('ok'));
+  topic: string;
+  options: unknown;
+
+  constructor(topic: string, options: unknown) {
+    this.topic = topic;
+    this.options = options;
+  }
+
+  on(type: string, filter: Record<string, string>, callback: (payload?: unknown) => void) {
+    this.listeners.push({ type, filter, callback });
+    return this;
+  }
+
+  subscribe(callback: (status: string) => void) {
+    this.statusCallback = callback;
+    return this;
+  }
+
+  presenceState() {
+    return this.presence;
+  }
+
+  status(status: string) {
+    this.statusCallback?.(status);
+  }
+
+  change(table: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: { new?: object; old?: object }) {
+    const listener = this.listeners.find(l => l.type === 'postgres_changes' && l.filter.table === table && l.filter.event === eventType);
+    listener?.callback({ schema: 'public', table, eventType, new: row.new ?? {}, old: row.old ?? {} });
+  }
+
+  syncPresence(members: Record<string, unknown[]>) {
+    this.presence = members;
+    this.listeners.filter(l => l.type === 'presence' && l.filter.event === 'sync').forEach(l => l.callback());
+  }
+}
+
+const mocks = vi.hoisted(() => ({
+  channels: [] as unknown[],
+  removeChannel: vi.fn(),
+  vaultGet: vi.fn(),
+  applyCloudRow: vi.fn(),
+  applyCloudDelete: vi.fn(),
+  announceCloudChanges: vi.fn()
+}));
+
+vi.mock('../../lib/database/database', () => ({
+  isCloudConfigured: true,
+  supabase: {
+    channel: (topic: string, options: unknown) => {
+      const channel = new MockChannel(topic, options);
+      mocks.channels.push(channel);
+      return channel;
+    },
+    removeChannel: mocks.removeChannel
+  },
+  db: { table: () => ({ get: mocks.vaultGet }) }
+}));
+
+vi.mock('../../lib/database/pullSync', () => ({
+  applyCloudRow: mocks.applyCloudRow,
+  applyCloudDelete: mocks.applyCloudDelete,
+  announceCloudChanges: mocks.announceCloudChanges
+}));
+
+import { applyLiveChange, openSupabaseChannel, type ChannelHandlers } from './projectChannel';
+
+const PROJECT = 'project-1';
+const ME = { user_id: 'user-me', name: 'Wanjiru', joined_at: '2026-10-19T08:00:00.000Z' };
+const COLLEAGUE = { user_id: 'user-2', name: 'Otieno', joined_at: '2026-10-19T08:05:00.000Z' };
+
+const open = () => {
+  const handlers: ChannelHandlers = { onChange: vi.fn(), onPresence: vi.fn(), onStatus: vi.fn() };
+  const connection = openSupabaseChannel(PROJECT, ME, handlers);
+  return { handlers, connection, channel: mocks.channels[mocks.channels.length - 1] as MockChannel };
+};
+
+beforeEach(() => {
+  mocks.channels.length = 0;
+  vi.clearAllMocks();
+});
+
+describe('Supabase transport', () => {
+  it('joins the project topic with the surveyor as presence key', () => {
+    const { channel } = open();
+    expect(channel.topic).toBe(`project:${PROJECT}`);
+    expect(channel.options).toEqual({ config: { presence: { key: ME.user_id } } });
+  });
+
+  it('filters inserts and updates by project but hears deletes table-wide', () => {
+    const { channel } = open();
+    const changes = channel.listeners.filter(l => l.type === 'postgres_changes').map(l => l.filter);
+    expect(changes).toContainEqual({ event: 'INSERT', schema: 'public', table: 'measurements', filter: `project_id=eq.${PROJECT}` });
+    expect(changes).toContainEqual({ event: 'UPDATE', schema: 'public', table: 'bill_items', filter: `project_id=eq.${PROJECT}` });
+    expect(changes).toContainEqual({ event: 'DELETE', schema: 'public', table: 'measurements' });
+  });
+
+  it('forwards an INSERT with the new row', () => {
+    const { channel, handlers } = open();
+    const row = { id: 'm-1', project_id: PROJECT, updated_at: '2026-10-19T09:00:00.000Z' };
+    channel.change('measurements', 'INSERT', { new: row });
+    expect(handlers.onChange).toHaveBeenCalledWith({ table: 'measurements', event: 'INSERT', row, record_id: 'm-1' });
+  });
+
+  it('forwards an UPDATE with the new row', () => {
+    const { channel, handlers } = open();
+    const row = { id: 'b-1', project_id: PROJECT, rate: 1450, updated_at: '2026-10-19T09:10:00.000Z' };
+    channel.change('bill_items', 'UPDATE', { new: row, old: { id: 'b-1' } });
+    expect(handlers.onChange).toHaveBeenCalledWith({ table: 'bill_items', event: 'UPDATE', row, record_id: 'b-1' });
+  });
+
+  it('forwards a DELETE by the old record id, with no row', () => {
+    const { channel, handlers } = open();
+    channel.change('measurements', 'DELETE', { old: { id: 'm-9' } });
+    expect(handlers.onChange).toHaveBeenCalledWith({ table: 'measurements', event: 'DELETE', row: null, record_id: 'm-9' });
+  });
+
+  it('ignores a change that names no record', () => {
+    const { channel, handlers } = open();
+    channel.change('measurements', 'DELETE', { old: {} });
+    expect(handlers.onChange).not.toHaveBeenCalled();
+  });
+
+  it('lists who joins and leaves', () => {
+    const { channel, handlers } = open();
+    channel.syncPresence({ [ME.user_id]: [ME], [COLLEAGUE.user_id]: [COLLEAGUE] });
+    expect(handlers.onPresence).toHaveBeenLastCalledWith([ME, COLLEAGUE]);
+
+    channel.syncPresence({ [ME.user_id]: [ME] });
+    expect(handlers.onPresence).toHaveBeenLastCalledWith([ME]);
+  });
+
+  it('goes live and shares presence once subscribed', () => {
+    const { channel, handlers } = open();
+    expect(handlers.onStatus).toHaveBeenLastCalledWith('connecting');
+
+    channel.status('SUBSCRIBED');
+    expect(handlers.onStatus).toHaveBeenLastCalledWith('live');
+    expect(channel.track).toHaveBeenCalledWith(ME);
+  });
+
+  it('falls back to offline on a channel error or timeout', () => {
+    const { channel, handlers } = open();
+    channel.status('SUBSCRIBED');
+    channel.status('CHANNEL_ERROR');
+    expect(handlers.onStatus).toHaveBeenLastCalledWith('offline');
+
+    channel.status('TIMED_OUT');
+    expect(handlers.onStatus).toHaveBeenLastCalledWith('offline');
+    expect(channel.track).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the channel when closed', () => {
+    const { channel, connection } = open();
+    connection.close();
+    expect(mocks.removeChannel).toHaveBeenCalledWith(channel);
+  });
+});
+
+describe('applying live changes', () => {
+  const row = { id: 'm-1', project_id: PROJECT, updated_at: '2026-10-19T09:00:00.000Z', server_updated_at: '2026-10-19T09:00:01.000Z' };
+
+  it('writes inserts and updates through the pull rules and announces them', async () => {
+    mocks.applyCloudRow.mockResolvedValue(true);
+    expect(await applyLiveChange(PROJECT, { table: 'measurements', event: 'INSERT', row, record_id: 'm-1' })).toBe(true);
+    expect(mocks.applyCloudRow).toHaveBeenCalledWith('measurements', row);
+    expect(mocks.announceCloudChanges).toHaveBeenCalledWith(['measurements']);
+  });
+
+  it('stays quiet when the vault kept its own copy', async () => {
+    mocks.applyCloudRow.mockResolvedValue(false);
+    expect(await applyLiveChange(PROJECT, { table: 'bill_items', event: 'UPDATE', row, record_id: 'm-1' })).toBe(false);
+    expect(mocks.announceCloudChanges).not.toHaveBeenCalled();
+  });
+
+  it('deletes a record held for this project', async () => {
+    mocks.vaultGet.mockResolvedValue({ id: 'm-1', project_id: PROJECT });
+    mocks.applyCloudDelete.mockResolvedValue(true);
+    expect(await applyLiveChange(PROJECT, { table: 'measurements', event: 'DELETE', row: null, record_id: 'm-1' })).toBe(true);
+    expect(mocks.applyCloudDelete).toHaveBeenCalledWith('measurements', 'm-1');
+    expect(mocks.announceCloudChanges).toHaveBeenCalledWith(['measurements']);
+  });
+
+  it('leaves deletes from other projects alone', async () => {
+    mocks.vaultGet.mockResolvedValue({ id: 'm-7', project_id: 'project-2' });
+    expect(await applyLiveChange(PROJECT, { table: 'measurements', event: 'DELETE', row: null, record_id: 'm-7' })).toBe(false);
+    expect(mocks.applyCloudDelete).not.toHaveBeenCalled();
+  });
+});
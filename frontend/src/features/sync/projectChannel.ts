@@ -0,0 +1,149 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { db, isCloudConfigured, supabase, type SyncTable } from "../../lib/database/database";
+import { announceCloudChanges, applyCloudDelete, applyCloudRow, type CloudRow } from "../../lib/database/pullSync";
+
+/** --- 1. TYPES --- **/
+
+export type LiveTable = Extract<SyncTable, 'measurements' | 'bill_items'>;
+export type ChannelStatus = 'connecting' | 'live' | 'offline';
+
+export interface PresenceMember {
+  user_id: string;
+  name: string;
+  joined_at: string;
+}
+
+export interface RowChange {
+  table: LiveTable;
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  row: CloudRow | null; // New row; null for deletes
+  record_id: string;
+}
+
+export interface ChannelHandlers {
+  onChange: (change: RowChange) => void;
+  onPresence: (members: PresenceMember[]) => void;
+  onStatus: (status: ChannelStatus) => void;
+}
+
+export interface ProjectChannel {
+  close: () => void;
+}
+
+/**
+ * Opens the live feed for one project. The default talks to Supabase Realtime;
+ * a local hub stands in for it in development and tests.
+ */
+export type ProjectChannelFactory = (projectId: string, member: PresenceMember, handlers: ChannelHandlers) => ProjectChannel;
+
+export const LIVE_TABLES: LiveTable[] = ['measurements', 'bill_items'];
+
+/** --- 2. SUPABASE REALTIME TRANSPORT --- **/
+
+export const openSupabaseChannel: ProjectChannelFactory = (projectId, member, handlers) => {
+  const channel = supabase.channel(`project:${projectId}`, {
+    config: { presence: { key: member.user_id } }
+  });
+
+  const forward = (table: LiveTable) => (payload: RealtimePostgresChangesPayload<CloudRow>) => {
+    const row = payload.eventType === 'DELETE' ? null : payload.new;
+    const recordId = row?.id ?? (payload.old as Partial<CloudRow>).id;
+    if (recordId) handlers.onChange({ table, event: payload.eventType, row, record_id: recordId });
+  };
+
+  // Realtime cannot filter deletes, so they are heard table-wide and checked on arrival
+  for (const table of LIVE_TABLES) {
+    const filter = `project_id=eq.${projectId}`;
+    channel
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, forward(table))
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, forward(table))
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, forward(table));
+  }
+
+  channel.on('presence', { event: 'sync' }, () => {
+    const state = channel.presenceState<PresenceMember>();
+    handlers.onPresence(Object.values(state).map(entries => entries[0]).filter(Boolean));
+  });
+
+  handlers.onStatus('connecting');
+  channel.subscribe(status => {
+    if (status === 'SUBSCRIBED') {
+      handlers.onStatus('live');
+      channel.track({ ...member }).catch(err => console.error("Live Session Error: Presence not shared.", err));
+    } else {
+      // Realtime keeps retrying on its own; the UI just shows the link is down
+      handlers.onStatus('offline');
+    }
+  });
+
+  return {
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+/** --- 3. LOCAL TRANSPORT (development & tests) --- **/
+
+/**
+ * In-memory stand-in for Realtime. Every channel opened on the hub for a project
+ * sees the others' presence, and `emit` plays a row change to all of them.
+ */
+export const createLocalChannelHub = () => {
+  const rooms = new Map<string, Map<symbol, { member: PresenceMember; handlers: ChannelHandlers }>>();
+
+  const syncPresence = (projectId: string) => {
+    const room = rooms.get(projectId);
+    if (!room) return;
+    const members = [...room.values()].map(entry => entry.member);
+    room.forEach(entry => entry.handlers.onPresence(members));
+  };
+
+  const open: ProjectChannelFactory = (projectId, member, handlers) => {
+    const room = rooms.get(projectId) ?? new Map();
+    rooms.set(projectId, room);
+    const key = Symbol(member.user_id);
+    room.set(key, { member, handlers });
+    handlers.onStatus('live');
+    syncPresence(projectId);
+
+    return {
+      close: () => {
+        room.delete(key);
+        if (room.size === 0) rooms.delete(projectId);
+        syncPresence(projectId);
+      }
+    };
+  };
+
+  const emit = (projectId: string, change: RowChange) => {
+    rooms.get(projectId)?.forEach(entry => entry.handlers.onChange(change));
+  };
+
+  return { open, emit };
+};
+
+export const localChannelHub = createLocalChannelHub();
+
+export const defaultChannelFactory: ProjectChannelFactory = isCloudConfigured
+  ? openSupabaseChannel
+  : localChannelHub.open;
+
+/** --- 4. APPLYING LIVE CHANGES --- **/
+
+/**
+ * Writes a live change into the vault with the same rules as pull sync, and
+ * announces it so open views re-read. Deletes arrive unfiltered by project, so
+ * only records this device holds for the project are removed.
+ */
+export const applyLiveChange = async (projectId: string, change: RowChange) => {
+  let changed: boolean;
+  if (change.event === 'DELETE') {
+    const local = await db.table(change.table).get(change.record_id);
+    changed = local?.project_id === projectId && await applyCloudDelete(change.table, change.record_id);
+  } else {
+    changed = !!change.row && await applyCloudRow(change.table, change.row);
+  }
+  if (changed) announceCloudChanges([change.table]);
+  return changed;
+};
@@ -1,6 +1,5 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useEffect, } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
 import { 
   ArrowLeft, 
   Wifi,
@@ -10,13 +9,16 @@ import {
   FileText,
   Layout,
   Loader2,
-  CheckCircle2
+  CheckCircle2,
+  SearchX
 } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 // Refined Modular Components
 import BlueprintViewport from '../takeoff/components/BlueprintViewport';
 import GeometricRegistry from '../takeoff/components/GeometricRegistry';
 import CalibrationNode from '../takeoff/components/CalibrationNode';
+import BillItemLinker from '../takeoff/components/BillItemLinker';
 import SMMWorkSections from '../takeoff/components/SMMWorkSections';
 import SMMTemplates from '../takeoff/components/SMMTemplates';
 
@@ -24,14 +26,34 @@ import SMMTemplates from '../takeoff/components/SMMTemplates';
 import BoQGenerator from '../../features/boq/components/BoQGenerator';
 import CertificateGenerator from '../../features/reports/components/CertificateGenerator';
 import WhatsAppExport from '../../features/reports/components/WhatsAppExport';
+import LivePresence from '../../features/sync/components/LivePresence';
+import CertificateLedger from '../../features/reports/components/CertificateLedger';
+
+// Quantity Engine
+import { calibrateScale, computeQuantity, scaleFromRatio, toDrawingSpace, type GeometryIssue } from './geometry';
+import { SAMPLE_DRAWING_ID, listProjectDrawings, openDrawingDocument, saveDrawing, saveDrawingScales } from './drawingVault';
+import { loadProject } from '../projects/projectVault';
+import { binMeasurement } from '../projects/recycleBin';
+import { loadCertificateDraft, type CertificateDraft } from '../reports/certificates';
+import { isBinned, type BillItem, type Drawing, type Measurement, type Project } from '../../lib/database/database';
+import type { db as vaultDb, syncEngine as vaultSyncEngine } from '../../lib/database/database';
+import type { Theme } from '../auth/AuthContext';
+import { VAULT_PULLED_EVENT } from '../../lib/database/pullSync';
+import { useProjectChannel } from '../../hooks/useProjectChannel';
+import { usePermissions } from '../../hooks/usePermissions';
 
 /* ======================================================
     OFFICE DATABASE INTEGRATION
    ====================================================== */
 
-let useAuth: any = () => ({ user: { id: 'dev-node' }, theme: 'dark' });
-let db: any = null;
-let syncEngine: any = null;
+interface TakeoffAuth {
+  user: { id: string; email?: string; user_metadata?: { full_name?: string } } | null;
+  theme: Theme;
+}
+
+let useAuth: () => TakeoffAuth = () => ({ user: { id: 'dev-node' }, theme: 'dark' });
+let db: typeof vaultDb | null = null;
+let syncEngine: typeof vaultSyncEngine | null = null;
 
 const resolveModules = async () => {
   try {
@@ -41,7 +63,7 @@ const resolveModules = async () => {
     const dbMod = await import("../../lib/database/database");
     if (dbMod.db) db = dbMod.db; 
     if (dbMod.syncEngine) syncEngine = dbMod.syncEngine;
-  } catch (e) {
+  } catch {
     // Shims active
   }
 };
@@ -50,45 +72,70 @@ resolveModules();
 
 /** --- TYPES --- **/
 interface Point { x: number; y: number; }
-interface Measurement {
-  id: string;
-  project_id: string;
-  label: string;
-  type: 'length' | 'area' | 'count';
-  value: number;
-  unit: string;
-  sectionCode: string;
-  points: Point[];
-  timestamp: string;
-}
+
+const DEFAULT_PIXELS_PER_METRE = scaleFromRatio(100); // Default 1:100
+
+// Labels for linked entries in the ledger, e.g. "A • Mass concrete in foundations"
+const fetchBillItemLabels = async (projectId: string): Promise<Record<string, string>> => {
+  if (!db || !projectId) return {};
+  const items = await db.bill_items.where('project_id').equals(projectId).toArray();
+  return Object.fromEntries(items.map((b: BillItem) => [b.id, `${b.item_code || '--'} • ${b.description}`]));
+};
 
 interface ProjectTakeoffPageProps {
-  projectId: string;
-  projectName: string;
   onBack: () => void;
 }
 
-const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, projectName, onBack }) => {
+const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ onBack }) => {
   const { theme, user } = useAuth();
+  const { id: projectId = '' } = useParams<{ id: string }>();
+  const { status: liveStatus, others: liveViewers } = useProjectChannel(
+    projectId,
+    user?.id,
+    user?.user_metadata?.full_name || user?.email || 'Surveyor'
+  );
+
+  // Viewers and reviewers see the takeoff but cannot add to or prune it
+  const { can } = usePermissions(projectId);
+  const canMeasure = can('create', 'measurement');
+  const canDeleteMeasurement = can('delete', 'measurement');
+
+  // 0. PROJECT CONTEXT
+  const [project, setProject] = useState<Project | null>(null);
+  const [projectStatus, setProjectStatus] = useState<'loading' | 'ready' | 'not-found'>('loading');
+  const projectName = project?.name || 'Project Workspace';
   
   // 1. WORKSPACE STATE
   const [activeWorkspace, setActiveWorkspace] = useState<'takeoff' | 'reports'>('takeoff');
+  const [certificateDraft, setCertificateDraft] = useState<CertificateDraft | null>(null);
+  const [certificateVersion, setCertificateVersion] = useState(0);
   const [isOnline] = useState(navigator.onLine);
-  const [, setIsLoading] = useState(true);
   
   // Drafting Engine
-  const [pdfDoc, setPdfDoc] = useState<any>(null);
+  const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [drawingId, setDrawingId] = useState<string | null>(null);
+  const [drawingError, setDrawingError] = useState<string | null>(null);
+  const [pageNum, setPageNum] = useState(1);
   const [scale, setScale] = useState(1.0);
-  const [scaleFactor, setScaleFactor] = useState(0.01); // Default 1:100
   const [unit, setUnit] = useState<'m' | 'mm'>('m');
+
+  // Drawing scale per sheet of the loaded drawing (drawing pixels per metre). Zoom independent.
+  const [pageScales, setPageScales] = useState<Record<number, number>>({});
+  const pixelsPerMetre = pageScales[pageNum] ?? DEFAULT_PIXELS_PER_METRE;
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
   
   // Takeoff Data
   const [activeSection, setActiveSection] = useState('Concrete Work');
   const [activeTool, setActiveTool] = useState<'length' | 'area' | 'count'>('area');
   const [isMeasuring, setIsMeasuring] = useState(false);
   const [isDeductionMode, setIsDeductionMode] = useState(false);
-  const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
+  const [currentPoints, setCurrentPoints] = useState<Point[]>([]); // Drawing space (zoom 1.0)
+  const [geometryIssue, setGeometryIssue] = useState<GeometryIssue | null>(null);
   const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [billItemLabels, setBillItemLabels] = useState<Record<string, string>>({});
   const [smmParams, setSmmParams] = useState({ depth: 0.150, height: 3.0, waste: 5 });
 
   // UI States
@@ -96,63 +143,283 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
   const [rightSidebarOpen, setRightSidebarOpen] = useState(true);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
 
+  /** * PROJECT RESOLUTION
+   * Binds the workspace to the project named in the route (device vault first, then cloud).
+   */
+  useEffect(() => {
+    let cancelled = false;
+    loadProject(projectId)
+      .then(found => {
+        if (cancelled) return;
+        setProject(found);
+        setProjectStatus(found ? 'ready' : 'not-found');
+      })
+      .catch(err => {
+        console.error("Takeoff Error: Project lookup failed.", err);
+        if (!cancelled) setProjectStatus('not-found');
+      });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  /** * VALUATION HISTORY
+   * The share summary reports the next certificate against what has already been certified.
+   */
+  useEffect(() => {
+    if (activeWorkspace !== 'reports' || !db || !projectId) return;
+    let cancelled = false;
+    loadCertificateDraft(projectId)
+      .then(draft => { if (!cancelled) setCertificateDraft(draft); })
+      .catch(err => console.error("Takeoff Error: Certificate history unreachable.", err));
+    return () => { cancelled = true; };
+  }, [activeWorkspace, projectId, certificateVersion]);
+
+  /** * BILL LINKAGE
+   * Links selected ledger entries to bill items and keeps their labels current.
+   */
+  const refreshBillItemLabels = async () => {
+    setBillItemLabels(await fetchBillItemLabels(projectId));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleLinked = (linkedIds: string[], billItemId: string | null) => {
+    setMeasurements(prev => prev.map(m => linkedIds.includes(m.id) ? { ...m, bill_item_id: billItemId } : m));
+    setSelectedIds(prev => prev.filter(id => !linkedIds.includes(id)));
+    refreshBillItemLabels().catch(err => console.error("Takeoff Error: Bill items unreachable.", err));
+  };
+
+  // Deleted measurements go to the recycle bin; their bill item is re-rolled without them
+  const handleDeleteMeasurement = async (id: string) => {
+    if (!canDeleteMeasurement) return;
+    setMeasurements(prev => prev.filter(m => m.id !== id));
+    setSelectedIds(prev => prev.filter(x => x !== id));
+    try {
+      await binMeasurement(id);
+      await refreshBillItemLabels();
+    } catch (err) {
+      console.error("Takeoff Error: Measurement removal not propagated.", err);
+    }
+  };
+
   /** * DATABASE SYNC
    * Loads existing project measurements from local storage.
    */
   useEffect(() => {
     const loadData = async () => {
-      if (!db || !projectId) {
-        setIsLoading(false);
-        return;
-      }
+      if (!db || !projectId) return;
       try {
-        const stored = await db.measurements.where('project_id').equals(projectId).toArray();
+        const stored = await db.measurements.where('project_id').equals(projectId).filter(m => !isBinned(m)).toArray();
         setMeasurements(stored);
+        setBillItemLabels(await fetchBillItemLabels(projectId));
       } catch (err) {
         console.error("Takeoff Error: Local records unreachable.", err);
-      } finally {
-        setIsLoading(false);
       }
     };
     loadData();
   }, [projectId]);
 
+  // Measurements and bill items changed elsewhere (live or pulled) are re-read from the vault
+  useEffect(() => {
+    const onCloudChange = (event: Event) => {
+      const tables = (event as CustomEvent<string[]>).detail || [];
+      if (!db || !projectId) return;
+      if (tables.includes('measurements')) {
+        db.measurements.where('project_id').equals(projectId).filter(m => !isBinned(m)).toArray()
+          .then(setMeasurements)
+          .catch((err: unknown) => console.error("Takeoff Error: Local records unreachable.", err));
+      }
+      if (tables.includes('measurements') || tables.includes('bill_items')) {
+        fetchBillItemLabels(projectId)
+          .then(setBillItemLabels)
+          .catch(err => console.error("Takeoff Error: Bill items unreachable.", err));
+      }
+    };
+    window.addEventListener(VAULT_PULLED_EVENT, onCloudChange);
+    return () => window.removeEventListener(VAULT_PULLED_EVENT, onCloudChange);
+  }, [projectId]);
+
+  /** * DRAWING SET NAVIGATION
+   * Every loaded PDF gets its own identity; sheets are addressed by 1-based page number.
+   * Uploaded files are kept in the device vault; the sample blueprint is not, but keeps a fixed id.
+   * An upload the vault refused stays on screen without an id, so nothing is measured against it.
+   */
+  const showDocument = (pdf: PDFDocumentProxy | null, id: string | null, scales: Record<number, number>) => {
+    setPdfDoc(pdf);
+    setDrawingId(id);
+    setDrawingError(null);
+    setPageNum(1);
+    setPageScales(scales);
+    setCurrentPoints([]);
+    setCalibrationPoints([]);
+  };
+
+  const handleDocumentLoaded = async (pdf: PDFDocumentProxy | null, file?: File) => {
+    if (!file || !pdf) {
+      showDocument(pdf, pdf ? SAMPLE_DRAWING_ID : null, {});
+      return;
+    }
+    try {
+      const saved = await saveDrawing(projectId, file, pdf.numPages);
+      setDrawings(prev => [saved, ...prev]);
+      showDocument(pdf, saved.id, {});
+    } catch (err) {
+      console.error("Drawing Vault Error: Upload could not be stored on this device.", err);
+      showDocument(pdf, null, {});
+      setDrawingError('Drawing not saved on this device - upload it again to measure');
+    }
+  };
+
+  const openDrawing = async (drawing: Drawing) => {
+    try {
+      const pdf = await openDrawingDocument(drawing);
+      showDocument(pdf, drawing.id, drawing.page_scales || {});
+    } catch (err) {
+      console.error("Drawing Vault Error: Stored drawing could not be opened.", err);
+    }
+  };
+
+  // Reopen the last drawing used on this project
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    listProjectDrawings(projectId)
+      .then(async (stored) => {
+        if (cancelled) return;
+        setDrawings(stored);
+        if (stored.length > 0) {
+          const pdf = await openDrawingDocument(stored[0]);
+          if (!cancelled) showDocument(pdf, stored[0].id, stored[0].page_scales || {});
+        }
+      })
+      .catch(err => console.error("Drawing Vault Error: Register unreachable.", err));
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const changePage = (page: number) => {
+    setPageNum(page);
+    // An outline cannot span sheets
+    setCurrentPoints([]);
+    setCalibrationPoints([]);
+    setGeometryIssue(null);
+  };
+
+  // Measurements without a drawing predate sheet binding and are shown on sheet 1
+  const drawingMeasurements = useMemo(
+    () => measurements.filter(m => m.drawing_id === drawingId || m.drawing_id == null),
+    [measurements, drawingId]
+  );
+
+  const sheetMeasurements = useMemo(
+    () => drawingMeasurements.filter(m => (m.page ?? 1) === pageNum),
+    [drawingMeasurements, pageNum]
+  );
+
+  const sheetCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    drawingMeasurements.forEach(m => {
+      const page = m.page ?? 1;
+      counts[page] = (counts[page] || 0) + 1;
+    });
+    return counts;
+  }, [drawingMeasurements]);
+
   /** * MEASUREMENT LOGIC
    * Handles high-precision calculation based on SMM-KE rules.
+   * Clicks are stored in drawing space so overlays and quantities survive zoom changes.
    */
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isMeasuring) return;
+    if (!isMeasuring && !isCalibrating) return;
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    const newPoints = [...currentPoints, { x, y }];
+    const [point] = toDrawingSpace([{ x: e.clientX - rect.left, y: e.clientY - rect.top }], scale);
+
+    if (isCalibrating) {
+      // A third click starts a fresh reference line
+      setCalibrationPoints(prev => prev.length >= 2 ? [point] : [...prev, point]);
+      return;
+    }
+
+    const newPoints = [...currentPoints, point];
     setCurrentPoints(newPoints);
+    setGeometryIssue(null);
 
     if (activeTool === 'count') commitMeasurement(newPoints);
   };
 
+  /** * SCALE CALIBRATION
+   * Two picked points over a known dimension define the sheet's pixels-per-metre ratio.
+   */
+  const setPageScale = (value: number) => {
+    const next = { ...pageScales, [pageNum]: value };
+    setPageScales(next);
+    if (drawingId && drawings.some(d => d.id === drawingId)) {
+      setDrawings(prev => prev.map(d => d.id === drawingId ? { ...d, page_scales: next } : d));
+      saveDrawingScales(drawingId, next).catch(err =>
+        console.error("Drawing Vault Error: Calibration not saved.", err)
+      );
+    }
+  };
+
+  const toggleCalibration = () => {
+    setIsCalibrating(!isCalibrating);
+    setCalibrationPoints([]);
+    setIsMeasuring(false);
+    setCurrentPoints([]);
+  };
+
+  const applyCalibration = (realMetres: number) => {
+    if (calibrationPoints.length < 2) return;
+    const calibrated = calibrateScale(calibrationPoints[0], calibrationPoints[1], realMetres);
+    if (!(calibrated > 0)) return;
+    setPageScale(calibrated);
+    setIsCalibrating(false);
+    setCalibrationPoints([]);
+  };
+
   const commitMeasurement = async (points: Point[]) => {
-    if (!db || !user) return;
-    setSaveStatus('saving');
+    if (!db || !user || !canMeasure || !drawingId) return;
 
+    const quantity = computeQuantity(activeTool, points, pixelsPerMetre);
+    if (quantity.issue) {
+      // Keep the outline on screen so the surveyor can correct it
+      setGeometryIssue(quantity.issue);
+      return;
+    }
+
+    setSaveStatus('saving');
     const id = crypto.randomUUID();
-    const rawValue = points.length * scaleFactor; // Basic pixel-to-meter simulation
-    
-    // Apply SMM Rules (m2 for area, m3 for concrete depth etc)
-    let calculatedValue = rawValue;
-    if (activeSection.includes('Concrete')) calculatedValue = rawValue * smmParams.depth;
-    if (activeSection.includes('Walling')) calculatedValue = rawValue * smmParams.height;
+    const stamp = new Date().toISOString();
+
+    // Apply SMM Rules (m3 for concrete beds/slabs, m2 for walling runs)
+    let calculatedValue = quantity.value;
+    let measuredUnit: string = quantity.unit;
+    if (activeSection.includes('Concrete') && activeTool === 'area') {
+      calculatedValue = quantity.value * smmParams.depth;
+      measuredUnit = 'm³';
+    }
+    if (activeSection.includes('Walling') && activeTool === 'length') {
+      calculatedValue = quantity.value * smmParams.height;
+      measuredUnit = 'm²';
+    }
+    // Waste allows for cutting and overlaps; counted items are billed as counted
+    const wasteFactor = activeTool === 'count' ? 1 : 1 + smmParams.waste / 100;
 
     const newEntry: Measurement = {
       id,
       project_id: projectId,
       label: `${activeSection} Item ${measurements.length + 1}`,
       type: activeTool,
-      value: calculatedValue * (1 + smmParams.waste / 100) * (isDeductionMode ? -1 : 1),
-      unit: activeSection.includes('Concrete') ? 'm³' : activeTool === 'area' ? 'm²' : 'm',
+      value: calculatedValue * wasteFactor * (isDeductionMode ? -1 : 1),
+      unit: measuredUnit,
       sectionCode: activeSection,
       points,
-      timestamp: new Date().toISOString()
+      drawing_id: drawingId,
+      page: pageNum,
+      bill_item_id: null,
+      created_at: stamp,
+      updated_at: stamp,
+      timestamp: stamp
     };
 
     try {
@@ -161,7 +428,7 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
       
       // QUEUE FOR OFFICE CLOUD
       if (syncEngine?.queueChange) {
-        await syncEngine.queueChange('measurements', id, 'INSERT', newEntry);
+        await syncEngine.queueChange('measurements', id, 'INSERT', { ...newEntry });
       }
 
       setMeasurements([newEntry, ...measurements]);
@@ -176,6 +443,41 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
     if (activeTool !== 'count') setIsMeasuring(false);
   };
 
+  if (projectStatus !== 'ready') {
+    return (
+      <div className={`h-screen w-full flex flex-col items-center justify-center gap-8 text-center p-6 transition-colors duration-500
+        ${theme === 'dark' ? 'bg-[#09090b] text-zinc-100' : 'bg-zinc-50 text-zinc-900'}`}>
+        {projectStatus === 'loading' ? (
+          <>
+            <Loader2 className="w-12 h-12 animate-spin text-amber-500" />
+            <p className="font-black text-[10px] uppercase tracking-[0.4em] text-zinc-500">Opening Project Workspace...</p>
+          </>
+        ) : (
+          <>
+            <div className="p-10 rounded-full bg-zinc-900 border border-zinc-800 shadow-inner">
+              <SearchX size={56} className="text-zinc-600" />
+            </div>
+            <div className="space-y-2">
+              <p className="font-black uppercase tracking-[0.5em] text-xs text-zinc-400">Project Not Found</p>
+              <p className="text-[10px] font-bold text-zinc-600 uppercase tracking-widest max-w-md">
+                {isOnline 
+                  ? 'This project does not exist in your vault or the office cloud.' 
+                  : 'This project is not stored on this device. Reconnect to fetch it from the office cloud.'}
+              </p>
+              <p className="text-[9px] font-mono text-zinc-700 uppercase tracking-widest">REF: {projectId.slice(0, 12) || 'NONE'}</p>
+            </div>
+            <button 
+              onClick={onBack}
+              className="flex items-center gap-3 px-10 py-5 bg-amber-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] shadow-2xl shadow-amber-500/20 hover:bg-amber-400 transition-all active:scale-95"
+            >
+              <ArrowLeft size={16} /> Back to Portfolio
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className={`flex flex-col h-screen w-full overflow-hidden transition-colors duration-500
       ${theme === 'dark' ? 'bg-[#09090b] text-zinc-100' : 'bg-zinc-50 text-zinc-900'}`}>
@@ -221,6 +523,8 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
 
         {/* STATUS & ACTIONS */}
         <div className="flex items-center gap-4">
+          <LivePresence status={liveStatus} others={liveViewers} theme={theme} />
+
           <div className={`px-4 py-2 rounded-full border flex items-center gap-3 transition-all
             ${isOnline ? 'bg-emerald-500/5 border-emerald-500/20 text-emerald-500' : 'bg-amber-500/5 border-amber-500/20 text-amber-500'}`}>
             {isOnline ? <Wifi size={12} /> : <WifiOff size={12} />}
@@ -252,7 +556,11 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
                   setActiveTool={setActiveTool}
                 />
                 <div className="p-6 border-t border-zinc-800/40 bg-zinc-900/10 mt-auto">
-                  <CalibrationNode currentScale={scaleFactor} onScaleChange={setScaleFactor} unit={unit} onUnitToggle={setUnit} />
+                  <CalibrationNode 
+                    currentScale={pixelsPerMetre} onScaleChange={setPageScale} unit={unit} onUnitToggle={setUnit}
+                    pageNum={pageNum} isCalibrating={isCalibrating} onCalibrationToggle={toggleCalibration}
+                    calibrationPoints={calibrationPoints} onApplyCalibration={applyCalibration}
+                  />
                 </div>
               </div>
               <button onClick={() => setLeftSidebarOpen(!leftSidebarOpen)} className="absolute top-1/2 -right-3 -translate-y-1/2 p-1.5 rounded-full border bg-zinc-950 border-zinc-800 text-zinc-500 z-50">
@@ -263,10 +571,14 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
             {/* VIEWPORT (CENTER) */}
             <main className="flex-1 relative bg-black flex flex-col overflow-hidden">
               <BlueprintViewport 
-                pdfDoc={pdfDoc} setPdfDoc={setPdfDoc} pageNum={1} scale={scale} setScale={setScale}
-                isMeasuring={isMeasuring} setIsMeasuring={setIsMeasuring} activeTool={activeTool}
-                currentPoints={currentPoints} setCurrentPoints={setCurrentPoints} measurements={measurements}
+                pdfDoc={pdfDoc} setPdfDoc={handleDocumentLoaded} pageNum={pageNum}
+                drawings={drawings} onSelectDrawing={(id) => { const d = drawings.find(x => x.id === id); if (d) openDrawing(d); }} setPageNum={changePage} drawingId={drawingId} drawingError={drawingError} scale={scale} setScale={setScale}
+                isMeasuring={isMeasuring} setIsMeasuring={setIsMeasuring} canMeasure={canMeasure} activeTool={activeTool}
+                currentPoints={currentPoints} setCurrentPoints={setCurrentPoints} measurements={sheetMeasurements} measurementCounts={sheetCounts}
                 onCanvasClick={handleCanvasClick}
+                onCommitMeasurement={() => commitMeasurement(currentPoints)}
+                isCalibrating={isCalibrating} calibrationPoints={calibrationPoints}
+                geometryIssue={geometryIssue}
               />
             </main>
 
@@ -276,10 +588,24 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
                 <div className="flex-1 overflow-hidden">
                    <GeometricRegistry 
                     measurements={measurements} 
-                    onDelete={(id) => setMeasurements(measurements.filter(m => m.id !== id))} 
+                    onDelete={canDeleteMeasurement ? handleDeleteMeasurement : undefined} 
                     activeSection={activeSection} 
+                    selectedIds={selectedIds}
+                    onToggleSelect={toggleSelected}
+                    billItemLabels={billItemLabels}
                   />
                 </div>
+                {selectedIds.length > 0 && (
+                  <div className="px-6 pb-6">
+                    <BillItemLinker
+                      projectId={projectId}
+                      activeSection={activeSection}
+                      selected={measurements.filter(m => selectedIds.includes(m.id))}
+                      onLinked={handleLinked}
+                      onClearSelection={() => setSelectedIds([])}
+                    />
+                  </div>
+                )}
                 <div className="p-6 border-t border-zinc-800/40 bg-black/20">
                   <SMMTemplates 
                     activeSection={activeSection} 
@@ -311,12 +637,12 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
                     <p className="text-xl font-black text-white uppercase tracking-tighter">Office Share</p>
                   </div>
                   <WhatsAppExport projectName={projectName} data={{
-                    certNumber: "IPC/001",
+                    certNumber: certificateDraft?.certNumber || "IPC/001",
                     valuationDate: new Date().toLocaleDateString(),
-                    contractSum: 0,
-                    workExecuted: measurements.reduce((acc, m) => acc + m.value, 0) * 1000, // Simulated rate multiplier
+                    contractSum: certificateDraft?.contractSum ?? (project?.contract_sum || 0),
+                    workExecuted: certificateDraft?.workExecuted || 0,
                     materialsOnSite: 0,
-                    previousCertified: 0,
+                    previousCertified: certificateDraft?.previousCertified || 0,
                     retentionPercent: 10
                   }} />
 
@@ -324,10 +650,21 @@ const ProjectTakeoffPage: React.FC<ProjectTakeoffPageProps> = ({ projectId, proj
                     <h4 className="text-[10px] font-black uppercase tracking-widest text-emerald-500 italic">Valuation Registry</h4>
                     <p className="text-xl font-black text-white uppercase tracking-tighter">Draft Certificate</p>
                   </div>
-                  <CertificateGenerator projectId={projectId} projectName={projectName} />
+                  <CertificateGenerator
+                    projectId={projectId}
+                    projectName={projectName}
+                    onIssued={() => setCertificateVersion(v => v + 1)}
+                  />
                </div>
             </div>
 
+            {/* 3. Issued certificates and payment position */}
+            <CertificateLedger
+              key={certificateVersion}
+              projectId={projectId}
+              contractSum={certificateDraft?.contractSum ?? (project?.contract_sum || 0)}
+            />
+
             <footer className="py-20 text-center opacity-10">
               <p className="text-[10px] font-black uppercase tracking-[0.6em]">Professional Report Export Module v2.0</p>
             </footer>
@@ -0,0 +1,222 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Link2,
+  Unlink,
+  FilePlus2,
+  AlertTriangle,
+  X
+} from 'lucide-react';
+import { assignMeasurements, createBillItemFromSection, toBillUnit } from '../../boq/quantities';
+
+/* ======================================================
+    MODULE RESOLUTION HANDLER (SANDBOX COMPATIBILITY)
+   ====================================================== */
+
+let useAuth: any = () => ({
+  theme: 'dark',
+});
+
+let db: any = null;
+
+const resolveModules = async () => {
+  try {
+    const authMod = await import("../../../features/auth/AuthContext");
+    if (authMod.useAuth) useAuth = authMod.useAuth;
+
+    const dbMod = await import("../../../lib/database/database");
+    if (dbMod.db) db = dbMod.db;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (e) {
+    // Sandbox fallback active
+  }
+};
+
+resolveModules();
+
+/** --- TYPES --- **/
+
+interface LinkableMeasurement {
+  id: string;
+  unit: string;
+  bill_item_id?: string | null;
+}
+
+interface BillItemOption {
+  id: string;
+  item_code: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+}
+
+interface BillItemLinkerProps {
+  projectId: string;
+  activeSection: string;
+  selected: LinkableMeasurement[];
+  /** Called after links change so the takeoff ledger can refresh its copy */
+  onLinked: (measurementIds: string[], billItemId: string | null) => void;
+  onClearSelection: () => void;
+}
+
+/** --- MAIN COMPONENT: MEASUREMENT TO BILL LINKER --- **/
+
+const BillItemLinker: React.FC<BillItemLinkerProps> = ({
+  projectId,
+  activeSection,
+  selected,
+  onLinked,
+  onClearSelection
+}) => {
+  const { theme } = useAuth();
+  const [billItems, setBillItems] = useState<BillItemOption[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // All selected measurements must share one billing unit
+  const selectionUnit = useMemo(() => {
+    const units = new Set(selected.map(m => toBillUnit(m.unit)));
+    return units.size === 1 ? [...units][0] : null;
+  }, [selected]);
+
+  const fetchBillItems = async (): Promise<BillItemOption[]> => {
+    if (!db || !projectId) return [];
+    return db.bill_items.where('project_id').equals(projectId).toArray();
+  };
+
+  useEffect(() => {
+    fetchBillItems()
+      .then(setBillItems)
+      .catch(err => console.error("Linker Error: Bill items unreachable.", err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const compatibleItems = billItems.filter(b => selectionUnit && b.unit === selectionUnit);
+
+  const link = async (billItemId: string | null) => {
+    if (selected.length === 0) return;
+    setIsWorking(true);
+    setNotice(null);
+    try {
+      const result = await assignMeasurements(selected.map(m => m.id), billItemId);
+      if (result.rejected.length > 0) {
+        setNotice(`${result.rejected.length} measurement(s) skipped: unit does not match the bill item`);
+      }
+      onLinked(result.linked, billItemId);
+      setBillItems(await fetchBillItems());
+      if (result.rejected.length === 0) onClearSelection();
+    } catch (err) {
+      console.error("Linker Error: Measurements could not be linked.", err);
+      setNotice('Link failed. Changes were not saved.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const createAndLink = async () => {
+    if (!selectionUnit) return;
+    setIsWorking(true);
+    try {
+      const description = newDescription.trim() || `${activeSection} (${selectionUnit})`;
+      const item = await createBillItemFromSection(projectId, activeSection, selectionUnit, description);
+      setNewDescription('');
+      setIsWorking(false);
+      await link(item.id);
+    } catch (err) {
+      console.error("Linker Error: Bill item could not be created.", err);
+      setNotice('Bill item could not be created.');
+      setIsWorking(false);
+    }
+  };
+
+  if (selected.length === 0) return null;
+
+  return (
+    <div className={`p-6 rounded-4xl border space-y-4 text-left animate-in fade-in duration-300
+      ${theme === 'dark' ? 'bg-zinc-950/80 border-amber-500/30' : 'bg-white border-amber-500/40 shadow-xl'}`}>
+
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-[9px] font-black uppercase tracking-widest text-amber-500 leading-none">Bill Linkage</p>
+          <p className={`text-sm font-black uppercase tracking-tight mt-1 ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
+            {selected.length} Selected {selectionUnit ? `• ${selectionUnit}` : '• Mixed Units'}
+          </p>
+        </div>
+        <button onClick={onClearSelection} className="p-2 text-zinc-600 hover:text-rose-500 transition-colors" title="Clear Selection">
+          <X size={14} />
+        </button>
+      </div>
+
+      {selectionUnit ? (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className={`flex-1 min-w-0 p-3 rounded-xl border text-[10px] font-black uppercase outline-none focus:border-amber-500
+                ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-700'}`}
+            >
+              <option value="">Select bill item...</option>
+              {compatibleItems.map(b => (
+                <option key={b.id} value={b.id}>
+                  {(b.item_code || '--')} • {b.description} ({b.quantity.toFixed(2)} {b.unit})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => link(targetId)}
+              disabled={!targetId || isWorking}
+              className="px-4 rounded-xl bg-amber-500 text-black hover:bg-amber-400 disabled:opacity-30 transition-all"
+              title="Link to Bill Item"
+            >
+              <Link2 size={14} />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder={`New ${activeSection} item...`}
+              className={`flex-1 min-w-0 p-3 rounded-xl border text-[10px] font-bold outline-none focus:border-amber-500
+                ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'}`}
+            />
+            <button
+              onClick={createAndLink}
+              disabled={isWorking}
+              className="px-4 rounded-xl bg-zinc-800 text-zinc-300 border border-zinc-700 hover:text-amber-500 disabled:opacity-30 transition-all"
+              title="Create Bill Item from Active Section"
+            >
+              <FilePlus2 size={14} />
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+          Select measurements of a single unit to bill them together.
+        </p>
+      )}
+
+      {selected.some(m => m.bill_item_id) && (
+        <button
+          onClick={() => link(null)}
+          disabled={isWorking}
+          className="w-full py-3 rounded-xl border border-zinc-800 text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-rose-500 hover:border-rose-500/40 transition-all flex items-center justify-center gap-2"
+        >
+          <Unlink size={12} /> Unlink from Bill
+        </button>
+      )}
+
+      {notice && (
+        <div className="flex items-center gap-2 text-rose-500">
+          <AlertTriangle size={12} />
+          <span className="text-[9px] font-black uppercase tracking-widest">{notice}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BillItemLinker;
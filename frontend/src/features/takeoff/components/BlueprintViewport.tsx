@@ -8,8 +8,13 @@ import {
   Play, 
   Upload,
   FileSearch,
+  CheckCircle2,
+  AlertTriangle,
+  ChevronUp,
+  ChevronDown,
 } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
+import DrawingPageStrip from './DrawingPageStrip';
 
 // Standard PDF.js configuration for construction drawings
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
@@ -40,37 +45,74 @@ interface Point { x: number; y: number; }
 
 interface BlueprintViewportProps {
   pdfDoc: any;
-  setPdfDoc: (doc: any) => void;
+  /** Receives the parsed document; `file` is present for uploads that should be kept in the vault */
+  setPdfDoc: (doc: any, file?: File) => void;
+  /** Drawing register for the project (most recently opened first) */
+  drawings: { id: string; sheet_name: string; revision: string }[];
+  onSelectDrawing: (drawingId: string) => void;
   pageNum: number;
+  setPageNum: (page: number) => void;
+  /** Identity of the loaded drawing; remounts per-drawing caches such as thumbnails. null while it is not stored */
+  drawingId: string | null;
+  /** Why the loaded drawing could not be stored; measuring stays off until it is */
+  drawingError: string | null;
   scale: number;
   setScale: React.Dispatch<React.SetStateAction<number>>;
   isMeasuring: boolean;
   setIsMeasuring: (val: boolean) => void;
+  /** False when the user's role may not add measurements to this project */
+  canMeasure: boolean;
   activeTool: 'length' | 'area' | 'count';
   currentPoints: Point[];
   setCurrentPoints: React.Dispatch<React.SetStateAction<Point[]>>;
+  /** Measurements taken on the visible sheet only */
   measurements: any[];
+  measurementCounts: Record<number, number>;
   onCanvasClick: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+  onCommitMeasurement: () => void;
+  geometryIssue: string | null;
+  isCalibrating: boolean;
+  calibrationPoints: Point[];
 }
 
+// Human readable explanations for rejected takeoff outlines
+const GEOMETRY_ISSUE_LABELS: Record<string, string> = {
+  'insufficient-points': 'Not enough points for this tool',
+  'self-intersecting': 'Outline crosses itself - redraw the boundary',
+  'uncalibrated': 'Set the drawing scale before measuring',
+};
+
 /** --- MAIN COMPONENT: BLUEPRINT DRAWING VIEW --- **/
 
 const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
   pdfDoc,
   setPdfDoc,
+  drawings,
+  onSelectDrawing,
   pageNum,
+  setPageNum,
+  drawingId,
+  drawingError,
   scale,
   setScale,
   isMeasuring,
   setIsMeasuring,
+  canMeasure,
   activeTool,
   currentPoints,
   setCurrentPoints,
   measurements,
-  onCanvasClick
+  measurementCounts,
+  onCanvasClick,
+  onCommitMeasurement,
+  geometryIssue,
+  isCalibrating,
+  calibrationPoints
 }) => {
   useAuth();
   const [isRendering, setIsRendering] = useState(false);
+  // Page size in drawing space (zoom 1.0); the overlay works in these units
+  const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const renderTaskRef = useRef<any>(null);
@@ -97,6 +139,7 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
       if (context) {
         canvas.height = viewport.height;
         canvas.width = viewport.width;
+        setPageSize({ width: viewport.width / zoom, height: viewport.height / zoom });
 
         const renderContext = {
           canvasContext: context,
@@ -135,9 +178,11 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
         const typedarray = new Uint8Array(reader.result as ArrayBuffer);
         const loadingTask = pdfjsLib.getDocument(typedarray);
         const pdf = await loadingTask.promise;
-        setPdfDoc(pdf);
+        setPdfDoc(pdf, file);
       };
       reader.readAsArrayBuffer(file);
+      // Allow the same file to be picked again as a new revision
+      e.target.value = '';
     } catch (err) {
       console.error("File Upload Failed:", err);
     } finally {
@@ -182,17 +227,77 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
         <div className="h-px bg-zinc-800 mx-2 my-1" />
         <button 
           onClick={() => { setIsMeasuring(!isMeasuring); setCurrentPoints([]); }} 
-          disabled={!pdfDoc}
+          disabled={!pdfDoc || !drawingId || isCalibrating || !canMeasure}
           className={`p-3 rounded-xl transition-all shadow-xl active:scale-90 
             ${isMeasuring ? 'bg-amber-500 text-black' : 'text-zinc-400 hover:bg-zinc-800'} 
-            ${!pdfDoc ? 'opacity-20 cursor-not-allowed' : ''}`}
-          title={isMeasuring ? "Cancel Measurement" : "Start Measurement"}
+            ${!pdfDoc || !drawingId || isCalibrating || !canMeasure ? 'opacity-20 cursor-not-allowed' : ''}`}
+          title={!canMeasure ? "Your role on this project cannot add measurements"
+            : pdfDoc && !drawingId ? "This drawing is not stored, so it cannot be measured"
+            : isMeasuring ? "Cancel Measurement" : "Start Measurement"}
         >
           <MousePointer2 size={18}/>
         </button>
+        {pdfDoc && pdfDoc.numPages > 1 && (
+          <>
+            <div className="h-px bg-zinc-800 mx-2 my-1" />
+            <button 
+              onClick={() => setPageNum(Math.max(pageNum - 1, 1))} 
+              disabled={pageNum <= 1}
+              className="p-3 text-zinc-400 hover:text-amber-500 transition-all active:scale-90 disabled:opacity-20"
+              title="Previous Sheet"
+            >
+              <ChevronUp size={18}/>
+            </button>
+            <p className="text-[9px] font-black text-zinc-400 text-center leading-none tracking-tighter">
+              {pageNum}/{pdfDoc.numPages}
+            </p>
+            <button 
+              onClick={() => setPageNum(Math.min(pageNum + 1, pdfDoc.numPages))} 
+              disabled={pageNum >= pdfDoc.numPages}
+              className="p-3 text-zinc-400 hover:text-amber-500 transition-all active:scale-90 disabled:opacity-20"
+              title="Next Sheet"
+            >
+              <ChevronDown size={18}/>
+            </button>
+          </>
+        )}
       </div>
 
-      {/* 2. Drawing Drawing Workspace */}
+      {/* 2. Drawing Register (Floating) */}
+      {pdfDoc && (
+        <div className="absolute top-6 right-6 z-10 flex items-center gap-2 bg-zinc-950/90 p-1 rounded-2xl border border-zinc-800 shadow-2xl backdrop-blur-md">
+          {drawings.length > 0 && (
+            <select
+              value={drawingId && drawings.some(d => d.id === drawingId) ? drawingId : ''}
+              onChange={(e) => e.target.value && onSelectDrawing(e.target.value)}
+              className="bg-transparent px-4 py-2 text-[10px] font-black uppercase tracking-widest text-zinc-300 outline-none cursor-pointer max-w-60"
+              title="Drawing Register"
+            >
+              {!drawings.some(d => d.id === drawingId) && <option value="">Unsaved Drawing</option>}
+              {drawings.map(d => (
+                <option key={d.id} value={d.id}>{d.sheet_name} • Rev {d.revision}</option>
+              ))}
+            </select>
+          )}
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="p-3 text-zinc-400 hover:text-amber-500 transition-all active:scale-90"
+            title="Upload Drawing"
+          >
+            <Upload size={16}/>
+          </button>
+        </div>
+      )}
+
+      <input 
+        type="file" 
+        ref={fileInputRef} 
+        onChange={onFileChange} 
+        accept=".pdf" 
+        className="hidden" 
+      />
+
+      {/* 3. Drawing Drawing Workspace */}
       <div className="relative shadow-[0_0_100px_rgba(0,0,0,1)] bg-white rounded-sm overflow-auto max-h-full max-w-full custom-scrollbar scroll-smooth">
         {!pdfDoc && (
           <div className="p-10 sm:p-32 text-center bg-zinc-950/50 backdrop-blur-sm rounded-[3rem] border border-zinc-800 flex flex-col items-center gap-8 m-6">
@@ -227,13 +332,6 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
                   <Play size={16} /> View Sample
                 </button>
               </div>
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                onChange={onFileChange} 
-                accept=".pdf" 
-                className="hidden" 
-              />
             </div>
           </div>
         )}
@@ -242,13 +340,13 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
         <canvas 
           ref={canvasRef} 
           onClick={onCanvasClick} 
-          className={`cursor-crosshair transition-opacity duration-500 ${isRendering ? 'opacity-40' : 'opacity-100'}`} 
+          className={`${isCalibrating ? 'cursor-cell' : 'cursor-crosshair'} transition-opacity duration-500 ${isRendering ? 'opacity-40' : 'opacity-100'}`} 
         />
         
         {/* The Measurement Overlay Layer */}
         <svg 
           className="absolute inset-0 w-full h-full pointer-events-none" 
-          viewBox={`0 0 ${canvasRef.current?.width || 0} ${canvasRef.current?.height || 0}`}
+          viewBox={`0 0 ${pageSize.width} ${pageSize.height}`}
         >
           {/* Active measurement path (In progress) */}
           {currentPoints.length > 0 && (
@@ -259,23 +357,45 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
               strokeWidth="4" 
               strokeDasharray="10,5" 
               strokeLinecap="round" 
+              vectorEffect="non-scaling-stroke"
             />
           )}
 
           {/* Past measurements trail (Audit trail) */}
-          {measurements.map(m => (
-            <polyline 
-              key={m.id} 
-              points={m.points.map((p: any) => `${p.x},${p.y}`).join(' ')} 
-              fill={m.type === 'area' ? 'rgba(16,185,129,0.1)' : 'none'} 
-              stroke="#10b981" 
-              strokeWidth="4" 
-              strokeLinecap="round" 
-              strokeLinejoin="round" 
-              className="drop-shadow-lg opacity-60" 
-            />
+          {measurements.map(m => m.type === 'count' ? (
+            m.points.map((p: any, i: number) => (
+              <circle key={`${m.id}-${i}`} cx={p.x} cy={p.y} r="6" fill="#10b981" className="opacity-60" />
+            ))
+          ) : (
+            React.createElement(m.type === 'area' ? 'polygon' : 'polyline', {
+              key: m.id,
+              points: m.points.map((p: any) => `${p.x},${p.y}`).join(' '),
+              fill: m.type === 'area' ? 'rgba(16,185,129,0.1)' : 'none',
+              stroke: "#10b981",
+              strokeWidth: "4",
+              strokeLinecap: "round",
+              strokeLinejoin: "round",
+              vectorEffect: "non-scaling-stroke",
+              className: "drop-shadow-lg opacity-60"
+            })
           ))}
 
+          {/* Calibration reference line */}
+          {calibrationPoints.length > 0 && (
+            <g>
+              {calibrationPoints.length === 2 && (
+                <line 
+                  x1={calibrationPoints[0].x} y1={calibrationPoints[0].y} 
+                  x2={calibrationPoints[1].x} y2={calibrationPoints[1].y} 
+                  stroke="#0ea5e9" strokeWidth="3" strokeDasharray="6,4" vectorEffect="non-scaling-stroke" 
+                />
+              )}
+              {calibrationPoints.map((p, i) => (
+                <circle key={`cal-${i}`} cx={p.x} cy={p.y} r="6" fill="none" stroke="#0ea5e9" strokeWidth="3" vectorEffect="non-scaling-stroke" />
+              ))}
+            </g>
+          )}
+
           {/* Individual Point Markers */}
           {currentPoints.map((p, i) => (
             <circle key={i} cx={p.x} cy={p.y} r="5" fill="#f59e0b" className="shadow-lg animate-in zoom-in duration-300" />
@@ -283,13 +403,54 @@ const BlueprintViewport: React.FC<BlueprintViewportProps> = ({
         </svg>
       </div>
       
-      {/* 3. System Status Indicator */}
+      {/* 4. Measurement Commit Controls */}
+      {isMeasuring && activeTool !== 'count' && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-3">
+          <button
+            onClick={onCommitMeasurement}
+            disabled={currentPoints.length < (activeTool === 'area' ? 3 : 2)}
+            className="flex items-center gap-3 px-8 py-4 bg-amber-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] shadow-2xl shadow-amber-500/20 hover:bg-amber-400 transition-all active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <CheckCircle2 size={16} /> {activeTool === 'area' ? 'Close Area' : 'Finish Run'} ({currentPoints.length} pts)
+          </button>
+          {geometryIssue && (
+            <div className="flex items-center gap-2 px-5 py-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-500">
+              <AlertTriangle size={14} />
+              <span className="text-[9px] font-black uppercase tracking-widest">
+                {GEOMETRY_ISSUE_LABELS[geometryIssue] || geometryIssue}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {drawingError && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-5 py-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-500">
+          <AlertTriangle size={14} />
+          <span className="text-[9px] font-black uppercase tracking-widest">{drawingError}</span>
+        </div>
+      )}
+
+      {/* 5. Sheet Navigator */}
+      <DrawingPageStrip 
+        key={drawingId || 'none'} 
+        pdfDoc={pdfDoc} 
+        pageNum={pageNum} 
+        setPageNum={setPageNum} 
+        measurementCounts={measurementCounts} 
+      />
+
+      {/* 6. System Status Indicator */}
       <div className="absolute bottom-6 right-6 flex items-center gap-4">
         <div className="bg-zinc-950/80 backdrop-blur-xl border border-zinc-800 p-4 rounded-2xl flex items-center gap-4 shadow-2xl">
           <div className="text-right">
             <p className="text-[8px] font-black uppercase text-zinc-500 tracking-widest leading-none mb-1 text-right">System Status</p>
             <p className="text-[10px] font-black text-white italic uppercase tracking-tighter text-right">
-              {isRendering ? 'Rendering Drawing...' : pdfDoc ? 'Drawing Ready' : 'Waiting for PDF'}
+              {isRendering 
+                ? 'Rendering Drawing...' 
+                : isCalibrating 
+                  ? `Calibrating: Pick Point ${Math.min(calibrationPoints.length + 1, 2)} of 2` 
+                  : pdfDoc ? `Sheet ${pageNum} of ${pdfDoc.numPages} Ready` : 'Waiting for PDF'}
             </p>
           </div>
           <div className={`w-2 h-2 rounded-full ${isRendering ? 'bg-amber-500 animate-pulse' : pdfDoc ? 'bg-emerald-500' : 'bg-zinc-800'}`} />
@@ -6,6 +6,7 @@ import {
   CheckCircle2, 
   Ruler,
 } from 'lucide-react';
+import { distance, ratioFromScale, scaleFromRatio } from '../geometry';
 
 /* ======================================================
     MODULE RESOLUTION HANDLER (SANDBOX COMPATIBILITY)
@@ -30,31 +31,51 @@ resolveModules();
 /** --- TYPES --- **/
 
 interface CalibrationNodeProps {
+  /** Drawing pixels (at zoom 1.0) per real metre */
   currentScale: number;
   onScaleChange: (newScale: number) => void;
   unit: 'm' | 'mm';
   onUnitToggle: (unit: 'm' | 'mm') => void;
+  pageNum: number;
+  isCalibrating: boolean;
+  onCalibrationToggle: () => void;
+  /** Reference points picked on the drawing, in drawing space */
+  calibrationPoints: { x: number; y: number }[];
+  onApplyCalibration: (realMetres: number) => void;
 }
 
+/** --- CONSTANTS --- **/
+
+// Standard architectural scales used in Kenyan construction drawings
+const standardScales = [
+  { label: '1:1', value: scaleFromRatio(1) },
+  { label: '1:50', value: scaleFromRatio(50) },
+  { label: '1:100', value: scaleFromRatio(100) },
+  { label: '1:200', value: scaleFromRatio(200) },
+];
+
+const standardScalesIncludes = (value: number) => standardScales.some(s => s.value === value);
+
 /** --- MAIN COMPONENT: SCALE CALIBRATION --- **/
 
 const CalibrationNode: React.FC<CalibrationNodeProps> = ({ 
   currentScale, 
   onScaleChange, 
   unit, 
-  onUnitToggle 
+  onUnitToggle,
+  pageNum,
+  isCalibrating,
+  onCalibrationToggle,
+  calibrationPoints,
+  onApplyCalibration
 }) => {
   const { theme } = useAuth();
-  const [isCalibrating, setIsCalibrating] = useState(false);
   const [knownDistance, setKnownDistance] = useState("5.00");
 
-  // Standard architectural scales used in Kenyan construction drawings
-  const standardScales = [
-    { label: '1:1', value: 1 },
-    { label: '1:50', value: 0.02 },
-    { label: '1:100', value: 0.01 },
-    { label: '1:200', value: 0.005 },
-  ];
+  const knownMetres = (parseFloat(knownDistance) || 0) / (unit === 'mm' ? 1000 : 1);
+  const canApply = calibrationPoints.length === 2 && knownMetres > 0 &&
+    distance(calibrationPoints[0], calibrationPoints[1]) > 0;
+  const isPreset = standardScalesIncludes(currentScale);
 
   return (
     <div className={`p-8 rounded-[3rem] border backdrop-blur-3xl transition-all duration-500
@@ -70,7 +91,7 @@ const CalibrationNode: React.FC<CalibrationNodeProps> = ({
               Scale Calibration
             </h4>
             <p className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-500">
-              Set Drawing Measurement Ratio
+              Sheet {pageNum} • {isPreset ? 'Preset' : 'Custom'} ≈ 1:{Math.round(ratioFromScale(currentScale)).toLocaleString()}
             </p>
           </div>
           <div className={`p-3 rounded-2xl ${theme === 'dark' ? 'bg-zinc-950 border border-zinc-800' : 'bg-zinc-50 border border-zinc-100 shadow-inner'}`}>
@@ -112,7 +133,11 @@ const CalibrationNode: React.FC<CalibrationNodeProps> = ({
               <p className={`text-[11px] font-black uppercase tracking-tight leading-none ${theme === 'dark' ? 'text-white' : 'text-zinc-900'}`}>
                 Calibrate Ruler
               </p>
-              <p className="text-[8px] font-bold text-zinc-600 uppercase mt-1 leading-none text-left">Manual SMM Length Input</p>
+              <p className="text-[8px] font-bold text-zinc-600 uppercase mt-1 leading-none text-left">
+                {isCalibrating 
+                  ? `Pick 2 points on a known dimension (${calibrationPoints.length}/2)` 
+                  : 'Manual SMM Length Input'}
+              </p>
             </div>
           </div>
 
@@ -134,8 +159,18 @@ const CalibrationNode: React.FC<CalibrationNodeProps> = ({
               </button>
             </div>
 
+            {isCalibrating && (
+              <button 
+                onClick={() => onApplyCalibration(knownMetres)}
+                disabled={!canApply}
+                className="w-full py-4 rounded-xl font-black uppercase text-[10px] tracking-widest transition-all flex items-center justify-center gap-3 bg-amber-500 text-black shadow-lg shadow-amber-500/20 hover:bg-amber-400 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <CheckCircle2 size={14} /> Apply to Sheet {pageNum}
+              </button>
+            )}
+
             <button 
-              onClick={() => setIsCalibrating(!isCalibrating)}
+              onClick={onCalibrationToggle}
               className={`w-full py-4 rounded-xl font-black uppercase text-[10px] tracking-widest transition-all flex items-center justify-center gap-3
                 ${isCalibrating 
                   ? 'bg-rose-500/10 text-rose-500 border border-rose-500/20 hover:bg-rose-500 hover:text-white' 
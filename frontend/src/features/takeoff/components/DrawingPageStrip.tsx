@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, Loader2 } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/** --- TYPES --- **/
+
+interface DrawingPageStripProps {
+  pdfDoc: PDFDocumentProxy | null;
+  pageNum: number;
+  setPageNum: (page: number) => void;
+  /** Number of recorded measurements per sheet, used for the badge on each thumbnail */
+  measurementCounts: Record<number, number>;
+}
+
+// Thumbnail render zoom (drawing space units -> thumbnail pixels)
+const THUMBNAIL_SCALE = 0.18;
+
+/** --- MAIN COMPONENT: SHEET THUMBNAIL NAVIGATOR --- **/
+
+const DrawingPageStrip: React.FC<DrawingPageStripProps> = ({ pdfDoc, pageNum, setPageNum, measurementCounts }) => {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+
+  /** * THUMBNAIL RENDERER
+   * Renders sheets one at a time so large drawing sets don't stall the device.
+   */
+  useEffect(() => {
+    if (!pdfDoc) return;
+    let cancelled = false;
+
+    const renderThumbnails = async () => {
+      const rendered: Record<number, string> = {};
+      for (let p = 1; p <= pdfDoc.numPages; p++) {
+        if (cancelled) return;
+        try {
+          const page = await pdfDoc.getPage(p);
+          const viewport = page.getViewport({ scale: THUMBNAIL_SCALE });
+          const canvas = document.createElement('canvas');
+          const context = canvas.getContext('2d');
+          if (!context) continue;
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          await page.render({ canvas, canvasContext: context, viewport }).promise;
+          rendered[p] = canvas.toDataURL('image/png');
+          if (!cancelled) setThumbnails({ ...rendered });
+        } catch (err) {
+          console.error(`Thumbnail Error: Sheet ${p} could not be rendered.`, err);
+        }
+      }
+    };
+
+    renderThumbnails();
+    return () => { cancelled = true; };
+  }, [pdfDoc]);
+
+  if (!pdfDoc || pdfDoc.numPages < 2) return null;
+
+  return (
+    <div className="absolute bottom-6 left-6 right-64 z-10 flex items-center gap-3 bg-zinc-950/90 p-3 rounded-2xl border border-zinc-800 shadow-2xl backdrop-blur-md overflow-x-auto custom-scrollbar">
+      <div className="flex items-center gap-2 px-2 shrink-0 text-zinc-500">
+        <Layers size={14} />
+        <span className="text-[8px] font-black uppercase tracking-widest">Sheets</span>
+      </div>
+      {Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1).map(p => (
+        <button
+          key={p}
+          onClick={() => setPageNum(p)}
+          title={`Sheet ${p}`}
+          className={`relative shrink-0 w-16 h-20 rounded-lg border overflow-hidden bg-white transition-all active:scale-95
+            ${p === pageNum ? 'border-amber-500 ring-2 ring-amber-500/40' : 'border-zinc-800 opacity-60 hover:opacity-100'}`}
+        >
+          {thumbnails[p] ? (
+            <img src={thumbnails[p]} alt={`Sheet ${p}`} className="w-full h-full object-contain" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center bg-zinc-900">
+              <Loader2 size={12} className="animate-spin text-zinc-600" />
+            </div>
+          )}
+          <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[8px] font-black text-white text-center leading-4">
+            {p}
+          </span>
+          {(measurementCounts[p] || 0) > 0 && (
+            <span className="absolute top-0.5 right-0.5 px-1 rounded bg-emerald-500 text-[7px] font-black text-black leading-3">
+              {measurementCounts[p]}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default DrawingPageStrip;
@@ -8,7 +8,8 @@ import {
   CheckSquare,
   AlertCircle,
   Hash,
-  Database
+  Database,
+  Link2
 } from 'lucide-react';
 
 /* ======================================================
@@ -19,15 +20,10 @@ let useAuth: any = () => ({
   theme: 'dark',
 });
 
-let db: any = null;
-
 const resolveModules = async () => {
   try {
     const authMod = await import("../../../features/auth/AuthContext");
     if (authMod.useAuth) useAuth = authMod.useAuth;
-
-    const dbMod = await import("../../../lib/database/database");
-    if (dbMod.db) db = dbMod.db; 
   } catch (e) {
     // Sandbox fallback
   }
@@ -39,42 +35,59 @@ resolveModules();
 
 interface Measurement {
   id: string;
-  label: string;
+  label: string | null;
   type: 'length' | 'area' | 'count';
   value: number;
   unit: string;
   sectionCode: string;
+  page?: number;
+  bill_item_id?: string | null;
   timestamp: string;
 }
 
 interface GeometricRegistryProps {
   measurements: Measurement[];
-  onDelete: (id: string) => void;
+  /** Omitted when the user's role may not delete measurements */
+  onDelete?: (id: string) => void;
   activeSection: string;
+  selectedIds?: string[];
+  onToggleSelect?: (id: string) => void;
+  /** Bill item code/description keyed by id, shown on linked entries */
+  billItemLabels?: Record<string, string>;
 }
 
 /** --- SUB-COMPONENT: MEASUREMENT_ENTRY --- **/
 
 const MeasurementEntry: React.FC<{ 
   item: Measurement; 
-  onDelete: (id: string) => void; 
-  theme: 'light' | 'dark' 
-}> = ({ item, onDelete, theme }) => (
+  onDelete?: (id: string) => void; 
+  theme: 'light' | 'dark';
+  isSelected: boolean;
+  onToggleSelect?: (id: string) => void;
+  billItemLabel?: string;
+}> = ({ item, onDelete, theme, isSelected, onToggleSelect, billItemLabel }) => (
   <div className={`p-5 rounded-4xl border transition-all duration-300 group hover:scale-[1.01]
-    ${theme === 'dark' 
-      ? 'bg-zinc-900/40 border-zinc-800 hover:border-amber-500/30 shadow-xl shadow-black/20' 
-      : 'bg-white border-zinc-200 hover:border-amber-500/30 shadow-lg'}`}>
+    ${isSelected
+      ? 'border-amber-500 bg-amber-500/5'
+      : theme === 'dark' 
+        ? 'bg-zinc-900/40 border-zinc-800 hover:border-amber-500/30 shadow-xl shadow-black/20' 
+        : 'bg-white border-zinc-200 hover:border-amber-500/30 shadow-lg'}`}>
     
     <div className="flex justify-between items-start mb-4">
       <div className="flex items-center gap-3">
-        <div className={`p-2.5 rounded-xl border transition-all
-          ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-600' : 'bg-zinc-50 border-zinc-100 text-zinc-400'}
+        <div
+          onClick={() => onToggleSelect?.(item.id)}
+          title={onToggleSelect ? 'Select for Billing' : undefined}
+          className={`p-2.5 rounded-xl border transition-all ${onToggleSelect ? 'cursor-pointer' : ''}
+          ${isSelected
+            ? 'bg-amber-500 border-amber-500 text-black'
+            : theme === 'dark' ? 'bg-zinc-950 border-zinc-800 text-zinc-600' : 'bg-zinc-50 border-zinc-100 text-zinc-400'}
           group-hover:text-black group-hover:border-amber-500 group-hover:bg-amber-500`}>
           {item.type === 'length' ? <Ruler size={14} /> : item.type === 'area' ? <Maximize2 size={14} /> : <CheckSquare size={14} />}
         </div>
         <div className="text-left">
           <p className="text-[9px] font-black uppercase text-zinc-500 tracking-widest leading-none mb-1">
-            {item.sectionCode} • {item.type}
+            {item.sectionCode} • {item.type}{item.page ? ` • Sheet ${item.page}` : ''}
           </p>
           <h5 className={`text-xs font-bold uppercase truncate max-w-150px] leading-none
             ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-900'}`}>
@@ -82,13 +95,15 @@ const MeasurementEntry: React.FC<{
           </h5>
         </div>
       </div>
-      <button 
-        onClick={() => onDelete(item.id)}
-        className="p-2 text-zinc-700 hover:text-rose-500 transition-colors active:scale-90"
-        title="Remove Entry"
-      >
-        <Trash2 size={14} />
-      </button>
+      {onDelete && (
+        <button 
+          onClick={() => onDelete(item.id)}
+          className="p-2 text-zinc-700 hover:text-rose-500 transition-colors active:scale-90"
+          title="Remove Entry"
+        >
+          <Trash2 size={14} />
+        </button>
+      )}
     </div>
 
     <div className={`pt-4 border-t flex justify-between items-end ${theme === 'dark' ? 'border-zinc-800/60' : 'border-zinc-100'}`}>
@@ -102,6 +117,11 @@ const MeasurementEntry: React.FC<{
         </p>
       </div>
       <div className="flex flex-col items-end">
+        {billItemLabel && (
+          <span className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-500 leading-none mb-2 max-w-32 truncate">
+            <Link2 size={9} /> {billItemLabel}
+          </span>
+        )}
         <span className="text-[7px] font-mono text-zinc-700 uppercase tracking-widest leading-none mb-1">
           REF: {item.id.slice(0, 8).toUpperCase()}
         </span>
@@ -115,7 +135,10 @@ const MeasurementEntry: React.FC<{
 const GeometricRegistry: React.FC<GeometricRegistryProps> = ({ 
   measurements, 
   onDelete, 
-  activeSection
+  activeSection,
+  selectedIds = [],
+  onToggleSelect,
+  billItemLabels = {}
 }) => {
   const { theme } = useAuth();
 
@@ -153,18 +176,11 @@ const GeometricRegistry: React.FC<GeometricRegistryProps> = ({
             <MeasurementEntry 
               key={m.id} 
               item={m} 
-              onDelete={async (id) => {
-                // If a database is present, we remove it from local storage first
-                if (db) {
-                  try {
-                    await db.measurements.delete(id);
-                  } catch (err) {
-                    console.error("Ledger delete failed:", err);
-                  }
-                }
-                onDelete(id);
-              }} 
+              onDelete={onDelete} 
               theme={theme} 
+              isSelected={selectedIds.includes(m.id)}
+              onToggleSelect={onToggleSelect}
+              billItemLabel={m.bill_item_id ? billItemLabels[m.bill_item_id] ?? 'Billed' : undefined}
             />
           ))
         ) : (
@@ -0,0 +1,103 @@
+import * as pdfjsLib from "pdfjs-dist";
+import { db, syncEngine, type Drawing } from "../../lib/database/database";
+
+/** --- DRAWING VAULT (Device-side drawing register) --- **/
+
+/**
+ * The sample blueprint is fetched fresh each time rather than stored, so it
+ * keeps one fixed id for measurements taken on it to find it again.
+ */
+export const SAMPLE_DRAWING_ID = '00000000-0000-4000-8000-00000000d001';
+
+/**
+ * Sheet name derived from the uploaded file, e.g. "A-101 Ground Floor Plan.pdf" -> "A-101 Ground Floor Plan".
+ */
+export const sheetNameFromFile = (fileName: string): string =>
+  fileName.replace(/\.pdf$/i, '').trim() || 'Untitled Sheet';
+
+/**
+ * Drawing revisions follow the lettered convention used on title blocks: A, B, ... Z, AA, AB.
+ */
+export const nextRevision = (revision: string | null): string => {
+  if (!revision) return 'A';
+  const letters = revision.toUpperCase().split('');
+  let i = letters.length - 1;
+  while (i >= 0) {
+    if (letters[i] !== 'Z') {
+      letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+      return letters.join('');
+    }
+    letters[i] = 'A';
+    i--;
+  }
+  return 'A' + letters.join('');
+};
+
+/**
+ * All drawings registered against a project, most recently opened first.
+ */
+export const listProjectDrawings = async (projectId: string): Promise<Drawing[]> => {
+  const drawings = await db.drawings.where('project_id').equals(projectId).toArray();
+  return drawings.sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+};
+
+/**
+ * Stores an uploaded PDF in the vault. Re-uploading a sheet with the same name
+ * registers it as the next revision.
+ */
+export const saveDrawing = async (projectId: string, file: File, pageCount: number): Promise<Drawing> => {
+  const sheetName = sheetNameFromFile(file.name);
+  const existing = await listProjectDrawings(projectId);
+  const previous = existing
+    .filter(d => d.sheet_name === sheetName)
+    .sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at))[0];
+
+  const timestamp = new Date().toISOString();
+  const drawing: Drawing = {
+    id: crypto.randomUUID(),
+    project_id: projectId,
+    sheet_name: sheetName,
+    revision: nextRevision(previous?.revision ?? null),
+    file,
+    file_name: file.name,
+    file_size: file.size,
+    page_count: pageCount,
+    page_scales: {},
+    storage_path: null,
+    uploaded_at: timestamp,
+    opened_at: timestamp,
+    updated_at: timestamp
+  };
+
+  await db.drawings.add(drawing);
+  await syncEngine.queueChange('drawings', drawing.id, 'INSERT', { id: drawing.id, project_id: projectId });
+  return drawing;
+};
+
+/**
+ * Records that a drawing was opened so the takeoff page can reopen it next time.
+ */
+export const markDrawingOpened = async (drawingId: string) => {
+  await db.drawings.update(drawingId, { opened_at: new Date().toISOString() });
+};
+
+/**
+ * Persists the calibrated scale of each sheet and queues the metadata for upload.
+ */
+export const saveDrawingScales = async (drawingId: string, pageScales: Record<number, number>) => {
+  const updated_at = new Date().toISOString();
+  const changed = await db.drawings.update(drawingId, { page_scales: pageScales, updated_at });
+  if (changed) {
+    await syncEngine.queueChange('drawings', drawingId, 'UPDATE', { id: drawingId, page_scales: pageScales, updated_at });
+  }
+};
+
+/**
+ * Opens a stored drawing as a PDF.js document straight from the device blob.
+ */
+export const openDrawingDocument = async (drawing: Drawing) => {
+  const data = new Uint8Array(await drawing.file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  await markDrawingOpened(drawing.id);
+  return pdf;
+};
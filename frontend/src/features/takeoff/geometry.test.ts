@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { CanvasPoint } from '../../lib/database/database';
+import {
+  PDF_UNITS_PER_METRE,
+  calibrateScale,
+  computeCanvasQuantity,
+  computeQuantity,
+  isSelfIntersecting,
+  polygonArea,
+  ratioFromScale,
+  scaleFromRatio,
+  toCanvasSpace,
+  toDrawingSpace
+} from './geometry';
+
+// 100 drawing units to the metre keeps the expected figures readable
+const SCALE = 100;
+
+const pts = (...coords: [number, number][]): CanvasPoint[] => coords.map(([x, y]) => ({ x, y }));
+
+// The perimeter is the length of the outline walked back to its start
+const perimeterOf = (ring: CanvasPoint[]) => computeQuantity('length', [...ring, ring[0]], SCALE);
+
+const RECTANGLE = pts([0, 0], [1000, 0], [1000, 500], [0, 500]);
+const L_SHAPE = pts([0, 0], [400, 0], [400, 200], [200, 200], [200, 400], [0, 400]);
+const TRIANGLE = pts([0, 0], [300, 0], [0, 400]);
+const BOW_TIE = pts([0, 0], [100, 100], [100, 0], [0, 100]);
+
+describe('known shapes', () => {
+  it('measures a 10 x 5 m rectangle', () => {
+    expect(computeQuantity('area', RECTANGLE, SCALE)).toEqual({ value: 50, unit: 'm²', issue: null });
+    expect(perimeterOf(RECTANGLE).value).toBeCloseTo(30);
+  });
+
+  it('measures an L-shape as the sum of its two arms', () => {
+    expect(computeQuantity('area', L_SHAPE, SCALE).value).toBeCloseTo(12);
+    expect(perimeterOf(L_SHAPE).value).toBeCloseTo(16);
+  });
+
+  it('measures a 3-4-5 right triangle', () => {
+    expect(computeQuantity('area', TRIANGLE, SCALE).value).toBeCloseTo(6);
+    expect(perimeterOf(TRIANGLE).value).toBeCloseTo(12);
+  });
+
+  it('gives the same area whichever way the outline is traced', () => {
+    expect(polygonArea([...L_SHAPE].reverse())).toBeCloseTo(polygonArea(L_SHAPE));
+  });
+
+  it('counts points for count takeoffs, without needing a scale', () => {
+    expect(computeQuantity('count', pts([5, 5], [50, 50], [90, 10]), 0)).toEqual({ value: 3, unit: 'nr', issue: null });
+    expect(computeQuantity('count', [], SCALE).issue).toBe('insufficient-points');
+  });
+});
+
+describe('invalid outlines', () => {
+  it('rejects a bow-tie instead of billing its cancelled lobes', () => {
+    expect(isSelfIntersecting(BOW_TIE)).toBe(true);
+    expect(computeQuantity('area', BOW_TIE, SCALE)).toEqual({ value: 0, unit: 'm²', issue: 'self-intersecting' });
+  });
+
+  it('does not mistake simple polygons for self-intersecting ones', () => {
+    expect(isSelfIntersecting(RECTANGLE)).toBe(false);
+    expect(isSelfIntersecting(L_SHAPE)).toBe(false);
+  });
+
+  it('needs three corners for an area and two points for a length', () => {
+    expect(computeQuantity('area', pts([0, 0], [100, 0]), SCALE).issue).toBe('insufficient-points');
+    expect(computeQuantity('length', pts([0, 0]), SCALE).issue).toBe('insufficient-points');
+  });
+
+  it('flags measured quantities on an uncalibrated sheet', () => {
+    expect(computeQuantity('length', pts([0, 0], [100, 0]), 0)).toEqual({ value: 0, unit: 'm', issue: 'uncalibrated' });
+    expect(computeQuantity('area', RECTANGLE, NaN).issue).toBe('uncalibrated');
+  });
+});
+
+describe('duplicated closing vertex', () => {
+  it('tolerates the first point repeated at the end', () => {
+    const closed = [...RECTANGLE, { ...RECTANGLE[0] }];
+    expect(computeQuantity('area', closed, SCALE)).toEqual({ value: 50, unit: 'm²', issue: null });
+    expect(isSelfIntersecting(closed)).toBe(false);
+  });
+
+  it('does not count the repeat as a corner', () => {
+    const closedLine = [...pts([0, 0], [100, 0]), { x: 0, y: 0 }];
+    expect(computeQuantity('area', closedLine, SCALE).issue).toBe('insufficient-points');
+    expect(computeQuantity('area', [...TRIANGLE, { ...TRIANGLE[0] }], SCALE).value).toBeCloseTo(6);
+  });
+});
+
+describe('zoom normalisation', () => {
+  it('maps canvas points back to drawing space and out again', () => {
+    const canvas = toCanvasSpace(L_SHAPE, 2.5);
+    expect(canvas[1]).toEqual({ x: 1000, y: 0 });
+    expect(toDrawingSpace(canvas, 2.5)).toEqual(L_SHAPE);
+  });
+
+  it('measures the same quantity at any render zoom', () => {
+    for (const zoom of [0.5, 1, 1.75, 4]) {
+      const canvas = toCanvasSpace(RECTANGLE, zoom);
+      expect(computeCanvasQuantity('area', canvas, SCALE, zoom).value).toBeCloseTo(50);
+      expect(computeCanvasQuantity('length', canvas, SCALE, zoom).value).toBeCloseTo(25);
+    }
+  });
+
+  it('leaves points unscaled for a zoom of zero or less', () => {
+    expect(toDrawingSpace(TRIANGLE, 0)).toEqual(TRIANGLE);
+    expect(toDrawingSpace(TRIANGLE, -2)).not.toBe(TRIANGLE);
+  });
+});
+
+describe('drawing scale', () => {
+  it('converts a printed ratio into drawing units per metre', () => {
+    expect(scaleFromRatio(1)).toBeCloseTo(PDF_UNITS_PER_METRE);
+    expect(scaleFromRatio(100)).toBeCloseTo(28.3465, 3);
+  });
+
+  it('recovers the printed ratio from a scale', () => {
+    for (const ratio of [1, 20, 50, 100, 500, 1250]) {
+      expect(ratioFromScale(scaleFromRatio(ratio))).toBeCloseTo(ratio);
+    }
+  });
+
+  it('returns zero for ratios and scales that cannot apply', () => {
+    expect(scaleFromRatio(0)).toBe(0);
+    expect(scaleFromRatio(-100)).toBe(0);
+    expect(ratioFromScale(0)).toBe(0);
+    expect(ratioFromScale(NaN)).toBe(0);
+  });
+
+  it('calibrates from two points over a known dimension', () => {
+    expect(calibrateScale({ x: 0, y: 0 }, { x: 300, y: 400 }, 5)).toBeCloseTo(100);
+    expect(calibrateScale({ x: 10, y: 10 }, { x: 10, y: 10 + scaleFromRatio(50) * 6 }, 6)).toBeCloseTo(scaleFromRatio(50));
+  });
+
+  it('refuses a calibration without a positive real length', () => {
+    expect(calibrateScale({ x: 0, y: 0 }, { x: 100, y: 0 }, 0)).toBe(0);
+    expect(calibrateScale({ x: 0, y: 0 }, { x: 100, y: 0 }, -3)).toBe(0);
+  });
+
+  it('measures a calibrated line at its real length', () => {
+    const scale = calibrateScale({ x: 0, y: 0 }, { x: 850, y: 0 }, 8.5);
+    expect(computeQuantity('length', pts([0, 0], [0, 1700]), scale).value).toBeCloseTo(17);
+  });
+});
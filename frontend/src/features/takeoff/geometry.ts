@@ -0,0 +1,207 @@
+import type { CanvasPoint } from "../../lib/database/database";
+
+/** --- 1. DRAWING SCALE CONSTANTS --- **/
+
+/**
+ * PDF.js renders one PDF user unit (1/72 inch) as one canvas pixel at zoom 1.0.
+ * All stored measurement points live in this "drawing space" so they stay
+ * valid no matter how far the surveyor zooms in or out.
+ */
+export const PDF_UNITS_PER_METRE = 72 / 0.0254;
+
+export type MeasurementType = 'length' | 'area' | 'count';
+
+export type GeometryIssue = 'insufficient-points' | 'self-intersecting' | 'uncalibrated';
+
+export interface QuantityResult {
+  /** Real-world quantity in metres (length), square metres (area) or number (count) */
+  value: number;
+  unit: 'm' | 'm²' | 'nr';
+  issue: GeometryIssue | null;
+}
+
+/**
+ * Converts a printed drawing ratio (e.g. 1:100) into drawing pixels per real metre.
+ */
+export const scaleFromRatio = (denominator: number): number => {
+  if (!(denominator > 0)) return 0;
+  return PDF_UNITS_PER_METRE / denominator;
+};
+
+/**
+ * Inverse of `scaleFromRatio`: the printed ratio denominator a scale corresponds to.
+ */
+export const ratioFromScale = (pixelsPerMetre: number): number => {
+  if (!(pixelsPerMetre > 0)) return 0;
+  return PDF_UNITS_PER_METRE / pixelsPerMetre;
+};
+
+/**
+ * Derives a drawing scale from two drawing-space points picked over a dimension
+ * of known real length. Because both points are in drawing space the ratio
+ * stays valid at every render zoom.
+ */
+export const calibrateScale = (a: CanvasPoint, b: CanvasPoint, realMetres: number): number => {
+  if (!(realMetres > 0)) return 0;
+  return distance(a, b) / realMetres;
+};
+
+/**
+ * Normalises points captured on the zoomed canvas back into drawing space (zoom 1.0).
+ */
+export const toDrawingSpace = (points: CanvasPoint[], zoom: number): CanvasPoint[] => {
+  if (!(zoom > 0)) return points.map(p => ({ ...p }));
+  return points.map(p => ({ x: p.x / zoom, y: p.y / zoom }));
+};
+
+/**
+ * Projects drawing-space points onto the canvas at the given render zoom.
+ */
+export const toCanvasSpace = (points: CanvasPoint[], zoom: number): CanvasPoint[] =>
+  points.map(p => ({ x: p.x * zoom, y: p.y * zoom }));
+
+/** --- 2. PRIMITIVE GEOMETRY --- **/
+
+export const distance = (a: CanvasPoint, b: CanvasPoint): number =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Total run of an open polyline (sum of its segment lengths).
+ */
+export const polylineLength = (points: CanvasPoint[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distance(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+/**
+ * Signed shoelace area. Positive for clockwise rings in screen coordinates
+ * (y axis pointing down), negative for anti-clockwise rings.
+ */
+export const signedPolygonArea = (points: CanvasPoint[]): number => {
+  if (points.length < 3) return 0;
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    twiceArea += current.x * next.y - next.x * current.y;
+  }
+  return twiceArea / 2;
+};
+
+/**
+ * Enclosed area of a closed polygon. The closing edge is implied, so the
+ * first point must not be repeated at the end (a duplicate is tolerated).
+ */
+export const polygonArea = (points: CanvasPoint[]): number =>
+  Math.abs(signedPolygonArea(dropClosingPoint(points)));
+
+const EPSILON = 1e-9;
+
+const dropClosingPoint = (points: CanvasPoint[]): CanvasPoint[] => {
+  if (points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return distance(first, last) < EPSILON ? points.slice(0, -1) : points;
+};
+
+const orientation = (a: CanvasPoint, b: CanvasPoint, c: CanvasPoint): number => {
+  const cross = (b.y - a.y) * (c.x - b.x) - (b.x - a.x) * (c.y - b.y);
+  if (Math.abs(cross) < EPSILON) return 0;
+  return cross > 0 ? 1 : 2;
+};
+
+const onSegment = (a: CanvasPoint, b: CanvasPoint, c: CanvasPoint): boolean =>
+  b.x <= Math.max(a.x, c.x) + EPSILON && b.x >= Math.min(a.x, c.x) - EPSILON &&
+  b.y <= Math.max(a.y, c.y) + EPSILON && b.y >= Math.min(a.y, c.y) - EPSILON;
+
+/**
+ * True when segment p1-q1 touches or crosses segment p2-q2 (collinear overlaps included).
+ */
+export const segmentsIntersect = (
+  p1: CanvasPoint,
+  q1: CanvasPoint,
+  p2: CanvasPoint,
+  q2: CanvasPoint
+): boolean => {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+  return false;
+};
+
+/**
+ * Detects "bow-tie" polygons. The shoelace formula silently cancels the
+ * lobes of a self-intersecting ring, so such outlines must be rejected
+ * rather than billed.
+ */
+export const isSelfIntersecting = (points: CanvasPoint[]): boolean => {
+  const ring = dropClosingPoint(points);
+  const n = ring.length;
+  if (n < 4) return false;
+
+  for (let i = 0; i < n; i++) {
+    const a1 = ring[i];
+    const a2 = ring[(i + 1) % n];
+    for (let j = i + 1; j < n; j++) {
+      // Adjacent edges share a vertex by definition
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+      const b1 = ring[j];
+      const b2 = ring[(j + 1) % n];
+      if (segmentsIntersect(a1, a2, b1, b2)) return true;
+    }
+  }
+  return false;
+};
+
+/** --- 3. QUANTITY ENGINE --- **/
+
+/**
+ * Converts a drawing-space outline into a real-world quantity.
+ *
+ * @param type            The takeoff tool used to capture the points
+ * @param points          Points in drawing space (zoom 1.0), see `toDrawingSpace`
+ * @param pixelsPerMetre  Calibrated drawing scale for the sheet the points were taken on
+ */
+export const computeQuantity = (
+  type: MeasurementType,
+  points: CanvasPoint[],
+  pixelsPerMetre: number
+): QuantityResult => {
+  if (type === 'count') {
+    return { value: points.length, unit: 'nr', issue: points.length === 0 ? 'insufficient-points' : null };
+  }
+
+  const unit = type === 'area' ? 'm²' : 'm';
+  if (!(pixelsPerMetre > 0)) return { value: 0, unit, issue: 'uncalibrated' };
+
+  if (type === 'length') {
+    if (points.length < 2) return { value: 0, unit, issue: 'insufficient-points' };
+    return { value: polylineLength(points) / pixelsPerMetre, unit, issue: null };
+  }
+
+  const ring = dropClosingPoint(points);
+  if (ring.length < 3) return { value: 0, unit, issue: 'insufficient-points' };
+  if (isSelfIntersecting(ring)) return { value: 0, unit, issue: 'self-intersecting' };
+
+  return { value: polygonArea(ring) / (pixelsPerMetre * pixelsPerMetre), unit, issue: null };
+};
+
+/**
+ * Convenience wrapper for points captured directly on the zoomed canvas.
+ */
+export const computeCanvasQuantity = (
+  type: MeasurementType,
+  canvasPoints: CanvasPoint[],
+  pixelsPerMetre: number,
+  zoom: number
+): QuantityResult => computeQuantity(type, toDrawingSpace(canvasPoints, zoom), pixelsPerMetre);
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../features/auth/AuthContext";
+import { isAllowed, type PermissionAction, type PermissionResource } from "../features/auth/permissions";
+import { projectRoleFor } from "../features/projects/projectTeam";
+import type { ProjectRole } from "../lib/database/database";
+
+/**
+ * usePermissions Hook
+ * Answers `can(action, resource)` for the signed-in user. Given a project, the
+ * user's role on its team is looked up in the vault; a record's owner can also
+ * be passed straight to `can`.
+ */
+export const usePermissions = (projectId?: string) => {
+  const { user, role } = useAuth();
+  const userId = user?.id;
+  const [standing, setStanding] = useState<{ projectId: string; role: ProjectRole | null } | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !userId) return;
+    let active = true;
+    projectRoleFor(projectId, userId)
+      .then(projectRole => {
+        if (active) setStanding({ projectId, role: projectRole });
+      })
+      .catch(err => console.error("Permission Error: Project role unknown.", err));
+    return () => { active = false; };
+  }, [projectId, userId]);
+
+  // Until the team role is known the user is treated as outside the project
+  const projectRole = standing?.projectId === projectId ? standing?.role ?? null : null;
+
+  /**
+   * ownerId: the record's owner; omitted, the project role is used, or the
+   * user counts as owner when no project is given (e.g. creating something new).
+   */
+  const can = useCallback((action: PermissionAction, resource: PermissionResource, ownerId?: string | null) => {
+    const relation = ownerId !== undefined
+      ? (userId && ownerId === userId ? 'owner' : null)
+      : projectId ? projectRole : userId ? 'owner' : null;
+    return isAllowed(role, action, resource, relation);
+  }, [role, userId, projectId, projectRole]);
+
+  return { role, projectRole, can };
+};
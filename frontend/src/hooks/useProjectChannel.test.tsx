@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChannelHandlers, PresenceMember, ProjectChannelFactory, RowChange } from '../features/sync/projectChannel';
+
+const mocks = vi.hoisted(() => ({ applyLiveChange: vi.fn() }));
+
+vi.mock('../features/sync/projectChannel', () => ({
+  applyLiveChange: mocks.applyLiveChange,
+  defaultChannelFactory: () => ({ close: () => {} })
+}));
+
+import { useProjectChannel } from './useProjectChannel';
+
+/** --- MOCK CHANNEL FACTORY --- **/
+
+// Records each channel the hook opens, so tests can play realtime events into its handlers
+const mockFactory = () => {
+  const opened: { projectId: string; member: PresenceMember; handlers: ChannelHandlers; close: ReturnType<typeof vi.fn> }[] = [];
+  const factory: ProjectChannelFactory = (projectId, member, handlers) => {
+    const close = vi.fn();
+    opened.push({ projectId, member, handlers, close });
+    return { close };
+  };
+  return { factory, opened, latest: () => opened[opened.length - 1] };
+};
+
+const PROJECT = 'project-1';
+const ME = { user_id: 'user-me', name: 'Wanjiru', joined_at: '2026-10-19T08:00:00.000Z' };
+const COLLEAGUE = { user_id: 'user-2', name: 'Otieno', joined_at: '2026-10-19T08:05:00.000Z' };
+
+const setOnline = (online: boolean) => {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, value: online });
+  window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+};
+
+beforeEach(() => {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, value: true });
+  mocks.applyLiveChange.mockReset().mockResolvedValue(true);
+});
+
+describe('useProjectChannel', () => {
+  it('opens a channel for the project as the signed-in surveyor', () => {
+    const { factory, opened } = mockFactory();
+    renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    expect(opened).toHaveLength(1);
+    expect(opened[0].projectId).toBe(PROJECT);
+    expect(opened[0].member).toMatchObject({ user_id: ME.user_id, name: ME.name });
+  });
+
+  it('waits for a signed-in user before opening', () => {
+    const { factory, opened } = mockFactory();
+    renderHook(() => useProjectChannel(PROJECT, undefined, '', factory));
+    expect(opened).toHaveLength(0);
+  });
+
+  it('reports the link going from connecting to live', () => {
+    const { factory, latest } = mockFactory();
+    const { result } = renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    expect(result.current.status).toBe('connecting');
+
+    act(() => latest().handlers.onStatus('live'));
+    expect(result.current.status).toBe('live');
+  });
+
+  it('lists others as they join and leave, never the surveyor', () => {
+    const { factory, latest } = mockFactory();
+    const { result } = renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    act(() => latest().handlers.onStatus('live'));
+
+    act(() => latest().handlers.onPresence([ME, COLLEAGUE]));
+    expect(result.current.others).toEqual([COLLEAGUE]);
+
+    act(() => latest().handlers.onPresence([ME]));
+    expect(result.current.others).toEqual([]);
+  });
+
+  it('writes incoming row changes into the vault', () => {
+    const { factory, latest } = mockFactory();
+    renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    const change: RowChange = { table: 'measurements', event: 'DELETE', row: null, record_id: 'm-9' };
+
+    act(() => latest().handlers.onChange(change));
+    expect(mocks.applyLiveChange).toHaveBeenCalledWith(PROJECT, change);
+  });
+
+  it('hides others when the channel errors', () => {
+    const { factory, latest } = mockFactory();
+    const { result } = renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    act(() => {
+      latest().handlers.onStatus('live');
+      latest().handlers.onPresence([ME, COLLEAGUE]);
+    });
+
+    act(() => latest().handlers.onStatus('offline'));
+    expect(result.current).toEqual({ status: 'offline', others: [] });
+  });
+
+  it('closes the channel while the device is offline and reopens it on reconnect', () => {
+    const { factory, opened, latest } = mockFactory();
+    const { result } = renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    act(() => {
+      latest().handlers.onStatus('live');
+      latest().handlers.onPresence([ME, COLLEAGUE]);
+    });
+
+    act(() => setOnline(false));
+    expect(opened[0].close).toHaveBeenCalled();
+    expect(result.current).toEqual({ status: 'offline', others: [] });
+
+    act(() => setOnline(true));
+    expect(opened).toHaveLength(2);
+    act(() => {
+      latest().handlers.onStatus('live');
+      latest().handlers.onPresence([ME, COLLEAGUE]);
+    });
+    expect(result.current.others).toEqual([COLLEAGUE]);
+  });
+
+  it('closes the channel on unmount', () => {
+    const { factory, latest } = mockFactory();
+    const { unmount } = renderHook(() => useProjectChannel(PROJECT, ME.user_id, ME.name, factory));
+    unmount();
+    expect(latest().close).toHaveBeenCalled();
+  });
+});
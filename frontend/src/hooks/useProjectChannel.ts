@@ -0,0 +1,64 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  applyLiveChange,
+  defaultChannelFactory,
+  type ChannelStatus,
+  type PresenceMember,
+  type ProjectChannelFactory
+} from "../features/sync/projectChannel";
+
+/**
+ * useProjectChannel Hook
+ * Keeps a live channel open for the project on screen: changes other people make
+ * to its measurements and bill items land in the device vault as they happen,
+ * and everyone viewing the project is listed. The channel is closed while the
+ * device is offline and reopened when the connection returns; the regular sync
+ * heartbeat covers anything missed in between.
+ */
+export const useProjectChannel = (
+  projectId: string,
+  userId: string | undefined,
+  userName: string,
+  factory: ProjectChannelFactory = defaultChannelFactory
+) => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [status, setStatus] = useState<ChannelStatus>('connecting');
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!projectId || !userId || !isOnline) return;
+
+    const channel = factory(
+      projectId,
+      { user_id: userId, name: userName, joined_at: new Date().toISOString() },
+      {
+        onChange: (change) => {
+          applyLiveChange(projectId, change)
+            .catch(err => console.error("Live Session Error: Change not applied.", err));
+        },
+        onPresence: setMembers,
+        onStatus: setStatus
+      }
+    );
+    return () => channel.close();
+  }, [projectId, userId, userName, isOnline, factory]);
+
+  // Everyone else with the project open; nobody is shown while the link is down
+  const others = useMemo(
+    () => isOnline && status === 'live' ? members.filter(m => m.user_id !== userId) : [],
+    [isOnline, status, members, userId]
+  );
+
+  return { status: isOnline ? status : 'offline' as ChannelStatus, others };
+};
@@ -3,6 +3,7 @@ import { useEffect } from "react";
 // We use safe imports to ensure compilation in the sandbox.
 import { queryClient } from "../lib/queryClient";
 import { syncEngine } from "../lib/database/database";
+import { pullChanges } from "../lib/database/pullSync";
 
 /**
  * useSync Hook
@@ -27,13 +28,16 @@ export const useSync = () => {
         if (syncEngine && typeof syncEngine.processQueue === 'function') {
           await syncEngine.processQueue();
         }
+
+        // 2. Pull records changed on other devices since the last read
+        await pullChanges();
         
-        // 2. Resume any TanStack Query mutations that were paused while offline
+        // 3. Resume any TanStack Query mutations that were paused while offline
         if (queryClient && typeof queryClient.resumePausedMutations === 'function') {
           await queryClient.resumePausedMutations();
         }
         
-        // 3. Invalidate relevant queries to refresh UI with "Official" cloud data
+        // 4. Invalidate relevant queries to refresh UI with "Official" cloud data
         if (queryClient && typeof queryClient.invalidateQueries === 'function') {
           queryClient.invalidateQueries();
         }
@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+// jsdom supplies the WebSocket the Supabase client looks for when the module loads
+import { describe, expect, it } from 'vitest';
+import { classifySyncError, foldQueue, isConflicting, type SyncQueueItem } from './database';
+
+let nextId = 1;
+
+const change = (
+  operation: SyncQueueItem['operation'],
+  payload: Record<string, unknown>,
+  extra: Partial<SyncQueueItem> = {}
+): SyncQueueItem => ({
+  id: nextId++,
+  table: 'bill_items',
+  record_id: 'item-1',
+  operation,
+  payload,
+  base_version: null,
+  status: 'pending',
+  attempts: 0,
+  created_at: Date.now(),
+  ...extra
+});
+
+describe('queue folding', () => {
+  it('merges updates into the change before them', () => {
+    const insert = change('INSERT', { id: 'item-1', description: 'Excavation', quantity: 10 });
+    const first = change('UPDATE', { quantity: 12 });
+    const second = change('UPDATE', { rate: 850 });
+
+    const { removed, changed } = foldQueue([insert, first, second]);
+    expect(removed).toEqual([first.id, second.id]);
+    expect(changed).toHaveLength(1);
+    expect(changed[0].id).toBe(insert.id);
+    expect(changed[0].operation).toBe('INSERT');
+    expect(changed[0].payload).toEqual({ id: 'item-1', description: 'Excavation', quantity: 12, rate: 850 });
+  });
+
+  it('keeps the base version of the first change', () => {
+    const first = change('UPDATE', { quantity: 12 }, { base_version: '2026-10-19T08:00:00.000Z' });
+    const second = change('UPDATE', { quantity: 14 }, { base_version: '2026-10-19T09:00:00.000Z' });
+
+    const { changed } = foldQueue([first, second]);
+    expect(changed[0].base_version).toBe('2026-10-19T08:00:00.000Z');
+  });
+
+  it('leaves changes to different records apart', () => {
+    const item = change('UPDATE', { quantity: 12 });
+    const other = change('UPDATE', { quantity: 3 }, { record_id: 'item-2' });
+    const sameIdOtherTable = change('UPDATE', { value: 4 }, { table: 'measurements' });
+
+    expect(foldQueue([item, other, sameIdOtherTable])).toEqual({ removed: [], changed: [] });
+  });
+
+  it('drops a record created and deleted before it was ever pushed', () => {
+    const insert = change('INSERT', { id: 'item-1' });
+    const update = change('UPDATE', { quantity: 12 });
+    const remove = change('DELETE', { id: 'item-1' });
+
+    expect(foldQueue([insert, update, remove])).toEqual({ removed: [update.id, insert.id, remove.id], changed: [] });
+  });
+
+  it('still sends the delete once an insert has been attempted', () => {
+    const insert = change('INSERT', { id: 'item-1' }, { attempts: 1, base_version: '2026-10-19T08:00:00.000Z' });
+    const remove = change('DELETE', { id: 'item-1' });
+
+    const { removed, changed } = foldQueue([insert, remove]);
+    expect(removed).toEqual([insert.id]);
+    expect(changed).toEqual([{ ...remove, base_version: '2026-10-19T08:00:00.000Z' }]);
+  });
+
+  it('replaces pending updates with the delete that follows them', () => {
+    const update = change('UPDATE', { quantity: 12 }, { base_version: '2026-10-19T08:00:00.000Z' });
+    const remove = change('DELETE', { id: 'item-1' });
+
+    const { removed, changed } = foldQueue([update, remove]);
+    expect(removed).toEqual([update.id]);
+    expect(changed).toEqual([{ ...remove, base_version: '2026-10-19T08:00:00.000Z' }]);
+  });
+
+  it('leaves dead letters alone and does not merge across them', () => {
+    const before = change('UPDATE', { quantity: 12 });
+    const dead = change('UPDATE', { rate: -1 }, { status: 'dead', attempts: 3 });
+    const after = change('UPDATE', { quantity: 14 });
+
+    expect(foldQueue([before, dead, after])).toEqual({ removed: [], changed: [] });
+  });
+
+  it('does not fold a later delete into a dead insert', () => {
+    const dead = change('INSERT', { id: 'item-1' }, { status: 'dead' });
+    const remove = change('DELETE', { id: 'item-1' });
+
+    expect(foldQueue([dead, remove])).toEqual({ removed: [], changed: [] });
+  });
+});
+
+describe('sync error classification', () => {
+  it('dead-letters errors that retrying cannot fix', () => {
+    expect(classifySyncError({ code: '42501', message: 'new row violates row-level security policy' })).toBe('permanent');
+    expect(classifySyncError({ code: '23505', message: 'duplicate key value' })).toBe('permanent');
+    expect(classifySyncError({ code: '23514', message: 'check constraint' })).toBe('permanent');
+    expect(classifySyncError({ code: '22P02', message: 'invalid input syntax for type uuid' })).toBe('permanent');
+    expect(classifySyncError({ code: 'PGRST204', message: 'column not found' })).toBe('permanent');
+    expect(classifySyncError({ status: 400, message: 'Bad Request' })).toBe('permanent');
+  });
+
+  it('retries network failures, server trouble and rows waiting on a parent', () => {
+    expect(classifySyncError(new TypeError('Failed to fetch'))).toBe('transient');
+    expect(classifySyncError({ status: 503, message: 'Service Unavailable' })).toBe('transient');
+    expect(classifySyncError({ code: '23503', message: 'violates foreign key constraint' })).toBe('transient');
+    expect(classifySyncError({ code: '40001', message: 'could not serialize access' })).toBe('transient');
+    expect(classifySyncError(null)).toBe('transient');
+  });
+
+  it('retries expired sessions, timeouts, clashes and rate limits', () => {
+    for (const status of [401, 408, 409, 429]) {
+      expect(classifySyncError({ status })).toBe('transient');
+    }
+    expect(classifySyncError({ statusCode: '429' })).toBe('transient');
+  });
+});
+
+describe('conflict detection', () => {
+  const update = (payloadVersion: string, baseVersion: string | null, operation: SyncQueueItem['operation'] = 'UPDATE') =>
+    change(operation, { updated_at: payloadVersion }, { base_version: baseVersion });
+
+  it('passes a change made against the server row as it stands', () => {
+    const item = update('2026-10-19T10:00:00.000Z', '2026-10-19T08:00:00.000Z');
+    expect(isConflicting(item, { updated_at: '2026-10-19T08:00:00+00:00' })).toBe(false);
+  });
+
+  it('flags a change when the server row moved on since its base version', () => {
+    const item = update('2026-10-19T10:00:00.000Z', '2026-10-19T08:00:00.000Z');
+    expect(isConflicting(item, { updated_at: '2026-10-19T09:00:00+00:00' })).toBe(true);
+    // Older than the base still means someone else wrote it
+    expect(isConflicting(item, { updated_at: '2026-10-19T07:00:00+00:00' })).toBe(true);
+  });
+
+  it('treats the server already holding this exact edit as no conflict', () => {
+    const item = update('2026-10-19T10:00:00.000Z', '2026-10-19T08:00:00.000Z');
+    expect(isConflicting(item, { updated_at: '2026-10-19T10:00:00+00:00' })).toBe(false);
+  });
+
+  it('only flags newer rows for copies without a base version', () => {
+    const item = update('2026-10-19T10:00:00.000Z', null);
+    expect(isConflicting(item, { updated_at: '2026-10-19T11:00:00+00:00' })).toBe(true);
+    expect(isConflicting(item, { updated_at: '2026-10-19T09:00:00+00:00' })).toBe(false);
+    expect(isConflicting(update('2026-10-19T10:00:00.000Z', null, 'DELETE'), { updated_at: '2026-10-19T11:00:00+00:00' })).toBe(false);
+  });
+
+  it('ignores rows without a readable version', () => {
+    expect(isConflicting(update('2026-10-19T10:00:00.000Z', '2026-10-19T08:00:00.000Z'), { updated_at: null })).toBe(false);
+  });
+});
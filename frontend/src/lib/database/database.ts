@@ -21,6 +21,9 @@ export const supabase = createClient(
   supabaseAnonKey || "placeholder"
 );
 
+// False in local development without a Supabase project; cloud-only features fall back
+export const isCloudConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
 /** --- 2. DATABASE INTERFACES --- **/
 
 export type UserRole = 'user' | 'editor' | 'admin' | 'super-admin';
@@ -46,20 +49,60 @@ export interface Project {
   created_at: string;
   updated_at: string;
   synced_at?: string;
+  server_version?: string | null; // Server updated_at this copy was last reconciled with
+  deleted_at?: string | null; // Set while the project sits in the recycle bin
   username?: string; 
+  member_role?: ProjectRole; // The viewer's standing on the project; set when listing, never stored
+}
+
+/**
+ * Per-project team roles. The owner created the project; a QS measures, prices
+ * and certifies; a reviewer and a viewer read, the reviewer signing off checks.
+ */
+export type ProjectRole = 'owner' | 'qs' | 'reviewer' | 'viewer';
+
+export interface ProjectMember {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  invited_by: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+/**
+ * An invitation addressed to the signed-in user, as listed by the cloud.
+ */
+export interface ProjectInvitation {
+  id: string;
+  project_id: string;
+  project_name: string;
+  role: ProjectRole;
+  invited_by_name: string | null;
+  created_at: string;
 }
 
+export type BillUnit = 'm3' | 'm2' | 'm' | 'nr' | 'kg' | 't';
+
 export interface BillItem {
   id: string;
   project_id: string;
   item_code: string | null;
+  section: string | null; // SMM work section the item is billed under
   description: string;
-  unit: 'm3' | 'm2' | 'm' | 'nr' | 'kg' | 't';
+  unit: BillUnit;
   rate: number;
+  rate_id: string | null; // Price book rate the rate was picked from
+  rate_code: string | null; // Its code, kept should the rate be hidden or deleted
   quantity: number;
+  sort_order: number; // Position in the bill; sections follow their first item
   amount?: number; 
   created_at: string;
   updated_at: string;
+  server_version?: string | null;
 }
 
 export interface CanvasPoint {
@@ -76,21 +119,247 @@ export interface Measurement {
   value: number;
   unit: string;
   sectionCode: string; // Added to support SMM Work Section filtering
-  points: CanvasPoint[] | null; 
+  points: CanvasPoint[] | null; // Drawing space (zoom 1.0) coordinates
+  drawing_id: string | null; // Drawing the points were taken on
+  page: number; // 1-based sheet within the drawing set
   created_at: string;
   updated_at: string;
   timestamp: string; // Used for "Recent Audit Entries" on dashboard
+  server_version?: string | null;
+  deleted_at?: string | null;
+}
+
+export interface Drawing {
+  id: string;
+  project_id: string;
+  sheet_name: string;
+  revision: string;
+  file: Blob; // Original PDF, kept on the device for offline takeoff
+  file_name: string;
+  file_size: number;
+  page_count: number;
+  page_scales: Record<number, number>; // Calibrated pixels-per-metre per sheet
+  storage_path: string | null; // Supabase Storage object once uploaded
+  uploaded_at: string;
+  opened_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+export interface Certificate {
+  id: string;
+  project_id: string;
+  sequence: number; // 1-based position in the project's valuation history
+  cert_number: string; // e.g. "IPC/003"
+  valuation_date: string; // ISO date
+  contractor: string;
+  work_executed: number;
+  materials_on_site: number;
+  gross_valuation: number;
+  retention_percent: number;
+  retention_amount: number;
+  previous_certified: number;
+  amount_due: number; // Excluding VAT
+  vat_amount: number;
+  total_due: number;
+  fluctuations: number; // Price fluctuations to date, part of the gross valuation
+  fluctuation_base_date: string | null; // ISO date prices were indexed from
+  price_index: number | null; // Price book index at the valuation date, base = 1
+  non_adjustable_percent: number | null;
+  renumbered_from: number | null; // Sequence it was issued under offline, when the cloud had to renumber it
+  is_paid: boolean;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+export type RateCategory = 'material' | 'labour' | 'plant';
+
+/**
+ * A unit rate from the price book. Office rates have no owner; a surveyor's
+ * personal rate may override one office rate for them alone.
+ */
+export interface Rate {
+  id: string;
+  code: string;
+  name: string;
+  category: RateCategory;
+  unit: string;
+  rate: number;
+  region: string | null;
+  effective_date: string; // YYYY-MM-DD the price applies from
+  notes: string | null;
+  owner_id: string | null; // null for the shared office book
+  overrides_rate_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+/**
+ * A price a rate had from a given date. Recorded by the cloud whenever a rate's
+ * price or date changes; devices only read it.
+ */
+export interface RateHistoryEntry {
+  id: string;
+  rate_id: string;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD
+  recorded_by: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+/**
+ * One resource in a rate build-up, e.g. 6 bags of cement per m3 of concrete.
+ * The code, unit and price are copied from the rate when it is applied, so the
+ * line still prices for team members who cannot see that rate.
+ */
+export interface RateAnalysisLine {
+  rate_id: string | null;
+  code: string;
+  name: string;
+  category: RateCategory;
+  unit: string;
+  unit_rate: number;
+  quantity: number; // Per `output_quantity` of the bill item's unit
+  wastage_percent: number;
+  rate_deleted?: boolean; // The rate was deleted; the line keeps its last price
+}
+
+/**
+ * How a bill item's rate is built up from the price book. The item's rate is
+ * always the analysis' composite rate while one is attached.
+ */
+export interface RateAnalysis {
+  id: string;
+  project_id: string;
+  bill_item_id: string;
+  output_quantity: number;
+  overheads_percent: number; // Overheads & profit, on top of the direct cost
+  lines: RateAnalysisLine[];
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
 }
 
+/**
+ * A rate as copied into a project's price book snapshot.
+ */
+export type PriceBookRate = Pick<Rate, 'code' | 'name' | 'category' | 'unit' | 'rate' | 'region' | 'effective_date'> & {
+  rate_id: string;
+};
+
+/**
+ * A numbered snapshot of the price book taken for a project. While locked, the
+ * project's rate build-ups are priced from it instead of the live rates.
+ */
+export interface PriceBook {
+  id: string;
+  project_id: string;
+  version: number;
+  label: string; // e.g. "Tender, March 2026"
+  rates: PriceBookRate[];
+  is_locked: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at?: string;
+  server_version?: string | null;
+}
+
+export type AuditAction =
+  | 'role_change'
+  | 'project_delete'
+  | 'project_restore'
+  | 'project_purge'
+  | 'certificate_issue'
+  | 'dead_letter_discard';
+
+/**
+ * One line of the office audit log. The cloud copy is append-only; devices only
+ * hold the entries they recorded themselves until they are pushed.
+ */
+export interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_name?: string | null; // Stamped by the server
+  action: AuditAction;
+  target_type: string;
+  target_id: string | null;
+  target_label: string | null;
+  project_id: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  synced_at?: string;
+}
+
+export interface AuditFilter {
+  actorId?: string;
+  action?: AuditAction;
+  target?: string; // Matched against the target's label
+  from?: string; // ISO dates, inclusive
+  to?: string;
+}
+
+/**
+ * Binned records stay on the device and in the cloud until purged, but every
+ * working view leaves them out.
+ */
+export const isBinned = (record: { deleted_at?: string | null }) => Boolean(record.deleted_at);
+
+export type SyncTable = 'projects' | 'bill_items' | 'measurements' | 'profiles' | 'drawings' | 'certificates' | 'project_members' | 'audit_log' | 'rates' | 'rate_history' | 'rate_analyses' | 'price_books';
+
 export interface SyncQueueItem {
   id?: number;
-  table: 'projects' | 'bill_items' | 'measurements' | 'profiles';
+  table: SyncTable;
   operation: 'INSERT' | 'UPDATE' | 'DELETE';
   record_id: string;
   payload: Record<string, unknown>;
+  base_version?: string | null; // Server updated_at the change was made against
+  status?: 'pending' | 'dead'; // Dead letters wait for someone to edit, retry or discard them
+  attempts?: number;
+  next_attempt_at?: number; // Epoch ms; the item is left alone until then
+  last_error?: string | null;
   created_at: number;
 }
 
+export type SyncOperation = SyncQueueItem['operation'];
+
+/**
+ * A queued change that met a newer server row. Held on the device until the
+ * surveyor decides, field by field, which values survive.
+ */
+export interface SyncConflict {
+  id?: number;
+  table: SyncTable;
+  record_id: string;
+  operation: SyncOperation;
+  local: Record<string, unknown>;
+  remote: Record<string, unknown>;
+  base_version: string | null;
+  detected_at: number;
+}
+
+/**
+ * How far the device has read a cloud table. Rows are read in (server_updated_at, id)
+ * order, so the pair marks the last row applied.
+ */
+export interface SyncCursor {
+  table: SyncTable | 'tombstones';
+  version: string; // server_updated_at (deleted_at for tombstones) of the last row read
+  record_id: string;
+  pulled_at: number;
+}
+
 /** --- 3. DEXIE LOCAL STORAGE (The Device Vault) --- **/
 
 class QSPocketKnifeDB extends Dexie {
@@ -98,7 +367,17 @@ class QSPocketKnifeDB extends Dexie {
   projects!: Table<Project, string>;
   bill_items!: Table<BillItem, string>;
   measurements!: Table<Measurement, string>;
+  drawings!: Table<Drawing, string>;
+  certificates!: Table<Certificate, string>;
+  project_members!: Table<ProjectMember, string>;
+  audit_log!: Table<AuditEntry, string>;
+  rates!: Table<Rate, string>;
+  rate_analyses!: Table<RateAnalysis, string>;
+  rate_history!: Table<RateHistoryEntry, string>;
+  price_books!: Table<PriceBook, string>;
   sync_queue!: Table<SyncQueueItem, number>;
+  sync_conflicts!: Table<SyncConflict, number>;
+  sync_cursors!: Table<SyncCursor, string>;
 
   constructor() {
     super("QSPocketKnifeDB");
@@ -111,6 +390,108 @@ class QSPocketKnifeDB extends Dexie {
       measurements: "id, project_id, bill_item_id, sectionCode, timestamp",
       sync_queue: "++id, table, operation, record_id, created_at"
     });
+
+    // v2: Measurements are bound to the drawing sheet they were taken from
+    this.version(2).stores({
+      measurements: "id, project_id, bill_item_id, sectionCode, timestamp, drawing_id, [drawing_id+page]"
+    }).upgrade(tx => tx.table('measurements').toCollection().modify(m => {
+      if (m.page === undefined) m.page = 1;
+      if (m.drawing_id === undefined) m.drawing_id = null;
+    }));
+
+    // v3: Uploaded drawing sets live in the vault so takeoff works offline
+    this.version(3).stores({
+      drawings: "id, project_id, opened_at"
+    });
+
+    // v4: Bill items are ordered and grouped under work sections
+    this.version(4).stores({
+      bill_items: "id, project_id, item_code, section"
+    }).upgrade(tx => {
+      let position = 0;
+      return tx.table('bill_items').toCollection().modify(b => {
+        if (b.section === undefined) b.section = null;
+        if (b.sort_order === undefined) b.sort_order = position++;
+      });
+    });
+
+    // v5: Issued payment certificates form the project's valuation history
+    this.version(5).stores({
+      certificates: "id, project_id, [project_id+sequence]"
+    });
+
+    // v6: Offline edits that collide with newer server rows wait here for resolution
+    this.version(6).stores({
+      sync_conflicts: "++id, [table+record_id], detected_at"
+    });
+
+    // v7: Queue items carry retry state so one bad row cannot block the rest
+    this.version(7).stores({
+      sync_queue: "++id, table, operation, record_id, created_at, status"
+    }).upgrade(tx => tx.table('sync_queue').toCollection().modify(item => {
+      if (item.status === undefined) item.status = 'pending';
+      if (item.attempts === undefined) item.attempts = 0;
+    }));
+
+    // v8: Per-table read positions for pulling other devices' changes
+    this.version(8).stores({
+      sync_cursors: "table"
+    });
+
+    // v9: Project teams, so projects shared with the surveyor open offline too
+    this.version(9).stores({
+      project_members: "id, project_id, user_id, [project_id+user_id]"
+    });
+
+    // v10: Audit entries recorded on the device wait here until the queue pushes them
+    this.version(10).stores({
+      audit_log: "id, created_at"
+    });
+
+    // v11: The price book, office rates and personal ones, kept for offline pricing
+    this.version(11).stores({
+      rates: "id, owner_id, code, category, overrides_rate_id"
+    });
+
+    // v12: Rate build-ups behind bill item rates, re-priced when the price book changes
+    this.version(12).stores({
+      rate_analyses: "id, project_id, bill_item_id"
+    });
+
+    // v13: Dated rate prices for charts and escalation; certificates carry fluctuations
+    this.version(13).stores({
+      rate_history: "id, rate_id, [rate_id+effective_date]"
+    }).upgrade(tx => tx.table('certificates').toCollection().modify(c => {
+      if (c.fluctuations === undefined) c.fluctuations = 0;
+      if (c.fluctuation_base_date === undefined) c.fluctuation_base_date = null;
+      if (c.price_index === undefined) c.price_index = null;
+      if (c.non_adjustable_percent === undefined) c.non_adjustable_percent = null;
+    }));
+
+    // v14: Price book snapshots a project can be locked to
+    this.version(14).stores({
+      price_books: "id, project_id, [project_id+version]"
+    });
+
+    // v15: Bill items remember the price book rate they were priced from
+    this.version(15).stores({
+      bill_items: "id, project_id, item_code, section, rate_id"
+    }).upgrade(tx => tx.table('bill_items').toCollection().modify(b => {
+      if (b.rate_id === undefined) b.rate_id = null;
+      if (b.rate_code === undefined) b.rate_code = null;
+    }));
+
+    // v16: Pull positions follow the server's change stamp, not the device edit time
+    this.version(16).stores({
+      sync_cursors: "table"
+    }).upgrade(tx => tx.table('sync_cursors').clear());
+
+    // v17: Certificates the cloud renumbered after an offline clash say so
+    this.version(17).stores({
+      certificates: "id, project_id, [project_id+sequence]"
+    }).upgrade(tx => tx.table('certificates').toCollection().modify(c => {
+      if (c.renumbered_from === undefined) c.renumbered_from = null;
+    }));
   }
 }
 
@@ -118,65 +499,402 @@ export const db = new QSPocketKnifeDB();
 
 /** --- 4. SYNC ENGINE (Heartbeat Logic) --- **/
 
-export const syncEngine = {
-  processQueue: async () => {
-    if (!navigator.onLine) return;
+export const DRAWINGS_BUCKET = 'drawings';
 
-    const queue = await db.sync_queue.orderBy('id').toArray();
-    if (queue.length === 0) return;
-
-    for (const item of queue) {
-      try {
-        let error = null;
-
-        if (item.operation === 'INSERT' || item.operation === 'UPDATE') {
-          // Clean payload of UI-only calculated fields before cloud injection
-          const { amount: _amount, ...cleanPayload } = item.payload as any;
-
-          const { error: upsertError } = await supabase
-            .from(item.table)
-            .upsert(cleanPayload, { onConflict: 'id' });
-          
-          error = upsertError;
-        } else if (item.operation === 'DELETE') {
-          const { error: deleteError } = await supabase
-            .from(item.table)
-            .delete()
-            .eq('id', item.record_id);
-          error = deleteError;
-        }
+/**
+ * Drawings carry a PDF blob that cannot travel in a row upsert.
+ * The blob goes to Supabase Storage first, then the metadata row follows.
+ */
+const pushDrawing = async (item: SyncQueueItem) => {
+  if (item.operation === 'DELETE') {
+    const storagePath = (item.payload as { storage_path?: string | null }).storage_path;
+    if (storagePath) {
+      const { error: storageError } = await supabase.storage.from(DRAWINGS_BUCKET).remove([storagePath]);
+      if (storageError) return storageError;
+    }
+    const { error } = await supabase.from('drawings').delete().eq('id', item.record_id);
+    return error;
+  }
+
+  const drawing = await db.drawings.get(item.record_id);
+  if (!drawing) return null; // Deleted locally before it could be uploaded
+
+  const { file, ...metadata } = drawing;
+  const storagePath = drawing.storage_path || `${drawing.project_id}/${drawing.id}.pdf`;
+
+  if (!drawing.storage_path) {
+    const { error: uploadError } = await supabase.storage
+      .from(DRAWINGS_BUCKET)
+      .upload(storagePath, file, { contentType: 'application/pdf', upsert: true });
+    if (uploadError) return uploadError;
+    await db.drawings.update(drawing.id, { storage_path: storagePath });
+  }
+
+  const { synced_at: _syncedAt, server_version: _serverVersion, ...row } = metadata;
+  const { error } = await supabase
+    .from('drawings')
+    .upsert({ ...row, storage_path: storagePath }, { onConflict: 'id' });
+  return error;
+};
+
+// Postgres returns "+00:00" offsets where the client wrote "Z", so versions are compared as instants
+export const isConflicting = (item: SyncQueueItem, remote: Record<string, unknown>) => {
+  const remoteVersion = Date.parse(remote.updated_at as string);
+  const localVersion = Date.parse(item.payload.updated_at as string);
+  if (Number.isNaN(remoteVersion) || remoteVersion === localVersion) return false;
+
+  const baseVersion = item.base_version ? Date.parse(item.base_version) : NaN;
+  return !Number.isNaN(baseVersion)
+    ? remoteVersion !== baseVersion
+    : item.operation !== 'DELETE' && remoteVersion > localVersion;
+};
+
+/**
+ * Compares queued changes with the server rows they would overwrite, in one read.
+ * A row is a conflict when it has moved on since the version the local edit was
+ * based on. Copies that predate version tracking only conflict with a newer row.
+ */
+const detectConflicts = async (items: SyncQueueItem[]) => {
+  const conflicts = new Map<number, Record<string, unknown>>();
+  if (items.length === 0) return { conflicts, error: null };
+
+  const { data, error } = await supabase
+    .from(items[0].table)
+    .select('*')
+    .in('id', items.map(item => item.record_id));
+  if (error) return { conflicts, error };
+
+  const remoteRows = new Map((data || []).map(row => [row.id as string, row as Record<string, unknown>]));
+  for (const item of items) {
+    const remote = remoteRows.get(item.record_id);
+    if (remote && isConflicting(item, remote)) conflicts.set(item.id!, remote);
+  }
+  return { conflicts, error: null };
+};
+
+/**
+ * Moves a queued change into the conflict store. Later changes to a record that
+ * is already held are folded into the same conflict rather than pushed over it.
+ */
+const holdConflict = async (item: SyncQueueItem, remote: Record<string, unknown> | null) => {
+  await db.transaction('rw', db.sync_queue, db.sync_conflicts, async () => {
+    const existing = await db.sync_conflicts
+      .where('[table+record_id]')
+      .equals([item.table, item.record_id])
+      .first();
+
+    if (existing) {
+      await db.sync_conflicts.update(existing.id!, {
+        operation: item.operation === 'DELETE' ? 'DELETE' : existing.operation,
+        local: { ...existing.local, ...item.payload },
+        remote: remote || existing.remote
+      });
+    } else if (remote) {
+      await db.sync_conflicts.add({
+        table: item.table,
+        record_id: item.record_id,
+        operation: item.operation,
+        local: item.payload,
+        remote,
+        base_version: item.base_version ?? null,
+        detected_at: Date.now()
+      });
+    }
+    await db.sync_queue.delete(item.id!);
+  });
+};
+
+/** --- 5. RETRY POLICY --- **/
+
+export const MAX_SYNC_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_CAP_MS = 10 * 60 * 1000;
+
+type SyncFailure = { message?: string; code?: string; status?: number; statusCode?: string | number } | null | undefined;
+
+// SQLSTATE classes and PostgREST codes that will fail the same way however often they are retried
+const PERMANENT_CODES = /^(42501|23505|23502|23514|22\w{3}|42703|42P01|42883|PGRST1\d\d|PGRST20\d)$/;
+
+/**
+ * Transient failures (network, timeouts, server load, a parent row not synced yet)
+ * are retried with backoff. Permanent ones, such as an RLS violation or a constraint
+ * the row can never satisfy, go straight to the dead-letter state.
+ */
+export const classifySyncError = (error: unknown): 'transient' | 'permanent' => {
+  const failure = error as SyncFailure;
+  if (failure?.code && PERMANENT_CODES.test(failure.code)) return 'permanent';
+  const status = Number(failure?.status ?? failure?.statusCode);
+  if (status >= 400 && status < 500 && ![401, 408, 409, 429].includes(status)) return 'permanent';
+  return 'transient';
+};
+
+const describeSyncError = (error: unknown) => {
+  const failure = error as SyncFailure;
+  const message = error instanceof Error ? error.message : failure?.message || 'Unknown failure';
+  return failure?.code ? `${failure.code}: ${message}` : message;
+};
+
+/**
+ * Counts the attempt and either schedules the next one or dead-letters the item.
+ */
+const recordFailure = async (item: SyncQueueItem, error: unknown) => {
+  const attempts = (item.attempts ?? 0) + 1;
+  const dead = classifySyncError(error) === 'permanent' || attempts >= MAX_SYNC_ATTEMPTS;
+  await db.sync_queue.update(item.id!, {
+    attempts,
+    status: dead ? 'dead' : 'pending',
+    last_error: describeSyncError(error),
+    next_attempt_at: dead ? 0 : Date.now() + Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1))
+  });
+  console.error(`[Office Sync] ${dead ? 'Dead-lettered' : 'Will retry'} ${item.table} ${item.record_id}:`, describeSyncError(error));
+};
+
+/** --- 6. QUEUE COMPACTION & BATCHING --- **/
+
+const UPLOAD_BATCH_SIZE = 100;
+
+// Rows that are only ever inserted: nothing to conflict with, and a repeated push is a no-op
+const APPEND_ONLY_TABLES = new Set<SyncTable>(['audit_log']);
+
+const upsertOptions = (table: SyncTable) => ({ onConflict: 'id', ignoreDuplicates: APPEND_ONLY_TABLES.has(table) });
+
+const recordKey = (item: SyncQueueItem) => `${item.table}:${item.record_id}`;
+
+/**
+ * Folds successive changes to the same record into one before upload: updates
+ * merge into the change before them, and a record created and deleted again
+ * before it ever reached the cloud leaves the queue entirely. Dead letters are
+ * left exactly as they are for someone to review. Takes the queue in id order
+ * and returns the items to delete and the rewritten items to put back.
+ */
+export const foldQueue = (queue: SyncQueueItem[]) => {
+  const heads = new Map<string, SyncQueueItem>();
+  const changed = new Map<number, SyncQueueItem>();
+  const removed: number[] = [];
+
+  for (const item of queue) {
+    const key = recordKey(item);
+    const head = heads.get(key);
+    if (item.status === 'dead') {
+      heads.delete(key);
+      continue;
+    }
+    if (!head) {
+      if (item.operation !== 'DELETE') heads.set(key, item);
+      continue;
+    }
+
+    if (item.operation === 'DELETE') {
+      removed.push(head.id!);
+      changed.delete(head.id!);
+      if (head.operation === 'INSERT' && !head.attempts) {
+        // Never reached the cloud, so there is nothing to delete there either
+        removed.push(item.id!);
+      } else {
+        changed.set(item.id!, { ...item, base_version: head.base_version ?? item.base_version });
+      }
+      heads.delete(key);
+      continue;
+    }
+
+    const merged: SyncQueueItem = { ...head, payload: { ...head.payload, ...item.payload } };
+    heads.set(key, merged);
+    changed.set(head.id!, merged);
+    removed.push(item.id!);
+  }
+
+  return { removed, changed: [...changed.values()] };
+};
+
+const compactQueue = async () => {
+  await db.transaction('rw', db.sync_queue, async () => {
+    const { removed, changed } = foldQueue(await db.sync_queue.orderBy('id').toArray());
+    if (removed.length > 0) await db.sync_queue.bulkDelete(removed);
+    if (changed.length > 0) await db.sync_queue.bulkPut(changed);
+  });
+};
+
+// Strip UI-only calculated fields and device bookkeeping before cloud injection
+const uploadPayload = (item: SyncQueueItem) => {
+  const { amount: _amount, server_version: _serverVersion, ...row } = item.payload as any;
+  return row as Record<string, unknown>;
+};
+
+/**
+ * Upserts to one table with the same columns can share a request. Mixed column
+ * sets cannot: PostgREST would write NULL into the columns a row left out.
+ */
+const batchSignature = (item: SyncQueueItem) =>
+  item.table === 'drawings' || item.operation === 'DELETE'
+    ? null
+    : `${item.table}|${Object.keys(uploadPayload(item)).sort().join(',')}`;
+
+const pushItem = async (item: SyncQueueItem) => {
+  if (item.table === 'drawings') return pushDrawing(item);
 
-        if (!error) {
-          // Success: Remove from local queue
-          await db.sync_queue.delete(item.id!);
-          
-          // Mark local record as synced
-          const targetTable = db[item.table as keyof QSPocketKnifeDB] as Table<any, any>;
-          if (targetTable && typeof targetTable.update === 'function') {
-            await targetTable.update(item.record_id, { synced_at: new Date().toISOString() });
-          }
+  if (item.operation === 'DELETE') {
+    const { error } = await supabase.from(item.table).delete().eq('id', item.record_id);
+    return error;
+  }
+
+  const { error } = await supabase.from(item.table).upsert(uploadPayload(item), upsertOptions(item.table));
+  return error;
+};
+
+const markSynced = async (items: SyncQueueItem[]) => {
+  const syncedAt = new Date().toISOString();
+  await db.sync_queue.bulkDelete(items.map(item => item.id!));
+
+  // Each local record now matches the version on the server
+  for (const item of items) {
+    const pushedVersion = item.payload.updated_at as string | undefined;
+    await db.table(item.table).update(item.record_id, {
+      synced_at: syncedAt,
+      ...(pushedVersion ? { server_version: pushedVersion } : {})
+    });
+  }
+};
+
+/**
+ * Uploads a group of changes from one table: conflicts are checked in a single
+ * read, the rest go up in a single upsert. If the batch is refused, its rows are
+ * retried one at a time so a bad row fails alone.
+ */
+const pushGroup = async (items: SyncQueueItem[], blocked: Set<string>) => {
+  const fail = async (failed: SyncQueueItem[], error: unknown) => {
+    for (const item of failed) {
+      await recordFailure(item, error);
+      blocked.add(recordKey(item));
+    }
+  };
+
+  try {
+    let ready = items;
+
+    if (items[0].table !== 'drawings' && !APPEND_ONLY_TABLES.has(items[0].table)) {
+      const held = await db.sync_conflicts
+        .where('[table+record_id]')
+        .anyOf(items.map(item => [item.table, item.record_id]))
+        .toArray();
+      const heldIds = new Set(held.map(conflict => conflict.record_id));
+      const { conflicts, error } = await detectConflicts(items.filter(item => !heldIds.has(item.record_id)));
+      if (error) return fail(items, error);
+
+      ready = [];
+      for (const item of items) {
+        if (heldIds.has(item.record_id) || conflicts.has(item.id!)) {
+          // Leave the server row alone until the surveyor resolves it
+          await holdConflict(item, conflicts.get(item.id!) ?? null);
         } else {
-          console.error(`[Office Sync] Supabase error for ${item.table}:`, error.message);
-          break; // Stop processing queue on error to maintain data integrity
+          ready.push(item);
         }
-      } catch (err) {
-        console.error(`[Office Sync] Handshake Failure:`, err);
-        break; 
       }
     }
+    if (ready.length === 0) return;
+
+    if (ready.length === 1) {
+      const error = await pushItem(ready[0]);
+      return error ? fail(ready, error) : markSynced(ready);
+    }
+
+    const { error: batchError } = await supabase
+      .from(ready[0].table)
+      .upsert(ready.map(uploadPayload), upsertOptions(ready[0].table));
+    if (!batchError) return markSynced(ready);
+
+    for (const item of ready) {
+      const error = await pushItem(item);
+      if (error) await fail([item], error);
+      else await markSynced([item]);
+    }
+  } catch (err) {
+    await fail(items, err);
+  }
+};
+
+/**
+ * One pass over the compacted queue in order. Consecutive upserts to the same
+ * table travel together; a change of table, a delete or a drawing closes the
+ * batch, so parents still reach the cloud before their children. A record whose
+ * earlier change is waiting (backing off or dead-lettered) keeps its later
+ * changes waiting too; every other record moves on.
+ */
+const drainQueue = async () => {
+  await compactQueue();
+
+  const queue = await db.sync_queue.orderBy('id').toArray();
+  const blocked = new Set<string>();
+  const now = Date.now();
+  let group: SyncQueueItem[] = [];
+
+  const flush = async () => {
+    if (group.length > 0) await pushGroup(group, blocked);
+    group = [];
+  };
+
+  for (const item of queue) {
+    const key = recordKey(item);
+    // A second change to a record waits for the outcome of the first
+    if (group.some(queued => recordKey(queued) === key)) await flush();
+    if (blocked.has(key)) continue;
+    if (item.status === 'dead' || (item.next_attempt_at ?? 0) > now) {
+      blocked.add(key);
+      continue;
+    }
+
+    const signature = batchSignature(item);
+    if (group.length > 0 && (signature === null || signature !== batchSignature(group[0]) || group.length >= UPLOAD_BATCH_SIZE)) {
+      await flush();
+    }
+    group.push(item);
+    if (signature === null) await flush();
+  }
+  await flush();
+};
+
+let activeRun: Promise<void> | null = null;
+let rerunRequested = false;
+
+export const syncEngine = {
+  /**
+   * Pushes the queue to the cloud. Calls made while a pass is running are
+   * folded into one more pass afterwards instead of running side by side.
+   */
+  processQueue: async () => {
+    if (!navigator.onLine) return;
+    if (activeRun) {
+      rerunRequested = true;
+      return activeRun;
+    }
+
+    activeRun = (async () => {
+      do {
+        rerunRequested = false;
+        await drainQueue();
+      } while (rerunRequested && navigator.onLine);
+    })().finally(() => {
+      activeRun = null;
+    });
+    return activeRun;
   },
 
   queueChange: async (
-    table: 'projects' | 'bill_items' | 'measurements' | 'profiles', 
+    table: SyncTable, 
     id: string, 
     op: 'INSERT' | 'UPDATE' | 'DELETE', 
     data: Record<string, unknown>
   ) => {
+    // The change is made against whichever server version the local copy last saw
+    const local = await db.table(table).get(id).catch(() => undefined);
+
     await db.sync_queue.add({
       table,
       record_id: id,
       operation: op,
       payload: data,
+      base_version: (local as { server_version?: string | null } | undefined)?.server_version ?? null,
+      status: 'pending',
+      attempts: 0,
       created_at: Date.now()
     });
     
@@ -187,7 +905,7 @@ export const syncEngine = {
   }
 };
 
-/** --- 5. ADMIN SERVICE (COMMAND CENTER LOGIC) --- **/
+/** --- 7. ADMIN SERVICE (COMMAND CENTER LOGIC) --- **/
 
 export const adminService = {
   supabase,
@@ -195,8 +913,8 @@ export const adminService = {
   getGlobalStats: async () => {
     const [uRes, pRes, mRes] = await Promise.all([
       supabase.from('profiles').select('*', { count: 'exact', head: true }),
-      supabase.from('projects').select('*', { count: 'exact', head: true }),
-      supabase.from('measurements').select('*', { count: 'exact', head: true })
+      supabase.from('projects').select('*', { count: 'exact', head: true }).is('deleted_at', null),
+      supabase.from('measurements').select('*', { count: 'exact', head: true }).is('deleted_at', null)
     ]);
     
     return {
@@ -215,7 +933,7 @@ export const adminService = {
     
     if (error) throw error;
 
-    const { data: projects } = await supabase.from('projects').select('user_id');
+    const { data: projects } = await supabase.from('projects').select('user_id').is('deleted_at', null);
     
     return (profiles as Profile[]).map(p => ({
       ...p,
@@ -223,14 +941,19 @@ export const adminService = {
     }));
   },
 
-  getAllProjects: async () => {
-    const { data, error } = await supabase
+  /**
+   * Every live project, or with `binned` the ones waiting in the recycle bin.
+   */
+  getAllProjects: async (binned = false) => {
+    let query = supabase
       .from('projects')
       .select(`
         *,
         profiles:user_id (username)
-      `)
-      .order('created_at', { ascending: false });
+      `);
+    query = binned ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+    const { data, error } = await query.order(binned ? 'deleted_at' : 'created_at', { ascending: false });
 
     if (error) throw error;
 
@@ -255,7 +978,24 @@ export const adminService = {
     }
   },
 
+  /**
+   * Moves a project to the recycle bin. Its records stay intact until the
+   * retention window runs out or it is purged by hand.
+   */
   deleteProject: async (projectId: string) => {
+    const { error } = await supabase.rpc('set_project_binned', { target: projectId, binned: true });
+    if (error) throw error;
+  },
+
+  restoreProject: async (projectId: string) => {
+    const { error } = await supabase.rpc('set_project_binned', { target: projectId, binned: false });
+    if (error) throw error;
+  },
+
+  /**
+   * Deletes a binned project for good, with everything recorded under it.
+   */
+  purgeProject: async (projectId: string) => {
     const { error } = await supabase
       .from('projects')
       .delete()
@@ -268,5 +1008,41 @@ export const adminService = {
     } catch (e) {
       // Record not present in local admin cache
     }
+  },
+
+  /**
+   * Purges everything that has outlived the retention window. Returns how many
+   * projects and measurements went.
+   */
+  purgeExpired: async (): Promise<number> => {
+    const { data, error } = await supabase.rpc('purge_recycle_bin');
+    if (error) throw error;
+    return (data as number) ?? 0;
+  },
+
+  /**
+   * Newest audit entries first, narrowed by the filter. Date bounds are whole
+   * days, so `to` includes everything logged on that date.
+   */
+  getAuditLog: async (filter: AuditFilter = {}, limit = 500): Promise<AuditEntry[]> => {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+    if (filter.action) query = query.eq('action', filter.action);
+    if (filter.target?.trim()) query = query.ilike('target_label', `%${filter.target.trim()}%`);
+    if (filter.from) query = query.gte('created_at', new Date(`${filter.from}T00:00:00`).toISOString());
+    if (filter.to) {
+      const dayAfter = new Date(`${filter.to}T00:00:00`);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      query = query.lt('created_at', dayAfter.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as AuditEntry[];
   }
 };
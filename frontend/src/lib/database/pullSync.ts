@@ -0,0 +1,314 @@
+import { db, supabase, type SyncCursor, type SyncTable } from "./database";
+
+/** --- PULL SYNC (Office Cloud → Device Vault) --- **/
+
+/**
+ * Fired on window after a pull changed the vault, with the affected tables in
+ * `detail`, so open views can re-read their records.
+ */
+export const VAULT_PULLED_EVENT = 'qsvault:pulled';
+
+// Parents before children. Drawings stay push-only: their PDFs live in Storage.
+// Rate history is pull-only: the cloud records it as rates change.
+const PULL_TABLES: SyncTable[] = ['projects', 'project_members', 'bill_items', 'rate_analyses', 'price_books', 'measurements', 'certificates', 'rates', 'rate_history'];
+const PROJECT_TABLES: SyncTable[] = ['bill_items', 'rate_analyses', 'price_books', 'measurements', 'certificates', 'project_members'];
+const PAGE_SIZE = 500;
+
+// Change stamps are taken before the writing transaction commits, so a slow one
+// can land behind a cursor another device already holds. Each pull starts this far
+// back; rows already held at the same version are skipped on arrival.
+const REREAD_WINDOW_MS = 30_000;
+
+export interface CloudRow {
+  id: string;
+  updated_at: string; // Device edit time, used to settle conflicts
+  server_updated_at: string; // Stamped by the database on every write, used to page
+  [column: string]: unknown;
+}
+
+interface Tombstone {
+  id: number;
+  table_name: string;
+  record_id: string;
+  project_id: string | null;
+  deleted_at: string;
+}
+
+interface PageScope {
+  column: string;
+  value: string;
+}
+
+// Where a page starts: after a row, or with record_id null, at a version itself
+type PageStart = { version: string; record_id: string | null };
+
+const rewind = (cursor: SyncCursor | undefined): PageStart | undefined =>
+  cursor && { version: new Date(Date.parse(cursor.version) - REREAD_WINDOW_MS).toISOString(), record_id: null };
+
+/**
+ * Reads one page of rows after the cursor, ordered by (version column, id).
+ * Rows sharing a timestamp are split across pages safely by the id tiebreak.
+ * The version column is always written by the server: a device's own clock
+ * would put work pushed late behind cursors other devices already hold.
+ */
+const fetchPage = async <T>(
+  source: string,
+  versionColumn: string,
+  cursor: PageStart | undefined,
+  scope?: PageScope
+): Promise<T[]> => {
+  let query = supabase
+    .from(source)
+    .select('*')
+    .order(versionColumn, { ascending: true })
+    .order('id', { ascending: true })
+    .limit(PAGE_SIZE);
+
+  if (scope) query = query.eq(scope.column, scope.value);
+
+  if (cursor?.record_id === null) {
+    query = query.gte(versionColumn, cursor.version);
+  } else if (cursor) {
+    const at = `"${cursor.version}"`;
+    query = query.or(`${versionColumn}.gt.${at},and(${versionColumn}.eq.${at},id.gt.${cursor.record_id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as T[];
+};
+
+const saveCursor = (table: SyncCursor['table'], version: string, recordId: string) =>
+  db.sync_cursors.put({ table, version, record_id: recordId, pulled_at: Date.now() });
+
+/**
+ * A record with a change still waiting to go up (queued, dead-lettered or held
+ * in conflict) is left alone; the push side reconciles it against the server.
+ */
+const hasLocalChanges = async (table: SyncTable, recordId: string) => {
+  const [queued, held] = await Promise.all([
+    db.sync_queue.where('record_id').equals(recordId).filter(item => item.table === table).count(),
+    db.sync_conflicts.where('[table+record_id]').equals([table, recordId]).count()
+  ]);
+  return queued + held > 0;
+};
+
+/**
+ * Writes a row from the cloud into the vault unless the device has its own
+ * change to that record still on the way up. Returns whether anything changed.
+ */
+export const applyCloudRow = async (table: SyncTable, pulled: CloudRow, syncedAt = new Date().toISOString()) => {
+  const target = db.table(table);
+  return db.transaction('rw', target, db.sync_queue, db.sync_conflicts, async () => {
+    const row = { ...pulled };
+    delete row.amount; // Generated on the server; the device derives it from quantity and rate
+    if (await hasLocalChanges(table, row.id)) return false;
+
+    const local = await target.get(row.id);
+    if (local) {
+      // An edit made on this device after the server copy wins until it is pushed
+      if (Date.parse(local.updated_at) > Date.parse(row.updated_at)) return false;
+      // Already held, unless the server rewrote the row (e.g. renumbered a certificate) without a new edit time
+      if (local.server_version && Date.parse(local.server_version) === Date.parse(row.updated_at)
+        && (!local.server_updated_at || local.server_updated_at === row.server_updated_at)) return false;
+    }
+
+    await target.put({ ...local, ...row, synced_at: syncedAt, server_version: row.updated_at });
+    return true;
+  });
+};
+
+/**
+ * Removes a record deleted in the cloud, unless the device still has a change
+ * to it waiting to go up. Returns whether anything changed.
+ */
+export const applyCloudDelete = async (table: SyncTable, recordId: string) => {
+  if (await hasLocalChanges(table, recordId)) return false;
+  const target = db.table(table);
+  if (!await target.get(recordId)) return false;
+  await target.delete(recordId);
+  return true;
+};
+
+const pullTable = async (table: SyncTable): Promise<number> => {
+  let cursor = rewind(await db.sync_cursors.get(table));
+  let applied = 0;
+
+  for (;;) {
+    const rows = await fetchPage<CloudRow>(table, 'server_updated_at', cursor);
+    if (rows.length === 0) break;
+
+    const syncedAt = new Date().toISOString();
+    for (const row of rows) {
+      if (await applyCloudRow(table, row, syncedAt)) applied++;
+    }
+
+    const last = rows[rows.length - 1];
+    await saveCursor(table, last.server_updated_at, last.id);
+    cursor = await db.sync_cursors.get(table);
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return applied;
+};
+
+/**
+ * Reads every row of one project, whatever the table cursors say. A project
+ * shared with the surveyor may not have changed since their last pull, so the
+ * regular pull would never bring it down.
+ */
+export const pullProject = async (projectId: string): Promise<SyncTable[]> => {
+  const touched = new Set<SyncTable>();
+  const syncedAt = new Date().toISOString();
+
+  const sources: [SyncTable, PageScope][] = [
+    ['projects', { column: 'id', value: projectId }],
+    ...PROJECT_TABLES.map((table): [SyncTable, PageScope] => [table, { column: 'project_id', value: projectId }])
+  ];
+
+  for (const [table, scope] of sources) {
+    let cursor: PageStart | undefined;
+    for (;;) {
+      const rows = await fetchPage<CloudRow>(table, 'server_updated_at', cursor, scope);
+      for (const row of rows) {
+        if (await applyCloudRow(table, row, syncedAt)) touched.add(table);
+      }
+      if (rows.length < PAGE_SIZE) break;
+      const last = rows[rows.length - 1];
+      cursor = { version: last.server_updated_at, record_id: last.id };
+    }
+  }
+
+  return [...touched];
+};
+
+const currentUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+/**
+ * Projects the surveyor joined whose records have not reached this device yet.
+ */
+const pullJoinedProjects = async (): Promise<SyncTable[]> => {
+  const userId = await currentUserId();
+  if (!userId) return [];
+
+  const memberships = await db.project_members.where('user_id').equals(userId).toArray();
+  const known = await db.projects.bulkGet(memberships.map(m => m.project_id));
+  const touched = new Set<SyncTable>();
+  for (const membership of memberships.filter((_, i) => !known[i])) {
+    for (const table of await pullProject(membership.project_id)) touched.add(table);
+  }
+  return [...touched];
+};
+
+/**
+ * Clears a project and everything recorded under it from the device. Nothing is
+ * queued; callers decide what, if anything, the cloud should hear about it.
+ */
+export const removeProjectLocally = async (projectId: string) => {
+  await db.transaction('rw', [db.projects, db.project_members, db.bill_items, db.rate_analyses, db.price_books, db.measurements, db.drawings, db.certificates], async () => {
+    await Promise.all([
+      db.project_members.where('project_id').equals(projectId).delete(),
+      db.bill_items.where('project_id').equals(projectId).delete(),
+      db.rate_analyses.where('project_id').equals(projectId).delete(),
+      db.price_books.where('project_id').equals(projectId).delete(),
+      db.measurements.where('project_id').equals(projectId).delete(),
+      db.drawings.where('project_id').equals(projectId).delete(),
+      db.certificates.where('project_id').equals(projectId).delete()
+    ]);
+    await db.projects.delete(projectId);
+  });
+};
+
+/**
+ * Removes a shared project from the device once the surveyor is no longer on its
+ * team. The records still exist in the cloud for everyone else.
+ */
+const forgetLeftProject = async (projectId: string) => {
+  const userId = await currentUserId();
+  const project = await db.projects.get(projectId);
+  if (!userId || !project || project.user_id === userId) return false;
+  if (await db.project_members.where('[project_id+user_id]').equals([projectId, userId]).count() > 0) return false;
+
+  await removeProjectLocally(projectId);
+  return true;
+};
+
+/**
+ * Deletions made elsewhere arrive as tombstones written by a server trigger,
+ * since a deleted row can no longer be found by its change stamp.
+ */
+const pullTombstones = async (): Promise<Set<SyncTable>> => {
+  const touched = new Set<SyncTable>();
+  let cursor = rewind(await db.sync_cursors.get('tombstones'));
+
+  for (;;) {
+    const rows = await fetchPage<Tombstone>('tombstones', 'deleted_at', cursor);
+    if (rows.length === 0) break;
+
+    for (const tombstone of rows) {
+      const table = tombstone.table_name as SyncTable;
+      if (PULL_TABLES.includes(table) && await applyCloudDelete(table, tombstone.record_id)) {
+        touched.add(table);
+        // A purged project takes its records with it; their own tombstones may come later
+        if (table === 'projects') await removeProjectLocally(tombstone.record_id);
+      }
+      // Losing a team place takes the shared project off this device
+      if (table === 'project_members' && tombstone.project_id && await forgetLeftProject(tombstone.project_id)) {
+        touched.add('projects');
+      }
+    }
+
+    const last = rows[rows.length - 1];
+    await saveCursor('tombstones', last.deleted_at, String(last.id));
+    cursor = await db.sync_cursors.get('tombstones');
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return touched;
+};
+
+/**
+ * Tells open views which tables just received changes from the cloud.
+ */
+export const announceCloudChanges = (tables: SyncTable[]) => {
+  if (tables.length > 0 && typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(VAULT_PULLED_EVENT, { detail: tables }));
+  }
+};
+
+let activePull: Promise<SyncTable[]> | null = null;
+
+/**
+ * Brings the vault up to date with changes made on other devices. Returns the
+ * tables that changed. Safe to call repeatedly; overlapping calls share one pull.
+ */
+export const pullChanges = (): Promise<SyncTable[]> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return Promise.resolve([]);
+  if (activePull) return activePull;
+
+  activePull = (async () => {
+    const changed = new Set<SyncTable>();
+    for (const table of PULL_TABLES) {
+      if (await pullTable(table) > 0) changed.add(table);
+    }
+    for (const table of await pullJoinedProjects()) changed.add(table);
+    for (const table of await pullTombstones()) changed.add(table);
+
+    const tables = [...changed];
+    announceCloudChanges(tables);
+    return tables;
+  })().finally(() => {
+    activePull = null;
+  });
+
+  return activePull;
+};
+
+/**
+ * Forgets every read position so the next pull re-reads the cloud from the start,
+ * e.g. after a different surveyor signs in on this device.
+ */
+export const resetPullCursors = () => db.sync_cursors.clear();
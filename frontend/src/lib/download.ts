@@ -0,0 +1,41 @@
+/**
+ * Hands a generated file to the browser as a download. Nothing leaves the device.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * File-system safe name from a project or document title.
+ */
+export const safeFileName = (title: string) =>
+  title.trim().replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '_') || 'Untitled';
+
+/**
+ * Opens the browser print dialog for a generated PDF without leaving the page.
+ */
+export const printBlob = (blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.src = url;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60000);
+  };
+  document.body.appendChild(frame);
+};
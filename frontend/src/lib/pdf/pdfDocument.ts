@@ -0,0 +1,178 @@
+/** --- PDF DOCUMENT WRITER (Standard 14 fonts, no embedding) --- **/
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'center' | 'right';
+  gray?: number; // 0 = black, 1 = white
+}
+
+export interface LineOptions {
+  width?: number;
+  dash?: number;
+  gray?: number;
+}
+
+const FONT_RESOURCE: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126, from the Adobe core font metrics
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Punctuation outside Latin-1 that WinAnsiEncoding still carries
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '€': { code: 0x80, width: 556 }
+};
+
+const charWidth = (ch: string, font: PdfFont): number => {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return (font === 'bold' ? HELVETICA_BOLD : HELVETICA)[code - 32];
+  return WIN_ANSI_EXTRAS[ch]?.width ?? 556;
+};
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular'): number =>
+  Array.from(text).reduce((acc, ch) => acc + charWidth(ch, font), 0) * size / 1000;
+
+/**
+ * Breaks text into lines that fit the given width, splitting on spaces.
+ */
+export const wrapText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size, font) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Strings are written byte-for-byte in WinAnsi; unmappable characters become '?'
+const encodeText = (text: string): string =>
+  Array.from(text).map(ch => {
+    const code = ch.charCodeAt(0);
+    const mapped = WIN_ANSI_EXTRAS[ch]?.code ?? (code < 256 ? code : 63);
+    const byte = String.fromCharCode(mapped);
+    return byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+  }).join('');
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+/**
+ * Minimal page-description builder. Coordinates are in points from the top-left
+ * corner of the page, which keeps layout code readable; they are flipped on output.
+ */
+export const createPdf = (size = A4) => {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+
+  const y = (top: number) => size.height - top;
+
+  const doc = {
+    size,
+
+    addPage: () => {
+      ops = [];
+      pages.push(ops);
+      return doc;
+    },
+
+    text: (x: number, top: number, value: string, options: TextOptions = {}) => {
+      const { size: fontSize = 10, font = 'regular', align = 'left', gray = 0 } = options;
+      const width = textWidth(value, fontSize, font);
+      const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+      ops.push(`BT ${num(gray)} g /${FONT_RESOURCE[font]} ${num(fontSize)} Tf ${num(left)} ${num(y(top))} Td (${encodeText(value)}) Tj ET`);
+      return doc;
+    },
+
+    line: (x1: number, top1: number, x2: number, top2: number, options: LineOptions = {}) => {
+      const { width = 0.75, dash, gray = 0 } = options;
+      ops.push(`q ${num(gray)} G ${num(width)} w ${dash ? `[${num(dash)} ${num(dash)}] 0 d` : ''} ${num(x1)} ${num(y(top1))} m ${num(x2)} ${num(y(top2))} l S Q`);
+      return doc;
+    },
+
+    rect: (x: number, top: number, w: number, h: number, options: { fill?: number; stroke?: number; width?: number } = {}) => {
+      const { fill, stroke, width = 0.75 } = options;
+      const paint = fill !== undefined && stroke !== undefined ? 'B' : fill !== undefined ? 'f' : 'S';
+      ops.push(`q ${fill !== undefined ? `${num(fill)} g` : ''} ${stroke !== undefined ? `${num(stroke)} G` : '0 G'} ${num(width)} w ${num(x)} ${num(y(top + h))} ${num(w)} ${num(h)} re ${paint} Q`);
+      return doc;
+    },
+
+    pageCount: () => pages.length,
+
+    toBlob: (title = 'Document'): Blob => {
+      const objects: string[] = [];
+      const fontsId = 3;
+      const firstPageId = 5;
+      const kids = pages.map((_, i) => `${firstPageId + i * 2} 0 R`).join(' ');
+
+      objects[1] = `<< /Type /Catalog /Pages 2 0 R >>`;
+      objects[2] = `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`;
+      objects[fontsId] = `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`;
+      objects[fontsId + 1] = `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>`;
+
+      pages.forEach((pageOps, i) => {
+        const pageId = firstPageId + i * 2;
+        const stream = pageOps.join('\n');
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}] ` +
+          `/Resources << /Font << /F1 ${fontsId} 0 R /F2 ${fontsId + 1} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+      });
+
+      const infoId = objects.length;
+      objects[infoId] = `<< /Title (${encodeText(title)}) /Producer (QS Vault) >>`;
+
+      let body = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = body.length;
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+
+      const xrefOffset = body.length;
+      body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+      }
+      body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+      // Every character above is a single byte, so string offsets are byte offsets
+      return new Blob([Uint8Array.from(body, ch => ch.charCodeAt(0))], { type: 'application/pdf' });
+    }
+  };
+
+  return doc;
+};
+
+export type PdfDocument = ReturnType<typeof createPdf>;
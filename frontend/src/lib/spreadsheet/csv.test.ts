@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('reading CSV', () => {
+  it('splits plain rows and cells', () => {
+    expect(parseCsv('Item,Description,Unit\nA,Excavation,m3\n')).toEqual([
+      ['Item', 'Description', 'Unit'],
+      ['A', 'Excavation', 'm3']
+    ]);
+  });
+
+  it('keeps delimiters, doubled quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('A,"Concrete, class 25","6"" thick"\nB,"Two\nlines",x')).toEqual([
+      ['A', 'Concrete, class 25', '6" thick'],
+      ['B', 'Two\nlines', 'x']
+    ]);
+  });
+
+  it('handles Windows line endings and a byte order mark', () => {
+    expect(parseCsv('﻿Item,Qty\r\nA,12\r\n')).toEqual([['Item', 'Qty'], ['A', '12']]);
+  });
+
+  it('keeps empty cells and a last row without a line break', () => {
+    expect(parseCsv('A,,m2\nB,Walling,')).toEqual([['A', '', 'm2'], ['B', 'Walling', '']]);
+  });
+});
+
+describe('delimiter sniffing', () => {
+  it('detects semicolon separated exports', () => {
+    expect(parseCsv('Item;Description;Rate\nA;Blockwork;1 250,50')).toEqual([
+      ['Item', 'Description', 'Rate'],
+      ['A', 'Blockwork', '1 250,50']
+    ]);
+  });
+
+  it('detects tab separated exports', () => {
+    expect(parseCsv('Item\tDescription\tQty\nA\tHardcore, 150mm\t40')).toEqual([
+      ['Item', 'Description', 'Qty'],
+      ['A', 'Hardcore, 150mm', '40']
+    ]);
+  });
+
+  it('falls back to commas for a single column', () => {
+    expect(parseCsv('Description\nExcavation')).toEqual([['Description'], ['Excavation']]);
+  });
+});
+
+describe('writing CSV', () => {
+  it('quotes only the cells that need it', () => {
+    expect(toCsv([['A', 'Concrete, class 25', 'Say "approx"', 12.5, null, undefined]]))
+      .toBe('A,"Concrete, class 25","Say ""approx""",12.5,,');
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [
+      ['Item', 'Description', 'Unit', 'Qty', 'Rate'],
+      ['A', 'Excavate, cart away\nand dispose', 'm3', '120.5', '850'],
+      ['B', '12" pipe', 'm', '40', '1,200.00']
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
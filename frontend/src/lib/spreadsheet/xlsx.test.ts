@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+// jsdom supplies the DOMParser the reader uses
+import { Blob as NodeBlob } from 'node:buffer';
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it, vi } from 'vitest';
+import { columnLetter, readWorkbook, writeWorkbook, type Worksheet } from './xlsx';
+import { createZip, readZip } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+// jsdom's Blob cannot be read back or streamed; Node's can, as a browser's would
+vi.stubGlobal('Blob', NodeBlob);
+
+const bufferOf = (blob: Blob) => blob.arrayBuffer();
+
+const CONTENT_RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet3.xml"/>
+<Relationship Id="rId8" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/>
+</Relationships>`;
+
+// Laid out the way Excel saves: shared strings, sparse cells and the first sheet not named sheet1.xml
+const EXCEL_FIXTURE = new Map([
+  ['xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Bill No. 2" sheetId="3" r:id="rId7"/></sheets></workbook>`],
+  ['xl/_rels/workbook.xml.rels', CONTENT_RELS],
+  ['xl/sharedStrings.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="4" uniqueCount="4">
+<si><t>Item</t></si><si><t>Description</t></si><si><r><t>Excavate </t></r><r><rPr><b/></rPr><t>over site</t></r></si><si><t>m3</t></si>
+</sst>`],
+  ['xl/worksheets/sheet3.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>
+<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+<row r="3"><c r="A3"><v>1</v></c><c r="B3" t="s"><v>2</v></c><c r="D3" t="s"><v>3</v></c><c r="E3"><v>120.5</v></c></row>
+</sheetData></worksheet>`]
+]);
+
+/**
+ * A one-entry archive with the entry deflated, as spreadsheet apps save them.
+ */
+const deflatedZip = (name: string, content: string): ArrayBuffer => {
+  const nameBytes = encode(name);
+  const raw = encode(content);
+  const packed = new Uint8Array(deflateRawSync(raw));
+  const buffer = new ArrayBuffer(30 + nameBytes.length + packed.length + 46 + nameBytes.length + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(8, 8, true);
+  view.setUint32(18, packed.length, true);
+  view.setUint32(22, raw.length, true);
+  view.setUint16(26, nameBytes.length, true);
+  bytes.set(nameBytes, 30);
+  bytes.set(packed, 30 + nameBytes.length);
+
+  const central = 30 + nameBytes.length + packed.length;
+  view.setUint32(central, 0x02014b50, true);
+  view.setUint16(central + 10, 8, true);
+  view.setUint32(central + 20, packed.length, true);
+  view.setUint32(central + 24, raw.length, true);
+  view.setUint16(central + 28, nameBytes.length, true);
+  bytes.set(nameBytes, central + 46);
+
+  const end = central + 46 + nameBytes.length;
+  view.setUint32(end, 0x06054b50, true);
+  view.setUint16(end + 8, 1, true);
+  view.setUint16(end + 10, 1, true);
+  view.setUint32(end + 12, 46 + nameBytes.length, true);
+  view.setUint32(end + 16, central, true);
+  return buffer;
+};
+
+describe('zip container', () => {
+  it('reads back the entries it packs', async () => {
+    const zip = createZip([
+      { name: 'a.txt', data: encode('Bill of quantities') },
+      { name: 'folder/b.xml', data: encode('<x>Ksh 1,250</x>') }
+    ]);
+    const files = await readZip(await bufferOf(zip));
+    expect([...files.keys()]).toEqual(['a.txt', 'folder/b.xml']);
+    expect(decode(files.get('folder/b.xml'))).toBe('<x>Ksh 1,250</x>');
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'Excavation '.repeat(200);
+    const files = await readZip(deflatedZip('xl/sharedStrings.xml', text));
+    expect(decode(files.get('xl/sharedStrings.xml'))).toBe(text);
+  });
+
+  it('refuses files that are not zip archives', async () => {
+    await expect(readZip(encode('Item,Description\nA,Excavation').buffer as ArrayBuffer)).rejects.toThrow(/not a valid xlsx/i);
+  });
+});
+
+describe('workbook round trip', () => {
+  const SHEET: Worksheet = {
+    name: 'Bill No. 1 - Substructure & <Drainage>',
+    columnWidths: [8, 50, 8, 12, 14, 16],
+    rows: [
+      [{ value: 'BILL NO. 1', style: 'heading' }],
+      [{ value: 'Item', style: 'bold' }, { value: 'Description', style: 'bold' }, { value: 'Unit', style: 'bold' }, { value: 'Qty', style: 'bold' }, { value: 'Rate', style: 'bold' }, { value: 'Amount', style: 'bold' }],
+      [{ value: 'A' }, { value: 'Excavate "black cotton" soil & cart away <2km' }, { value: 'm3' }, { value: 120.5 }, { value: 850, style: 'money' }, { value: 102425, style: 'money', formula: 'D3*E3' }],
+      [null, { value: '' }, null, { value: null }],
+      [{ value: 'B' }, { value: '  Leading and trailing spaces  ' }, { value: 'nr' }, { value: 3 }, { value: 0.125 }, { value: 0.375, formula: 'D5*E5' }]
+    ]
+  };
+
+  it('reads back the values it writes, cached formula results included', async () => {
+    const grid = await readWorkbook(await bufferOf(writeWorkbook([SHEET])));
+    expect(grid).toEqual([
+      ['BILL NO. 1'],
+      ['Item', 'Description', 'Unit', 'Qty', 'Rate', 'Amount'],
+      ['A', 'Excavate "black cotton" soil & cart away <2km', 'm3', '120.5', '850', '102425'],
+      ['', '', '', ''],
+      ['B', '  Leading and trailing spaces  ', 'nr', '3', '0.125', '0.375']
+    ]);
+  });
+
+  it('writes formulas alongside their values', async () => {
+    const files = await readZip(await bufferOf(writeWorkbook([SHEET])));
+    expect(decode(files.get('xl/worksheets/sheet1.xml'))).toContain('<c r="F3" s="2"><f>D3*E3</f><v>102425</v></c>');
+  });
+
+  it('reads the first sheet of a multi-sheet workbook', async () => {
+    const summary: Worksheet = { name: 'Summary', rows: [[{ value: 'Grand total' }, { value: 500 }]] };
+    const grid = await readWorkbook(await bufferOf(writeWorkbook([summary, SHEET])));
+    expect(grid).toEqual([['Grand total', '500']]);
+  });
+
+  it('reads an Excel file with shared strings and gaps', async () => {
+    const zip = createZip([...EXCEL_FIXTURE].map(([name, content]) => ({ name, data: encode(content) })));
+    expect(await readWorkbook(await bufferOf(zip))).toEqual([
+      ['Item', 'Description'],
+      [],
+      ['1', 'Excavate over site', '', 'm3', '120.5']
+    ]);
+  });
+});
+
+describe('column letters', () => {
+  it('counts A to Z, then AA onwards', () => {
+    expect([0, 1, 25, 26, 27, 51, 52, 701, 702].map(columnLetter))
+      .toEqual(['A', 'B', 'Z', 'AA', 'AB', 'AZ', 'BA', 'ZZ', 'AAA']);
+  });
+});
@@ -0,0 +1,177 @@
+import { createZip, readZip } from "./zip";
+
+/** --- 1. WORKBOOK MODEL --- **/
+
+export type CellStyle = 'text' | 'bold' | 'money' | 'boldMoney' | 'heading';
+
+export interface Cell {
+  value: string | number | null;
+  style?: CellStyle;
+  /** Written alongside the cached value so totals stay live when the sheet is edited */
+  formula?: string;
+}
+
+export interface Worksheet {
+  name: string;
+  columnWidths?: number[];
+  rows: (Cell | null)[][];
+}
+
+// Style indices into the cellXfs table written by stylesXml
+const STYLE_INDEX: Record<CellStyle, number> = {
+  text: 0,
+  bold: 1,
+  money: 2,
+  boldMoney: 3,
+  heading: 4
+};
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** --- 2. WRITER --- **/
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const cellXml = (cell: Cell, ref: string): string => {
+  const style = STYLE_INDEX[cell.style ?? 'text'];
+  const formula = cell.formula ? `<f>${escapeXml(cell.formula)}</f>` : '';
+  if (typeof cell.value === 'number') {
+    return `<c r="${ref}" s="${style}">${formula}<v>${cell.value}</v></c>`;
+  }
+  if (cell.value === null || cell.value === '') {
+    return formula ? `<c r="${ref}" s="${style}">${formula}</c>` : `<c r="${ref}" s="${style}"/>`;
+  }
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+};
+
+const sheetXml = (sheet: Worksheet): string => {
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row
+      .map((cell, c) => (cell ? cellXml(cell, `${columnLetter(c)}${r + 1}`) : ''))
+      .join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const stylesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+/**
+ * Builds an XLSX workbook entirely on the device.
+ */
+export const writeWorkbook = (sheets: Worksheet[]): Blob => {
+  const encoder = new TextEncoder();
+  const file = (name: string, content: string) => ({ name, data: encoder.encode(content) });
+
+  const sheetEntries = sheets.map((sheet, i) => file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)));
+
+  const zip = createZip([
+    file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`),
+    file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+    file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map((s, i) => `<sheet name="${escapeXml(s.name.slice(0, 31))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`),
+    file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+    file('xl/styles.xml', stylesXml),
+    ...sheetEntries
+  ]);
+
+  return new Blob([zip], { type: XLSX_MIME });
+};
+
+/** --- 3. READER --- **/
+
+const parseXml = (data: Uint8Array | undefined): Document | null =>
+  data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const textOf = (node: Element): string =>
+  Array.from(node.getElementsByTagName('t')).map(t => t.textContent ?? '').join('');
+
+/**
+ * Reads the first worksheet of an XLSX file as a grid of display strings.
+ */
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const files = await readZip(buffer);
+
+  const sharedStrings = Array.from(parseXml(files.get('xl/sharedStrings.xml'))?.getElementsByTagName('si') ?? [])
+    .map(textOf);
+
+  // Resolve the first sheet through the workbook relationships rather than assuming sheet1.xml
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id') ?? firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const rels = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const target = Array.from(rels?.getElementsByTagName('Relationship') ?? [])
+    .find(r => r.getAttribute('Id') === relId)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+  const sheet = parseXml(files.get(sheetPath));
+  if (!sheet) throw new Error('Workbook has no readable worksheet');
+
+  const grid: string[][] = [];
+  for (const row of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowIndex = Number(row.getAttribute('r') ?? grid.length + 1) - 1;
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((c, i) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute('t');
+      const raw = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      cells[col] = type === 's' ? sharedStrings[Number(raw)] ?? ''
+        : type === 'inlineStr' ? textOf(c)
+        : raw;
+    });
+    grid[rowIndex] = Array.from(cells, v => v ?? '');
+  }
+  return Array.from(grid, r => r ?? []);
+};